@@ -0,0 +1,292 @@
+// Machroub service worker: offline caching of the app shell, seller data and map tiles,
+// and web push notifications that open their link on click
+
+const LOCAL_PUSH_MESSAGE = 'machroub:local-push';
+const CACHE_TILES_MESSAGE = 'machroub:cache-tiles';
+const CLEAR_DATA_MESSAGE = 'machroub:clear-data';
+
+// Bump the version when the caching rules change; activate deletes the old caches
+const CACHE_VERSION = 'v2';
+const SHELL_CACHE = `machroub-shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `machroub-assets-${CACHE_VERSION}`;
+const DATA_CACHE = `machroub-data-${CACHE_VERSION}`;
+const TILE_CACHE = `machroub-tiles-${CACHE_VERSION}`;
+const CURRENT_CACHES = [SHELL_CACHE, ASSET_CACHE, DATA_CACHE, TILE_CACHE];
+
+const SHELL_URLS = ['/', '/site.webmanifest', '/favicon.ico', '/icon.svg'];
+const CDN_URLS = [
+  'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css',
+  'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-icon.png',
+  'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-icon-2x.png',
+  'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-shadow.png'
+];
+
+// Supabase reads served stale-while-revalidate: sellers, their drinks and the nearby search
+const DATA_PATHS = ['/rest/v1/sellers', '/rest/v1/drinks', '/rest/v1/rpc/find_nearby_sellers'];
+// The nearby search is a POST whose body holds the coordinates; offline, the last answer
+// is better than nothing even if the GPS position moved a little
+const NEARBY_SELLERS_PATH = '/rest/v1/rpc/find_nearby_sellers';
+// Only these change rows; HEAD count queries and the like leave the cache alone
+const WRITE_METHODS = ['POST', 'PATCH', 'PUT', 'DELETE'];
+
+const MAX_TILES = 600;
+const MAX_DATA_ENTRIES = 200;
+
+// Vite's hashed bundles are listed in index.html; caching them at install means the
+// first offline launch works, not just the second
+const getShellAssetUrls = (html) =>
+  Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1]);
+
+const precacheShell = async () => {
+  const shell = await caches.open(SHELL_CACHE);
+  await shell.addAll(SHELL_URLS);
+
+  const index = await shell.match('/');
+  const assets = await caches.open(ASSET_CACHE);
+  if (index) await assets.addAll(getShellAssetUrls(await index.text()));
+
+  await Promise.all(CDN_URLS.map((url) =>
+    fetch(url, { mode: 'cors' })
+      .then((response) => response.ok && assets.put(url, response))
+      .catch(() => undefined)
+  ));
+};
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+// Storage can run out (opaque tiles count several MB each against the quota); a response
+// that arrived fine is still returned when it can't be kept
+const storeResponse = async (cacheName, key, response, maxEntries) => {
+  try {
+    const cache = await caches.open(cacheName);
+    await cache.put(key, response);
+    if (maxEntries) await trimCache(cacheName, maxEntries);
+  } catch (error) {
+    console.warn('Caching failed:', error);
+  }
+};
+
+// Row-level security makes answers depend on who asks. The access token changes every
+// hour but its `sub` claim (the user id) doesn't, so that is what keys the cache.
+const getRequestIdentity = (request) => {
+  const token = (request.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return payload.sub || payload.role || 'anon';
+  } catch {
+    return 'anon';
+  }
+};
+
+// The Cache API only stores GETs and ignores headers, so the key carries the user, the
+// POST body and the Accept header (PostgREST answers .single() and list queries differently)
+const getDataCacheKey = async (request) => {
+  const url = new URL(request.url);
+  const body = request.method === 'POST' ? await request.clone().text() : '';
+  url.searchParams.set('sw_key', `${getRequestIdentity(request)}|${request.headers.get('accept') || ''}|${body}`);
+  return url.href;
+};
+
+const staleWhileRevalidate = async (event, request) => {
+  const cache = await caches.open(DATA_CACHE);
+  const key = await getDataCacheKey(request);
+  const latestKey = new URL(`${NEARBY_SELLERS_PATH}?sw_key=${encodeURIComponent(getRequestIdentity(request))}|latest`, request.url).href;
+  const isNearbySearch = new URL(request.url).pathname === NEARBY_SELLERS_PATH;
+
+  const network = fetch(request).then(async (response) => {
+    if (response.ok) {
+      if (isNearbySearch) await storeResponse(DATA_CACHE, latestKey, response.clone());
+      await storeResponse(DATA_CACHE, key, response.clone(), MAX_DATA_ENTRIES);
+    }
+    return response;
+  });
+
+  const cached = await cache.match(key);
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+
+  try {
+    return await network;
+  } catch (error) {
+    const fallback = isNearbySearch ? await cache.match(latestKey) : undefined;
+    if (fallback) return fallback;
+    throw error;
+  }
+};
+
+// A seller editing their profile or menu must not get the old copy back on the next read
+const invalidateData = async (pathname) => {
+  const cache = await caches.open(DATA_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys
+    .filter((key) => [pathname, NEARBY_SELLERS_PATH].includes(new URL(key.url).pathname))
+    .map((key) => cache.delete(key)));
+};
+
+const cacheFirst = async (event, request, cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Tiles load as opaque <img> responses; status 0 is as good as it gets
+  if (response.ok || response.type === 'opaque') {
+    event.waitUntil(storeResponse(cacheName, request, response.clone(), maxEntries));
+  }
+  return response;
+};
+
+// Pages are fetched fresh and fall back to the cached shell; the router takes it from there
+const networkFirstPage = async (request) => {
+  const shell = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok && new URL(request.url).pathname === '/') await storeResponse(SHELL_CACHE, '/', response.clone());
+    return response;
+  } catch (error) {
+    const cached = await shell.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheTiles = async (urls) => {
+  const cache = await caches.open(TILE_CACHE);
+  for (const url of urls) {
+    if (await cache.match(url)) continue;
+    try {
+      const response = await fetch(url, { mode: 'no-cors' });
+      await cache.put(url, response);
+    } catch {
+      // Offline again or the tile server refused; the map fetches it later
+    }
+  }
+  await trimCache(TILE_CACHE, MAX_TILES);
+};
+
+const showPushNotification = (payload) => {
+  const title = payload.title || 'Machroub';
+  return self.registration.showNotification(title, {
+    body: payload.body || '',
+    tag: payload.tag,
+    icon: '/favicon.ico',
+    badge: '/favicon.ico',
+    data: { url: payload.url || '/' }
+  });
+};
+
+self.addEventListener('install', (event) => {
+  self.skipWaiting();
+  event.waitUntil(precacheShell().catch((error) => console.warn('Precaching failed:', error)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names
+        .filter((name) => name.startsWith('machroub-') && !CURRENT_CACHES.includes(name))
+        .map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (DATA_PATHS.includes(url.pathname)) {
+    const isRead = request.method === 'GET' || (request.method === 'POST' && url.pathname === NEARBY_SELLERS_PATH);
+    // Placing an order checks prices, availability and hours, which must not come from a stale copy
+    const wantsFresh = /no-cache/i.test(request.headers.get('cache-control') || '');
+    if (isRead && wantsFresh) return;
+    if (isRead) {
+      event.respondWith(staleWhileRevalidate(event, request));
+    } else if (WRITE_METHODS.includes(request.method)) {
+      event.respondWith(fetch(request).then(async (response) => {
+        await invalidateData(url.pathname);
+        return response;
+      }));
+    }
+    return;
+  }
+
+  if (request.method !== 'GET') return;
+
+  if (/^[abc]\.tile\.openstreetmap\.org$/.test(url.hostname)) {
+    event.respondWith(cacheFirst(event, request, TILE_CACHE, MAX_TILES));
+    return;
+  }
+
+  if (CDN_URLS.includes(request.url)) {
+    event.respondWith(cacheFirst(event, request, ASSET_CACHE));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+
+  // Hashed file names never change content, so the cached copy is always right
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(event, request, ASSET_CACHE));
+    return;
+  }
+
+  if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(
+      fetch(request).catch(() => caches.match(request).then((cached) => cached || Response.error()))
+    );
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+  event.waitUntil(showPushNotification(payload));
+});
+
+self.addEventListener('message', (event) => {
+  if (!event.data) return;
+
+  // The local stand-in posts the same payload a push would carry
+  if (event.data.type === LOCAL_PUSH_MESSAGE) {
+    event.waitUntil(showPushNotification(event.data.payload || {}));
+  }
+
+  if (event.data.type === CACHE_TILES_MESSAGE && Array.isArray(event.data.urls)) {
+    event.waitUntil(cacheTiles(event.data.urls));
+  }
+
+  // Signing out drops the signed-in user's cached reads from this device
+  if (event.data.type === CLEAR_DATA_MESSAGE) {
+    event.waitUntil(caches.delete(DATA_CACHE));
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL((event.notification.data && event.notification.data.url) || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((candidate) => candidate.url.startsWith(self.location.origin));
+      if (client) {
+        return client.focus().then((focused) => focused.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -4,10 +4,17 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Link, useNavigate } from "react-router-dom";
 import { UserProvider, useUser } from "./contexts/UserContext";
+import { CartProvider } from "./contexts/CartContext";
+import { PreferencesProvider } from "./contexts/PreferencesContext";
+import { NotificationsProvider } from "./contexts/NotificationsContext";
+import { ThemeProvider } from "next-themes";
+import { CartDrawer } from "./components/CartDrawer";
+import { OfflineBanner } from "./components/OfflineBanner";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { useEffect } from "react";
 import { initGA, trackPageView, initScrollTracking, trackWebVitals } from "@/utils/analytics";
 import { Analytics } from "@vercel/analytics/react";
+import { flushQueuedAnalyticsEvents } from "@/lib/supabase";
 // Initialize i18n
 import "./i18n";
 // SECURITY FIX: Only import debug utilities in development
@@ -47,10 +54,15 @@ import CompleteProfile from "./pages/CompleteProfile";
 import AddListing from "./pages/AddListing";
 import EditListing from "./pages/EditListing";
 import SellerDetails from "./pages/SellerDetails";
+import PublicMenu from "./pages/PublicMenu";
+import CityLanding from "./pages/CityLanding";
 import SellerDashboard from "./pages/SellerDashboard";
 
 import ItemDetail from "./pages/ItemDetail";
 import Profile from "./pages/Profile";
+import ModerationQueue from "./pages/ModerationQueue";
+import Messages from "./pages/Messages";
+import LoyaltyStamp from "./pages/LoyaltyStamp";
 
 import ProtectedRoute from "./components/ProtectedRoute";
 import SettingsPage from "./pages/Settings";
@@ -317,21 +329,31 @@ const App = () => {
     window.addEventListener('error', handleUnhandledError);
     window.addEventListener('unhandledrejection', handleUnhandledRejection);
 
+    // Seller views recorded while offline are sent once the connection is back
+    flushQueuedAnalyticsEvents();
+    window.addEventListener('online', flushQueuedAnalyticsEvents);
+
     return () => {
       window.removeEventListener('error', handleUnhandledError);
       window.removeEventListener('unhandledrejection', handleUnhandledRejection);
+      window.removeEventListener('online', flushQueuedAnalyticsEvents);
     };
   }, []);
 
   return (
     <ErrorBoundary>
       <QueryClientProvider client={queryClient}>
+        <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
         <TooltipProvider>
           <BrowserRouter>
             <UserProvider>
+              <PreferencesProvider>
+              <NotificationsProvider>
+              <CartProvider>
                 <Toaster />
                 <Sonner />
                 <Analytics />
+                <CartDrawer />
                 <ErrorBoundary>
                   <SidebarProvider defaultOpen={false}>
                     <Sidebar collapsible="offcanvas">
@@ -340,6 +362,7 @@ const App = () => {
                       </SidebarContent>
                     </Sidebar>
                     <SidebarInset>
+                      <OfflineBanner />
                       <Routes>
                         <Route path="/" element={<Landing />} />
                         <Route path="/landing" element={<Landing />} />
@@ -366,6 +389,8 @@ const App = () => {
                           </ProtectedRoute>
                         } />
                         <Route path="/seller/:id" element={<SellerDetails />} />
+                        <Route path="/menu/:slug" element={<PublicMenu />} />
+                        <Route path="/city/:citySlug" element={<CityLanding />} />
                         <Route path="/item/:itemId" element={<ItemDetail />} />
                         <Route path="/seller-dashboard" element={
                           <ProtectedRoute requireAuth={true} requireUserType="seller">
@@ -379,6 +404,29 @@ const App = () => {
                           </ProtectedRoute>
                         } />
 
+                        <Route path="/messages" element={
+                          <ProtectedRoute requireAuth={true}>
+                            <Messages />
+                          </ProtectedRoute>
+                        } />
+                        <Route path="/messages/:conversationId" element={
+                          <ProtectedRoute requireAuth={true}>
+                            <Messages />
+                          </ProtectedRoute>
+                        } />
+
+                        <Route path="/loyalty/stamp/:code" element={
+                          <ProtectedRoute requireAuth={true} requireUserType="seller">
+                            <LoyaltyStamp />
+                          </ProtectedRoute>
+                        } />
+
+                        <Route path="/moderation" element={
+                          <ProtectedRoute requireAuth={true}>
+                            <ModerationQueue />
+                          </ProtectedRoute>
+                        } />
+
                         <Route path="/settings" element={<SettingsPage />} />
                         <Route path="/help" element={<Help />} />
                         <Route path="/terms" element={<Terms />} />
@@ -399,9 +447,13 @@ const App = () => {
                     </SidebarInset>
                   </SidebarProvider>
                 </ErrorBoundary>
+              </CartProvider>
+              </NotificationsProvider>
+              </PreferencesProvider>
               </UserProvider>
             </BrowserRouter>
         </TooltipProvider>
+        </ThemeProvider>
       </QueryClientProvider>
     </ErrorBoundary>
   );
@@ -3,10 +3,12 @@ import { MapPin, Search, Navigation } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
+import { Badge, badgeVariants } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { LocationPicker } from './LocationPicker';
 import { searchAddresses, type Coordinates, type GeocodeResult } from '@/utils/geocoding';
+import { isLowConfidence } from '@/utils/geocodingProviders';
 
 interface AddressInputProps {
   value: string;
@@ -31,12 +33,14 @@ export const AddressInput: React.FC<AddressInputProps> = ({
   const [isSearching, setIsSearching] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [showLocationPicker, setShowLocationPicker] = useState(false);
-  const [searchTimeout, setSearchTimeout] = useState<NodeJS.Timeout | null>(null);
+  const [isApproximate, setIsApproximate] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
+  // searchAddresses() is debounced, so answers to earlier keystrokes can arrive late
+  const latestQueryRef = useRef('');
 
-  // Handle search with debouncing
   const handleSearch = async (query: string) => {
+    latestQueryRef.current = query;
     if (!query || query.length < 3) {
       setSearchResults([]);
       setShowResults(false);
@@ -46,35 +50,29 @@ export const AddressInput: React.FC<AddressInputProps> = ({
     setIsSearching(true);
     try {
       const results = await searchAddresses(query, 5);
+      if (latestQueryRef.current !== query) return;
       setSearchResults(results);
       setShowResults(true);
     } catch (error) {
+      if (latestQueryRef.current !== query) return;
       console.error('Address search failed:', error);
       setSearchResults([]);
       setShowResults(false);
     } finally {
-      setIsSearching(false);
+      if (latestQueryRef.current === query) setIsSearching(false);
     }
   };
 
-  // Handle input change with debouncing
   const handleInputChange = (inputValue: string) => {
     onChange(inputValue);
-    
-    if (searchTimeout) {
-      clearTimeout(searchTimeout);
-    }
-    
-    const timeout = setTimeout(() => {
-      handleSearch(inputValue);
-    }, 300);
-    
-    setSearchTimeout(timeout);
+    setIsApproximate(false);
+    handleSearch(inputValue);
   };
 
   // Handle result selection
   const handleResultSelect = (result: GeocodeResult) => {
     onChange(result.formattedAddress, result.coordinates);
+    setIsApproximate(isLowConfidence(result));
     setShowResults(false);
     inputRef.current?.blur();
   };
@@ -82,6 +80,7 @@ export const AddressInput: React.FC<AddressInputProps> = ({
   // Handle location picker selection
   const handleLocationPickerSelect = (address: string, coords: Coordinates) => {
     onChange(address, coords);
+    setIsApproximate(false);
     setShowLocationPicker(false);
   };
 
@@ -103,15 +102,6 @@ export const AddressInput: React.FC<AddressInputProps> = ({
     };
   }, []);
 
-  // Cleanup timeout on unmount
-  useEffect(() => {
-    return () => {
-      if (searchTimeout) {
-        clearTimeout(searchTimeout);
-      }
-    };
-  }, [searchTimeout]);
-
   return (
     <div className={`relative ${className}`}>
       <div className="flex flex-col sm:flex-row gap-2">
@@ -187,6 +177,11 @@ export const AddressInput: React.FC<AddressInputProps> = ({
                     </p>
                     <p className="text-xs text-gray-500 mt-1">
                       {result.coordinates.latitude.toFixed(4)}, {result.coordinates.longitude.toFixed(4)}
+                      {isLowConfidence(result) && (
+                        <span className={cn(badgeVariants({ variant: "outline" }), "ml-2 text-[10px] border-amber-300 text-amber-700")}>
+                          Approximate
+                        </span>
+                      )}
                     </p>
                   </div>
                 </div>
@@ -203,6 +198,11 @@ export const AddressInput: React.FC<AddressInputProps> = ({
             <Navigation className="w-3 h-3 mr-1" />
             {coordinates.latitude.toFixed(6)}, {coordinates.longitude.toFixed(6)}
           </Badge>
+          {isApproximate && (
+            <p className="text-xs text-amber-700 mt-1">
+              This address only matched approximately. Use the map picker to pin your exact location.
+            </p>
+          )}
         </div>
       )}
 
@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from "react";
+import { Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { SellerService } from "@/services/sellerService";
+import { getSellerSchedule } from "@/utils/businessHours";
+import {
+  AvailabilityMode,
+  AVAILABILITY_MODES,
+  PAUSE_DURATIONS_MINUTES,
+  SellerAvailabilityFields,
+  getAvailabilityMode,
+  getEffectiveAvailability,
+  formatAvailability
+} from "@/utils/sellerAvailability";
+
+interface AvailabilityControlProps {
+  sellerId: string;
+}
+
+// Seller-side availability: manual switch, follow the opening hours, or hours with short pauses
+export const AvailabilityControl = ({ sellerId }: AvailabilityControlProps) => {
+  const { toast } = useToast();
+  const [seller, setSeller] = useState<SellerAvailabilityFields | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  const loadAvailability = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSeller(await SellerService.getSellerById(sellerId));
+    } catch (error) {
+      toast({ title: "Couldn't load your availability", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [sellerId, toast]);
+
+  useEffect(() => {
+    loadAvailability();
+  }, [loadAvailability]);
+
+  // Keep the status line current as hours start, end or a pause runs out
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const save = async (update: () => Promise<SellerAvailabilityFields>) => {
+    setSaving(true);
+    try {
+      setSeller(await update());
+      setNow(new Date());
+    } catch (error) {
+      toast({ title: "Couldn't update your availability", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading your availability...</p>;
+  }
+
+  if (!seller) return null;
+
+  const mode = getAvailabilityMode(seller);
+  const hasSchedule = !!getSellerSchedule(seller);
+  const availability = getEffectiveAvailability(seller, now);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm">
+        <span className={`w-2.5 h-2.5 rounded-full ${availability.isAvailable ? 'bg-green-500' : 'bg-gray-400'}`} />
+        <span className="font-medium text-gray-800">{availability.isAvailable ? 'Buyers see you as available' : 'Buyers see you as unavailable'}</span>
+        <span className="text-gray-500">· {formatAvailability(availability)}</span>
+      </div>
+
+      <RadioGroup
+        value={mode}
+        onValueChange={(value) => save(() => SellerService.setAvailabilityMode(sellerId, value as AvailabilityMode))}
+        disabled={saving}
+        className="space-y-2"
+      >
+        {AVAILABILITY_MODES.map(option => {
+          const needsSchedule = option.value !== 'manual' && !hasSchedule;
+          return (
+            <div key={option.value} className="flex items-start gap-3 p-3 bg-white/50 rounded-xl">
+              <RadioGroupItem
+                value={option.value}
+                id={`availability-${option.value}`}
+                disabled={saving || needsSchedule}
+                className="mt-0.5"
+              />
+              <Label htmlFor={`availability-${option.value}`} className="flex-1 cursor-pointer">
+                <span className="block text-sm font-medium text-gray-800">{option.label}</span>
+                <span className="block text-xs text-gray-500 font-normal">
+                  {needsSchedule ? 'Set your opening hours on your profile to use this' : option.description}
+                </span>
+              </Label>
+            </div>
+          );
+        })}
+      </RadioGroup>
+
+      {mode === 'manual' && (
+        <div className="flex items-center gap-3">
+          <Switch
+            checked={!!seller.is_available}
+            onCheckedChange={(checked) => save(() => SellerService.setManualAvailability(sellerId, checked))}
+            disabled={saving}
+            aria-label="Available"
+          />
+          <span className="text-sm text-gray-700">{seller.is_available ? 'Online' : 'Offline'}</span>
+        </div>
+      )}
+
+      {mode === 'schedule_with_pause' && (
+        availability.reason === 'paused' ? (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => save(() => SellerService.resumeSeller(sellerId))}
+            disabled={saving}
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Resume now
+          </Button>
+        ) : (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-600 flex items-center gap-1">
+              <Pause className="w-4 h-4" />
+              Pause for
+            </span>
+            {PAUSE_DURATIONS_MINUTES.map(minutes => (
+              <Button
+                key={minutes}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => save(() => SellerService.pauseSeller(sellerId, minutes))}
+                disabled={saving}
+              >
+                {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+              </Button>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
@@ -52,7 +52,7 @@ export const BottomNavigation = ({ activeTab, onTabChange, className }: BottomNa
 
   return (
     <div className={cn(
-      "fixed bottom-0 left-0 right-0 bg-card/95 backdrop-blur-md border-t border-border/50 z-50",
+      "fixed bottom-0 inset-x-0 bg-card/95 backdrop-blur-md border-t border-border/50 z-50",
       "md:hidden", // Only show on mobile
       className
     )}>
@@ -80,7 +80,7 @@ export const BottomNavigation = ({ activeTab, onTabChange, className }: BottomNa
               key={tab.id}
               onClick={handleClick}
               className={cn(
-                "flex-1 flex flex-col items-center gap-1 py-3 px-2 transition-all duration-200",
+                "relative flex-1 flex flex-col items-center gap-1 py-3 px-2 transition-all duration-200",
                 "min-h-[60px] touch-manipulation", // Minimum touch target
                 isActive
                   ? "text-primary bg-primary/5"
@@ -93,7 +93,7 @@ export const BottomNavigation = ({ activeTab, onTabChange, className }: BottomNa
               )} />
               <span className="text-xs font-medium">{tab.label}</span>
               {isActive && (
-                <div className="absolute bottom-0 left-1/2 transform -translate-x-1/2 w-8 h-0.5 bg-primary rounded-full" />
+                <div className="absolute bottom-0 inset-x-0 mx-auto w-8 h-0.5 bg-primary rounded-full" />
               )}
             </button>
           );
@@ -0,0 +1,243 @@
+import { Minus, Plus, ShoppingCart, Trash2, MessageCircle } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { useCart } from "@/contexts/CartContext";
+import { useUser } from "@/contexts/UserContext";
+import { usePlaceOrder } from "@/hooks/usePlaceOrder";
+import { usePriceFormatter } from "@/hooks/usePriceFormatter";
+import { getCartItemCount } from "@/utils/cart";
+import { formatSelectedOptions } from "@/utils/drinkOptions";
+import { sendWhatsAppMessage, createCartInquiryMessage, trackContactAttempt } from "@/utils/whatsapp";
+
+interface CartButtonProps {
+  sellerId?: string;
+  className?: string;
+}
+
+// Header button showing how many drinks are waiting in the cart
+export const CartButton = ({ sellerId, className }: CartButtonProps) => {
+  const { totalItemCount, getCart, openCart } = useCart();
+  const count = sellerId ? getCartItemCount(getCart(sellerId)?.items || []) : totalItemCount;
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => openCart(sellerId)}
+      className={`relative ${className || ''}`}
+      aria-label={`Open cart (${count} items)`}
+    >
+      <ShoppingCart className="w-4 h-4" />
+      {count > 0 && (
+        <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center">
+          {count}
+        </span>
+      )}
+    </Button>
+  );
+};
+
+export const CartDrawer = () => {
+  const { user } = useUser();
+  const formatPrice = usePriceFormatter();
+  const { i18n } = useTranslation();
+  const {
+    carts,
+    activeSellerId,
+    isOpen,
+    closeCart,
+    setActiveSellerId,
+    getCart,
+    getSubtotal,
+    updateQuantity,
+    updateItemNotes,
+    updateOrderNotes,
+    removeItem,
+    clearCart
+  } = useCart();
+  const { placeOrder, isPlacing } = usePlaceOrder();
+
+  const cart = activeSellerId ? getCart(activeSellerId) : undefined;
+  const subtotal = activeSellerId ? getSubtotal(activeSellerId) : 0;
+
+  const handlePlaceOrder = async () => {
+    if (!cart) return;
+
+    const order = await placeOrder({
+      sellerId: cart.seller.id,
+      sellerPhone: cart.seller.phone,
+      items: cart.items,
+      notes: cart.notes || undefined
+    });
+
+    if (order) {
+      clearCart(cart.seller.id);
+      closeCart();
+    }
+  };
+
+  const handleSendWhatsApp = () => {
+    if (!cart?.seller.phone) return;
+
+    const message = createCartInquiryMessage(
+      cart.items,
+      subtotal,
+      cart.seller.specialty,
+      user?.name,
+      cart.notes || undefined,
+      i18n.language
+    );
+    sendWhatsAppMessage(cart.seller.phone, message);
+    trackContactAttempt(cart.seller.id, 'whatsapp');
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && closeCart()}>
+      <SheetContent side="right" className="w-full sm:w-[440px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <ShoppingCart className="w-5 h-5" />
+            Your Cart
+          </SheetTitle>
+          <SheetDescription>
+            {cart ? `Ordering from ${cart.seller.businessName}` : 'Add drinks from a seller to start an order.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {/* One cart per seller */}
+        {carts.length > 1 && (
+          <div className="flex flex-wrap gap-2 pt-2">
+            {carts.map(c => (
+              <Badge
+                key={c.seller.id}
+                variant={c.seller.id === activeSellerId ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => setActiveSellerId(c.seller.id)}
+              >
+                {c.seller.businessName} ({getCartItemCount(c.items)})
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {!cart ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center py-12">
+            <ShoppingCart className="w-12 h-12 text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">Your cart is empty</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto py-4 space-y-4">
+              {cart.items.map((item, index) => (
+                <div key={`${item.drinkId || item.name}-${index}`} className="space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{item.name}</p>
+                      {item.options && item.options.length > 0 && (
+                        <p className="text-xs text-muted-foreground">{formatSelectedOptions(item.options)}</p>
+                      )}
+                      <p className="text-sm text-muted-foreground">{formatPrice(item.price)}</p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => updateQuantity(cart.seller.id, index, item.quantity - 1)}
+                        aria-label={`Decrease ${item.name}`}
+                      >
+                        <Minus className="w-3 h-3" />
+                      </Button>
+                      <span className="w-8 text-center font-medium">{item.quantity}</span>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => updateQuantity(cart.seller.id, index, item.quantity + 1)}
+                        aria-label={`Increase ${item.name}`}
+                      >
+                        <Plus className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-red-500 hover:text-red-600"
+                        onClick={() => removeItem(cart.seller.id, index)}
+                        aria-label={`Remove ${item.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <Input
+                    value={item.notes || ''}
+                    onChange={(e) => updateItemNotes(cart.seller.id, index, e.target.value)}
+                    placeholder="Notes (e.g. less sugar)"
+                    className="h-8 text-sm"
+                    maxLength={140}
+                  />
+                </div>
+              ))}
+
+              <Separator />
+
+              <Textarea
+                value={cart.notes}
+                onChange={(e) => updateOrderNotes(cart.seller.id, e.target.value)}
+                placeholder="Anything else the seller should know?"
+                rows={2}
+                maxLength={500}
+              />
+            </div>
+
+            <SheetFooter className="flex-col sm:flex-col gap-3 border-t pt-4">
+              <div className="flex items-center justify-between w-full">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span className="text-xl font-bold text-primary">{formatPrice(subtotal)}</span>
+              </div>
+              <Button
+                onClick={handlePlaceOrder}
+                disabled={isPlacing}
+                className="w-full"
+                size="lg"
+              >
+                <ShoppingCart className="w-4 h-4 mr-2" />
+                {isPlacing ? 'Placing order...' : 'Place Order'}
+              </Button>
+              {cart.seller.phone && (
+                <Button
+                  onClick={handleSendWhatsApp}
+                  variant="outline"
+                  className="w-full border-[#25D366] text-[#128C7E] hover:bg-[#25D366]/10"
+                >
+                  <MessageCircle className="w-4 h-4 mr-2" />
+                  Send as WhatsApp message
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => clearCart(cart.seller.id)}
+                className="text-muted-foreground"
+              >
+                Clear cart
+              </Button>
+            </SheetFooter>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
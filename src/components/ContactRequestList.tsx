@@ -0,0 +1,224 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Clock, Inbox, MessageCircle, Phone, HelpCircle, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { SellerService, ContactRequestWithParties } from "@/services/sellerService";
+import { subscribeToContactRequests } from "@/lib/supabase";
+import {
+  ContactRequestStatus,
+  ContactType,
+  CONTACT_TYPE_LABELS,
+  countUnreadContactRequests,
+  filterContactRequests,
+  getContactRequestStatusInfo,
+  getNextContactRequestStatuses,
+  isContactRequestUnread
+} from "@/utils/contactRequestStatus";
+
+interface ContactRequestListProps {
+  role: 'buyer' | 'seller';
+  userId: string;
+  onUnreadCountChange?: (count: number) => void;
+  emptyMessage?: string;
+}
+
+const STATUS_BADGE_CLASSES: Record<ContactRequestStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  responded: 'bg-blue-100 text-blue-800',
+  completed: 'bg-gray-100 text-gray-700'
+};
+
+const ACTION_LABELS: Record<ContactRequestStatus, string> = {
+  pending: 'Reopen',
+  responded: 'Mark responded',
+  completed: 'Mark completed'
+};
+
+const CONTACT_TYPE_ICONS: Record<ContactType, typeof Phone> = {
+  whatsapp: MessageCircle,
+  phone: Phone,
+  inquiry: HelpCircle
+};
+
+const FILTERS: (ContactType | 'all')[] = ['all', 'whatsapp', 'phone', 'inquiry'];
+
+// Seller inbox and buyer "my requests" history, kept live over a realtime channel
+export const ContactRequestList = ({ role, userId, onUnreadCountChange, emptyMessage }: ContactRequestListProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<ContactRequestWithParties[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<ContactType | 'all'>('all');
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const data = role === 'seller'
+        ? await SellerService.getContactRequests(userId)
+        : await SellerService.getBuyerContactRequests(userId);
+      setRequests(data);
+    } catch (error) {
+      console.error('Failed to load contact requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [role, userId]);
+
+  useEffect(() => {
+    loadRequests();
+
+    const channel = subscribeToContactRequests(role, userId, (payload) => {
+      if (role === 'seller' && (payload as { eventType?: string }).eventType === 'INSERT') {
+        toast({
+          title: "New contact request",
+          description: "A buyer just reached out.",
+        });
+      }
+      loadRequests();
+    });
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [role, userId, loadRequests, toast]);
+
+  useEffect(() => {
+    if (role === 'seller') onUnreadCountChange?.(countUnreadContactRequests(requests));
+  }, [role, requests, onUnreadCountChange]);
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const readAt = new Date().toISOString();
+    setRequests(prev => prev.map(r => (ids.includes(r.id) && !r.seller_read_at ? { ...r, seller_read_at: readAt } : r)));
+    try {
+      await SellerService.markContactRequestsRead(ids);
+    } catch (error) {
+      console.error('Failed to mark contact requests read:', error);
+      loadRequests();
+    }
+  };
+
+  const handleStatusChange = async (request: ContactRequestWithParties, status: ContactRequestStatus) => {
+    try {
+      setUpdatingId(request.id);
+      const updated = await SellerService.updateContactRequestStatus(request.id, status);
+      setRequests(prev => prev.map(r => (r.id === request.id ? { ...r, ...updated } : r)));
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const visibleRequests = filterContactRequests(requests, filter);
+  const unreadIds = role === 'seller' ? visibleRequests.filter(isContactRequestUnread).map(r => r.id) : [];
+
+  return (
+    <div className="space-y-4">
+      {role === 'seller' && requests.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {FILTERS.map(option => {
+            const count = filterContactRequests(requests, option).length;
+            return (
+              <Button
+                key={option}
+                size="sm"
+                variant={filter === option ? 'default' : 'outline'}
+                onClick={() => setFilter(option)}
+              >
+                {option === 'all' ? 'All' : CONTACT_TYPE_LABELS[option]} ({count})
+              </Button>
+            );
+          })}
+          {unreadIds.length > 0 && (
+            <Button size="sm" variant="ghost" className="ml-auto" onClick={() => markRead(unreadIds)}>
+              <CheckCheck className="w-4 h-4 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+      )}
+
+      {visibleRequests.length === 0 ? (
+        <div className="text-center py-8">
+          <Inbox className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground">{emptyMessage || 'No contact requests yet'}</p>
+        </div>
+      ) : (
+        visibleRequests.map(request => {
+          const unread = role === 'seller' && isContactRequestUnread(request);
+          const TypeIcon = CONTACT_TYPE_ICONS[request.contact_type];
+          const statusInfo = getContactRequestStatusInfo(request.status);
+          const counterpart = role === 'seller' ? request.buyer?.name : request.seller?.business_name;
+          const nextStatuses = role === 'seller' ? getNextContactRequestStatuses(request.status) : [];
+
+          return (
+            <Card
+              key={request.id}
+              className={`p-4 space-y-3 ${unread ? 'border-primary/50 bg-primary/5' : ''}`}
+              onClick={() => unread && markRead([request.id])}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  {unread && <span className="w-2 h-2 rounded-full bg-primary" aria-label="Unread" />}
+                  <TypeIcon className="w-4 h-4 text-muted-foreground" />
+                  <span className={unread ? 'font-semibold' : 'font-medium'}>{counterpart || 'Unknown'}</span>
+                  <Badge variant="secondary" className={STATUS_BADGE_CLASSES[request.status]} title={statusInfo.description}>
+                    {statusInfo.label}
+                  </Badge>
+                </div>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Clock className="w-3 h-3" />
+                  {new Date(request.created_at).toLocaleString()}
+                </div>
+              </div>
+
+              {request.message && (
+                <p className="text-sm text-muted-foreground border-l-2 border-border pl-2">{request.message}</p>
+              )}
+
+              {(nextStatuses.length > 0 || role === 'buyer') && (
+                <div className="flex flex-wrap gap-2 pt-2 border-t border-border/30">
+                  {nextStatuses.map(status => (
+                    <Button
+                      key={status}
+                      size="sm"
+                      variant={status === 'pending' ? 'outline' : 'default'}
+                      disabled={updatingId === request.id}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleStatusChange(request, status);
+                      }}
+                    >
+                      {ACTION_LABELS[status]}
+                    </Button>
+                  ))}
+                  {role === 'buyer' && (
+                    <Button size="sm" variant="outline" onClick={() => navigate(`/seller/${request.seller_id}`)}>
+                      View seller
+                    </Button>
+                  )}
+                </div>
+              )}
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+};
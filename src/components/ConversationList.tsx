@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from "react";
+import { MessagesSquare } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { MessageService, ConversationWithParties } from "@/services/messageService";
+import { subscribeToConversations } from "@/lib/supabase";
+import { getMessagePreview } from "@/utils/messaging";
+
+interface ConversationListProps {
+  role: 'buyer' | 'seller';
+  userId: string;
+  activeConversationId?: string;
+  onSelect: (conversationId: string) => void;
+}
+
+// Conversations with the other party, latest message and unread count, kept live over a realtime channel
+export const ConversationList = ({ role, userId, activeConversationId, onSelect }: ConversationListProps) => {
+  const [conversations, setConversations] = useState<ConversationWithParties[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadConversations = useCallback(async () => {
+    try {
+      setConversations(await MessageService.getConversations(userId, role));
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [role, userId]);
+
+  useEffect(() => {
+    loadConversations();
+
+    const channel = subscribeToConversations(role, userId, () => loadConversations());
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [role, userId, loadConversations]);
+
+  // Opening a thread marks it read; clear its badge without waiting for a reload
+  useEffect(() => {
+    if (!activeConversationId) return;
+    setConversations(prev => prev.map(c => (c.id === activeConversationId ? { ...c, unreadCount: 0 } : c)));
+  }, [activeConversationId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <div className="text-center py-8 px-4">
+        <MessagesSquare className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+        <p className="text-muted-foreground">
+          {role === 'buyer'
+            ? 'No conversations yet. Message a seller from their page.'
+            : 'No conversations yet. Buyers who message you will show up here.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-border/50">
+      {conversations.map(conversation => {
+        const name = role === 'buyer' ? conversation.seller?.business_name : conversation.buyer?.name;
+        const photo = role === 'buyer' ? conversation.seller?.photo_url : conversation.buyer?.avatar_url;
+        const unread = conversation.unreadCount > 0;
+
+        return (
+          <button
+            key={conversation.id}
+            onClick={() => onSelect(conversation.id)}
+            className={`w-full flex items-center gap-3 p-3 text-left transition-colors hover:bg-muted/50 ${
+              conversation.id === activeConversationId ? 'bg-muted' : ''
+            }`}
+          >
+            <Avatar className="w-10 h-10">
+              <AvatarImage src={photo || undefined} alt={name} />
+              <AvatarFallback>{name?.charAt(0).toUpperCase() || '?'}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <span className={`truncate ${unread ? 'font-semibold' : 'font-medium'}`}>{name || 'Unknown'}</span>
+                {conversation.last_message_at && (
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {new Date(conversation.last_message_at).toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className={`text-sm truncate ${unread ? 'text-foreground' : 'text-muted-foreground'}`}>
+                  {conversation.last_message_preview
+                    ? `${conversation.last_sender_id === userId ? 'You: ' : ''}${getMessagePreview(conversation.last_message_preview)}`
+                    : 'No messages yet'}
+                </span>
+                {unread && (
+                  <Badge className="h-5 min-w-5 px-1.5 justify-center">{conversation.unreadCount}</Badge>
+                )}
+              </div>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
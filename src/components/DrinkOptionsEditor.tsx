@@ -0,0 +1,191 @@
+import { Plus, Trash2, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  DrinkOptionGroup,
+  DrinkOption,
+  OPTION_GROUP_PRESETS,
+  MAX_OPTION_GROUPS,
+  MAX_OPTIONS_PER_GROUP,
+  createOptionGroup,
+  generateOptionId
+} from "@/utils/drinkOptions";
+
+interface DrinkOptionsEditorProps {
+  value: DrinkOptionGroup[];
+  onChange: (groups: DrinkOptionGroup[]) => void;
+  disabled?: boolean;
+}
+
+// Seller-side editor for option groups (size, milk, sugar, extras) on AddListing/EditListing
+export const DrinkOptionsEditor = ({ value, onChange, disabled }: DrinkOptionsEditorProps) => {
+  const unusedPresets = OPTION_GROUP_PRESETS.filter(
+    preset => !value.some(group => group.name.toLowerCase() === preset.name.toLowerCase())
+  );
+
+  const updateGroup = (groupId: string, changes: Partial<DrinkOptionGroup>) => {
+    onChange(value.map(group => (group.id === groupId ? { ...group, ...changes } : group)));
+  };
+
+  const updateOption = (group: DrinkOptionGroup, optionId: string, changes: Partial<DrinkOption>) => {
+    updateGroup(group.id, {
+      options: group.options.map(option => (option.id === optionId ? { ...option, ...changes } : option))
+    });
+  };
+
+  const addOption = (group: DrinkOptionGroup) => {
+    updateGroup(group.id, {
+      options: [...group.options, { id: generateOptionId(), name: '', priceDelta: 0 }]
+    });
+  };
+
+  const removeOption = (group: DrinkOptionGroup, optionId: string) => {
+    updateGroup(group.id, { options: group.options.filter(option => option.id !== optionId) });
+  };
+
+  const removeGroup = (groupId: string) => {
+    onChange(value.filter(group => group.id !== groupId));
+  };
+
+  const canAddGroup = value.length < MAX_OPTION_GROUPS && !disabled;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-purple-600" />
+          Options
+          <span className="font-normal text-gray-500">(optional)</span>
+        </Label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Let buyers pick a size, milk or extras instead of creating a separate listing for each variant.
+        Price changes are added to the base price.
+      </p>
+
+      {value.map(group => (
+        <div key={group.id} className="rounded-lg border border-gray-200 p-4 space-y-3 bg-gray-50/50">
+          <div className="flex items-center gap-2">
+            <Input
+              value={group.name}
+              onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+              placeholder="Group name (e.g. Size)"
+              className="h-10 font-medium"
+              maxLength={40}
+              disabled={disabled}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeGroup(group.id)}
+              className="text-red-500 hover:text-red-600 shrink-0"
+              disabled={disabled}
+              aria-label={`Remove ${group.name || 'option group'}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <Switch
+                checked={group.required}
+                onCheckedChange={(checked) => updateGroup(group.id, { required: checked })}
+                disabled={disabled}
+              />
+              Required
+            </label>
+            <label className="flex items-center gap-2">
+              <Switch
+                checked={group.selection === 'multiple'}
+                onCheckedChange={(checked) => updateGroup(group.id, { selection: checked ? 'multiple' : 'single' })}
+                disabled={disabled}
+              />
+              Allow several choices
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            {group.options.map(option => (
+              <div key={option.id} className="flex items-center gap-2">
+                <Input
+                  value={option.name}
+                  onChange={(e) => updateOption(group, option.id, { name: e.target.value })}
+                  placeholder="Choice (e.g. Large)"
+                  className="h-9"
+                  maxLength={40}
+                  disabled={disabled}
+                />
+                <div className="relative w-32 shrink-0">
+                  <Input
+                    type="number"
+                    step="0.5"
+                    value={option.priceDelta}
+                    onChange={(e) => updateOption(group, option.id, { priceDelta: parseFloat(e.target.value) || 0 })}
+                    className="h-9 pr-9"
+                    disabled={disabled}
+                    aria-label={`Price change for ${option.name || 'choice'}`}
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500">Dh</span>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeOption(group, option.id)}
+                  className="h-9 w-9 text-gray-500 hover:text-red-600 shrink-0"
+                  disabled={disabled || group.options.length <= 1}
+                  aria-label={`Remove ${option.name || 'choice'}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            {group.options.length < MAX_OPTIONS_PER_GROUP && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => addOption(group)}
+                className="text-coffee-700"
+                disabled={disabled}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add choice
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {canAddGroup && (
+        <div className="flex flex-wrap gap-2">
+          {unusedPresets.map(preset => (
+            <Button
+              key={preset.name}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange([...value, createOptionGroup(preset)])}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              {preset.name}
+            </Button>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...value, createOptionGroup()])}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Custom group
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
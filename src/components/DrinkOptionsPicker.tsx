@@ -0,0 +1,70 @@
+import { Check } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  DrinkOptionGroup,
+  DrinkOptionSelections,
+  toggleOptionSelection,
+  formatPriceDelta
+} from "@/utils/drinkOptions";
+import { usePriceFormatOptions } from "@/hooks/usePriceFormatter";
+
+interface DrinkOptionsPickerProps {
+  groups: DrinkOptionGroup[];
+  selections: DrinkOptionSelections;
+  onChange: (selections: DrinkOptionSelections) => void;
+  disabled?: boolean;
+}
+
+// Buyer-side option picker shown on ItemDetail
+export const DrinkOptionsPicker = ({ groups, selections, onChange, disabled }: DrinkOptionsPickerProps) => {
+  const priceFormatOptions = usePriceFormatOptions();
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="space-y-5">
+      {groups.map(group => {
+        const picked = selections[group.id] || [];
+
+        return (
+          <div key={group.id} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h4 className="font-semibold text-foreground">{group.name}</h4>
+              <Badge variant={group.required ? 'default' : 'outline'} className="text-xs">
+                {group.required ? 'Required' : 'Optional'}
+              </Badge>
+              {group.selection === 'multiple' && (
+                <span className="text-xs text-muted-foreground">Choose any</span>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2" role={group.selection === 'single' ? 'radiogroup' : 'group'}>
+              {group.options.map(option => {
+                const isSelected = picked.includes(option.id);
+                return (
+                  <button
+                    key={option.id}
+                    type="button"
+                    role={group.selection === 'single' ? 'radio' : 'checkbox'}
+                    aria-checked={isSelected}
+                    disabled={disabled}
+                    onClick={() => onChange(toggleOptionSelection(selections, group, option.id))}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-all duration-200 disabled:opacity-50 ${
+                      isSelected
+                        ? 'border-primary bg-primary/10 text-primary font-medium'
+                        : 'border-border/50 hover:border-primary/50 hover:bg-primary/5'
+                    }`}
+                  >
+                    {isSelected && <Check className="w-3 h-3" />}
+                    <span>{option.name}</span>
+                    {option.priceDelta !== 0 && (
+                      <span className="text-xs text-muted-foreground">{formatPriceDelta(option.priceDelta, priceFormatOptions)}</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFavorites } from "@/hooks/useFavorites";
+import { FavoriteTarget } from "@/services/favoritesService";
+
+interface FavoriteButtonProps {
+  target: FavoriteTarget;
+  className?: string;
+}
+
+// Heart toggle for a seller or drink; sits inside clickable cards, so it stops the click
+export const FavoriteButton = ({ target, className = "" }: FavoriteButtonProps) => {
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const active = isFavorite(target);
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={(e) => {
+        e.stopPropagation();
+        toggleFavorite(target);
+      }}
+      className={`w-8 h-8 p-0 rounded-full ${active ? 'text-red-500' : 'text-muted-foreground'} hover:text-red-500 ${className}`}
+      aria-label={active ? 'Remove from favorites' : 'Add to favorites'}
+      aria-pressed={active}
+    >
+      <Heart className={`w-4 h-4 ${active ? 'fill-current' : ''}`} />
+    </Button>
+  );
+};
@@ -0,0 +1,86 @@
+import { useNavigate } from "react-router-dom";
+import { Heart, Coffee, Store } from "lucide-react";
+import { useFavorites } from "@/hooks/useFavorites";
+import { usePriceFormatter } from "@/hooks/usePriceFormatter";
+import { FavoriteButton } from "@/components/FavoriteButton";
+import { FavoriteWithDetails } from "@/services/favoritesService";
+
+interface FavoriteRowProps {
+  favorite: FavoriteWithDetails;
+}
+
+const FavoriteRow = ({ favorite }: FavoriteRowProps) => {
+  const navigate = useNavigate();
+  const formatPrice = usePriceFormatter();
+  const { seller, drink } = favorite;
+
+  // Optimistic rows have no details until the refetch lands
+  if (!seller && !drink) {
+    return <div className="h-16 rounded-xl bg-muted/50 animate-pulse" />;
+  }
+
+  const isSeller = !!favorite.seller_id;
+  const title = isSeller ? seller?.business_name : drink?.name;
+  const subtitle = isSeller ? seller?.address : `${formatPrice(Number(drink?.price))} · ${drink?.seller?.business_name || 'Seller'}`;
+  const photo = isSeller ? seller?.photo_url : drink?.photo_url;
+  const path = isSeller ? `/seller/${favorite.seller_id}` : `/item/${favorite.drink_id}`;
+
+  return (
+    <div
+      className="flex items-center gap-3 p-3 rounded-xl border hover:bg-muted/40 cursor-pointer transition-colors"
+      onClick={() => navigate(path)}
+    >
+      {photo ? (
+        <img src={photo} alt={title} className="w-12 h-12 rounded-lg object-cover" />
+      ) : (
+        <div className="w-12 h-12 rounded-lg bg-muted flex items-center justify-center">
+          {isSeller ? <Store className="w-5 h-5 text-muted-foreground" /> : <Coffee className="w-5 h-5 text-muted-foreground" />}
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="font-medium truncate">{title}</div>
+        <div className="text-sm text-muted-foreground truncate">{subtitle}</div>
+      </div>
+      <FavoriteButton target={{ type: isSeller ? 'seller' : 'drink', id: (isSeller ? favorite.seller_id : favorite.drink_id) as string }} />
+    </div>
+  );
+};
+
+// Saved sellers and drinks, grouped by kind
+export const FavoritesList = () => {
+  const { favorites, isLoading } = useFavorites();
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading favorites...</p>;
+  }
+
+  if (favorites.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Heart className="w-10 h-10 text-muted-foreground/50 mx-auto mb-2" />
+        <p className="text-muted-foreground">No favorites yet.</p>
+        <p className="text-sm text-muted-foreground">Tap the heart on a seller or drink to save it here.</p>
+      </div>
+    );
+  }
+
+  const sellers = favorites.filter(favorite => favorite.seller_id);
+  const drinks = favorites.filter(favorite => favorite.drink_id);
+
+  return (
+    <div className="space-y-6">
+      {sellers.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-muted-foreground">Sellers</h4>
+          {sellers.map(favorite => <FavoriteRow key={favorite.id} favorite={favorite} />)}
+        </div>
+      )}
+      {drinks.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-muted-foreground">Drinks</h4>
+          {drinks.map(favorite => <FavoriteRow key={favorite.id} favorite={favorite} />)}
+        </div>
+      )}
+    </div>
+  );
+};
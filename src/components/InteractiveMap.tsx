@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { reverseGeocode, getCurrentLocation, type Coordinates } from '@/utils/geocoding';
+import { OSM_TILE_URL } from '@/utils/mapTiles';
 
 // Dynamic import for Leaflet to ensure it only loads in browser
 let L: any = null;
@@ -61,7 +62,7 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = ({
         const map = leaflet.map(mapRef.current).setView([center.latitude, center.longitude], zoom);
 
         // Add tile layer (OpenStreetMap)
-        leaflet.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+        leaflet.tileLayer(OSM_TILE_URL, {
           attribution: '© <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
         }).addTo(map);
 
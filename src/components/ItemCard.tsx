@@ -1,11 +1,19 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { Star, MapPin, Clock, ShoppingCart, Coffee, Leaf, Store, ExternalLink } from "lucide-react";
+import { Star, MapPin, Clock, ShoppingCart, Coffee, Leaf, Store, ExternalLink, Plus } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { sendWhatsAppMessage, createProductInterestMessage, trackContactAttempt } from "@/utils/whatsapp";
-import { useUser } from "@/contexts/UserContext";
+import { usePlaceOrder } from "@/hooks/usePlaceOrder";
+import { usePriceFormatter } from "@/hooks/usePriceFormatter";
+import { useCart } from "@/contexts/CartContext";
+import { useToast } from "@/hooks/use-toast";
+import { Json } from "@/lib/database.types";
+import { parseOptionGroups } from "@/utils/drinkOptions";
+import { FavoriteButton } from "@/components/FavoriteButton";
+import { trackSellerEvent } from "@/lib/supabase";
+import { getSellerSchedule } from "@/utils/businessHours";
+import { Promotion, getDrinkDeal } from "@/utils/promotions";
 
 export interface ItemCardItem {
   id: string;
@@ -16,6 +24,7 @@ export interface ItemCardItem {
   category: string | null;
   is_available: boolean;
   seller_id: string;
+  option_groups?: Json | null;
   // Seller info (from join)
   seller?: {
     id: string;
@@ -28,6 +37,9 @@ export interface ItemCardItem {
     distance_km?: number;
     latitude?: number;
     longitude?: number;
+    hours?: string | null;
+    schedule?: Json | null;
+    promotions?: Promotion[];
   };
 }
 
@@ -40,10 +52,20 @@ interface ItemCardProps {
 
 export const ItemCard = ({ item, onAddToCart, onViewSeller, className }: ItemCardProps) => {
   const navigate = useNavigate();
-  const { user } = useUser();
+  const { placeOrder, isPlacing } = usePlaceOrder();
+  const formatPrice = usePriceFormatter();
+  const { addItem } = useCart();
+  const { toast } = useToast();
   const [isImageLoaded, setIsImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
 
+  // Drinks with options (size, milk...) are configured on the item page first
+  const hasOptions = parseOptionGroups(item.option_groups).length > 0;
+
+  // Best running promotion; its price goes into the cart and the order
+  const deal = getDrinkDeal(item.id, item.price, item.seller?.promotions || [], getSellerSchedule(item.seller));
+  const price = deal?.price ?? item.price;
+
   const getSpecialtyIcon = (specialty: string) => {
     switch (specialty) {
       case 'coffee':
@@ -69,7 +91,29 @@ export const ItemCard = ({ item, onAddToCart, onViewSeller, className }: ItemCar
 
   const handleAddToCart = (e: React.MouseEvent) => {
     e.stopPropagation();
-    onAddToCart?.(item);
+    if (onAddToCart) {
+      onAddToCart(item);
+      return;
+    }
+    if (hasOptions) {
+      navigate(`/item/${item.id}`);
+      return;
+    }
+    if (!item.seller) return;
+
+    addItem(
+      {
+        id: item.seller.id,
+        businessName: item.seller.business_name,
+        phone: item.seller.phone,
+        specialty: item.seller.specialty
+      },
+      { drinkId: item.id, name: item.name, price, quantity: 1 }
+    );
+    toast({
+      title: "Added to cart",
+      description: `${item.name} from ${item.seller.business_name}`,
+    });
   };
 
   const handleViewSeller = (e: React.MouseEvent) => {
@@ -79,23 +123,25 @@ export const ItemCard = ({ item, onAddToCart, onViewSeller, className }: ItemCar
     }
   };
 
-  const handleWhatsAppOrder = (e: React.MouseEvent) => {
+  const handlePlaceOrder = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (item.seller?.phone && user) {
-      const message = createProductInterestMessage(
-        item.name,
-        item.price,
-        item.seller.specialty,
-        user.name
-      );
-      sendWhatsAppMessage(item.seller.phone, message);
-      trackContactAttempt(item.seller.id, 'whatsapp');
+    if (hasOptions) {
+      navigate(`/item/${item.id}`);
+      return;
     }
+    if (!item.seller) return;
+
+    await placeOrder({
+      sellerId: item.seller.id,
+      sellerPhone: item.seller.phone,
+      items: [{ drinkId: item.id, name: item.name, price, quantity: 1 }]
+    });
   };
 
   const handleViewLocation = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (!item.seller) return;
+    trackSellerEvent(item.seller.id, 'directions_request', { drinkId: item.id });
 
     // Use exact coordinates if available, otherwise fall back to address
     if (item.seller.latitude && item.seller.longitude) {
@@ -161,6 +207,18 @@ export const ItemCard = ({ item, onAddToCart, onViewSeller, className }: ItemCar
               {item.category}
             </Badge>
           )}
+
+          {/* Deal badge */}
+          {deal && (
+            <Badge className="absolute bottom-3 left-3 bg-red-500 hover:bg-red-500 text-white text-xs">
+              {deal.label}
+            </Badge>
+          )}
+
+          <FavoriteButton
+            target={{ type: 'drink', id: item.id }}
+            className="absolute top-3 right-3 bg-background/80 backdrop-blur-sm"
+          />
         </div>
 
         {/* Item Info */}
@@ -178,8 +236,13 @@ export const ItemCard = ({ item, onAddToCart, onViewSeller, className }: ItemCar
               )}
             </div>
             <div className="text-right shrink-0">
-              <p className="text-2xl font-bold text-primary">
-                {item.price.toFixed(2)} Dh
+              {deal && deal.price < deal.originalPrice && (
+                <p className="text-sm text-muted-foreground line-through">
+                  {formatPrice(deal.originalPrice)}
+                </p>
+              )}
+              <p className={`text-2xl font-bold ${deal && deal.price < deal.originalPrice ? 'text-red-600' : 'text-primary'}`}>
+                {formatPrice(price)}
               </p>
             </div>
           </div>
@@ -232,18 +295,29 @@ export const ItemCard = ({ item, onAddToCart, onViewSeller, className }: ItemCar
 
           {/* Action Buttons */}
           <div className="space-y-3 pt-2">
-            {/* Primary Action - WhatsApp Order */}
-            <Button
-              onClick={handleWhatsAppOrder}
-              disabled={!item.is_available || !item.seller?.phone}
-              className="w-full bg-[#25D366] hover:bg-[#20BA5A] text-white font-medium transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed shadow-md hover:shadow-lg"
-              size="sm"
-            >
-              <svg className="w-4 h-4 mr-2" viewBox="0 0 24 24" fill="currentColor">
-                <path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.01-.57-.01-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L.057 24l6.305-1.654a11.882 11.882 0 005.683 1.448h.005c6.554 0 11.89-5.335 11.893-11.893A11.821 11.821 0 0020.885 3.787"/>
-              </svg>
-              Order via WhatsApp
-            </Button>
+            {/* Primary Actions - Place Order / Add to Cart */}
+            <div className="flex gap-2">
+              <Button
+                onClick={handlePlaceOrder}
+                disabled={!item.is_available || !item.seller || isPlacing}
+                className="flex-1 font-medium transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed shadow-md hover:shadow-lg"
+                size="sm"
+              >
+                <ShoppingCart className="w-4 h-4 mr-2" />
+                {isPlacing ? 'Placing order...' : hasOptions ? 'Choose Options' : 'Place Order'}
+              </Button>
+              <Button
+                onClick={handleAddToCart}
+                disabled={!item.is_available || !item.seller}
+                variant="outline"
+                size="sm"
+                className="shrink-0 hover:bg-primary/10 hover:border-primary/50 transition-all duration-200"
+                aria-label={`Add ${item.name} to cart`}
+              >
+                <Plus className="w-4 h-4" />
+                <ShoppingCart className="w-4 h-4" />
+              </Button>
+            </div>
 
             {/* Secondary Actions */}
             <div className="grid grid-cols-2 gap-2">
@@ -2,12 +2,13 @@ import { ArrowRight, Coffee, Leaf, Star, Clock, MapPin, ShoppingBag, LogIn } fro
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { UserMenu } from "@/components/UserMenu";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/contexts/UserContext";
 import { createNavigationHelpers, trackNavigation } from "@/utils/navigationHelpers";
 import { LanguageSwitcher } from "@/components/LanguageSwitcher";
 import { useTranslation } from "react-i18next";
+import { MOROCCAN_CITIES, getCityPath } from "@/utils/localSEO";
 import heroImage from "@/assets/hero-matcha-coffee.jpg";
 import matchaBarista from "@/assets/matcha-barista.jpg";
 import coffeeBrewing from "@/assets/coffee-brewing.jpg";
@@ -396,6 +397,31 @@ export const LandingPage = ({ onGetStarted }: LandingPageProps) => {
         </div>
       </section>
 
+      {/* Cities Section */}
+      <section className="py-16 lg:py-24 bg-background/50">
+        <div className="container mx-auto px-4">
+          <div className="text-center space-y-4 mb-10">
+            <h2 className="text-3xl lg:text-4xl font-bold text-foreground">
+              {t('landing.cities.title')}
+            </h2>
+            <p className="text-xl text-muted-foreground">
+              {t('landing.cities.subtitle')}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap justify-center gap-3 max-w-3xl mx-auto">
+            {MOROCCAN_CITIES.map(city => (
+              <Button key={city.name} variant="outline" asChild>
+                <Link to={getCityPath(city)}>
+                  <MapPin className="w-4 h-4 mr-2" />
+                  {city.name}
+                </Link>
+              </Button>
+            ))}
+          </div>
+        </div>
+      </section>
+
       {/* CTA Section */}
       <section className="py-16 lg:py-24 bg-gradient-hero text-primary-foreground">
         <div className="container mx-auto px-4 text-center">
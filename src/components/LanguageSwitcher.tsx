@@ -7,6 +7,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useTranslation } from "react-i18next";
+import { LANGUAGES, LanguageCode } from "@/i18n";
 
 interface LanguageSwitcherProps {
   variant?: "default" | "ghost" | "outline";
@@ -21,16 +22,15 @@ export function LanguageSwitcher({
 }: LanguageSwitcherProps) {
   const { i18n } = useTranslation();
 
-  const handleLanguageChange = (newLanguage: 'en' | 'fr') => {
+  const handleLanguageChange = (newLanguage: LanguageCode) => {
     i18n.changeLanguage(newLanguage);
   };
 
-  const languages = [
-    { code: 'en' as const, name: 'English', nativeName: 'English' },
-    { code: 'fr' as const, name: 'French', nativeName: 'Français' }
-  ];
+  const languages = LANGUAGES;
 
-  const currentLanguage = languages.find(lang => lang.code === i18n.language);
+  // resolvedLanguage is "ar" when the browser reports "ar-MA"
+  const activeCode = i18n.resolvedLanguage || i18n.language;
+  const currentLanguage = languages.find(lang => lang.code === activeCode);
 
   return (
     <DropdownMenu>
@@ -57,14 +57,14 @@ export function LanguageSwitcher({
             key={lang.code}
             onClick={() => handleLanguageChange(lang.code)}
             className={`flex items-center justify-between cursor-pointer ${
-              i18n.language === lang.code ? 'bg-accent' : ''
+              activeCode === lang.code ? 'bg-accent' : ''
             }`}
             role="menuitem"
             aria-label={`Switch to ${lang.nativeName}`}
-            aria-current={i18n.language === lang.code ? 'true' : 'false'}
+            aria-current={activeCode === lang.code ? 'true' : 'false'}
           >
             <span>{lang.nativeName}</span>
-            {i18n.language === lang.code && (
+            {activeCode === lang.code && (
               <div className="w-2 h-2 bg-primary rounded-full" aria-hidden="true" />
             )}
           </DropdownMenuItem>
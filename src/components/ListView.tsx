@@ -13,6 +13,8 @@ import { useNavigate } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import { VALID_CATEGORIES, formatCategoryDisplay } from "@/utils/categories";
 import { useScrollDirection } from "@/hooks/useScrollDirection";
+import { getSellerSchedule, isOpenAt } from "@/utils/businessHours";
+import { getDrinkDeal } from "@/utils/promotions";
 
 interface ListViewProps {
   className?: string;
@@ -23,6 +25,8 @@ interface FilterState {
   specialties: string[];
   priceRange: [number, number];
   sortBy: 'newest' | 'price-low' | 'price-high' | 'rating';
+  openNow: boolean;
+  dealsOnly: boolean;
 }
 
 export const ListView = ({ className }: ListViewProps) => {
@@ -37,7 +41,9 @@ export const ListView = ({ className }: ListViewProps) => {
     categories: [],
     specialties: [],
     priceRange: [0, 100],
-    sortBy: 'newest'
+    sortBy: 'newest',
+    openNow: false,
+    dealsOnly: false
   });
 
   // Ref for the scrollable container
@@ -70,11 +76,15 @@ export const ListView = ({ className }: ListViewProps) => {
               rating_count,
               is_available,
               latitude,
-              longitude
+              longitude,
+              hours,
+              schedule,
+              promotions(*)
             )
           `)
           .eq('is_available', true)
           .eq('seller.is_available', true)
+          .eq('seller.promotions.is_active', true)
           .order('created_at', { ascending: false });
 
         if (drinksError) throw drinksError;
@@ -95,6 +105,7 @@ export const ListView = ({ className }: ListViewProps) => {
               category: drink?.category || null,
               is_available: drink?.is_available !== false, // Default to true if undefined
               seller_id: drink?.seller_id || '',
+              option_groups: drink?.option_groups || null,
               seller: drink?.seller ? {
                 id: drink.seller.id || '',
                 business_name: drink.seller.business_name || 'Unknown Business',
@@ -105,6 +116,9 @@ export const ListView = ({ className }: ListViewProps) => {
                 rating_count: typeof drink.seller.rating_count === 'number' ? drink.seller.rating_count : 0,
                 latitude: typeof drink.seller.latitude === 'number' ? drink.seller.latitude : undefined,
                 longitude: typeof drink.seller.longitude === 'number' ? drink.seller.longitude : undefined,
+                hours: drink.seller.hours || null,
+                schedule: drink.seller.schedule || null,
+                promotions: Array.isArray(drink.seller.promotions) ? drink.seller.promotions : [],
               } : undefined,
             };
           } catch (error) {
@@ -142,6 +156,17 @@ export const ListView = ({ className }: ListViewProps) => {
   const filteredItems = useMemo(() => {
     try {
       const q = searchQuery.toLowerCase();
+      const now = new Date();
+
+      // Price filters and sorting use the deal price when a promotion is running
+      const priceById: Record<string, number> = {};
+      const hasDeal: Record<string, boolean> = {};
+      items.forEach(item => {
+        const deal = getDrinkDeal(item.id, item.price || 0, item.seller?.promotions || [], getSellerSchedule(item.seller), now);
+        priceById[item.id] = deal?.price ?? (typeof item.price === 'number' ? item.price : 0);
+        hasDeal[item.id] = !!deal;
+      });
+
       let filtered = items.filter(item => {
         // Add defensive checks to prevent runtime errors
         if (!item || typeof item !== 'object') return false;
@@ -170,19 +195,25 @@ export const ListView = ({ className }: ListViewProps) => {
           filters.specialties.includes(specialty);
 
         // Price filter
-        const price = typeof item.price === 'number' ? item.price : 0;
+        const price = priceById[item.id] ?? 0;
         const matchesPrice = price >= filters.priceRange[0] && price <= filters.priceRange[1];
 
-        return matchesSearch && matchesCategory && matchesSpecialty && matchesPrice;
+        // Open now filter; sellers without readable hours are left out
+        const matchesOpenNow = !filters.openNow || isOpenAt(getSellerSchedule(item.seller), now);
+
+        // Deals filter
+        const matchesDeals = !filters.dealsOnly || hasDeal[item.id];
+
+        return matchesSearch && matchesCategory && matchesSpecialty && matchesPrice && matchesOpenNow && matchesDeals;
       });
 
       // Sort filtered results
       switch (filters.sortBy) {
         case 'price-low':
-          filtered.sort((a, b) => (a.price || 0) - (b.price || 0));
+          filtered.sort((a, b) => (priceById[a.id] || 0) - (priceById[b.id] || 0));
           break;
         case 'price-high':
-          filtered.sort((a, b) => (b.price || 0) - (a.price || 0));
+          filtered.sort((a, b) => (priceById[b.id] || 0) - (priceById[a.id] || 0));
           break;
         case 'rating':
           filtered.sort((a, b) => (b.seller?.rating_average || 0) - (a.seller?.rating_average || 0));
@@ -250,7 +281,9 @@ export const ListView = ({ className }: ListViewProps) => {
       categories: [],
       specialties: [],
       priceRange: [0, 100],
-      sortBy: 'newest'
+      sortBy: 'newest',
+      openNow: false,
+      dealsOnly: false
     });
   };
 
@@ -258,7 +291,9 @@ export const ListView = ({ className }: ListViewProps) => {
     filters.specialties.length > 0 ||
     filters.priceRange[0] > 0 ||
     filters.priceRange[1] < 100 ||
-    filters.sortBy !== 'newest';
+    filters.sortBy !== 'newest' ||
+    filters.openNow ||
+    filters.dealsOnly;
 
   return (
     <div className={`h-full flex flex-col ${className}`}>
@@ -326,6 +361,39 @@ export const ListView = ({ className }: ListViewProps) => {
 
                 <Separator />
 
+                {/* Open now */}
+                <div>
+                  <h3 className="text-sm font-medium mb-3">{t('filter.availability')}</h3>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="open-now"
+                      checked={filters.openNow}
+                      onCheckedChange={(checked) => setFilters(prev => ({ ...prev, openNow: !!checked }))}
+                    />
+                    <label
+                      htmlFor="open-now"
+                      className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
+                    >
+                      {t('filter.openNow')}
+                    </label>
+                  </div>
+                  <div className="flex items-center space-x-2 mt-3">
+                    <Checkbox
+                      id="deals-only"
+                      checked={filters.dealsOnly}
+                      onCheckedChange={(checked) => setFilters(prev => ({ ...prev, dealsOnly: !!checked }))}
+                    />
+                    <label
+                      htmlFor="deals-only"
+                      className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
+                    >
+                      {t('filter.dealsOnly')}
+                    </label>
+                  </div>
+                </div>
+
+                <Separator />
+
                 {/* Categories */}
                 <div>
                   <h3 className="text-sm font-medium mb-3">{t('filter.categories')}</h3>
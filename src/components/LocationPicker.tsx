@@ -1,9 +1,10 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { MapPin, Search, Locate, Check, X, Navigation } from 'lucide-react';
+import React, { useState, useCallback, useRef } from 'react';
+import { MapPin, Search, Locate, Check, X, Navigation, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
+import { badgeVariants } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { InteractiveMap } from './InteractiveMap';
 import {
@@ -15,6 +16,7 @@ import {
   type Coordinates,
   type GeocodeResult
 } from '@/utils/geocoding';
+import { isLowConfidence } from '@/utils/geocodingProviders';
 
 interface LocationPickerProps {
   initialAddress?: string;
@@ -28,6 +30,8 @@ interface MapMarker {
   coordinates: Coordinates;
   address: string;
   isUserSelected: boolean;
+  // 1 for a spot the user pinned; search results carry the provider's confidence
+  confidence: number;
 }
 
 export const LocationPicker: React.FC<LocationPickerProps> = ({
@@ -47,7 +51,8 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
     initialCoordinates ? {
       coordinates: initialCoordinates,
       address: initialAddress,
-      isUserSelected: true
+      isUserSelected: true,
+      confidence: 1
     } : null
   );
   const [mapCenter, setMapCenter] = useState<Coordinates>(
@@ -56,10 +61,11 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
   const [showResults, setShowResults] = useState(false);
 
-  // Debounced search
-  const [searchTimeout, setSearchTimeout] = useState<NodeJS.Timeout | null>(null);
+  // searchAddresses() is debounced, so answers to earlier keystrokes can arrive late
+  const latestQueryRef = useRef('');
 
   const handleSearch = useCallback(async (query: string) => {
+    latestQueryRef.current = query;
     if (!query || query.length < 3) {
       setSearchResults([]);
       setShowResults(false);
@@ -69,9 +75,11 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
     setIsSearching(true);
     try {
       const results = await searchAddresses(query, 5);
+      if (latestQueryRef.current !== query) return;
       setSearchResults(results);
       setShowResults(true);
     } catch (error) {
+      if (latestQueryRef.current !== query) return;
       console.error('Search failed:', error);
       toast({
         title: "Search Failed",
@@ -79,23 +87,13 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
         variant: "destructive",
       });
     } finally {
-      setIsSearching(false);
+      if (latestQueryRef.current === query) setIsSearching(false);
     }
   }, [toast]);
 
-  // Handle search input with debouncing
   const handleSearchInput = (value: string) => {
     setSearchQuery(value);
-    
-    if (searchTimeout) {
-      clearTimeout(searchTimeout);
-    }
-    
-    const timeout = setTimeout(() => {
-      handleSearch(value);
-    }, 300);
-    
-    setSearchTimeout(timeout);
+    handleSearch(value);
   };
 
   // Handle search result selection
@@ -103,7 +101,8 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
     setSelectedLocation({
       coordinates: result.coordinates,
       address: result.formattedAddress,
-      isUserSelected: true
+      isUserSelected: true,
+      confidence: result.confidence
     });
     setMapCenter(result.coordinates);
     setSearchQuery(result.formattedAddress);
@@ -127,7 +126,8 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
       setSelectedLocation({
         coordinates,
         address: address || `${formatCoordinates(coordinates.latitude, coordinates.longitude)}`,
-        isUserSelected: true
+        isUserSelected: true,
+        confidence: 1
       });
       
       if (address) {
@@ -138,7 +138,8 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
       setSelectedLocation({
         coordinates,
         address: `${formatCoordinates(coordinates.latitude, coordinates.longitude)}`,
-        isUserSelected: true
+        isUserSelected: true,
+        confidence: 1
       });
     }
   };
@@ -153,7 +154,8 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
       const marker: MapMarker = {
         coordinates: location,
         address: address || `Current Location (${formatCoordinates(location.latitude, location.longitude)})`,
-        isUserSelected: true
+        isUserSelected: true,
+        confidence: 1
       };
       
       setSelectedLocation(marker);
@@ -180,6 +182,8 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
     }
   };
 
+  const isApproximate = selectedLocation ? isLowConfidence(selectedLocation) : false;
+
   // Handle confirm selection
   const handleConfirm = () => {
     if (!selectedLocation) {
@@ -194,15 +198,6 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
     onLocationSelect(selectedLocation.address, selectedLocation.coordinates);
   };
 
-  // Cleanup timeout on unmount
-  useEffect(() => {
-    return () => {
-      if (searchTimeout) {
-        clearTimeout(searchTimeout);
-      }
-    };
-  }, [searchTimeout]);
-
   return (
     <div className={`space-y-4 ${className}`}>
       {/* Search Section */}
@@ -257,6 +252,11 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
                       </p>
                       <p className="text-xs text-gray-500 mt-1">
                         {result.coordinates.latitude.toFixed(4)}, {result.coordinates.longitude.toFixed(4)}
+                        {isLowConfidence(result) && (
+                          <span className={cn(badgeVariants({ variant: "outline" }), "ml-2 text-[10px] border-amber-300 text-amber-700")}>
+                            Approximate
+                          </span>
+                        )}
                       </p>
                     </div>
                   </div>
@@ -278,7 +278,20 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
       />
 
       {/* Selected Location Info */}
-      {selectedLocation && (
+      {selectedLocation && (isApproximate ? (
+        <Card className="p-4 bg-amber-50 border-amber-200">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-amber-600 mt-0.5" />
+            <div className="flex-1">
+              <h4 className="font-medium text-amber-800">Approximate Location</h4>
+              <p className="text-sm text-amber-700 mt-1">{selectedLocation.address}</p>
+              <p className="text-xs text-amber-700 mt-1">
+                This match may be the street or neighbourhood, not your door. Tap your exact spot on the map so buyers can find you.
+              </p>
+            </div>
+          </div>
+        </Card>
+      ) : (
         <Card className="p-4 bg-green-50 border-green-200">
           <div className="flex items-start gap-3">
             <MapPin className="w-5 h-5 text-green-600 mt-0.5" />
@@ -291,7 +304,7 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
             </div>
           </div>
         </Card>
-      )}
+      ))}
 
       {/* Action Buttons */}
       <div className="flex flex-col sm:flex-row gap-2 sm:justify-end">
@@ -311,7 +324,7 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({
           className="bg-gradient-to-r from-coffee-500 to-matcha-500 hover:from-coffee-600 hover:to-matcha-600 h-12 sm:h-10 order-1 sm:order-2" // Larger on mobile, confirm first on mobile
         >
           <Check className="w-4 h-4 mr-2" />
-          Confirm Location
+          {isApproximate ? 'Use Approximate Location' : 'Confirm Location'}
         </Button>
       </div>
     </div>
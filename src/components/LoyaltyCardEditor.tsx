@@ -0,0 +1,149 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Stamp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { LoyaltyService } from "@/services/loyaltyService";
+import { StampGrid } from "@/components/LoyaltyStampCard";
+import {
+  LoyaltyCardInput,
+  MIN_STAMPS_REQUIRED,
+  MAX_STAMPS_REQUIRED,
+  MAX_REWARD_LENGTH,
+  isValidLoyaltyCode,
+  normalizeLoyaltyCode,
+  validateLoyaltyCard
+} from "@/utils/loyalty";
+
+interface LoyaltyCardEditorProps {
+  sellerId: string;
+}
+
+// Seller-side stamp card settings, plus manual entry for buyers' codes when scanning isn't handy
+export const LoyaltyCardEditor = ({ sellerId }: LoyaltyCardEditorProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [form, setForm] = useState<LoyaltyCardInput>({ stamps_required: 8, reward: 'A free drink', is_active: false });
+  const [hasCard, setHasCard] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [codeInput, setCodeInput] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      const card = await LoyaltyService.getSellerCard(sellerId);
+      if (card) {
+        setForm({ stamps_required: card.stamps_required, reward: card.reward, is_active: card.is_active });
+        setHasCard(true);
+      }
+      setLoading(false);
+    };
+    load();
+  }, [sellerId]);
+
+  const handleSave = async () => {
+    const errors = validateLoyaltyCard(form);
+    if (errors.length > 0) {
+      toast({ title: "Check the stamp card", description: errors[0], variant: "destructive" });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await LoyaltyService.saveCard(sellerId, form);
+      setHasCard(true);
+      toast({ title: "Stamp card saved", description: form.is_active ? "Buyers can collect stamps now." : "The card is switched off." });
+    } catch (error) {
+      toast({ title: "Couldn't save the stamp card", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStampCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeLoyaltyCode(codeInput);
+    if (!isValidLoyaltyCode(code)) {
+      toast({ title: "That doesn't look like a stamp code", description: "Codes are 6 letters and numbers, like AB3 K7P.", variant: "destructive" });
+      return;
+    }
+    navigate(`/loyalty/stamp/${code}`);
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Switch
+            checked={form.is_active}
+            onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_active: checked }))}
+          />
+          <span className="text-sm font-medium text-gray-700">
+            {form.is_active ? 'Buyers can collect stamps' : 'Stamp card is off'}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="loyalty-stamps">Stamps for a reward</Label>
+            <Input
+              id="loyalty-stamps"
+              type="number"
+              min={MIN_STAMPS_REQUIRED}
+              max={MAX_STAMPS_REQUIRED}
+              value={form.stamps_required || ''}
+              onChange={(e) => setForm(prev => ({ ...prev, stamps_required: Number(e.target.value) }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="loyalty-reward">Reward</Label>
+            <Input
+              id="loyalty-reward"
+              maxLength={MAX_REWARD_LENGTH}
+              placeholder="A free coffee"
+              value={form.reward}
+              onChange={(e) => setForm(prev => ({ ...prev, reward: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        {form.stamps_required >= MIN_STAMPS_REQUIRED && form.stamps_required <= MAX_STAMPS_REQUIRED && (
+          <StampGrid stamps={0} required={form.stamps_required} />
+        )}
+
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : hasCard ? 'Save changes' : 'Create stamp card'}
+        </Button>
+      </div>
+
+      {hasCard && form.is_active && (
+        <form onSubmit={handleStampCode} className="pt-4 border-t border-amber-100 space-y-2">
+          <Label htmlFor="loyalty-code">Stamp a buyer's code</Label>
+          <p className="text-xs text-gray-500">
+            Scan the QR code on the buyer's phone with your camera, or type the code here.
+          </p>
+          <div className="flex gap-2">
+            <Input
+              id="loyalty-code"
+              placeholder="AB3 K7P"
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value)}
+              className="font-mono uppercase"
+            />
+            <Button type="submit" variant="outline">
+              <Stamp className="w-4 h-4 mr-2" />
+              Check
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
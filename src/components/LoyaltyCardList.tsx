@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Stamp, Store } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { LoyaltyService, LoyaltyMembershipWithCard } from "@/services/loyaltyService";
+import { LoyaltyStampCard } from "@/components/LoyaltyStampCard";
+
+interface LoyaltyCardListProps {
+  buyerId: string;
+}
+
+// The buyer's stamp cards across sellers, for their profile
+export const LoyaltyCardList = ({ buyerId }: LoyaltyCardListProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [memberships, setMemberships] = useState<LoyaltyMembershipWithCard[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      setMemberships(await LoyaltyService.getBuyerMemberships(buyerId));
+    } catch (error) {
+      toast({ title: "Couldn't load your stamp cards", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [buyerId, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading stamp cards...</p>;
+  }
+
+  const active = memberships.filter(membership => membership.card?.is_active);
+
+  if (active.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Stamp className="w-10 h-10 text-muted-foreground/50 mx-auto mb-2" />
+        <p className="text-muted-foreground">No stamp cards yet.</p>
+        <p className="text-sm text-muted-foreground">Sellers with a stamp card show it on their page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {active.map(membership => (
+        <div key={membership.id} className="p-4 rounded-xl border space-y-3">
+          <button
+            className="flex items-center gap-3 text-left"
+            onClick={() => navigate(`/seller/${membership.seller_id}`)}
+          >
+            {membership.seller?.photo_url ? (
+              <img src={membership.seller.photo_url} alt={membership.seller.business_name} className="w-10 h-10 rounded-lg object-cover" />
+            ) : (
+              <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center">
+                <Store className="w-5 h-5 text-muted-foreground" />
+              </div>
+            )}
+            <span className="font-medium">{membership.seller?.business_name || 'Seller'}</span>
+          </button>
+          <LoyaltyStampCard
+            card={membership.card}
+            membership={membership}
+            sellerId={membership.seller_id}
+            sellerName={membership.seller?.business_name}
+            buyerId={buyerId}
+            onRefresh={load}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import { useState, useEffect } from "react";
+import { Coffee, Gift, QrCode } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { LoyaltyService } from "@/services/loyaltyService";
+import {
+  LoyaltyCard,
+  LoyaltyCode,
+  LoyaltyMembership,
+  formatLoyaltyCode,
+  getLoyaltyProgress,
+  getLoyaltyStampUrl,
+  isLoyaltyCodeExpired
+} from "@/utils/loyalty";
+
+interface StampGridProps {
+  stamps: number;
+  required: number;
+}
+
+// One cup per stamp, filled in as they are collected
+export const StampGrid = ({ stamps, required }: StampGridProps) => (
+  <div className="flex flex-wrap gap-2">
+    {Array.from({ length: required }, (_, index) => (
+      <div
+        key={index}
+        className={`w-9 h-9 rounded-full flex items-center justify-center border-2 ${
+          index < stamps ? 'bg-amber-500 border-amber-500 text-white' : 'border-dashed border-amber-300 text-amber-300'
+        }`}
+      >
+        <Coffee className="w-4 h-4" />
+      </div>
+    ))}
+  </div>
+);
+
+interface LoyaltyStampCardProps {
+  card: Pick<LoyaltyCard, 'stamps_required' | 'reward'>;
+  membership: Pick<LoyaltyMembership, 'stamps' | 'rewards_available'> | null;
+  sellerId: string;
+  sellerName?: string;
+  buyerId?: string; // Without it the card is read-only
+  onRefresh?: () => void;
+}
+
+// Buyer's view of a seller's stamp card, with a one-time code for the seller to scan
+export const LoyaltyStampCard = ({ card, membership, sellerId, sellerName, buyerId, onRefresh }: LoyaltyStampCardProps) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState<LoyaltyCode | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(new Date());
+
+  const progress = getLoyaltyProgress(card, membership);
+
+  useEffect(() => {
+    if (!code) return;
+    const timer = setInterval(() => setNow(new Date()), 15000);
+    return () => clearInterval(timer);
+  }, [code]);
+
+  const handleShowCode = async () => {
+    if (!buyerId) return;
+    try {
+      setLoading(true);
+      setCode(await LoyaltyService.createStampCode(buyerId, sellerId));
+      setNow(new Date());
+    } catch (error) {
+      toast({ title: "Couldn't create a code", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setCode(null);
+    onRefresh?.();
+  };
+
+  const expired = code ? isLoyaltyCodeExpired(code, now) : false;
+  const minutesLeft = code ? Math.max(0, Math.ceil((Date.parse(code.expires_at) - now.getTime()) / 60000)) : 0;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Collect {progress.required} stamps for <span className="font-medium text-gray-800">{card.reward}</span>
+      </p>
+      <StampGrid stamps={progress.stamps} required={progress.required} />
+      <p className="text-xs text-gray-500">
+        {progress.stamps} of {progress.required} · {progress.remaining} to go
+      </p>
+
+      {progress.rewardsAvailable > 0 && (
+        <div className="flex items-center gap-2 text-sm text-green-700 bg-green-50 rounded-lg px-3 py-2">
+          <Gift className="w-4 h-4" />
+          {progress.rewardsAvailable === 1
+            ? 'You have a reward waiting. Show your code to claim it.'
+            : `You have ${progress.rewardsAvailable} rewards waiting. Show your code to claim one.`}
+        </div>
+      )}
+
+      {buyerId ? (
+        <Button variant="outline" onClick={handleShowCode} disabled={loading} className="w-full">
+          <QrCode className="w-4 h-4 mr-2" />
+          {loading ? 'Creating code...' : 'Show my stamp code'}
+        </Button>
+      ) : (
+        <p className="text-xs text-gray-500">Sign in as a buyer to collect stamps.</p>
+      )}
+
+      <Dialog open={!!code} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Your stamp code</DialogTitle>
+            <DialogDescription>
+              Ask {sellerName || 'the seller'} to scan this QR code or type the code in their dashboard.
+            </DialogDescription>
+          </DialogHeader>
+          {code && (
+            <div className={`flex flex-col items-center gap-4 py-2 ${expired ? 'opacity-40' : ''}`}>
+              <QRCodeSVG value={getLoyaltyStampUrl(code.code)} size={200} />
+              <div className="text-3xl font-mono font-bold tracking-widest">{formatLoyaltyCode(code.code)}</div>
+              <p className="text-sm text-gray-500">
+                {expired ? 'This code has expired' : `Valid for ${minutesLeft} more minute${minutesLeft === 1 ? '' : 's'}, once`}
+              </p>
+            </div>
+          )}
+          {expired && (
+            <Button onClick={handleShowCode} disabled={loading}>Get a new code</Button>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -1,14 +1,21 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { MapPin, Navigation, Locate, Route, Clock, AlertCircle, MapPinIcon, Coffee, Leaf } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { SellerService } from "@/services/sellerService";
-import { subscribeToSellerAvailability, subscribeToNewSellers } from "@/lib/supabase";
+import { subscribeToSellerAvailability, subscribeToNewSellers, trackSellerEvent } from "@/lib/supabase";
 import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { usePreferences } from "@/contexts/PreferencesContext";
 import { useToast } from "@/hooks/use-toast";
 import { ORS_CONFIG, ORS_ERRORS } from "@/config/openroute";
+import { fetchOrsDirections } from "@/lib/openroute";
 import { getCurrentLocation, type Coordinates } from "@/utils/geocoding";
+import { OSM_TILE_URL, cacheTilesAround, loadLastLocation } from "@/utils/mapTiles";
+import { WeeklySchedule, getSellerSchedule, getOpenStatus, formatOpenStatus } from "@/utils/businessHours";
+import { OpenStatusBadge } from "@/components/OpenStatusBadge";
+import { SellerAvailabilityFields, isSellerAvailable } from "@/utils/sellerAvailability";
 
 // Dynamic import for Leaflet to ensure it only loads in browser
 let L: any = null;
@@ -49,6 +56,10 @@ interface UserLocation {
 export const MapView = ({ className }: MapViewProps) => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { i18n } = useTranslation();
+  const isRTL = i18n.dir() === 'rtl';
+  const { preferences } = usePreferences();
+  const radiusKm = preferences.location.radius;
   const mapRef = useRef<HTMLDivElement>(null);
 
   type MapSeller = {
@@ -61,9 +72,13 @@ export const MapView = ({ className }: MapViewProps) => {
     longitude: number;
     rating?: number;
     reviewCount?: number;
+    schedule?: WeeklySchedule | null;
+    availability: SellerAvailabilityFields;
   };
 
-  const [sellers, setSellers] = useState<MapSeller[]>([]);
+  // Every nearby seller; only the ones effectively available right now are shown
+  const [nearbySellers, setNearbySellers] = useState<MapSeller[]>([]);
+  const [now, setNow] = useState(() => new Date());
   const [hoveredSeller, setHoveredSeller] = useState<MapSeller | null>(null);
   const [selectedSeller, setSelectedSeller] = useState<MapSeller | null>(null);
   const [userLocation, setUserLocation] = useState<UserLocation | null>(null);
@@ -136,8 +151,8 @@ export const MapView = ({ className }: MapViewProps) => {
             variant: "destructive",
           });
 
-          // Set a default location (Casablanca, Morocco)
-          const defaultLocation = { lat: 33.5731, lng: -7.5898 };
+          // Fall back to where the user was last seen (its tiles are cached), else Casablanca, Morocco
+          const defaultLocation = loadLastLocation() ?? { lat: 33.5731, lng: -7.5898 };
           setMapCenter(defaultLocation);
         },
         options
@@ -155,7 +170,7 @@ export const MapView = ({ className }: MapViewProps) => {
         // If we have user location, use it; otherwise default to Casablanca, Morocco
         const lat = userLocation?.lat ?? 33.5731;
         const lng = userLocation?.lng ?? -7.5898;
-        const results = await SellerService.getNearbySellers(lat, lng, { radiusKm: 25, isAvailable: true });
+        const results = await SellerService.getNearbySellers(lat, lng, { radiusKm });
         if (!mounted) return;
         const mapped = (results || []).map((s: any) => ({
           id: s.id,
@@ -166,16 +181,41 @@ export const MapView = ({ className }: MapViewProps) => {
           latitude: Number(s.latitude),
           longitude: Number(s.longitude),
           rating: Number(s.rating_average || 0),
-          reviewCount: Number(s.rating_count || 0)
+          reviewCount: Number(s.rating_count || 0),
+          schedule: getSellerSchedule(s),
+          availability: {
+            is_available: s.is_available,
+            availability_mode: s.availability_mode,
+            paused_until: s.paused_until,
+            schedule: s.schedule,
+            hours: s.hours
+          }
         }));
-        setSellers(mapped);
+        setNearbySellers(mapped);
       } catch (e) {
         console.error('Failed to load sellers for map', e);
       }
     };
     load();
     return () => { mounted = false; };
-  }, [userLocation]);
+  }, [userLocation, radiusKm]);
+
+  // Schedules open and close without any database write, so re-check availability every minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const availableIds = nearbySellers
+    .filter(seller => isSellerAvailable(seller.availability, now))
+    .map(seller => seller.id)
+    .join(',');
+
+  // Keyed on the ids so the markers are only rebuilt when someone actually goes on or offline
+  const sellers = useMemo(() => {
+    const ids = new Set(availableIds.split(','));
+    return nearbySellers.filter(seller => ids.has(seller.id));
+  }, [nearbySellers, availableIds]);
 
   // Real-time: refresh sellers on availability changes and new seller inserts
   useEffect(() => {
@@ -183,7 +223,7 @@ export const MapView = ({ className }: MapViewProps) => {
       try {
         const lat = userLocation?.lat ?? 40.7128;
         const lng = userLocation?.lng ?? -74.0060;
-        const results = await SellerService.getNearbySellers(lat, lng, { radiusKm: 25, isAvailable: true });
+        const results = await SellerService.getNearbySellers(lat, lng, { radiusKm });
         const mapped = (results || []).map((s: any) => ({
           id: s.id,
           name: s.business_name,
@@ -193,9 +233,17 @@ export const MapView = ({ className }: MapViewProps) => {
           latitude: Number(s.latitude),
           longitude: Number(s.longitude),
           rating: Number(s.rating_average || 0),
-          reviewCount: Number(s.rating_count || 0)
+          reviewCount: Number(s.rating_count || 0),
+          schedule: getSellerSchedule(s),
+          availability: {
+            is_available: s.is_available,
+            availability_mode: s.availability_mode,
+            paused_until: s.paused_until,
+            schedule: s.schedule,
+            hours: s.hours
+          }
         }));
-        setSellers(mapped);
+        setNearbySellers(mapped);
       } catch (e) {
         console.error('Failed to refresh sellers for map', e);
       }
@@ -213,7 +261,7 @@ export const MapView = ({ className }: MapViewProps) => {
       try { availability.unsubscribe?.(); } catch {}
       try { newSellers.unsubscribe?.(); } catch {}
     };
-  }, [userLocation]);
+  }, [userLocation, radiusKm]);
 
   // Initialize map
   useEffect(() => {
@@ -228,7 +276,7 @@ export const MapView = ({ className }: MapViewProps) => {
         const map = leaflet.map(mapRef.current).setView([mapCenter.lat, mapCenter.lng], 13);
 
         // Add tile layer (OpenStreetMap)
-        leaflet.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+        leaflet.tileLayer(OSM_TILE_URL, {
           attribution: '© <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
         }).addTo(map);
 
@@ -256,6 +304,18 @@ export const MapView = ({ className }: MapViewProps) => {
     };
   }, []);
 
+  // Mirror Leaflet's own controls so they don't sit under ours in right-to-left languages
+  useEffect(() => {
+    if (!mapInstance) return;
+    mapInstance.zoomControl?.setPosition(isRTL ? 'topright' : 'topleft');
+    mapInstance.attributionControl?.setPosition(isRTL ? 'bottomleft' : 'bottomright');
+  }, [mapInstance, isRTL]);
+
+  // Keep the map around the user available offline
+  useEffect(() => {
+    if (userLocation) cacheTilesAround(userLocation);
+  }, [userLocation]);
+
   // Update map center when user location changes
   useEffect(() => {
     if (mapInstance && userLocation) {
@@ -310,12 +370,16 @@ export const MapView = ({ className }: MapViewProps) => {
       const marker = L.marker([seller.latitude, seller.longitude], { icon: customIcon })
         .addTo(mapInstance);
 
+      // Open/closed line, evaluated when the markers are drawn
+      const openStatus = seller.schedule ? getOpenStatus(seller.schedule) : null;
+
       // Add popup with seller info
       const popupContent = `
         <div style="padding: 12px; min-width: 200px;">
           <h3 style="font-weight: bold; font-size: 14px; margin-bottom: 4px; color: #1f2937;">${seller.name}</h3>
           <p style="font-size: 12px; color: #6b7280; margin-bottom: 8px; text-transform: capitalize;">${seller.specialty} specialist</p>
           ${seller.rating ? `<p style="font-size: 12px; color: #6b7280; margin-bottom: 8px;">⭐ ${seller.rating.toFixed(1)} (${seller.reviewCount || 0} reviews)</p>` : ''}
+          ${openStatus ? `<p style="font-size: 12px; font-weight: 600; margin-bottom: 8px; color: ${openStatus.isOpen ? '#15803d' : '#6b7280'};">${formatOpenStatus(openStatus)}</p>` : ''}
           <div style="display: flex; gap: 8px;">
             <button onclick="window.location.href='/seller/${seller.id}'" style="
               padding: 4px 8px;
@@ -419,24 +483,7 @@ export const MapView = ({ className }: MapViewProps) => {
     }
 
     try {
-      const response = await fetch(`${ORS_CONFIG.BASE_URL}/directions/${ORS_CONFIG.PROFILE}`, {
-        method: 'POST',
-        headers: {
-          'Accept': 'application/json, application/geo+json, application/gpx+xml, img/png; charset=utf-8',
-          'Authorization': ORS_CONFIG.API_KEY,
-          'Content-Type': 'application/json; charset=utf-8'
-        },
-        body: JSON.stringify({
-          coordinates: [start, end],
-          format: 'geojson'
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const data = await fetchOrsDirections([start, end]);
       const route = data.features[0];
 
       return {
@@ -448,7 +495,9 @@ export const MapView = ({ className }: MapViewProps) => {
       console.error('Error fetching route:', error);
       toast({
         title: "Routing Error",
-        description: "Unable to calculate route. Please try again.",
+        description: error instanceof Error && error.message === ORS_ERRORS.RATE_LIMIT_EXCEEDED
+          ? ORS_ERRORS.RATE_LIMIT_EXCEEDED
+          : "Unable to calculate route. Please try again.",
         variant: "destructive",
       });
       return null;
@@ -474,6 +523,7 @@ export const MapView = ({ className }: MapViewProps) => {
       return;
     }
     const sellerCoords: [number, number] = [seller.longitude, seller.latitude];
+    trackSellerEvent(String(seller.id), 'directions_request');
 
     const route = await getRoute(
       [userLocation.lng, userLocation.lat],
@@ -630,31 +680,31 @@ export const MapView = ({ className }: MapViewProps) => {
       <div className="flex items-center justify-between p-4 bg-background/95 backdrop-blur-md border-b border-border/50">
         <div className="flex items-center gap-2">
           <Badge variant="outline" className="text-xs">
-            <MapPin className="w-3 h-3 mr-1" />
+            <MapPin className="w-3 h-3 me-1" />
             {sellers.length} sellers nearby
           {/* Real-time tags could be added here if needed */}
           </Badge>
           {locationStatus === 'granted' && userLocation && (
             <Badge variant="secondary" className="text-xs">
-              <Locate className="w-3 h-3 mr-1" />
+              <Locate className="w-3 h-3 me-1" />
               Location enabled
             </Badge>
           )}
           {locationStatus === 'denied' && (
             <Badge variant="destructive" className="text-xs">
-              <AlertCircle className="w-3 h-3 mr-1" />
+              <AlertCircle className="w-3 h-3 me-1" />
               Location blocked
             </Badge>
           )}
           {locationStatus === 'unavailable' && (
             <Badge variant="outline" className="text-xs">
-              <MapPinIcon className="w-3 h-3 mr-1" />
+              <MapPinIcon className="w-3 h-3 me-1" />
               Default location
             </Badge>
           )}
           {isLoadingRoute && (
             <Badge variant="outline" className="text-xs animate-pulse">
-              <Route className="w-3 h-3 mr-1" />
+              <Route className="w-3 h-3 me-1" />
               Calculating route...
             </Badge>
           )}
@@ -668,7 +718,7 @@ export const MapView = ({ className }: MapViewProps) => {
             disabled={!userLocation}
             className="text-xs"
           >
-            <Locate className="w-4 h-4 mr-1" />
+            <Locate className="w-4 h-4 me-1" />
             My Location
           </Button>
         </div>
@@ -707,7 +757,7 @@ export const MapView = ({ className }: MapViewProps) => {
                 }}
                 className="text-xs"
               >
-                <Navigation className="w-3 h-3 mr-1" />
+                <Navigation className="w-3 h-3 me-1" />
                 Navigate
               </Button>
               <Button
@@ -782,7 +832,7 @@ export const MapView = ({ className }: MapViewProps) => {
 
           {/* Map Controls */}
           {mapReady && (
-            <div className="absolute top-4 right-4 space-y-2 z-10">
+            <div className="absolute top-4 end-4 space-y-2 z-10">
               <Button
                 size="sm"
                 variant="outline"
@@ -808,7 +858,7 @@ export const MapView = ({ className }: MapViewProps) => {
 
           {/* Instructions */}
           {mapReady && !selectedSeller && (
-            <div className="absolute bottom-4 left-4 text-xs text-muted-foreground bg-background/80 backdrop-blur-sm px-3 py-2 rounded-lg border border-border/30 z-10">
+            <div className="absolute bottom-4 start-4 text-xs text-muted-foreground bg-background/80 backdrop-blur-sm px-3 py-2 rounded-lg border border-border/30 z-10">
               💡 Click a seller marker to view details
             </div>
           )}
@@ -817,7 +867,7 @@ export const MapView = ({ className }: MapViewProps) => {
 
       {/* Hovered seller preview */}
       {hoveredSeller && (
-        <div className="absolute bottom-24 md:bottom-8 left-4 right-4 z-20">
+        <div className="absolute bottom-24 md:bottom-8 inset-x-4 z-20">
           <Card className="p-4 bg-background/95 backdrop-blur-md border-border/50 shadow-floating">
             <div className="flex gap-3 items-center">
               <img
@@ -832,6 +882,7 @@ export const MapView = ({ className }: MapViewProps) => {
                 <p className="text-sm text-muted-foreground truncate">
                   {hoveredSeller.specialty} • {hoveredSeller.distance}
                 </p>
+                <OpenStatusBadge schedule={hoveredSeller.schedule} className="mt-1" />
               </div>
               <div className="flex gap-2">
                 <Button
@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Copy, Download, Printer } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { SellerService } from "@/services/sellerService";
+import { generateSellerUrl, generateSlug, isValidSlug, MAX_SLUG_LENGTH } from "@/utils/sitemap";
+import { PRINT_LAYOUTS, QR_CAMPAIGN_PRESETS, buildMenuUrl, buildQrPrintHtml } from "@/utils/menuQr";
+
+interface MenuQrCodeProps {
+  sellerId: string;
+}
+
+// QR code for the seller's public menu, tagged per campaign, with SVG download and print sheets
+export const MenuQrCode = ({ sellerId }: MenuQrCodeProps) => {
+  const { toast } = useToast();
+  const qrRef = useRef<HTMLDivElement>(null);
+  const [businessName, setBusinessName] = useState('');
+  const [slug, setSlug] = useState<string | null>(null);
+  const [slugInput, setSlugInput] = useState('');
+  const [campaign, setCampaign] = useState(QR_CAMPAIGN_PRESETS[0].value);
+  const [layout, setLayout] = useState(PRINT_LAYOUTS[0].value);
+  const [saving, setSaving] = useState(false);
+
+  const loadMenuLink = useCallback(async () => {
+    try {
+      const seller = await SellerService.getSellerById(sellerId);
+      if (!seller) return;
+      setBusinessName(seller.business_name);
+      const sellerSlug = await SellerService.ensureSlug(seller);
+      setSlug(sellerSlug);
+      setSlugInput(sellerSlug);
+    } catch (error) {
+      toast({ title: "Couldn't set up your menu link", description: (error as Error).message, variant: "destructive" });
+    }
+  }, [sellerId, toast]);
+
+  useEffect(() => {
+    loadMenuLink();
+  }, [loadMenuLink]);
+
+  if (!slug) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  const menuPath = generateSellerUrl({ slug, business_name: businessName });
+  const campaignParams = QR_CAMPAIGN_PRESETS.find(preset => preset.value === campaign)?.params;
+  const qrUrl = buildMenuUrl(window.location.origin, menuPath, campaignParams);
+  const plainUrl = buildMenuUrl(window.location.origin, menuPath);
+
+  const getSvgMarkup = (): string => {
+    const svg = qrRef.current?.querySelector('svg');
+    return svg ? new XMLSerializer().serializeToString(svg) : '';
+  };
+
+  const handleDownloadSvg = () => {
+    const blob = new Blob([getSvgMarkup()], { type: 'image/svg+xml' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${slug}-${campaign}-qr.svg`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  // Opens the print sheet in a new tab; the browser's "Save as PDF" gives a PDF
+  const handlePrint = () => {
+    const printLayout = PRINT_LAYOUTS.find(option => option.value === layout) || PRINT_LAYOUTS[0];
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast({ title: "Pop-up blocked", description: "Allow pop-ups for this site to print your QR code.", variant: "destructive" });
+      return;
+    }
+    printWindow.document.write(buildQrPrintHtml({ svg: getSvgMarkup(), businessName, url: qrUrl, layout: printLayout }));
+    printWindow.document.close();
+    printWindow.onload = () => printWindow.print();
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(plainUrl);
+    toast({ title: "Link copied", description: plainUrl });
+  };
+
+  const handleSaveSlug = async () => {
+    const candidate = generateSlug(slugInput);
+    if (!isValidSlug(candidate)) {
+      toast({ title: "Pick another link", description: `Use letters, numbers and dashes, up to ${MAX_SLUG_LENGTH} characters.`, variant: "destructive" });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await SellerService.updateSlug(sellerId, candidate);
+      setSlug(saved);
+      setSlugInput(saved);
+      toast({
+        title: "Menu link updated",
+        description: saved === candidate ? `/menu/${saved}` : `That link was taken, so you got /menu/${saved}`
+      });
+    } catch (error) {
+      toast({ title: "Couldn't change the link", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[auto,1fr] gap-6">
+      <div className="flex flex-col items-center gap-2">
+        <div ref={qrRef} className="p-3 bg-white rounded-xl border">
+          <QRCodeSVG value={qrUrl} size={176} level="M" marginSize={2} />
+        </div>
+        <span className="text-xs text-gray-500">Scans open your menu</span>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="menu-slug">Menu link</Label>
+          <div className="flex gap-2">
+            <div className="flex flex-1 items-center rounded-md border bg-white/60 pl-3">
+              <span className="text-sm text-gray-500 whitespace-nowrap">/menu/</span>
+              <Input
+                id="menu-slug"
+                value={slugInput}
+                maxLength={MAX_SLUG_LENGTH}
+                onChange={(e) => setSlugInput(e.target.value)}
+                className="border-0 bg-transparent pl-1 focus-visible:ring-0"
+              />
+            </div>
+            <Button variant="outline" onClick={handleSaveSlug} disabled={saving || slugInput === slug}>
+              Save
+            </Button>
+            <Button variant="outline" onClick={handleCopy} aria-label="Copy menu link">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Changing it breaks QR codes you have already printed.</p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <Label>Where it goes</Label>
+            <Select value={campaign} onValueChange={setCampaign}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QR_CAMPAIGN_PRESETS.map(preset => (
+                  <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Print layout</Label>
+            <Select value={layout} onValueChange={(value) => setLayout(value as typeof layout)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRINT_LAYOUTS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Scans count as profile views and are tagged with the placement.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handlePrint}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print or save as PDF
+          </Button>
+          <Button variant="outline" onClick={handleDownloadSvg}>
+            <Download className="w-4 h-4 mr-2" />
+            Download SVG
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { CheckCheck, Send } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { MessageService, ConversationWithParties } from "@/services/messageService";
+import { subscribeToConversationMessages } from "@/lib/supabase";
+import {
+  createBusinessHoursInquiry,
+  createLocationInquiry,
+  createQuickContactMessage
+} from "@/utils/whatsapp";
+import {
+  Message,
+  MAX_MESSAGE_LENGTH,
+  getLastReadMessageId,
+  isMessageUnread,
+  toInAppMessage
+} from "@/utils/messaging";
+
+interface MessageThreadProps {
+  conversationId: string;
+  userId: string;
+  userName?: string;
+}
+
+// Same wording as the WhatsApp buttons, minus the WhatsApp-only formatting
+const getMessageTemplates = (specialty: string, customerName?: string, language?: string) => [
+  { id: 'quick_contact', label: 'Ask about the menu', body: toInAppMessage(createQuickContactMessage({ specialty }, customerName, language)) },
+  { id: 'business_hours', label: 'Ask about hours', body: toInAppMessage(createBusinessHoursInquiry({ specialty }, language)) },
+  { id: 'location', label: 'Ask for directions', body: toInAppMessage(createLocationInquiry({ specialty }, language)) }
+];
+
+// One buyer–seller conversation: messages, read receipts and the composer
+export const MessageThread = ({ conversationId, userId, userName }: MessageThreadProps) => {
+  const { toast } = useToast();
+  const { i18n } = useTranslation();
+  const [conversation, setConversation] = useState<Omit<ConversationWithParties, 'unreadCount'> | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const loadMessages = useCallback(async () => {
+    try {
+      const data = await MessageService.getMessages(conversationId);
+      setMessages(data);
+      if (data.some(message => isMessageUnread(message, userId))) {
+        await MessageService.markConversationRead(conversationId);
+      }
+    } catch (error) {
+      console.error('Failed to load messages:', error);
+    }
+  }, [conversationId, userId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setDraft('');
+    Promise.all([
+      MessageService.getConversation(conversationId).then(setConversation),
+      loadMessages()
+    ])
+      .catch(error => console.error('Failed to load conversation:', error))
+      .finally(() => setLoading(false));
+
+    const channel = subscribeToConversationMessages(conversationId, () => loadMessages());
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [conversationId, loadMessages]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  const handleSend = async () => {
+    if (!draft.trim() || isSending) return;
+    setIsSending(true);
+    try {
+      const sent = await MessageService.sendMessage(conversationId, userId, draft);
+      setMessages(prev => (prev.some(m => m.id === sent.id) ? prev : [...prev, sent]));
+      setDraft('');
+    } catch (error) {
+      toast({
+        title: "Message not sent",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full py-8">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!conversation) {
+    return <p className="text-center text-muted-foreground py-8">This conversation could not be found.</p>;
+  }
+
+  const isBuyer = conversation.buyer_id === userId;
+  const otherName = isBuyer ? conversation.seller?.business_name : conversation.buyer?.name;
+  const lastReadId = getLastReadMessageId(messages, userId);
+  const templates = isBuyer && conversation.seller ? getMessageTemplates(conversation.seller.specialty, userName, i18n.language) : [];
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-3 border-b font-semibold">{otherName || 'Conversation'}</div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {messages.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground py-8">
+            {isBuyer ? 'Say hello or pick a template below.' : 'No messages yet.'}
+          </p>
+        )}
+        {messages.map(message => {
+          const own = message.sender_id === userId;
+          return (
+            <div key={message.id} className={`flex flex-col ${own ? 'items-end' : 'items-start'}`}>
+              <div
+                className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm whitespace-pre-wrap break-words ${
+                  own ? 'bg-primary text-primary-foreground rounded-br-sm' : 'bg-muted rounded-bl-sm'
+                }`}
+              >
+                {message.body}
+              </div>
+              <span className="text-[11px] text-muted-foreground mt-0.5 flex items-center gap-1">
+                {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {message.id === lastReadId && (
+                  <>
+                    <CheckCheck className="w-3 h-3 text-blue-500" />
+                    Seen
+                  </>
+                )}
+              </span>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="border-t p-3 space-y-2">
+        {templates.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(id) => setDraft(templates.find(template => template.id === id)?.body || '')}
+          >
+            <SelectTrigger className="h-8 w-auto text-xs">
+              <SelectValue placeholder="Use a template" />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(template => (
+                <SelectItem key={template.id} value={template.id}>{template.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="flex items-end gap-2">
+          <Textarea
+            placeholder="Write a message..."
+            value={draft}
+            rows={2}
+            onChange={(e) => setDraft(e.target.value.slice(0, MAX_MESSAGE_LENGTH))}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            className="resize-none"
+          />
+          <Button onClick={handleSend} disabled={!draft.trim() || isSending} size="icon" aria-label="Send">
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck, MessageCircle, Store } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useNotifications } from "@/contexts/NotificationsContext";
+import { useToast } from "@/hooks/use-toast";
+import { AppNotification } from "@/utils/notifications";
+
+const NOTIFICATION_ICONS = {
+  contact_request: MessageCircle,
+  new_seller: Store
+};
+
+// Bell with the unread count; the popover lists the latest notifications and opens their link
+export const NotificationBell = ({ className = '' }: { className?: string }) => {
+  const { notifications, unreadCount, loading, markRead, markAllRead } = useNotifications();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const handleError = (error: unknown) => {
+    toast({
+      title: "Couldn't update notifications",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+  };
+
+  const handleOpen = (notification: AppNotification) => {
+    setOpen(false);
+    if (!notification.read_at) markRead(notification.id).catch(handleError);
+    if (notification.url) navigate(notification.url);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`relative ${className}`}
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -end-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h3 className="font-semibold">Notifications</h3>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => markAllRead().catch(handleError)}>
+              <CheckCheck className="w-4 h-4 me-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {loading && notifications.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-8">Loading...</p>
+          ) : notifications.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-8">You're all caught up.</p>
+          ) : (
+            notifications.map(notification => {
+              const Icon = NOTIFICATION_ICONS[notification.type] || Bell;
+              return (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpen(notification)}
+                  className={`w-full flex gap-3 px-4 py-3 text-start hover:bg-muted/50 transition-colors ${notification.read_at ? '' : 'bg-primary/5'}`}
+                >
+                  <Icon className="w-4 h-4 mt-1 shrink-0 text-primary" />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${notification.read_at ? '' : 'font-semibold'}`}>{notification.title}</p>
+                    <p className="text-sm text-muted-foreground">{notification.body}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.read_at && <span className="w-2 h-2 mt-2 rounded-full bg-primary shrink-0" />}
+                </button>
+              );
+            })
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,21 @@
+import { WifiOff } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+
+// Shown while the browser is offline; pages keep working from the service worker's cache
+export const OfflineBanner = () => {
+  const { t } = useTranslation();
+  const isOnline = useOnlineStatus();
+
+  if (isOnline) return null;
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-50 flex items-center justify-center gap-2 bg-amber-500 text-amber-950 text-sm font-medium px-4 py-2"
+    >
+      <WifiOff className="w-4 h-4 shrink-0" />
+      <span>{t('common.offline')}</span>
+    </div>
+  );
+};
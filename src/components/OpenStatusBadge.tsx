@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+import { WeeklySchedule, getOpenStatus, formatOpenStatus } from "@/utils/businessHours";
+
+interface OpenStatusBadgeProps {
+  schedule: WeeklySchedule | null | undefined;
+  className?: string;
+}
+
+// "Open now · closes at 18:00" pill; re-evaluated every minute so it flips at closing time
+export const OpenStatusBadge = ({ schedule, className }: OpenStatusBadgeProps) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!schedule) return;
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [schedule]);
+
+  if (!schedule) return null;
+
+  const status = getOpenStatus(schedule, now);
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+        status.isOpen ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+      } ${className || ''}`}
+    >
+      <Clock className="w-3 h-3" />
+      {formatOpenStatus(status)}
+    </span>
+  );
+};
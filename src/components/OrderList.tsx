@@ -0,0 +1,222 @@
+import { useState, useEffect, useCallback } from "react";
+import { ShoppingBag, Clock, MessageCircle } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { usePriceFormatter } from "@/hooks/usePriceFormatter";
+import { OrderService, OrderWithItems } from "@/services/orderService";
+import { subscribeToOrderChanges } from "@/lib/supabase";
+import {
+  OrderActor,
+  OrderStatus,
+  getOrderStatusInfo,
+  getNextOrderStatuses,
+  isActiveOrderStatus
+} from "@/utils/orderStatus";
+import {
+  sendWhatsAppMessage,
+  createOrderNotificationMessage,
+  formatOrderReference,
+  trackContactAttempt
+} from "@/utils/whatsapp";
+import { SelectedDrinkOption, formatSelectedOptions } from "@/utils/drinkOptions";
+
+interface OrderListProps {
+  role: OrderActor;
+  userId: string;
+  customerName?: string;
+  emptyMessage?: string;
+}
+
+const STATUS_BADGE_CLASSES: Record<OrderStatus, string> = {
+  placed: 'bg-amber-100 text-amber-800',
+  accepted: 'bg-blue-100 text-blue-800',
+  ready: 'bg-green-100 text-green-800',
+  picked_up: 'bg-gray-100 text-gray-700',
+  cancelled: 'bg-red-100 text-red-700'
+};
+
+const ACTION_LABELS: Record<OrderStatus, string> = {
+  placed: 'Place',
+  accepted: 'Accept',
+  ready: 'Mark ready',
+  picked_up: 'Picked up',
+  cancelled: 'Cancel'
+};
+
+export const OrderStatusBadge = ({ status }: { status: OrderStatus }) => {
+  const info = getOrderStatusInfo(status);
+  return (
+    <Badge variant="secondary" className={STATUS_BADGE_CLASSES[status]}>
+      {info.emoji} {info.label}
+    </Badge>
+  );
+};
+
+export const OrderList = ({ role, userId, customerName, emptyMessage }: OrderListProps) => {
+  const { toast } = useToast();
+  const formatPrice = usePriceFormatter();
+  const { i18n } = useTranslation();
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    try {
+      const data = role === 'buyer'
+        ? await OrderService.getBuyerOrders(userId)
+        : await OrderService.getSellerOrders(userId);
+      setOrders(data);
+    } catch (error) {
+      console.error('Failed to load orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [role, userId]);
+
+  useEffect(() => {
+    loadOrders();
+
+    // Keep both sides of the order in sync
+    const channel = subscribeToOrderChanges(role, userId, () => {
+      loadOrders();
+    });
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [role, userId, loadOrders]);
+
+  const handleStatusChange = async (order: OrderWithItems, status: OrderStatus) => {
+    try {
+      setUpdatingId(order.id);
+      const updated = await OrderService.updateOrderStatus(order.id, status, role);
+      setOrders(prev => prev.map(o => (o.id === order.id ? { ...o, ...updated } : o)));
+      toast({
+        title: "Order updated",
+        description: `${formatOrderReference(order.id)} is now ${getOrderStatusInfo(status).label.toLowerCase()}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: (error as Error).message || "Failed to update the order",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleNotifySeller = (order: OrderWithItems) => {
+    if (!order.seller?.phone) return;
+
+    const message = createOrderNotificationMessage(
+      order.id,
+      OrderService.toOrderItems(order),
+      Number(order.total_amount),
+      customerName,
+      order.notes || undefined,
+      i18n.language
+    );
+    sendWhatsAppMessage(order.seller.phone, message);
+    trackContactAttempt(order.seller_id, 'whatsapp');
+    OrderService.markWhatsAppNotified(order.id);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (orders.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <ShoppingBag className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+        <p className="text-muted-foreground">{emptyMessage || 'No orders yet'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {orders.map(order => {
+        const nextStatuses = getNextOrderStatuses(order.status, role);
+        const counterpart = role === 'buyer' ? order.seller?.business_name : order.buyer?.name;
+
+        return (
+          <Card key={order.id} className="p-4 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm font-semibold">{formatOrderReference(order.id)}</span>
+                  <OrderStatusBadge status={order.status} />
+                </div>
+                {counterpart && (
+                  <p className="text-sm text-muted-foreground mt-1">{counterpart}</p>
+                )}
+              </div>
+              <div className="text-right">
+                <div className="text-lg font-bold text-primary">{formatPrice(Number(order.total_amount))}</div>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground justify-end">
+                  <Clock className="w-3 h-3" />
+                  {new Date(order.created_at).toLocaleString()}
+                </div>
+              </div>
+            </div>
+
+            <ul className="text-sm space-y-1">
+              {order.items.map(item => (
+                <li key={item.id} className="flex justify-between gap-2">
+                  <span>
+                    {item.quantity} × {item.name}
+                    {item.options && (
+                      <span className="text-muted-foreground"> ({formatSelectedOptions(item.options as unknown as SelectedDrinkOption[])})</span>
+                    )}
+                    {item.notes && <span className="text-muted-foreground italic"> — {item.notes}</span>}
+                  </span>
+                  <span className="text-muted-foreground">{formatPrice(item.line_total != null ? Number(item.line_total) : Number(item.unit_price) * item.quantity)}</span>
+                </li>
+              ))}
+            </ul>
+
+            {order.notes && (
+              <p className="text-sm text-muted-foreground border-l-2 border-border pl-2">{order.notes}</p>
+            )}
+
+            {(nextStatuses.length > 0 || (role === 'buyer' && isActiveOrderStatus(order.status))) && (
+              <div className="flex flex-wrap gap-2 pt-2 border-t border-border/30">
+                {nextStatuses.map(status => (
+                  <Button
+                    key={status}
+                    size="sm"
+                    variant={status === 'cancelled' ? 'outline' : 'default'}
+                    disabled={updatingId === order.id}
+                    onClick={() => handleStatusChange(order, status)}
+                  >
+                    {ACTION_LABELS[status]}
+                  </Button>
+                ))}
+                {role === 'buyer' && isActiveOrderStatus(order.status) && order.seller?.phone && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleNotifySeller(order)}
+                    className="flex items-center gap-2"
+                  >
+                    <MessageCircle className="w-4 h-4" />
+                    {order.whatsapp_notified_at ? 'Remind on WhatsApp' : 'Notify on WhatsApp'}
+                  </Button>
+                )}
+              </div>
+            )}
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
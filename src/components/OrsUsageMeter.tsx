@@ -0,0 +1,99 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Gauge, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { getOrsUsage, type OrsUsage } from '@/lib/openroute';
+import { clearResponseCache, getResponseCacheStats } from '@/lib/responseCache';
+
+const REFRESH_INTERVAL_MS = 2000;
+
+// OpenRouteService quota use in this browser, plus how often the response cache saved a request
+export const OrsUsageMeter: React.FC = () => {
+  const { toast } = useToast();
+  const [usage, setUsage] = useState<OrsUsage>(getOrsUsage);
+  const [cacheStats, setCacheStats] = useState(getResponseCacheStats);
+
+  const refresh = useCallback(() => {
+    setUsage(getOrsUsage());
+    setCacheStats(getResponseCacheStats());
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const handleClearCache = async () => {
+    await clearResponseCache();
+    refresh();
+    toast({
+      title: "Cache Cleared",
+      description: "Geocoding and directions responses will be fetched again.",
+    });
+  };
+
+  const minuteUsed = usage.minuteLimit - usage.minuteTokens;
+  const lookups = cacheStats.hits + cacheStats.misses;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Gauge className="w-5 h-5" />
+          OpenRouteService Usage
+        </h2>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={refresh}>
+            <RefreshCw className="w-4 h-4 me-2" />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleClearCache}>
+            <Trash2 className="w-4 h-4 me-2" />
+            Clear Cache
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <div className="flex justify-between text-sm mb-1">
+            <span>Today</span>
+            <span>{usage.today} / {usage.dailyLimit}</span>
+          </div>
+          <Progress value={(usage.today / usage.dailyLimit) * 100} />
+        </div>
+
+        <div>
+          <div className="flex justify-between text-sm mb-1">
+            <span>Last minute</span>
+            <span>{minuteUsed} / {usage.minuteLimit}</span>
+          </div>
+          <Progress value={(minuteUsed / usage.minuteLimit) * 100} />
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>Autocomplete: {usage.requests.autocomplete}</div>
+          <div>Geocode: {usage.requests.geocode}</div>
+          <div>Reverse: {usage.requests.reverse}</div>
+          <div>Directions: {usage.requests.directions}</div>
+          <div className={usage.throttled > 0 ? 'text-red-600 font-medium' : ''}>
+            Throttled: {usage.throttled}
+          </div>
+          <div className={usage.errors > 0 ? 'text-red-600 font-medium' : ''}>
+            Errors: {usage.errors}
+          </div>
+          <div>
+            Cache hits: {cacheStats.hits}{lookups > 0 && ` (${Math.round((cacheStats.hits / lookups) * 100)}%)`}
+          </div>
+          <div>Cached in memory: {cacheStats.memoryEntries}</div>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Today's count is shared by every tab in this browser; request counts, errors and cache hits are for this session.
+        </p>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,391 @@
+import { useState, useEffect, useCallback } from "react";
+import { Pencil, Plus, Tag, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScheduleEditor } from "@/components/ScheduleEditor";
+import { useToast } from "@/hooks/use-toast";
+import { SellerService } from "@/services/sellerService";
+import { PromotionService } from "@/services/promotionService";
+import { WeeklySchedule, createEmptySchedule, formatSchedule, getSellerSchedule } from "@/utils/businessHours";
+import {
+  Promotion,
+  PromotionInput,
+  PromotionStatus,
+  PromotionType,
+  PROMOTION_STATUS_LABELS,
+  PROMOTION_TYPES,
+  MAX_PERCENTAGE_OFF,
+  MAX_BUNDLE_QUANTITY,
+  formatPromotionLabel,
+  getPromotionStatus,
+  getPromotionWindows,
+  validatePromotion
+} from "@/utils/promotions";
+
+interface PromotionManagerProps {
+  sellerId: string;
+  drinks: { id: string; name: string }[];
+}
+
+const STATUS_BADGE_CLASSES: Record<PromotionStatus, string> = {
+  running: 'bg-green-100 text-green-800',
+  off_hours: 'bg-amber-100 text-amber-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  ended: 'bg-gray-100 text-gray-600',
+  paused: 'bg-gray-100 text-gray-600'
+};
+
+// ISO timestamp -> value for a datetime-local input, in the browser's time
+const toDateTimeInput = (iso: string): string => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const createDraft = (): PromotionInput => ({
+  title: '',
+  type: 'percentage',
+  discount_value: 10,
+  buy_quantity: 1,
+  free_quantity: 1,
+  drink_ids: [],
+  time_windows: null,
+  starts_at: toDateTimeInput(new Date().toISOString()),
+  ends_at: null
+});
+
+const toDraft = (promotion: Promotion): PromotionInput => ({
+  title: promotion.title,
+  type: promotion.type,
+  discount_value: promotion.discount_value,
+  buy_quantity: promotion.buy_quantity ?? 1,
+  free_quantity: promotion.free_quantity ?? 1,
+  drink_ids: promotion.drink_ids || [],
+  time_windows: getPromotionWindows(promotion),
+  starts_at: toDateTimeInput(promotion.starts_at),
+  ends_at: promotion.ends_at ? toDateTimeInput(promotion.ends_at) : null
+});
+
+// Seller-side promotions: percentage or amount off, bundles and happy hours on chosen drinks
+export const PromotionManager = ({ sellerId, drinks }: PromotionManagerProps) => {
+  const { toast } = useToast();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [schedule, setSchedule] = useState<WeeklySchedule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<PromotionInput | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const loadPromotions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [sellerPromotions, seller] = await Promise.all([
+        PromotionService.getSellerPromotions(sellerId),
+        SellerService.getSellerById(sellerId)
+      ]);
+      setPromotions(sellerPromotions);
+      setSchedule(getSellerSchedule(seller));
+    } catch (error) {
+      toast({ title: "Couldn't load your promotions", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [sellerId, toast]);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  const updateDraft = (changes: Partial<PromotionInput>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  // Happy hours start from the seller's opening hours, trimmed down from there
+  const changeType = (type: PromotionType) => {
+    const needsWindows = type === 'happy_hour' && !draft?.time_windows;
+    updateDraft({
+      type,
+      ...(needsWindows ? { time_windows: schedule ? { ...schedule, overrides: undefined } : createEmptySchedule() } : {})
+    });
+  };
+
+  const toggleDrink = (drinkId: string) => {
+    if (!draft) return;
+    updateDraft({
+      drink_ids: draft.drink_ids.includes(drinkId)
+        ? draft.drink_ids.filter(id => id !== drinkId)
+        : [...draft.drink_ids, drinkId]
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const errors = validatePromotion(draft);
+    if (errors.length > 0) {
+      toast({ title: "Check the promotion", description: errors[0], variant: "destructive" });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await PromotionService.savePromotion(sellerId, draft, editingId || undefined);
+      setPromotions(prev => (editingId ? prev.map(p => (p.id === saved.id ? saved : p)) : [saved, ...prev]));
+      setDraft(null);
+      setEditingId(null);
+      toast({ title: editingId ? "Promotion updated" : "Promotion created", description: saved.title });
+    } catch (error) {
+      toast({ title: "Couldn't save the promotion", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (promotion: Promotion, isActive: boolean) => {
+    try {
+      await PromotionService.setPromotionActive(promotion.id, isActive);
+      setPromotions(prev => prev.map(p => (p.id === promotion.id ? { ...p, is_active: isActive } : p)));
+    } catch (error) {
+      toast({ title: "Update failed", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    try {
+      await PromotionService.deletePromotion(promotion.id);
+      setPromotions(prev => prev.filter(p => p.id !== promotion.id));
+    } catch (error) {
+      toast({ title: "Couldn't delete the promotion", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  const drinkName = (id: string) => drinks.find(drink => drink.id === id)?.name || 'Removed drink';
+
+  return (
+    <div className="space-y-4">
+      {promotions.length === 0 && !draft && (
+        <div className="text-center py-6">
+          <Tag className="w-12 h-12 text-gray-300 mx-auto mb-2" />
+          <p className="text-gray-500">No promotions yet</p>
+          <p className="text-gray-400 text-sm">Try a happy hour or a 2-for-1 to bring buyers in</p>
+        </div>
+      )}
+
+      {promotions.map(promotion => {
+        const status = getPromotionStatus(promotion, schedule);
+        const windows = getPromotionWindows(promotion);
+        return (
+          <div key={promotion.id} className="p-4 bg-white/50 rounded-xl space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-gray-800">{promotion.title}</span>
+                  <Badge className="bg-red-500 hover:bg-red-500 text-white">{formatPromotionLabel(promotion)}</Badge>
+                  <Badge variant="secondary" className={STATUS_BADGE_CLASSES[status]}>
+                    {PROMOTION_STATUS_LABELS[status]}
+                  </Badge>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {new Date(promotion.starts_at).toLocaleString()}
+                  {promotion.ends_at ? ` → ${new Date(promotion.ends_at).toLocaleString()}` : ' · no end date'}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {promotion.drink_ids.length === 0 ? 'All drinks' : promotion.drink_ids.map(drinkName).join(', ')}
+                </div>
+                {windows && <div className="text-xs text-gray-500">{formatSchedule(windows)}</div>}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Switch
+                  checked={promotion.is_active}
+                  onCheckedChange={(checked) => handleToggle(promotion, checked)}
+                  aria-label={`Turn ${promotion.title} on or off`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setDraft(toDraft(promotion));
+                    setEditingId(promotion.id);
+                  }}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(promotion)}>
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      {draft ? (
+        <div className="p-4 border border-amber-200 rounded-xl space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="promotion-title">Name</Label>
+              <Input
+                id="promotion-title"
+                placeholder="Morning matcha 2-for-1"
+                value={draft.title}
+                onChange={(e) => updateDraft({ title: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={draft.type} onValueChange={(value) => changeType(value as PromotionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROMOTION_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                {PROMOTION_TYPES.find(type => type.value === draft.type)?.description}
+              </p>
+            </div>
+          </div>
+
+          {draft.type === 'bundle' ? (
+            <div className="flex items-end gap-3">
+              <div>
+                <Label htmlFor="promotion-buy">Buy</Label>
+                <Input
+                  id="promotion-buy"
+                  type="number"
+                  min={1}
+                  max={MAX_BUNDLE_QUANTITY}
+                  value={draft.buy_quantity ?? ''}
+                  onChange={(e) => updateDraft({ buy_quantity: e.target.value === '' ? null : Number(e.target.value) })}
+                  className="w-24"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promotion-free">Get free</Label>
+                <Input
+                  id="promotion-free"
+                  type="number"
+                  min={1}
+                  max={MAX_BUNDLE_QUANTITY}
+                  value={draft.free_quantity ?? ''}
+                  onChange={(e) => updateDraft({ free_quantity: e.target.value === '' ? null : Number(e.target.value) })}
+                  className="w-24"
+                />
+              </div>
+            </div>
+          ) : (
+            <div>
+              <Label htmlFor="promotion-value">
+                {draft.type === 'fixed_amount' ? 'Amount off (Dh)' : `Percentage off (max ${MAX_PERCENTAGE_OFF}%)`}
+              </Label>
+              <Input
+                id="promotion-value"
+                type="number"
+                min={1}
+                step={draft.type === 'fixed_amount' ? 0.5 : 1}
+                value={draft.discount_value ?? ''}
+                onChange={(e) => updateDraft({ discount_value: e.target.value === '' ? null : Number(e.target.value) })}
+                className="w-32"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="promotion-start">Starts</Label>
+              <Input
+                id="promotion-start"
+                type="datetime-local"
+                value={draft.starts_at}
+                onChange={(e) => updateDraft({ starts_at: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="promotion-end">Ends (optional)</Label>
+              <Input
+                id="promotion-end"
+                type="datetime-local"
+                value={draft.ends_at || ''}
+                min={draft.starts_at}
+                onChange={(e) => updateDraft({ ends_at: e.target.value || null })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Drinks</Label>
+            <p className="text-xs text-gray-500 mb-2">Leave all unchecked to include every drink.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {drinks.map(drink => (
+                <div key={drink.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`promotion-drink-${drink.id}`}
+                    checked={draft.drink_ids.includes(drink.id)}
+                    onCheckedChange={() => toggleDrink(drink.id)}
+                  />
+                  <label htmlFor={`promotion-drink-${drink.id}`} className="text-sm cursor-pointer">
+                    {drink.name}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <Switch
+                checked={!!draft.time_windows}
+                disabled={draft.type === 'happy_hour'}
+                onCheckedChange={(checked) => updateDraft({ time_windows: checked ? createEmptySchedule() : null })}
+              />
+              <span className="text-sm font-medium text-gray-700">
+                {draft.type === 'happy_hour' ? 'Happy hour times' : 'Only at certain times'}
+              </span>
+            </div>
+            {draft.time_windows && (
+              <>
+                <ScheduleEditor
+                  value={draft.time_windows}
+                  onChange={(windows) => updateDraft({ time_windows: windows })}
+                />
+                {draft.type === 'happy_hour' && (
+                  <p className="text-xs text-gray-500">Happy hours only apply while you are open.</p>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : editingId ? 'Save changes' : 'Create promotion'}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setDraft(null);
+                setEditingId(null);
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" onClick={() => setDraft(createDraft())}>
+          <Plus className="w-4 h-4 mr-2" />
+          New promotion
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Flag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/contexts/UserContext";
+import { RatingService } from "@/services/ratingService";
+import {
+  RATING_REPORT_REASONS,
+  RatingReportReason,
+  MAX_REPORT_DETAILS_LENGTH
+} from "@/utils/ratingModeration";
+
+interface ReportRatingDialogProps {
+  ratingId: string;
+  reviewerName: string;
+}
+
+// "Report" link under a review; opens a reason picker and files a rating_reports row
+export const ReportRatingDialog = ({ ratingId, reviewerName }: ReportRatingDialogProps) => {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<RatingReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!user || !reason) return;
+
+    setIsSubmitting(true);
+    try {
+      await RatingService.reportRating(ratingId, reason, user.id, details);
+      toast({
+        title: "Report sent",
+        description: "Thanks, our moderators will take a look.",
+      });
+      setOpen(false);
+      setReason(null);
+      setDetails('');
+    } catch (error) {
+      toast({
+        title: "Couldn't send your report",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-1 hover:text-destructive transition-colors duration-200">
+          <Flag className="w-4 h-4" />
+          Report
+        </button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report this review</DialogTitle>
+          <DialogDescription>
+            Tell us what is wrong with {reviewerName}'s review. Reviews reported by several people are hidden until a moderator checks them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={reason || ''}
+          onValueChange={(value) => setReason(value as RatingReportReason)}
+          className="space-y-2"
+        >
+          {RATING_REPORT_REASONS.map(option => (
+            <div key={option.value} className="flex items-start gap-3">
+              <RadioGroupItem value={option.value} id={`report-${ratingId}-${option.value}`} className="mt-0.5" />
+              <Label htmlFor={`report-${ratingId}-${option.value}`} className="cursor-pointer">
+                <span className="block text-sm font-medium">{option.label}</span>
+                <span className="block text-xs text-muted-foreground font-normal">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          placeholder="Anything else we should know? (optional)"
+          value={details}
+          onChange={(e) => setDetails(e.target.value.slice(0, MAX_REPORT_DETAILS_LENGTH))}
+          rows={3}
+          className="resize-none"
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={isSubmitting || !reason}>
+            {isSubmitting ? 'Sending...' : 'Send report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
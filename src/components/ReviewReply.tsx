@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { CornerDownRight, Pencil, Reply, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/contexts/UserContext";
+import { RatingService } from "@/services/ratingService";
+import { sanitizeComment } from "@/utils/sanitize";
+import { RatingReply, MAX_REPLY_LENGTH, formatReplyTimestamp } from "@/utils/ratingReplies";
+
+interface ReviewReplyProps {
+  ratingId: string;
+  sellerId: string;
+  sellerName: string;
+  reply: RatingReply | null;
+  onReplyChange?: (reply: RatingReply | null) => void;
+}
+
+// The seller's reply nested under a review, editable by that seller
+export const ReviewReply = ({
+  ratingId,
+  sellerId,
+  sellerName,
+  reply,
+  onReplyChange
+}: ReviewReplyProps) => {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [body, setBody] = useState(reply?.body || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isOwner = !!user && user.id === sellerId;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await RatingService.saveReply(ratingId, sellerId, body);
+      onReplyChange?.(saved);
+      setIsEditing(false);
+      toast({
+        title: reply ? "Reply updated" : "Reply posted",
+        description: "Your reply is visible under the review.",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't save your reply",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!reply) return;
+    setIsSaving(true);
+    try {
+      await RatingService.deleteReply(reply.id);
+      onReplyChange?.(null);
+      setBody('');
+    } catch (error) {
+      toast({
+        title: "Couldn't delete your reply",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isEditing && isOwner) {
+    return (
+      <div className="mt-3 space-y-2">
+        <Textarea
+          placeholder={`Reply publicly as ${sellerName}...`}
+          value={body}
+          onChange={(e) => setBody(e.target.value.slice(0, MAX_REPLY_LENGTH))}
+          rows={3}
+          className="resize-none"
+        />
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={isSaving || !body.trim()}>
+            {isSaving ? 'Saving...' : reply ? 'Save reply' : 'Post reply'}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              setBody(reply?.body || '');
+              setIsEditing(false);
+            }}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!reply) {
+    return isOwner ? (
+      <button
+        className="mt-3 flex items-center gap-1 text-sm text-muted-foreground hover:text-primary transition-colors duration-200"
+        onClick={() => setIsEditing(true)}
+      >
+        <Reply className="w-4 h-4" />
+        Reply
+      </button>
+    ) : null;
+  }
+
+  return (
+    <div className="mt-3 ml-4 pl-4 border-l-2 border-primary/30">
+      <div className="flex items-center gap-2 text-sm mb-1">
+        <CornerDownRight className="w-4 h-4 text-primary" />
+        <span className="font-semibold text-foreground">Response from {sellerName}</span>
+        <span className="text-muted-foreground">· {formatReplyTimestamp(reply)}</span>
+      </div>
+      <p
+        className="text-sm text-foreground"
+        dangerouslySetInnerHTML={{ __html: sanitizeComment(reply.body) }}
+      />
+      {isOwner && (
+        <div className="flex items-center gap-3 mt-2 text-sm text-muted-foreground">
+          <button className="flex items-center gap-1 hover:text-primary" onClick={() => setIsEditing(true)} disabled={isSaving}>
+            <Pencil className="w-3 h-3" />
+            Edit
+          </button>
+          <button className="flex items-center gap-1 hover:text-destructive" onClick={handleDelete} disabled={isSaving}>
+            <Trash2 className="w-3 h-3" />
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
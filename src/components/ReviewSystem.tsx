@@ -1,13 +1,20 @@
 import { useState, useEffect } from "react";
-import { Star, User, ThumbsUp, MessageSquare, Calendar } from "lucide-react";
+import { Star, User, ThumbsUp, MessageSquare, Calendar, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/contexts/UserContext";
 import { RatingService } from "@/services/ratingService";
 import { sanitizeComment } from "@/utils/sanitize";
+import { ReportRatingDialog } from "@/components/ReportRatingDialog";
+import { ReviewReply } from "@/components/ReviewReply";
+import { RatingReply, getRatingReply } from "@/utils/ratingReplies";
+import { ReviewSortOption, REVIEW_SORT_OPTIONS, sortReviews, filterReviews } from "@/utils/verifiedReviews";
 
 interface Review {
   id: string;
@@ -18,6 +25,8 @@ interface Review {
   date: string;
   helpful: number;
   orderItems?: string[];
+  reply?: RatingReply | null;
+  verified?: boolean;
 }
 
 interface ReviewSystemProps {
@@ -47,6 +56,8 @@ export const ReviewSystem = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [actualReviews, setActualReviews] = useState<Review[]>([]);
   const [loading, setLoading] = useState(true);
+  const [sortBy, setSortBy] = useState<ReviewSortOption>('verified_first');
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
 
   // Mock reviews for demonstration
   const mockReviews: Review[] = [
@@ -96,7 +107,9 @@ export const ReviewSystem = ({
           comment: rating.comment || '',
           date: rating.created_at.split('T')[0],
           helpful: 0, // This would need to be implemented separately
-          orderItems: rating.order_items || []
+          orderItems: rating.order_items || [],
+          reply: getRatingReply(rating),
+          verified: !!rating.is_verified
         }));
         setActualReviews(formattedReviews);
       } catch (error) {
@@ -112,6 +125,11 @@ export const ReviewSystem = ({
   }, [sellerId]);
 
   const displayReviews = actualReviews.length > 0 ? actualReviews : mockReviews;
+  const listedReviews = sortReviews(filterReviews(displayReviews, verifiedOnly), sortBy);
+
+  const handleReplyChange = (reviewId: string, reply: RatingReply | null) => {
+    setActualReviews(prev => prev.map(review => review.id === reviewId ? { ...review, reply } : review));
+  };
 
   const handleStarClick = (rating: number) => {
     setNewReview(prev => ({ ...prev, rating }));
@@ -158,7 +176,8 @@ export const ReviewSystem = ({
         rating: newReview.rating,
         comment: newReview.comment,
         date: new Date().toISOString().split('T')[0],
-        helpful: 0
+        helpful: 0,
+        verified: !!savedRating.is_verified
       };
 
       // Add to local state immediately
@@ -293,8 +312,30 @@ export const ReviewSystem = ({
       )}
 
       {/* Reviews List */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Switch id="verified-only" checked={verifiedOnly} onCheckedChange={setVerifiedOnly} />
+          <Label htmlFor="verified-only" className="text-sm cursor-pointer">Verified purchases only</Label>
+        </div>
+        <Select value={sortBy} onValueChange={(value) => setSortBy(value as ReviewSortOption)}>
+          <SelectTrigger className="w-44 h-9 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REVIEW_SORT_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       <div className="space-y-4">
-        {displayReviews.map((review) => (
+        {verifiedOnly && listedReviews.length === 0 && (
+          <Card className="glass-card p-6 text-center text-muted-foreground">
+            No verified reviews yet.
+          </Card>
+        )}
+        {listedReviews.map((review) => (
           <Card key={review.id} className="glass-card p-6">
             <div className="flex items-start justify-between mb-3">
               <div className="flex items-center gap-3">
@@ -302,7 +343,15 @@ export const ReviewSystem = ({
                   <User className="w-5 h-5 text-primary-foreground" />
                 </div>
                 <div>
-                  <div className="font-semibold text-foreground">{review.userName}</div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-foreground">{review.userName}</span>
+                    {review.verified && (
+                      <Badge variant="secondary" className="text-xs bg-green-100 text-green-800 gap-1">
+                        <ShieldCheck className="w-3 h-3" />
+                        Verified purchase
+                      </Badge>
+                    )}
+                  </div>
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <Calendar className="w-3 h-3" />
                     {new Date(review.date).toLocaleDateString()}
@@ -336,7 +385,21 @@ export const ReviewSystem = ({
                 <ThumbsUp className="w-4 h-4" />
                 Helpful ({review.helpful})
               </button>
+              {/* Only real reviews by someone else can be reported */}
+              {user && actualReviews.length > 0 && review.userId !== user.id && (
+                <ReportRatingDialog ratingId={review.id} reviewerName={review.userName} />
+              )}
             </div>
+
+            {actualReviews.length > 0 && (
+              <ReviewReply
+                ratingId={review.id}
+                sellerId={sellerId}
+                sellerName={sellerName}
+                reply={review.reply || null}
+                onReplyChange={(reply) => handleReplyChange(review.id, reply)}
+              />
+            )}
           </Card>
         ))}
       </div>
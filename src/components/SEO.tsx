@@ -12,6 +12,7 @@ interface SEOProps {
   siteName?: string;
   twitterHandle?: string;
   structuredData?: object;
+  hreflang?: Array<{ hreflang: string; href: string }>;
 }
 
 const DEFAULT_SEO = {
@@ -35,7 +36,8 @@ export const SEO: React.FC<SEOProps> = ({
   locale = 'en_US',
   siteName = DEFAULT_SEO.siteName,
   twitterHandle = DEFAULT_SEO.twitterHandle,
-  structuredData
+  structuredData,
+  hreflang
 }) => {
   const location = useLocation();
   
@@ -120,6 +122,22 @@ export const SEO: React.FC<SEOProps> = ({
 
   }, [seoTitle, seoDescription, seoKeywords, seoImage, fullUrl, type, locale, siteName, twitterHandle, structuredData]);
 
+  // Alternate-language links belong to this page only, so remove them when it unmounts
+  useEffect(() => {
+    if (!hreflang || hreflang.length === 0) return;
+
+    const links = hreflang.map(tag => {
+      const link = document.createElement('link');
+      link.setAttribute('rel', 'alternate');
+      link.setAttribute('hreflang', tag.hreflang);
+      link.setAttribute('href', tag.href);
+      document.head.appendChild(link);
+      return link;
+    });
+
+    return () => links.forEach(link => link.remove());
+  }, [hreflang]);
+
   return null; // This component doesn't render anything
 };
 
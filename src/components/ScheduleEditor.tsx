@@ -0,0 +1,149 @@
+import { Clock, Plus, Trash2, Clipboard } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  WeeklySchedule,
+  TimeInterval,
+  DayKey,
+  DAY_KEYS,
+  DAY_LABELS,
+  formatSchedule,
+  timeToMinutes
+} from "@/utils/businessHours";
+
+interface ScheduleEditorProps {
+  value: WeeklySchedule;
+  onChange: (schedule: WeeklySchedule) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_INTERVAL: TimeInterval = { open: '09:00', close: '18:00' };
+const MAX_INTERVALS_PER_DAY = 4;
+
+// Seller-side weekly hours editor: several intervals per day, closing after midnight allowed
+export const ScheduleEditor = ({ value, onChange, disabled }: ScheduleEditorProps) => {
+  const setDay = (day: DayKey, intervals: TimeInterval[]) => {
+    onChange({ ...value, days: { ...value.days, [day]: intervals } });
+  };
+
+  const updateInterval = (day: DayKey, index: number, changes: Partial<TimeInterval>) => {
+    setDay(day, value.days[day].map((interval, i) => (i === index ? { ...interval, ...changes } : interval)));
+  };
+
+  const copyToAll = (fromDay: DayKey) => {
+    const days = { ...value.days };
+    DAY_KEYS.forEach(day => {
+      days[day] = value.days[fromDay].map(interval => ({ ...interval }));
+    });
+    onChange({ ...value, days });
+  };
+
+  const summary = formatSchedule(value);
+
+  return (
+    <div className="space-y-3">
+      <div className="border border-gray-200 rounded-xl divide-y divide-gray-100">
+        {DAY_KEYS.map(day => {
+          const intervals = value.days[day];
+          const isOpen = intervals.length > 0;
+
+          return (
+            <div key={day} className="flex flex-col sm:flex-row sm:items-start gap-3 p-3">
+              <div className="flex items-center gap-3 sm:w-40 shrink-0">
+                <Switch
+                  checked={isOpen}
+                  onCheckedChange={(checked) => setDay(day, checked ? [{ ...DEFAULT_INTERVAL }] : [])}
+                  disabled={disabled}
+                  aria-label={`Open on ${DAY_LABELS[day].full}`}
+                />
+                <span className="text-sm font-medium text-gray-700 w-24">{DAY_LABELS[day].full}</span>
+              </div>
+
+              {isOpen ? (
+                <div className="flex-1 space-y-2">
+                  {intervals.map((interval, index) => {
+                    const open = timeToMinutes(interval.open);
+                    const close = timeToMinutes(interval.close);
+                    const isOvernight = open !== null && close !== null && close <= open;
+
+                    return (
+                      <div key={index} className="flex flex-wrap items-center gap-2">
+                        <Input
+                          type="time"
+                          value={interval.open}
+                          onChange={(e) => updateInterval(day, index, { open: e.target.value })}
+                          className="h-9 w-28"
+                          disabled={disabled}
+                          aria-label={`${DAY_LABELS[day].full} opening time`}
+                        />
+                        <span className="text-sm text-gray-500">to</span>
+                        <Input
+                          type="time"
+                          value={interval.close}
+                          onChange={(e) => updateInterval(day, index, { close: e.target.value })}
+                          className="h-9 w-28"
+                          disabled={disabled}
+                          aria-label={`${DAY_LABELS[day].full} closing time`}
+                        />
+                        {isOvernight && (
+                          <span className="text-xs text-amber-600">next day</span>
+                        )}
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDay(day, intervals.filter((_, i) => i !== index))}
+                          className="h-8 w-8 text-gray-400 hover:text-red-600"
+                          disabled={disabled}
+                          aria-label="Remove interval"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <div className="flex gap-2">
+                    {intervals.length < MAX_INTERVALS_PER_DAY && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDay(day, [...intervals, { open: intervals[intervals.length - 1].close, close: '23:00' }])}
+                        className="h-8 text-coffee-700"
+                        disabled={disabled}
+                      >
+                        <Plus className="w-3 h-3 mr-1" />
+                        Add hours
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => copyToAll(day)}
+                      className="h-8 text-gray-500"
+                      disabled={disabled}
+                    >
+                      <Clipboard className="w-3 h-3 mr-1" />
+                      Copy to all days
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <span className="text-sm text-gray-400 italic sm:pt-1">Closed</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-start gap-2 text-xs text-gray-500">
+        <Clock className="w-4 h-4 shrink-0" />
+        <p>
+          {summary || 'No opening hours set yet.'} Times are Morocco time; a closing time before the opening time means you close after midnight.
+        </p>
+      </div>
+    </div>
+  );
+};
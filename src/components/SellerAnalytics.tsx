@@ -0,0 +1,288 @@
+import { useState, useEffect } from "react";
+import { BarChart3, Clock, Coffee, Eye, MessageCircle, ShoppingBag, ArrowRight } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from "@/components/ui/chart";
+import { AnalyticsService } from "@/services/analyticsService";
+import { DrinkService } from "@/services/drinkService";
+import {
+  AnalyticsBucket,
+  AnalyticsDateRange,
+  AnalyticsFunnel,
+  AnalyticsTimeSeriesPoint,
+  ANALYTICS_RANGE_PRESETS,
+  DrinkPerformance,
+  HEATMAP_DAY_LABELS,
+  HourlyActivityRow,
+  buildHeatmap,
+  formatBucketLabel,
+  getConversionRate,
+  getDefaultBucket,
+  getHeatmapIntensity,
+  getPresetRange,
+  validateDateRange
+} from "@/utils/sellerAnalytics";
+
+interface SellerAnalyticsProps {
+  sellerId: string;
+}
+
+const chartConfig = {
+  profile_views: { label: "Profile views", color: "#f59e0b" },
+  contact_attempts: { label: "Contacts", color: "#22c55e" },
+  order_inquiries: { label: "Order inquiries", color: "#6366f1" }
+} satisfies ChartConfig;
+
+const HEATMAP_SHADES = ['bg-gray-100', 'bg-green-100', 'bg-green-300', 'bg-green-500', 'bg-green-700'];
+
+const cardClassName = "bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-amber-100 shadow-lg";
+
+// Charts for the seller dashboard; every number is aggregated by an analytics RPC
+export const SellerAnalytics = ({ sellerId }: SellerAnalyticsProps) => {
+  const [range, setRange] = useState<AnalyticsDateRange>(() => getPresetRange(30));
+  const [bucket, setBucket] = useState<AnalyticsBucket>('day');
+  const [series, setSeries] = useState<AnalyticsTimeSeriesPoint[]>([]);
+  const [funnel, setFunnel] = useState<AnalyticsFunnel | null>(null);
+  const [topDrinks, setTopDrinks] = useState<DrinkPerformance[]>([]);
+  const [hourly, setHourly] = useState<HourlyActivityRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeError = validateDateRange(range);
+
+  useEffect(() => {
+    if (rangeError) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [seriesData, funnelData, drinkStats, hourlyData] = await Promise.all([
+          AnalyticsService.getTimeSeries(sellerId, range, bucket),
+          AnalyticsService.getFunnel(sellerId, range),
+          DrinkService.getDrinkStats(sellerId, range),
+          AnalyticsService.getHourlyActivity(sellerId, range)
+        ]);
+        if (cancelled) return;
+        setSeries(seriesData);
+        setFunnel(funnelData);
+        setTopDrinks(drinkStats.drinkPerformance.filter(drink => drink.item_views > 0).slice(0, 5));
+        setHourly(hourlyData);
+      } catch (err) {
+        if (!cancelled) setError((err as Error).message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [sellerId, range, bucket, rangeError]);
+
+  const applyRange = (next: AnalyticsDateRange) => {
+    setRange(next);
+    if (!validateDateRange(next)) setBucket(getDefaultBucket(next));
+  };
+
+  const chartData = series.map(point => ({ ...point, label: formatBucketLabel(point.bucket_start, bucket) }));
+  const heatmap = buildHeatmap(hourly);
+
+  const funnelSteps = funnel ? [
+    { label: 'Profile views', value: funnel.profile_views, detail: `${funnel.unique_viewers} unique`, icon: Eye },
+    { label: 'Contacts', value: funnel.contact_attempts, detail: `${funnel.unique_contacts} unique`, icon: MessageCircle },
+    { label: 'Order inquiries', value: funnel.order_inquiries, detail: '', icon: ShoppingBag }
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Date range */}
+      <div className={cardClassName}>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex gap-1">
+            {ANALYTICS_RANGE_PRESETS.map(preset => {
+              const presetRange = getPresetRange(preset.days);
+              const isActive = presetRange.startDate === range.startDate && presetRange.endDate === range.endDate;
+              return (
+                <Button
+                  key={preset.days}
+                  size="sm"
+                  variant={isActive ? 'default' : 'outline'}
+                  onClick={() => applyRange(presetRange)}
+                >
+                  {preset.label}
+                </Button>
+              );
+            })}
+          </div>
+          <div>
+            <Label htmlFor="analytics-start" className="text-xs">From</Label>
+            <Input
+              id="analytics-start"
+              type="date"
+              value={range.startDate}
+              max={range.endDate}
+              onChange={(e) => applyRange({ ...range, startDate: e.target.value })}
+              className="h-9"
+            />
+          </div>
+          <div>
+            <Label htmlFor="analytics-end" className="text-xs">To</Label>
+            <Input
+              id="analytics-end"
+              type="date"
+              value={range.endDate}
+              min={range.startDate}
+              onChange={(e) => applyRange({ ...range, endDate: e.target.value })}
+              className="h-9"
+            />
+          </div>
+          <div className="flex gap-1 ml-auto">
+            {(['day', 'week'] as AnalyticsBucket[]).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={bucket === option ? 'default' : 'outline'}
+                onClick={() => setBucket(option)}
+              >
+                {option === 'day' ? 'Daily' : 'Weekly'}
+              </Button>
+            ))}
+          </div>
+        </div>
+        {(rangeError || error) && (
+          <p className="text-sm text-destructive mt-3">{rangeError || error}</p>
+        )}
+      </div>
+
+      {/* Funnel */}
+      <div className={cardClassName}>
+        <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+          <Eye className="w-5 h-5 text-amber-500" />
+          Views to Contacts
+        </h3>
+        {loading && !funnel ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <div className="flex items-stretch gap-2">
+            {funnelSteps.map((step, index) => (
+              <div key={step.label} className="flex items-center gap-2 flex-1">
+                <div className="flex-1 p-4 bg-white/50 rounded-xl text-center">
+                  <step.icon className="w-5 h-5 mx-auto mb-1 text-gray-500" />
+                  <div className="text-2xl font-bold text-gray-800">{step.value}</div>
+                  <div className="text-xs text-gray-500">{step.label}</div>
+                  {step.detail && <div className="text-xs text-gray-400">{step.detail}</div>}
+                </div>
+                {index < funnelSteps.length - 1 && (
+                  <div className="text-center text-xs font-medium text-green-600">
+                    <ArrowRight className="w-4 h-4 mx-auto" />
+                    {getConversionRate(step.value, funnelSteps[index + 1].value)}%
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Activity over time */}
+      <div className={cardClassName}>
+        <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-green-500" />
+          Activity {bucket === 'day' ? 'per Day' : 'per Week'}
+        </h3>
+        {chartData.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">{loading ? 'Loading...' : 'No activity in this period'}</p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <BarChart data={chartData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="profile_views" fill="var(--color-profile_views)" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="contact_attempts" fill="var(--color-contact_attempts)" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="order_inquiries" fill="var(--color-order_inquiries)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </div>
+
+      {/* Top viewed drinks */}
+      <div className={cardClassName}>
+        <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+          <Coffee className="w-5 h-5 text-amber-500" />
+          Most Viewed Drinks
+        </h3>
+        {topDrinks.length === 0 ? (
+          <p className="text-sm text-gray-500">{loading ? 'Loading...' : 'No drink views in this period'}</p>
+        ) : (
+          <div className="space-y-2">
+            {topDrinks.map((drink, index) => (
+              <div key={drink.drink_id} className="flex items-center gap-3">
+                <span className="w-5 text-sm font-bold text-gray-500">{index + 1}</span>
+                <div className="flex-1">
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-medium text-gray-800">{drink.name}</span>
+                    <span className="text-gray-500">
+                      {drink.item_views} views · {drink.contact_attempts} contacts ({drink.contactRate}%)
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full">
+                    <div
+                      className="h-2 rounded-full bg-gradient-to-r from-amber-400 to-green-500"
+                      style={{ width: `${(drink.item_views / topDrinks[0].item_views) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Hour-of-day heatmap */}
+      <div className={cardClassName}>
+        <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+          <Clock className="w-5 h-5 text-green-500" />
+          Busiest Hours
+        </h3>
+        <div className="overflow-x-auto">
+          <div className="inline-grid gap-0.5" style={{ gridTemplateColumns: 'auto repeat(24, minmax(14px, 1fr))' }}>
+            <div />
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div key={hour} className="text-[10px] text-gray-400 text-center">
+                {hour % 3 === 0 ? hour : ''}
+              </div>
+            ))}
+            {heatmap.cells.map((hours, dayIndex) => (
+              <div key={dayIndex} className="contents">
+                <div className="text-xs text-gray-500 pr-2">{HEATMAP_DAY_LABELS[dayIndex]}</div>
+                {hours.map((events, hour) => (
+                  <div
+                    key={hour}
+                    title={`${HEATMAP_DAY_LABELS[dayIndex]} ${String(hour).padStart(2, '0')}:00 · ${events} events`}
+                    className={`h-4 rounded-sm ${HEATMAP_SHADES[getHeatmapIntensity(events, heatmap.max)]}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-gray-400 mt-2">Views, contacts and order inquiries by hour, Morocco time</p>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { Phone, ShieldCheck, Clock, MapPin, Share2, Coffee, Leaf, MessageCircle, Star } from "lucide-react";
+import { Phone, ShieldCheck, MapPin, Share2, Coffee, Leaf, MessageCircle, Star } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -6,7 +6,11 @@ import { StarRating } from "./StarRating";
 import { useNavigate } from "react-router-dom";
 import { useState } from "react";
 import { sendWhatsAppMessage, createQuickContactMessage, trackContactAttempt } from "@/utils/whatsapp";
+import { trackSellerEvent } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
+import { OpenStatusBadge } from "./OpenStatusBadge";
+import { FavoriteButton } from "./FavoriteButton";
+import { WeeklySchedule, isOpenAt } from "@/utils/businessHours";
 
 type CardDrink = { name: string; price: number; image?: string };
 
@@ -20,6 +24,7 @@ export interface SellerCardSeller {
   reviewCount?: number;
   isVerified?: boolean;
   drinks?: CardDrink[];
+  schedule?: WeeklySchedule | null;
 }
 
 interface SellerCardProps {
@@ -31,6 +36,8 @@ export const SellerCard = ({ seller, className = "" }: SellerCardProps) => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [isImageLoaded, setIsImageLoaded] = useState(false);
+  // Sellers without a schedule keep the old always-green dot
+  const isOpen = seller.schedule ? isOpenAt(seller.schedule) : true;
 
   const handleCall = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -41,6 +48,7 @@ export const SellerCard = ({ seller, className = "" }: SellerCardProps) => {
 
   const handleShare = (e: React.MouseEvent) => {
     e.stopPropagation();
+    trackSellerEvent(seller.id, 'share');
     if (navigator.share) {
       navigator.share({
         title: seller.name,
@@ -74,16 +82,22 @@ export const SellerCard = ({ seller, className = "" }: SellerCardProps) => {
       {/* Premium gradient overlay */}
       <div className="absolute inset-0 bg-gradient-premium opacity-0 group-hover:opacity-5 transition-opacity duration-500 pointer-events-none"></div>
 
-      {/* Share button */}
-      <div className="absolute top-3 right-3 z-10 opacity-0 group-hover:opacity-100 transition-all duration-300 translate-y-2 group-hover:translate-y-0">
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={handleShare}
-          className="w-8 h-8 p-0 rounded-full glass-card backdrop-blur-md text-muted-foreground hover:text-foreground hover:scale-110 transition-all duration-200"
-        >
-          <Share2 className="w-4 h-4" />
-        </Button>
+      {/* Share and favorite buttons */}
+      <div className="absolute top-3 right-3 z-10 flex items-center gap-1">
+        <div className="opacity-0 group-hover:opacity-100 transition-all duration-300 translate-y-2 group-hover:translate-y-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleShare}
+            className="w-8 h-8 p-0 rounded-full glass-card backdrop-blur-md text-muted-foreground hover:text-foreground hover:scale-110 transition-all duration-200"
+          >
+            <Share2 className="w-4 h-4" />
+          </Button>
+        </div>
+        <FavoriteButton
+          target={{ type: 'seller', id: seller.id }}
+          className="glass-card backdrop-blur-md hover:scale-110 transition-all duration-200"
+        />
       </div>
 
       <div className="p-5 space-y-4 relative z-10">
@@ -121,8 +135,8 @@ export const SellerCard = ({ seller, className = "" }: SellerCardProps) => {
             </div>
 
             {/* Status indicator */}
-            <div className="absolute -bottom-1 -right-1 w-6 h-6 bg-green-500 rounded-full border-2 border-background shadow-soft flex items-center justify-center">
-              <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
+            <div className={`absolute -bottom-1 -right-1 w-6 h-6 ${isOpen ? 'bg-green-500' : 'bg-gray-400'} rounded-full border-2 border-background shadow-soft flex items-center justify-center`}>
+              <div className={`w-2 h-2 bg-white rounded-full ${isOpen ? 'animate-pulse' : ''}`}></div>
             </div>
           </div>
 
@@ -151,10 +165,7 @@ export const SellerCard = ({ seller, className = "" }: SellerCardProps) => {
                   reviewCount={seller.reviewCount || 0}
                   size="sm"
                 />
-                <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                  <Clock className="w-3 h-3" />
-                  <span>15-25 min</span>
-                </div>
+                <OpenStatusBadge schedule={seller.schedule} />
               </div>
             </div>
           </div>
@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback } from "react";
+import { CalendarDays, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { SellerService } from "@/services/sellerService";
+import { Json } from "@/lib/database.types";
+import {
+  WeeklySchedule,
+  ScheduleOverride,
+  TimeInterval,
+  getSellerSchedule,
+  getUpcomingOverrides,
+  getScheduleDate,
+  formatOverride,
+  timeToMinutes
+} from "@/utils/businessHours";
+
+interface SpecialHoursManagerProps {
+  sellerId: string;
+}
+
+const MAX_INTERVALS = 4;
+
+const createDraft = (today: string): ScheduleOverride => ({
+  id: '',
+  label: '',
+  startDate: today,
+  endDate: today,
+  intervals: [],
+});
+
+// Seller-side list of dated exceptions (Ramadan, public holidays) on top of the weekly hours
+export const SpecialHoursManager = ({ sellerId }: SpecialHoursManagerProps) => {
+  const { toast } = useToast();
+  const [schedule, setSchedule] = useState<WeeklySchedule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const today = getScheduleDate(schedule);
+  const [draft, setDraft] = useState<ScheduleOverride>(() => createDraft(today));
+
+  const loadSchedule = useCallback(async () => {
+    try {
+      setLoading(true);
+      const seller = await SellerService.getSellerById(sellerId);
+      setSchedule(getSellerSchedule(seller));
+    } catch (error) {
+      toast({ title: "Couldn't load your hours", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [sellerId, toast]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  const saveOverrides = async (overrides: ScheduleOverride[]) => {
+    if (!schedule) return false;
+    // Past overrides no longer matter, so they are dropped on save
+    const next: WeeklySchedule = { ...schedule, overrides: overrides.filter(override => override.endDate >= today) };
+
+    setSaving(true);
+    try {
+      await SellerService.updateSellerProfile(sellerId, { schedule: next as unknown as Json });
+      setSchedule(next);
+      return true;
+    } catch (error) {
+      toast({ title: "Couldn't save special hours", description: (error as Error).message, variant: "destructive" });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateInterval = (index: number, changes: Partial<TimeInterval>) => {
+    setDraft(prev => ({
+      ...prev,
+      intervals: prev.intervals.map((interval, i) => (i === index ? { ...interval, ...changes } : interval)),
+    }));
+  };
+
+  const draftError =
+    !draft.startDate || !draft.endDate ? 'Pick the dates these hours apply to.'
+    : draft.endDate < draft.startDate ? 'The end date is before the start date.'
+    : draft.endDate < today ? 'These dates are already over.'
+    : draft.intervals.some(interval => timeToMinutes(interval.open) === null || timeToMinutes(interval.close) === null)
+      ? 'Fill in every opening and closing time.'
+    : null;
+
+  const handleAdd = async () => {
+    if (draftError) return;
+    const override = { ...draft, label: draft.label.trim(), id: `${draft.startDate}-${Date.now()}` };
+    if (await saveOverrides([...(schedule?.overrides || []), override])) {
+      setDraft(createDraft(today));
+      toast({ title: "Special hours added", description: formatOverride(override) });
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    await saveOverrides((schedule?.overrides || []).filter(override => override.id !== id));
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading your hours...</p>;
+  }
+
+  if (!schedule) {
+    return (
+      <p className="text-sm text-gray-500">
+        Set your weekly opening hours on your profile first, then add special hours for holidays and Ramadan here.
+      </p>
+    );
+  }
+
+  const upcoming = getUpcomingOverrides(schedule);
+  const isClosed = draft.intervals.length === 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        {upcoming.length > 0 ? (
+          upcoming.map(override => (
+            <div key={override.id} className="flex items-center gap-3 p-3 bg-white/50 rounded-xl">
+              <CalendarDays className="w-5 h-5 text-amber-500 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-800 text-sm">{override.label || 'Special hours'}</div>
+                <div className="text-xs text-gray-500">{formatOverride(override)}</div>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemove(override.id)}
+                className="h-8 w-8 text-gray-400 hover:text-red-600"
+                disabled={saving}
+                aria-label="Remove special hours"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-gray-500">No special hours planned. Your weekly hours apply every day.</p>
+        )}
+      </div>
+
+      <div className="border border-gray-200 rounded-xl p-4 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="sm:col-span-3">
+            <Label htmlFor="override-label">Name</Label>
+            <Input
+              id="override-label"
+              value={draft.label}
+              onChange={(e) => setDraft(prev => ({ ...prev, label: e.target.value }))}
+              placeholder="e.g., Ramadan, Eid al-Adha, Throne Day"
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <Label htmlFor="override-start">From</Label>
+            <Input
+              id="override-start"
+              type="date"
+              value={draft.startDate}
+              min={today}
+              onChange={(e) => setDraft(prev => ({
+                ...prev,
+                startDate: e.target.value,
+                endDate: prev.endDate < e.target.value ? e.target.value : prev.endDate
+              }))}
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <Label htmlFor="override-end">To</Label>
+            <Input
+              id="override-end"
+              type="date"
+              value={draft.endDate}
+              min={draft.startDate || today}
+              onChange={(e) => setDraft(prev => ({ ...prev, endDate: e.target.value }))}
+              disabled={saving}
+            />
+          </div>
+          <div className="flex items-center gap-3 sm:pt-6">
+            <Switch
+              checked={isClosed}
+              onCheckedChange={(checked) => setDraft(prev => ({
+                ...prev,
+                intervals: checked ? [] : [{ open: '09:00', close: '18:00' }]
+              }))}
+              disabled={saving}
+              aria-label="Closed all day"
+            />
+            <span className="text-sm text-gray-700">Closed all day</span>
+          </div>
+        </div>
+
+        {!isClosed && (
+          <div className="space-y-2">
+            {draft.intervals.map((interval, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="time"
+                  value={interval.open}
+                  onChange={(e) => updateInterval(index, { open: e.target.value })}
+                  className="h-9 w-28"
+                  disabled={saving}
+                  aria-label="Opening time"
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <Input
+                  type="time"
+                  value={interval.close}
+                  onChange={(e) => updateInterval(index, { close: e.target.value })}
+                  className="h-9 w-28"
+                  disabled={saving}
+                  aria-label="Closing time"
+                />
+                {draft.intervals.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDraft(prev => ({ ...prev, intervals: prev.intervals.filter((_, i) => i !== index) }))}
+                    className="h-8 w-8 text-gray-400 hover:text-red-600"
+                    disabled={saving}
+                    aria-label="Remove interval"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {draft.intervals.length < MAX_INTERVALS && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft(prev => ({
+                  ...prev,
+                  intervals: [...prev.intervals, { open: prev.intervals[prev.intervals.length - 1].close, close: '02:00' }]
+                }))}
+                className="h-8 text-coffee-700"
+                disabled={saving}
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add hours
+              </Button>
+            )}
+          </div>
+        )}
+
+        {draftError && <p className="text-xs text-amber-600">{draftError}</p>}
+
+        <Button type="button" onClick={handleAdd} disabled={saving || !!draftError} className="w-full">
+          {saving ? 'Saving...' : 'Add special hours'}
+        </Button>
+        <p className="text-xs text-gray-500">
+          Special hours replace your weekly hours on those dates. Times are Morocco time; a closing time before the opening time means you close after midnight.
+        </p>
+      </div>
+    </div>
+  );
+};
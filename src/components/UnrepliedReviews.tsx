@@ -0,0 +1,82 @@
+import { useState, useEffect } from "react";
+import { MessageSquareReply, Star } from "lucide-react";
+import { RatingService, SellerRatingWithReply } from "@/services/ratingService";
+import { ReviewReply } from "@/components/ReviewReply";
+import { sanitizeComment } from "@/utils/sanitize";
+
+interface UnrepliedReviewsProps {
+  sellerId: string;
+  sellerName: string;
+}
+
+// Dashboard to-do list of reviews the seller hasn't answered yet
+export const UnrepliedReviews = ({ sellerId, sellerName }: UnrepliedReviewsProps) => {
+  const [ratings, setRatings] = useState<SellerRatingWithReply[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        setRatings(await RatingService.getUnrepliedRatings(sellerId));
+      } catch (error) {
+        console.error('Failed to load unreplied reviews:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [sellerId]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading reviews...</p>;
+  }
+
+  if (ratings.length === 0) {
+    return (
+      <div className="text-center py-6">
+        <MessageSquareReply className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+        <p className="text-gray-500">You're all caught up</p>
+        <p className="text-gray-400 text-sm">New reviews to answer will show up here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {ratings.map(rating => (
+        <div key={rating.id} className="p-4 bg-white/50 rounded-xl">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium text-gray-800 text-sm">{rating.buyer?.name || 'Anonymous'}</span>
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span className="flex items-center gap-0.5">
+                {Array.from({ length: 5 }, (_, index) => (
+                  <Star
+                    key={index}
+                    className={`w-3 h-3 ${index < rating.rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+                  />
+                ))}
+              </span>
+              {new Date(rating.created_at).toLocaleDateString()}
+            </div>
+          </div>
+          {rating.comment && (
+            <p
+              className="text-sm text-gray-700"
+              dangerouslySetInnerHTML={{ __html: sanitizeComment(rating.comment) }}
+            />
+          )}
+          <ReviewReply
+            ratingId={rating.id}
+            sellerId={sellerId}
+            sellerName={sellerName}
+            reply={null}
+            onReplyChange={(reply) => {
+              if (reply) setRatings(prev => prev.filter(r => r.id !== rating.id));
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
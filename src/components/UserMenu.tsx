@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { LogOut, User, Settings, ChevronDown, Coffee, LayoutDashboard, Leaf, ArrowRightLeft, Store, ShoppingBag } from 'lucide-react';
+import { LogOut, User, Settings, ChevronDown, Coffee, LayoutDashboard, Leaf, ArrowRightLeft, Store, ShoppingBag, MessagesSquare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
@@ -14,6 +14,7 @@ import { useUser } from '@/contexts/UserContext';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import { useTranslation } from 'react-i18next';
+import { NotificationBell } from '@/components/NotificationBell';
 
 interface UserMenuProps {
   variant?: 'desktop' | 'mobile';
@@ -131,6 +132,7 @@ const UserMenuContent: React.FC<UserMenuProps> = ({ variant = 'desktop', classNa
               <span className="text-xs text-muted-foreground capitalize">{user.userType}</span>
             </div>
           </div>
+          <NotificationBell />
         </div>
 
         {/* Navigation Items */}
@@ -155,6 +157,15 @@ const UserMenuContent: React.FC<UserMenuProps> = ({ variant = 'desktop', classNa
             </Button>
           )}
 
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/messages')}
+            className="w-full justify-start py-3 font-medium hover:bg-primary/10 transition-all duration-300"
+          >
+            <MessagesSquare className="w-4 h-4 mr-3" />
+            {t('userMenu.messages')}
+          </Button>
+
           <Button
             variant="ghost"
             onClick={() => navigate('/settings')}
@@ -216,106 +227,114 @@ const UserMenuContent: React.FC<UserMenuProps> = ({ variant = 'desktop', classNa
     );
   }
 
-  // Desktop version - dropdown menu
+  // Desktop version - notification bell and dropdown menu
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="ghost" className={`flex items-center gap-2 hover:bg-primary/10 transition-all duration-300 ${className}`}>
-          <Avatar className="w-8 h-8">
-            <AvatarImage src={user.profileImage} />
-            <AvatarFallback className="bg-gradient-to-br from-coffee-500 to-matcha-500 text-white text-sm font-semibold">
-              {getUserInitials()}
-            </AvatarFallback>
-          </Avatar>
-          <div className="hidden md:block text-left">
-            <p className="text-sm font-medium">{getUserDisplayName()}</p>
-            <p className="text-xs text-muted-foreground capitalize">{user.userType}</p>
-          </div>
-          <ChevronDown className="w-4 h-4 text-muted-foreground" />
-        </Button>
-      </DropdownMenuTrigger>
-      
-      <DropdownMenuContent align="end" className="w-64">
-        <DropdownMenuLabel>
-          <div className="flex items-center gap-3">
-            <Avatar className="w-10 h-10">
+    <div className="flex items-center gap-1">
+      <NotificationBell />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className={`flex items-center gap-2 hover:bg-primary/10 transition-all duration-300 ${className}`}>
+            <Avatar className="w-8 h-8">
               <AvatarImage src={user.profileImage} />
-              <AvatarFallback className="bg-gradient-to-br from-coffee-500 to-matcha-500 text-white">
+              <AvatarFallback className="bg-gradient-to-br from-coffee-500 to-matcha-500 text-white text-sm font-semibold">
                 {getUserInitials()}
               </AvatarFallback>
             </Avatar>
-            <div className="flex-1 min-w-0">
-              <p className="font-semibold truncate">{getUserDisplayName()}</p>
-              <p className="text-xs text-muted-foreground truncate">{user.email}</p>
-              <div className="flex items-center gap-1 mt-1">
-                <div className={`w-2 h-2 rounded-full ${user.userType === 'seller' ? 'bg-matcha-500' : 'bg-coffee-500'}`} />
-                <span className="text-xs text-muted-foreground capitalize">{user.userType}</span>
-              </div>
+            <div className="hidden md:block text-left">
+              <p className="text-sm font-medium">{getUserDisplayName()}</p>
+              <p className="text-xs text-muted-foreground capitalize">{user.userType}</p>
             </div>
-          </div>
-        </DropdownMenuLabel>
-        
-        <DropdownMenuSeparator />
-        
-        <DropdownMenuItem onClick={() => navigate('/profile')} className="cursor-pointer">
-          <User className="w-4 h-4 mr-2" />
-          Profile
-        </DropdownMenuItem>
+            <ChevronDown className="w-4 h-4 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
         
-        {user.userType === 'seller' && (
-          <DropdownMenuItem onClick={() => navigate('/seller-dashboard')} className="cursor-pointer">
-            <LayoutDashboard className="w-4 h-4 mr-2" />
-            Dashboard
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>
+            <div className="flex items-center gap-3">
+              <Avatar className="w-10 h-10">
+                <AvatarImage src={user.profileImage} />
+                <AvatarFallback className="bg-gradient-to-br from-coffee-500 to-matcha-500 text-white">
+                  {getUserInitials()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold truncate">{getUserDisplayName()}</p>
+                <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+                <div className="flex items-center gap-1 mt-1">
+                  <div className={`w-2 h-2 rounded-full ${user.userType === 'seller' ? 'bg-matcha-500' : 'bg-coffee-500'}`} />
+                  <span className="text-xs text-muted-foreground capitalize">{user.userType}</span>
+                </div>
+              </div>
+            </div>
+          </DropdownMenuLabel>
+          
+          <DropdownMenuSeparator />
+          
+          <DropdownMenuItem onClick={() => navigate('/profile')} className="cursor-pointer">
+            <User className="w-4 h-4 mr-2" />
+            Profile
+          </DropdownMenuItem>
+          
+          {user.userType === 'seller' && (
+            <DropdownMenuItem onClick={() => navigate('/seller-dashboard')} className="cursor-pointer">
+              <LayoutDashboard className="w-4 h-4 mr-2" />
+              Dashboard
+            </DropdownMenuItem>
+          )}
+          
+          <DropdownMenuItem onClick={() => navigate('/messages')} className="cursor-pointer">
+            <MessagesSquare className="w-4 h-4 mr-2" />
+            Messages
+          </DropdownMenuItem>
+          
+          <DropdownMenuItem onClick={() => navigate('/settings')} className="cursor-pointer">
+            <Settings className="w-4 h-4 mr-2" />
+            Settings
           </DropdownMenuItem>
-        )}
-        
-        <DropdownMenuItem onClick={() => navigate('/settings')} className="cursor-pointer">
-          <Settings className="w-4 h-4 mr-2" />
-          Settings
-        </DropdownMenuItem>
 
-        <DropdownMenuSeparator />
+          <DropdownMenuSeparator />
 
-        <DropdownMenuItem
-          onClick={handleSwitchUserType}
-          className="cursor-pointer p-4 min-h-[52px] group hover:bg-gradient-to-r hover:from-primary/10 hover:to-primary/5 transition-all duration-300 touch-manipulation focus:ring-2 focus:ring-primary/30"
-        >
-          <div className="flex items-center w-full">
-            <div className={`p-2 rounded-lg mr-4 transition-all duration-300 ${
-              user.userType === 'buyer'
-                ? 'bg-green-100 text-green-700 group-hover:bg-green-200'
-                : 'bg-amber-100 text-amber-700 group-hover:bg-amber-200'
-            }`}>
-              {user.userType === 'buyer' ? (
-                <Store className="w-5 h-5" />
-              ) : (
-                <ShoppingBag className="w-5 h-5" />
-              )}
-            </div>
-            <div className="flex-1">
-              <div className="font-semibold text-sm">
-                {user.userType === 'buyer' ? 'Switch to Seller' : 'Switch to Buyer'}
+          <DropdownMenuItem
+            onClick={handleSwitchUserType}
+            className="cursor-pointer p-4 min-h-[52px] group hover:bg-gradient-to-r hover:from-primary/10 hover:to-primary/5 transition-all duration-300 touch-manipulation focus:ring-2 focus:ring-primary/30"
+          >
+            <div className="flex items-center w-full">
+              <div className={`p-2 rounded-lg mr-4 transition-all duration-300 ${
+                user.userType === 'buyer'
+                  ? 'bg-green-100 text-green-700 group-hover:bg-green-200'
+                  : 'bg-amber-100 text-amber-700 group-hover:bg-amber-200'
+              }`}>
+                {user.userType === 'buyer' ? (
+                  <Store className="w-5 h-5" />
+                ) : (
+                  <ShoppingBag className="w-5 h-5" />
+                )}
               </div>
-              <div className="text-xs text-muted-foreground mt-0.5">
-                {user.userType === 'buyer' ? 'Start selling your drinks' : 'Browse and order drinks'}
+              <div className="flex-1">
+                <div className="font-semibold text-sm">
+                  {user.userType === 'buyer' ? 'Switch to Seller' : 'Switch to Buyer'}
+                </div>
+                <div className="text-xs text-muted-foreground mt-0.5">
+                  {user.userType === 'buyer' ? 'Start selling your drinks' : 'Browse and order drinks'}
+                </div>
               </div>
+              <ArrowRightLeft className="w-5 h-5 text-primary group-hover:scale-110 transition-transform duration-300" />
             </div>
-            <ArrowRightLeft className="w-5 h-5 text-primary group-hover:scale-110 transition-transform duration-300" />
-          </div>
-        </DropdownMenuItem>
+          </DropdownMenuItem>
 
-        <DropdownMenuSeparator />
+          <DropdownMenuSeparator />
 
-        <DropdownMenuItem
-          onClick={handleSignOut}
-          disabled={isLoggingOut}
-          className="cursor-pointer text-red-600 focus:text-red-700 focus:bg-red-50"
-        >
-          <LogOut className="w-4 h-4 mr-2" />
-          {isLoggingOut ? 'Signing out...' : 'Sign Out'}
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+          <DropdownMenuItem
+            onClick={handleSignOut}
+            disabled={isLoggingOut}
+            className="cursor-pointer text-red-600 focus:text-red-700 focus:bg-red-50"
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            {isLoggingOut ? 'Signing out...' : 'Sign Out'}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
   );
 };
 
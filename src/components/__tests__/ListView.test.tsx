@@ -1,5 +1,6 @@
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ListView } from '../ListView';
 import { LanguageProvider } from '@/contexts/LanguageContext';
 
@@ -59,11 +60,13 @@ jest.mock('@/lib/supabase', () => ({
 }));
 
 const TestWrapper = ({ children }: { children: React.ReactNode }) => (
-  <BrowserRouter>
-    <LanguageProvider>
-      {children}
-    </LanguageProvider>
-  </BrowserRouter>
+  <QueryClientProvider client={new QueryClient()}>
+    <BrowserRouter>
+      <LanguageProvider>
+        {children}
+      </LanguageProvider>
+    </BrowserRouter>
+  </QueryClientProvider>
 );
 
 describe('ListView Filter Functionality', () => {
@@ -0,0 +1,15 @@
+// Geocoding provider configuration
+// Providers are tried in order; self-hosted Nominatim or Photon instances can replace the public ones
+
+// Read on first use rather than at import, so the pure geocoding utils stay importable in tests
+export const getGeocodingConfig = () => ({
+  // Comma-separated, e.g. "photon,nominatim". Defaults to ORS first when its key is set.
+  PROVIDERS: import.meta.env.VITE_GEOCODING_PROVIDERS,
+
+  ORS_API_KEY: import.meta.env.VITE_ORS_API_KEY,
+
+  // Public instances: https://operations.osmfoundation.org/policies/nominatim/ allows
+  // 1 request per second and no search-as-you-type, so the public one never serves suggestions
+  NOMINATIM_URL: import.meta.env.VITE_NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+  PHOTON_URL: import.meta.env.VITE_PHOTON_URL || 'https://photon.komoot.io',
+});
@@ -3,7 +3,10 @@
 
 export const ORS_CONFIG = {
   // OpenRouteService API key - get your free key at https://openrouteservice.org/dev/#/signup
-  API_KEY: import.meta.env.VITE_ORS_API_KEY,
+  // Read on access, so importing the config doesn't need import.meta (the geocoding tests run without it)
+  get API_KEY(): string | undefined {
+    return import.meta.env.VITE_ORS_API_KEY;
+  },
   BASE_URL: 'https://api.openrouteservice.org/v2',
 
   // Default routing profile
@@ -16,7 +19,7 @@ export const ORS_CONFIG = {
   MAX_COORDINATES: 50,
 };
 
-// Rate limiting configuration
+// Rate limiting configuration, enforced per browser by src/lib/openroute.ts
 export const RATE_LIMIT = {
   // Free tier: 2000 requests per day, 40 requests per minute
   REQUESTS_PER_MINUTE: 40,
@@ -0,0 +1,195 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { OrderItem } from '@/utils/whatsapp';
+import {
+  addCartItem,
+  updateCartItemQuantity,
+  updateCartItemNotes,
+  removeCartItem,
+  getCartItemCount,
+  getCartSubtotal
+} from '@/utils/cart';
+
+export interface CartSeller {
+  id: string;
+  businessName: string;
+  phone?: string | null;
+  specialty?: 'coffee' | 'matcha' | 'both';
+}
+
+export interface SellerCart {
+  seller: CartSeller;
+  items: OrderItem[];
+  notes: string;
+  updatedAt: string;
+}
+
+interface CartContextType {
+  carts: SellerCart[];
+  activeSellerId: string | null;
+  isOpen: boolean;
+  totalItemCount: number;
+  addItem: (seller: CartSeller, item: OrderItem) => void;
+  updateQuantity: (sellerId: string, index: number, quantity: number) => void;
+  updateItemNotes: (sellerId: string, index: number, notes: string) => void;
+  updateOrderNotes: (sellerId: string, notes: string) => void;
+  removeItem: (sellerId: string, index: number) => void;
+  clearCart: (sellerId: string) => void;
+  getCart: (sellerId: string) => SellerCart | undefined;
+  getSubtotal: (sellerId: string) => number;
+  openCart: (sellerId?: string) => void;
+  closeCart: () => void;
+  setActiveSellerId: (sellerId: string) => void;
+}
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+// LocalStorage key
+const CART_STORAGE_KEY = 'machroub_cart';
+
+// Carts older than this are dropped on load so stale prices don't linger
+const CART_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    console.error('useCart hook called outside of CartProvider context');
+    throw new Error('useCart must be used within a CartProvider. Check that your component is properly wrapped with CartProvider.');
+  }
+  return context;
+}
+
+// Helper: read persisted carts, keyed by seller ID
+const loadStoredCarts = (): Record<string, SellerCart> => {
+  try {
+    const stored = localStorage.getItem(CART_STORAGE_KEY);
+    if (!stored) return {};
+
+    const parsed = JSON.parse(stored) as Record<string, SellerCart>;
+    const now = Date.now();
+
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, cart]) =>
+        cart?.items?.length > 0 && now - new Date(cart.updatedAt).getTime() < CART_MAX_AGE_MS
+      )
+    );
+  } catch (error) {
+    console.warn('⚠️ Error reading stored cart:', error);
+    return {};
+  }
+};
+
+export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [cartsBySeller, setCartsBySeller] = useState<Record<string, SellerCart>>(loadStoredCarts);
+  const [activeSellerId, setActiveSellerId] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Persist on every change so the cart survives reloads
+  useEffect(() => {
+    try {
+      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cartsBySeller));
+    } catch (error) {
+      console.warn('⚠️ Error storing cart:', error);
+    }
+  }, [cartsBySeller]);
+
+  // Keep carts in sync across tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === CART_STORAGE_KEY) {
+        setCartsBySeller(loadStoredCarts());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Helper: apply a change to one seller's cart, dropping it once empty
+  const updateCart = (sellerId: string, update: (cart: SellerCart) => SellerCart) => {
+    setCartsBySeller(prev => {
+      const current = prev[sellerId];
+      if (!current) return prev;
+
+      const next = update(current);
+      if (next.items.length === 0) {
+        const { [sellerId]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [sellerId]: { ...next, updatedAt: new Date().toISOString() } };
+    });
+  };
+
+  const addItem = (seller: CartSeller, item: OrderItem) => {
+    setCartsBySeller(prev => {
+      const current = prev[seller.id] || { seller, items: [], notes: '', updatedAt: '' };
+      return {
+        ...prev,
+        [seller.id]: {
+          ...current,
+          seller: { ...current.seller, ...seller },
+          items: addCartItem(current.items, item),
+          updatedAt: new Date().toISOString()
+        }
+      };
+    });
+    setActiveSellerId(seller.id);
+  };
+
+  const updateQuantity = (sellerId: string, index: number, quantity: number) => {
+    updateCart(sellerId, cart => ({ ...cart, items: updateCartItemQuantity(cart.items, index, quantity) }));
+  };
+
+  const updateItemNotes = (sellerId: string, index: number, notes: string) => {
+    updateCart(sellerId, cart => ({ ...cart, items: updateCartItemNotes(cart.items, index, notes) }));
+  };
+
+  const updateOrderNotes = (sellerId: string, notes: string) => {
+    updateCart(sellerId, cart => ({ ...cart, notes }));
+  };
+
+  const removeItem = (sellerId: string, index: number) => {
+    updateCart(sellerId, cart => ({ ...cart, items: removeCartItem(cart.items, index) }));
+  };
+
+  const clearCart = (sellerId: string) => {
+    setCartsBySeller(prev => {
+      const { [sellerId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const getCart = (sellerId: string) => cartsBySeller[sellerId];
+
+  const getSubtotal = (sellerId: string) => getCartSubtotal(cartsBySeller[sellerId]?.items || []);
+
+  const openCart = (sellerId?: string) => {
+    if (sellerId) setActiveSellerId(sellerId);
+    setIsOpen(true);
+  };
+
+  const closeCart = () => setIsOpen(false);
+
+  const carts = Object.values(cartsBySeller).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  const totalItemCount = carts.reduce((count, cart) => count + getCartItemCount(cart.items), 0);
+
+  return (
+    <CartContext.Provider value={{
+      carts,
+      activeSellerId: activeSellerId && cartsBySeller[activeSellerId] ? activeSellerId : carts[0]?.seller.id || null,
+      isOpen,
+      totalItemCount,
+      addItem,
+      updateQuantity,
+      updateItemNotes,
+      updateOrderNotes,
+      removeItem,
+      clearCart,
+      getCart,
+      getSubtotal,
+      openCart,
+      closeCart,
+      setActiveSellerId
+    }}>
+      {children}
+    </CartContext.Provider>
+  );
+};
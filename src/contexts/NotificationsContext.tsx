@@ -0,0 +1,200 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { useUser } from '@/contexts/UserContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useToast } from '@/hooks/use-toast';
+import { NotificationService } from '@/services/notificationService';
+import { subscribeToNewSellers, subscribeToNotifications } from '@/lib/supabase';
+import { getCurrentLocation, type Coordinates } from '@/utils/geocoding';
+import {
+  AppNotification,
+  NewSellerCandidate,
+  buildNewSellerNotification,
+  getNewSellerDistance,
+  mergeNotification
+} from '@/utils/notifications';
+import {
+  buildPushPayload,
+  createLocalPushSender,
+  isPushSupported,
+  registerServiceWorker,
+  subscribeToPush,
+  toPushSubscriptionInsert,
+  unsubscribeFromPush
+} from '@/utils/webPush';
+
+// Without a VAPID key the app can't subscribe to a push service and falls back to the local stand-in
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+interface NotificationsContextType {
+  notifications: AppNotification[];
+  unreadCount: number;
+  loading: boolean;
+  pushSupported: boolean;
+  markRead: (notificationId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  enablePush: () => Promise<void>;
+  disablePush: () => Promise<void>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    console.error('useNotifications hook called outside of NotificationsProvider context');
+    throw new Error('useNotifications must be used within a NotificationsProvider. Check that your component is properly wrapped with NotificationsProvider.');
+  }
+  return context;
+}
+
+export const NotificationsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useUser();
+  const { preferences } = usePreferences();
+  const { toast } = useToast();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [location, setLocation] = useState<Coordinates | null>(null);
+  const registrationRef = useRef<ServiceWorkerRegistration | null>(null);
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
+
+  const userId = user?.id;
+  const watchNewSellers = preferences.notifications.newSellers && preferences.location.shareLocation;
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!userId) return;
+    setUnreadCount(await NotificationService.getUnreadCount(userId));
+  }, [userId]);
+
+  // Shown by the app itself when there is no push service, or as a toast while the app is in front
+  const announce = useCallback((notification: AppNotification) => {
+    if (document.visibilityState === 'visible') {
+      toast({ title: notification.title, description: notification.body });
+      return;
+    }
+    if (VAPID_PUBLIC_KEY || !preferencesRef.current.notifications.push) return;
+    createLocalPushSender(registrationRef.current?.active)
+      .send(buildPushPayload(notification))
+      .catch(error => console.error('Local push failed:', error));
+  }, [toast]);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      const [list, count] = await Promise.all([
+        NotificationService.getNotifications(userId),
+        NotificationService.getUnreadCount(userId)
+      ]);
+      if (cancelled) return;
+      setNotifications(list);
+      setUnreadCount(count);
+      setLoading(false);
+    };
+    load();
+
+    const channel = subscribeToNotifications(userId, (payload) => {
+      const { eventType, new: notification } = payload as { eventType: string; new: AppNotification };
+      if (!notification?.id) return;
+      setNotifications(prev => mergeNotification(prev, notification));
+      refreshUnreadCount();
+      if (eventType === 'INSERT') announce(notification);
+    });
+
+    return () => {
+      cancelled = true;
+      try { channel.unsubscribe?.(); } catch (error) { console.warn('Failed to unsubscribe from notifications:', error); }
+    };
+  }, [userId, refreshUnreadCount, announce]);
+
+  // Re-attach to the service worker after a reload when push was already allowed
+  useEffect(() => {
+    if (!userId || !preferences.notifications.push || !isPushSupported()) return;
+    if (Notification.permission !== 'granted') return;
+    registerServiceWorker().then(registration => {
+      registrationRef.current = registration;
+    });
+  }, [userId, preferences.notifications.push]);
+
+  useEffect(() => {
+    if (!userId || !watchNewSellers) return;
+    getCurrentLocation()
+      .then(setLocation)
+      .catch(error => console.warn('Location unavailable for new seller alerts:', error));
+  }, [userId, watchNewSellers]);
+
+  // Sellers who join within the search radius, while the app is open
+  useEffect(() => {
+    if (!userId || !watchNewSellers || !location) return;
+
+    const channel = subscribeToNewSellers((payload) => {
+      const seller = (payload as { new?: NewSellerCandidate }).new;
+      if (!seller) return;
+      const distance = getNewSellerDistance(seller, userId, location, preferencesRef.current);
+      if (distance === null) return;
+      NotificationService.createNotification(buildNewSellerNotification(userId, seller, distance))
+        .catch(error => console.error('Failed to create new seller notification:', error));
+    });
+
+    return () => {
+      try { channel.unsubscribe?.(); } catch (error) { console.warn('Failed to unsubscribe from new sellers:', error); }
+    };
+  }, [userId, watchNewSellers, location]);
+
+  const markRead = async (notificationId: string) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(notification =>
+      notification.id === notificationId && !notification.read_at ? { ...notification, read_at: readAt } : notification
+    ));
+    await NotificationService.markRead(notificationId);
+    await refreshUnreadCount();
+  };
+
+  const markAllRead = async () => {
+    if (!userId) return;
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(notification => notification.read_at ? notification : { ...notification, read_at: readAt }));
+    setUnreadCount(0);
+    await NotificationService.markAllRead(userId);
+  };
+
+  const enablePush = async () => {
+    const registration = await registerServiceWorker();
+    if (!registration) throw new Error('Push notifications are not supported in this browser.');
+    registrationRef.current = registration;
+
+    const subscription = await subscribeToPush(registration, VAPID_PUBLIC_KEY);
+    if (!subscription || !userId) return;
+    const row = toPushSubscriptionInsert(userId, subscription, navigator.userAgent);
+    if (row) await NotificationService.savePushSubscription(row);
+  };
+
+  const disablePush = async () => {
+    const registration = registrationRef.current || await registerServiceWorker();
+    if (!registration) return;
+    const endpoint = await unsubscribeFromPush(registration);
+    if (endpoint) await NotificationService.removePushSubscription(endpoint);
+  };
+
+  return (
+    <NotificationsContext.Provider value={{
+      notifications,
+      unreadCount,
+      loading,
+      pushSupported: isPushSupported(),
+      markRead,
+      markAllRead,
+      enablePush,
+      disablePush
+    }}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
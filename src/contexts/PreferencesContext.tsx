@@ -0,0 +1,118 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { useTheme } from 'next-themes';
+import i18n from '@/i18n';
+import { useUser } from '@/contexts/UserContext';
+import { PreferencesService } from '@/services/preferencesService';
+import { setAnalyticsEnabled } from '@/utils/analytics';
+import { setNumeralSystem } from '@/utils/numberFormat';
+import {
+  PreferenceCategory,
+  UserPreferences,
+  loadStoredPreferences,
+  storePreferences,
+  updatePreferenceCategory
+} from '@/utils/preferences';
+
+interface PreferencesContextType {
+  preferences: UserPreferences;
+  loading: boolean;
+  updatePreferences: <C extends PreferenceCategory>(category: C, values: Partial<UserPreferences[C]>) => Promise<void>;
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+export function usePreferences() {
+  const context = useContext(PreferencesContext);
+  if (context === undefined) {
+    console.error('usePreferences hook called outside of PreferencesProvider context');
+    throw new Error('usePreferences must be used within a PreferencesProvider. Check that your component is properly wrapped with PreferencesProvider.');
+  }
+  return context;
+}
+
+// Guests keep their settings in localStorage; signed-in users also get them from user_preferences
+export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useUser();
+  const { setTheme } = useTheme();
+  const [preferences, setPreferences] = useState<UserPreferences>(loadStoredPreferences);
+  const [loading, setLoading] = useState(false);
+  const preferencesRef = useRef(preferences);
+  const analyticsRef = useRef(preferences.privacy.analytics);
+
+  // Hydrate from the database when a user signs in
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const saved = await PreferencesService.getPreferences(user.id);
+      if (cancelled) return;
+      if (saved) setPreferences(saved);
+      setLoading(false);
+    };
+    load();
+
+    return () => { cancelled = true; };
+  }, [user?.id]);
+
+  useEffect(() => {
+    preferencesRef.current = preferences;
+    storePreferences(preferences);
+  }, [preferences]);
+
+  useEffect(() => {
+    setTheme(preferences.appearance.theme);
+  }, [preferences.appearance.theme, setTheme]);
+
+  useEffect(() => {
+    setNumeralSystem(preferences.appearance.numerals);
+  }, [preferences.appearance.numerals]);
+
+  // A saved language wins over the browser's; until then the detector's choice stands
+  useEffect(() => {
+    const language = preferences.appearance.language;
+    if (language && language !== i18n.resolvedLanguage) {
+      i18n.changeLanguage(language);
+    }
+  }, [preferences.appearance.language]);
+
+  // App calls initGA() on load with the stored value; only react to changes after that
+  useEffect(() => {
+    if (analyticsRef.current === preferences.privacy.analytics) return;
+    analyticsRef.current = preferences.privacy.analytics;
+    setAnalyticsEnabled(preferences.privacy.analytics);
+  }, [preferences.privacy.analytics]);
+
+  const updatePreferences = useCallback(async <C extends PreferenceCategory>(category: C, values: Partial<UserPreferences[C]>) => {
+    const previous = preferencesRef.current;
+    const next = updatePreferenceCategory(previous, category, values);
+    setPreferences(next);
+
+    if (!user?.id) return;
+    try {
+      await PreferencesService.savePreferences(user.id, next);
+    } catch (error) {
+      setPreferences(previous);
+      throw error;
+    }
+  }, [user?.id]);
+
+  // Remember languages picked from the header switcher too
+  useEffect(() => {
+    const handleLanguageChanged = (language: string) => {
+      if (language === preferencesRef.current.appearance.language) return;
+      updatePreferences('appearance', { language }).catch(error =>
+        console.error('Failed to save language preference:', error)
+      );
+    };
+    i18n.on('languageChanged', handleLanguageChanged);
+    return () => i18n.off('languageChanged', handleLanguageChanged);
+  }, [updatePreferences]);
+
+  return (
+    <PreferencesContext.Provider value={{ preferences, loading, updatePreferences }}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
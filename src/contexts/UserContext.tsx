@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase, signUp, signIn, signOut, signInWithGoogle } from '@/lib/supabase';
+import { supabase, signUp, signIn, signOut, signInWithGoogle, clearCachedSupabaseData } from '@/lib/supabase';
 import { UserService } from '@/services/userService';
 import { SellerService } from '@/services/sellerService';
 import { debugOAuthConfig } from "@/utils/oauthConfig";
@@ -105,6 +105,7 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
       // Also clear any old domain-related storage
       localStorage.removeItem('brewnear_user_essentials');
       localStorage.removeItem('brewnear_contacts');
+      clearCachedSupabaseData();
       console.log('🗑️ Stored data cleared');
     } catch (error) {
       console.warn('⚠️ Error clearing stored data:', error);
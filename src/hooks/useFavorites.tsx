@@ -0,0 +1,92 @@
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { useToast } from '@/hooks/use-toast';
+import { useUser } from '@/contexts/UserContext';
+import {
+  FavoritesService,
+  FavoriteTarget,
+  FavoriteWithDetails,
+  matchesFavoriteTarget
+} from '@/services/favoritesService';
+
+export const favoritesQueryKey = (userId: string | undefined) => ['favorites', userId];
+
+// The signed-in user's saved sellers and drinks, with optimistic add/remove
+export const useFavorites = () => {
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const queryKey = favoritesQueryKey(user?.id);
+
+  const { data: favorites = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => FavoritesService.getFavorites(user!.id),
+    enabled: !!user,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async ({ target, favorite }: { target: FavoriteTarget; favorite: boolean }) => {
+      if (favorite) {
+        await FavoritesService.addFavorite(user!.id, target);
+      } else {
+        await FavoritesService.removeFavorite(user!.id, target);
+      }
+    },
+    onMutate: async ({ target, favorite }) => {
+      // Flip the heart straight away; the details fill in when the query refetches
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<FavoriteWithDetails[]>(queryKey) || [];
+
+      const next = favorite
+        ? [{
+            id: `optimistic-${target.type}-${target.id}`,
+            buyer_id: user!.id,
+            seller_id: target.type === 'seller' ? target.id : null,
+            drink_id: target.type === 'drink' ? target.id : null,
+            created_at: new Date().toISOString(),
+          }, ...previous]
+        : previous.filter(item => !matchesFavoriteTarget(item, target));
+
+      queryClient.setQueryData(queryKey, next);
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      if (context) queryClient.setQueryData(queryKey, context.previous);
+      toast({
+        title: "Couldn't update favorites",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+    onSuccess: (_data, { target, favorite }) => {
+      toast({
+        title: favorite ? t('message.addedToFavorites') : t('message.removedFromFavorites'),
+        description: target.type === 'drink'
+          ? (favorite ? t('message.itemAddedToFavorites') : t('message.itemRemovedFromFavorites'))
+          : undefined,
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const isFavorite = (target: FavoriteTarget) => favorites.some(item => matchesFavoriteTarget(item, target));
+
+  const toggleFavorite = (target: FavoriteTarget) => {
+    if (!user) {
+      toast({
+        title: "Sign in to save favorites",
+        description: "You need an account to keep a list of favorites.",
+      });
+      navigate('/signin');
+      return;
+    }
+    mutation.mutate({ target, favorite: !isFavorite(target) });
+  };
+
+  return { favorites, isLoading, isFavorite, toggleFavorite };
+};
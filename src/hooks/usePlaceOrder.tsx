@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { useUser } from '@/contexts/UserContext';
+import { OrderService, OrderWithItems } from '@/services/orderService';
+import {
+  OrderItem,
+  sendWhatsAppMessage,
+  createOrderNotificationMessage,
+  formatOrderReference,
+  trackContactAttempt
+} from '@/utils/whatsapp';
+
+interface PlaceOrderOptions {
+  sellerId: string;
+  sellerPhone?: string | null;
+  items: OrderItem[];
+  notes?: string;
+}
+
+// Places an order in the database, then offers WhatsApp as an optional way to notify the seller
+export const usePlaceOrder = () => {
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const { toast } = useToast();
+  const { i18n } = useTranslation();
+  const [isPlacing, setIsPlacing] = useState(false);
+
+  const notifySeller = (order: OrderWithItems, sellerPhone: string, notes?: string) => {
+    // Use the stored lines so the message matches the seller's prices
+    const message = createOrderNotificationMessage(
+      order.id,
+      OrderService.toOrderItems(order),
+      Number(order.total_amount),
+      user?.name,
+      notes,
+      i18n.language
+    );
+    sendWhatsAppMessage(sellerPhone, message);
+    // Attribute the contact to the drink when the order is for a single drink
+    const drinkIds = new Set(order.items.map(item => item.drink_id).filter(Boolean));
+    trackContactAttempt(order.seller_id, 'whatsapp', drinkIds.size === 1 ? [...drinkIds][0] : null);
+    OrderService.markWhatsAppNotified(order.id);
+  };
+
+  const placeOrder = async ({ sellerId, sellerPhone, items, notes }: PlaceOrderOptions): Promise<OrderWithItems | null> => {
+    if (!user) {
+      toast({
+        title: "Sign in to order",
+        description: "You need an account to place orders.",
+      });
+      navigate('/signin');
+      return null;
+    }
+
+    try {
+      setIsPlacing(true);
+      const order = await OrderService.createOrder({
+        buyerId: user.id,
+        sellerId,
+        items,
+        notes
+      });
+
+      toast({
+        title: `Order ${formatOrderReference(order.id)} placed`,
+        description: "Track its status from your profile.",
+        action: sellerPhone ? (
+          <ToastAction
+            altText="Notify the seller on WhatsApp"
+            onClick={() => notifySeller(order, sellerPhone, notes)}
+          >
+            WhatsApp
+          </ToastAction>
+        ) : undefined,
+      });
+
+      return order;
+    } catch (error) {
+      toast({
+        title: "Order failed",
+        description: (error as Error).message || "Failed to place your order. Please try again.",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setIsPlacing(false);
+    }
+  };
+
+  return { placeOrder, isPlacing };
+};
@@ -0,0 +1,18 @@
+import { useCallback } from "react";
+import { useTranslation } from "react-i18next";
+import { NumberFormatOptions, formatPrice, getNumeralSystem } from "@/utils/numberFormat";
+
+// The current language and the numerals picked in Settings
+export const usePriceFormatOptions = (): NumberFormatOptions => {
+  const { i18n } = useTranslation();
+  return { language: i18n.resolvedLanguage || i18n.language, numerals: getNumeralSystem() };
+};
+
+export const usePriceFormatter = () => {
+  const { language, numerals } = usePriceFormatOptions();
+
+  return useCallback(
+    (amount: number, decimals: number = 2) => formatPrice(amount, { language, numerals, decimals }),
+    [language, numerals]
+  );
+};
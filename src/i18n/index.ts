@@ -5,6 +5,8 @@ import LanguageDetector from 'i18next-browser-languagedetector';
 // Import translation files
 import enTranslations from './locales/en.json';
 import frTranslations from './locales/fr.json';
+import arTranslations from './locales/ar.json';
+import aryTranslations from './locales/ary.json';
 
 const resources = {
   en: {
@@ -12,15 +14,40 @@ const resources = {
   },
   fr: {
     translation: frTranslations
+  },
+  ar: {
+    translation: arTranslations
+  },
+  // Darija only overrides the everyday phrases; everything else falls back to Arabic
+  ary: {
+    translation: aryTranslations
   }
 };
 
+export const LANGUAGES = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+  { code: 'ary', name: 'Darija', nativeName: 'الدارجة' }
+] as const;
+
+export type LanguageCode = typeof LANGUAGES[number]['code'];
+
+// Arabic and Darija switch the whole document to right-to-left
+i18n.on('languageChanged', (lng) => {
+  document.documentElement.dir = i18n.dir(lng);
+  document.documentElement.lang = lng;
+});
+
 i18n
   .use(LanguageDetector)
   .use(initReactI18next)
   .init({
     resources,
-    fallbackLng: 'en',
+    fallbackLng: {
+      ary: ['ar', 'en'],
+      default: ['en']
+    },
     debug: process.env.NODE_ENV === 'development',
     
     interpolation: {
@@ -28,7 +55,9 @@ i18n
     },
     
     detection: {
-      order: ['localStorage', 'navigator', 'htmlTag'],
+      // ?lang= comes first so the hreflang links on city pages open in their language
+      order: ['querystring', 'localStorage', 'navigator', 'htmlTag'],
+      lookupQuerystring: 'lang',
       caches: ['localStorage'],
       lookupLocalStorage: 'language',
     },
@@ -51,12 +51,16 @@ export interface Database {
           longitude: number
           phone: string
           hours: string | null
+          schedule: Json | null
           photo_url: string | null
           specialty: 'coffee' | 'matcha' | 'both'
           is_available: boolean
+          availability_mode: 'manual' | 'schedule' | 'schedule_with_pause'
+          paused_until: string | null
           rating_average: number
           rating_count: number
           description: string | null
+          slug: string | null
           created_at: string
           updated_at: string
         }
@@ -69,12 +73,16 @@ export interface Database {
           longitude: number
           phone: string
           hours?: string | null
+          schedule?: Json | null
           photo_url?: string | null
           specialty: 'coffee' | 'matcha' | 'both'
           is_available?: boolean
+          availability_mode?: 'manual' | 'schedule' | 'schedule_with_pause'
+          paused_until?: string | null
           rating_average?: number
           rating_count?: number
           description?: string | null
+          slug?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -87,12 +95,16 @@ export interface Database {
           longitude?: number
           phone?: string
           hours?: string | null
+          schedule?: Json | null
           photo_url?: string | null
           specialty?: 'coffee' | 'matcha' | 'both'
           is_available?: boolean
+          availability_mode?: 'manual' | 'schedule' | 'schedule_with_pause'
+          paused_until?: string | null
           rating_average?: number
           rating_count?: number
           description?: string | null
+          slug?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -107,6 +119,7 @@ export interface Database {
           photo_url: string | null
           category: string | null
           is_available: boolean
+          option_groups: Json | null
           created_at: string
           updated_at: string
         }
@@ -119,6 +132,7 @@ export interface Database {
           photo_url?: string | null
           category?: string | null
           is_available?: boolean
+          option_groups?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -131,6 +145,7 @@ export interface Database {
           photo_url?: string | null
           category?: string | null
           is_available?: boolean
+          option_groups?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -143,6 +158,11 @@ export interface Database {
           rating: number
           comment: string | null
           order_items: string[] | null
+          order_id: string | null
+          contact_request_id: string | null
+          is_verified: boolean
+          status: 'published' | 'hidden' | 'removed'
+          report_count: number
           created_at: string
         }
         Insert: {
@@ -152,6 +172,11 @@ export interface Database {
           rating: number
           comment?: string | null
           order_items?: string[] | null
+          order_id?: string | null
+          contact_request_id?: string | null
+          is_verified?: boolean
+          status?: 'published' | 'hidden' | 'removed'
+          report_count?: number
           created_at?: string
         }
         Update: {
@@ -161,6 +186,86 @@ export interface Database {
           rating?: number
           comment?: string | null
           order_items?: string[] | null
+          order_id?: string | null
+          contact_request_id?: string | null
+          is_verified?: boolean
+          status?: 'published' | 'hidden' | 'removed'
+          report_count?: number
+          created_at?: string
+        }
+      }
+      rating_reports: {
+        Row: {
+          id: string
+          rating_id: string
+          reporter_id: string
+          reason: 'spam' | 'offensive' | 'fake' | 'conflict_of_interest' | 'off_topic' | 'other'
+          details: string | null
+          status: 'open' | 'dismissed' | 'actioned'
+          resolved_by: string | null
+          resolved_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          rating_id: string
+          reporter_id: string
+          reason: 'spam' | 'offensive' | 'fake' | 'conflict_of_interest' | 'off_topic' | 'other'
+          details?: string | null
+          status?: 'open' | 'dismissed' | 'actioned'
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          rating_id?: string
+          reporter_id?: string
+          reason?: 'spam' | 'offensive' | 'fake' | 'conflict_of_interest' | 'off_topic' | 'other'
+          details?: string | null
+          status?: 'open' | 'dismissed' | 'actioned'
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+      }
+      rating_replies: {
+        Row: {
+          id: string
+          rating_id: string
+          seller_id: string
+          body: string
+          created_at: string
+          edited_at: string | null
+        }
+        Insert: {
+          id?: string
+          rating_id: string
+          seller_id: string
+          body: string
+          created_at?: string
+          edited_at?: string | null
+        }
+        Update: {
+          id?: string
+          rating_id?: string
+          seller_id?: string
+          body?: string
+          created_at?: string
+          edited_at?: string | null
+        }
+      }
+      moderators: {
+        Row: {
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
           created_at?: string
         }
       }
@@ -168,19 +273,22 @@ export interface Database {
         Row: {
           id: string
           buyer_id: string
-          seller_id: string
+          seller_id: string | null
+          drink_id: string | null
           created_at: string
         }
         Insert: {
           id?: string
           buyer_id: string
-          seller_id: string
+          seller_id?: string | null
+          drink_id?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           buyer_id?: string
-          seller_id?: string
+          seller_id?: string | null
+          drink_id?: string | null
           created_at?: string
         }
       }
@@ -192,6 +300,7 @@ export interface Database {
           contact_type: 'whatsapp' | 'phone' | 'inquiry'
           message: string | null
           status: 'pending' | 'responded' | 'completed'
+          seller_read_at: string | null
           created_at: string
           updated_at: string
         }
@@ -202,6 +311,7 @@ export interface Database {
           contact_type: 'whatsapp' | 'phone' | 'inquiry'
           message?: string | null
           status?: 'pending' | 'responded' | 'completed'
+          seller_read_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -212,16 +322,216 @@ export interface Database {
           contact_type?: 'whatsapp' | 'phone' | 'inquiry'
           message?: string | null
           status?: 'pending' | 'responded' | 'completed'
+          seller_read_at?: string | null
           created_at?: string
           updated_at?: string
         }
       }
+      promotions: {
+        Row: {
+          id: string
+          seller_id: string
+          title: string
+          type: 'percentage' | 'fixed_amount' | 'bundle' | 'happy_hour'
+          discount_value: number | null
+          buy_quantity: number | null
+          free_quantity: number | null
+          drink_ids: string[]
+          time_windows: Json | null
+          starts_at: string
+          ends_at: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          seller_id: string
+          title: string
+          type: 'percentage' | 'fixed_amount' | 'bundle' | 'happy_hour'
+          discount_value?: number | null
+          buy_quantity?: number | null
+          free_quantity?: number | null
+          drink_ids?: string[]
+          time_windows?: Json | null
+          starts_at?: string
+          ends_at?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          seller_id?: string
+          title?: string
+          type?: 'percentage' | 'fixed_amount' | 'bundle' | 'happy_hour'
+          discount_value?: number | null
+          buy_quantity?: number | null
+          free_quantity?: number | null
+          drink_ids?: string[]
+          time_windows?: Json | null
+          starts_at?: string
+          ends_at?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      loyalty_cards: {
+        Row: {
+          id: string
+          seller_id: string
+          stamps_required: number
+          reward: string
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          seller_id: string
+          stamps_required: number
+          reward: string
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          seller_id?: string
+          stamps_required?: number
+          reward?: string
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      loyalty_memberships: {
+        Row: {
+          id: string
+          card_id: string
+          buyer_id: string
+          seller_id: string
+          stamps: number
+          rewards_available: number
+          rewards_redeemed: number
+          last_stamp_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          card_id: string
+          buyer_id: string
+          seller_id: string
+          stamps?: number
+          rewards_available?: number
+          rewards_redeemed?: number
+          last_stamp_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          card_id?: string
+          buyer_id?: string
+          seller_id?: string
+          stamps?: number
+          rewards_available?: number
+          rewards_redeemed?: number
+          last_stamp_at?: string | null
+          created_at?: string
+        }
+      }
+      loyalty_codes: {
+        Row: {
+          id: string
+          code: string
+          buyer_id: string
+          seller_id: string
+          expires_at: string
+          used_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          buyer_id: string
+          seller_id: string
+          expires_at?: string
+          used_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          buyer_id?: string
+          seller_id?: string
+          expires_at?: string
+          used_at?: string | null
+          created_at?: string
+        }
+      }
+      conversations: {
+        Row: {
+          id: string
+          buyer_id: string
+          seller_id: string
+          last_message_at: string | null
+          last_message_preview: string | null
+          last_sender_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          buyer_id: string
+          seller_id: string
+          last_message_at?: string | null
+          last_message_preview?: string | null
+          last_sender_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          buyer_id?: string
+          seller_id?: string
+          last_message_at?: string | null
+          last_message_preview?: string | null
+          last_sender_id?: string | null
+          created_at?: string
+        }
+      }
+      messages: {
+        Row: {
+          id: string
+          conversation_id: string
+          sender_id: string
+          body: string
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          conversation_id: string
+          sender_id: string
+          body: string
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          conversation_id?: string
+          sender_id?: string
+          body?: string
+          read_at?: string | null
+          created_at?: string
+        }
+      }
       seller_analytics: {
         Row: {
           id: string
           seller_id: string
           viewer_id: string | null
-          event_type: 'profile_view' | 'contact_attempt' | 'order_inquiry'
+          drink_id: string | null
+          event_type: 'profile_view' | 'contact_attempt' | 'order_inquiry' | 'item_view' | 'directions_request' | 'share'
           metadata: Json | null
           created_at: string
         }
@@ -229,7 +539,8 @@ export interface Database {
           id?: string
           seller_id: string
           viewer_id?: string | null
-          event_type: 'profile_view' | 'contact_attempt' | 'order_inquiry'
+          drink_id?: string | null
+          event_type: 'profile_view' | 'contact_attempt' | 'order_inquiry' | 'item_view' | 'directions_request' | 'share'
           metadata?: Json | null
           created_at?: string
         }
@@ -237,11 +548,214 @@ export interface Database {
           id?: string
           seller_id?: string
           viewer_id?: string | null
-          event_type?: 'profile_view' | 'contact_attempt' | 'order_inquiry'
+          drink_id?: string | null
+          event_type?: 'profile_view' | 'contact_attempt' | 'order_inquiry' | 'item_view' | 'directions_request' | 'share'
           metadata?: Json | null
           created_at?: string
         }
       }
+      orders: {
+        Row: {
+          id: string
+          buyer_id: string
+          seller_id: string
+          status: 'placed' | 'accepted' | 'ready' | 'picked_up' | 'cancelled'
+          total_amount: number
+          notes: string | null
+          whatsapp_notified_at: string | null
+          cancelled_by: 'buyer' | 'seller' | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          buyer_id: string
+          seller_id: string
+          status?: 'placed' | 'accepted' | 'ready' | 'picked_up' | 'cancelled'
+          total_amount: number
+          notes?: string | null
+          whatsapp_notified_at?: string | null
+          cancelled_by?: 'buyer' | 'seller' | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          buyer_id?: string
+          seller_id?: string
+          status?: 'placed' | 'accepted' | 'ready' | 'picked_up' | 'cancelled'
+          total_amount?: number
+          notes?: string | null
+          whatsapp_notified_at?: string | null
+          cancelled_by?: 'buyer' | 'seller' | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      order_items: {
+        Row: {
+          id: string
+          order_id: string
+          drink_id: string | null
+          name: string
+          unit_price: number
+          line_total: number | null
+          quantity: number
+          notes: string | null
+          options: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          drink_id?: string | null
+          name: string
+          unit_price: number
+          line_total?: number | null
+          quantity: number
+          notes?: string | null
+          options?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          drink_id?: string | null
+          name?: string
+          unit_price?: number
+          line_total?: number | null
+          quantity?: number
+          notes?: string | null
+          options?: Json | null
+          created_at?: string
+        }
+      }
+      user_preferences: {
+        Row: {
+          user_id: string
+          order_updates: boolean
+          promotions: boolean
+          new_sellers: boolean
+          push_notifications: boolean
+          email_notifications: boolean
+          sms_notifications: boolean
+          share_location: boolean
+          auto_detect_location: boolean
+          search_radius_km: number
+          theme: 'light' | 'dark' | 'system'
+          language: string | null
+          numerals: 'latn' | 'arab'
+          profile_visible: boolean
+          share_order_history: boolean
+          analytics: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          order_updates?: boolean
+          promotions?: boolean
+          new_sellers?: boolean
+          push_notifications?: boolean
+          email_notifications?: boolean
+          sms_notifications?: boolean
+          share_location?: boolean
+          auto_detect_location?: boolean
+          search_radius_km?: number
+          theme?: 'light' | 'dark' | 'system'
+          language?: string | null
+          numerals?: 'latn' | 'arab'
+          profile_visible?: boolean
+          share_order_history?: boolean
+          analytics?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          order_updates?: boolean
+          promotions?: boolean
+          new_sellers?: boolean
+          push_notifications?: boolean
+          email_notifications?: boolean
+          sms_notifications?: boolean
+          share_location?: boolean
+          auto_detect_location?: boolean
+          search_radius_km?: number
+          theme?: 'light' | 'dark' | 'system'
+          language?: string | null
+          numerals?: 'latn' | 'arab'
+          profile_visible?: boolean
+          share_order_history?: boolean
+          analytics?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          type: 'contact_request' | 'new_seller'
+          title: string
+          body: string
+          url: string | null
+          data: Json | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type: 'contact_request' | 'new_seller'
+          title: string
+          body: string
+          url?: string | null
+          data?: Json | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: 'contact_request' | 'new_seller'
+          title?: string
+          body?: string
+          url?: string | null
+          data?: Json | null
+          read_at?: string | null
+          created_at?: string
+        }
+      }
+      push_subscriptions: {
+        Row: {
+          id: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          endpoint?: string
+          p256dh?: string
+          auth?: string
+          user_agent?: string | null
+          created_at?: string
+        }
+      }
 
     }
     Views: {
@@ -262,9 +776,12 @@ export interface Database {
           longitude: number
           phone: string
           hours: string
+          schedule: Json | null
           photo_url: string
           specialty: string
           is_available: boolean
+          availability_mode: 'manual' | 'schedule' | 'schedule_with_pause'
+          paused_until: string | null
           rating_average: number
           rating_count: number
           description: string
@@ -273,15 +790,110 @@ export interface Database {
       }
       update_seller_rating: {
         Args: {
-          seller_id: string
-          new_rating: number
+          target_seller_id: string
+        }
+        Returns: void
+      }
+      moderate_rating: {
+        Args: {
+          target_rating_id: string
+          action: 'approve' | 'remove'
         }
         Returns: void
       }
+      mark_conversation_read: {
+        Args: {
+          target_conversation_id: string
+        }
+        Returns: void
+      }
+      lookup_loyalty_code: {
+        Args: {
+          stamp_code: string
+        }
+        Returns: {
+          buyer_id: string
+          buyer_name: string
+          stamps: number
+          stamps_required: number
+          rewards_available: number
+          last_stamp_at: string | null
+          expires_at: string
+          used_at: string | null
+        }[]
+      }
+      use_loyalty_code: {
+        Args: {
+          stamp_code: string
+          redeem_reward: boolean
+        }
+        Returns: Database['public']['Tables']['loyalty_memberships']['Row']
+      }
+      seller_analytics_timeseries: {
+        Args: {
+          target_seller_id: string
+          start_date: string
+          end_date: string
+          bucket: 'day' | 'week'
+        }
+        Returns: {
+          bucket_start: string
+          profile_views: number
+          contact_attempts: number
+          order_inquiries: number
+        }[]
+      }
+      seller_analytics_funnel: {
+        Args: {
+          target_seller_id: string
+          start_date?: string | null
+          end_date?: string | null
+        }
+        Returns: {
+          profile_views: number
+          unique_viewers: number
+          contact_attempts: number
+          unique_contacts: number
+          order_inquiries: number
+        }[]
+      }
+      drink_performance: {
+        Args: {
+          target_seller_id: string
+          start_date?: string | null
+          end_date?: string | null
+        }
+        Returns: {
+          drink_id: string
+          item_views: number
+          contact_attempts: number
+          directions_requests: number
+          shares: number
+        }[]
+      }
+      seller_analytics_hourly: {
+        Args: {
+          target_seller_id: string
+          start_date: string
+          end_date: string
+        }
+        Returns: {
+          day_of_week: number
+          hour: number
+          events: number
+        }[]
+      }
     }
     Enums: {
       user_type: 'buyer' | 'seller'
       contact_type: 'whatsapp' | 'phone' | 'inquiry'
+      order_status: 'placed' | 'accepted' | 'ready' | 'picked_up' | 'cancelled'
+      availability_mode: 'manual' | 'schedule' | 'schedule_with_pause'
+      rating_status: 'published' | 'hidden' | 'removed'
+      rating_report_reason: 'spam' | 'offensive' | 'fake' | 'conflict_of_interest' | 'off_topic' | 'other'
+      rating_report_status: 'open' | 'dismissed' | 'actioned'
+      seller_event_type: 'profile_view' | 'contact_attempt' | 'order_inquiry' | 'item_view' | 'directions_request' | 'share'
+      promotion_type: 'percentage' | 'fixed_amount' | 'bundle' | 'happy_hour'
 
       specialty_type: 'coffee' | 'matcha' | 'both'
     }
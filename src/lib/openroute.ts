@@ -0,0 +1,131 @@
+// Shared request layer for OpenRouteService: rate limiting, usage accounting and cached directions
+
+import { ORS_CONFIG, ORS_ERRORS, RATE_LIMIT } from '@/config/openroute';
+import { cachedLookup, RESPONSE_CACHE_TTL } from '@/lib/responseCache';
+import { createTokenBucket, getDailyCount, recordDailyUsage, type DailyUsage } from '@/utils/rateLimit';
+import { getCoordinateCacheKey } from '@/utils/requestCache';
+
+export type OrsRequestKind = 'geocode' | 'autocomplete' | 'reverse' | 'directions';
+
+export interface OrsUsage {
+  today: number;
+  dailyLimit: number;
+  minuteTokens: number;
+  minuteLimit: number;
+  // This session only
+  requests: Record<OrsRequestKind, number>;
+  throttled: number;
+  errors: number;
+}
+
+// The parts of a GeoJSON directions response the app reads
+export interface OrsDirectionsResponse {
+  features: {
+    properties: { segments: { distance: number; duration: number }[] };
+    geometry: { coordinates: [number, number][] };
+  }[];
+}
+
+export const ORS_USAGE_STORAGE_KEY = 'machroub_ors_usage';
+
+const minuteBucket = createTokenBucket(RATE_LIMIT.REQUESTS_PER_MINUTE, 60 * 1000);
+const session = {
+  requests: { geocode: 0, autocomplete: 0, reverse: 0, directions: 0 } as Record<OrsRequestKind, number>,
+  throttled: 0,
+  errors: 0,
+};
+
+const loadDailyUsage = (): DailyUsage | null => {
+  try {
+    return JSON.parse(localStorage.getItem(ORS_USAGE_STORAGE_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+const storeDailyUsage = (usage: DailyUsage) => {
+  try {
+    localStorage.setItem(ORS_USAGE_STORAGE_KEY, JSON.stringify(usage));
+  } catch (error) {
+    console.warn('⚠️ Error storing ORS usage:', error);
+  }
+};
+
+export const getOrsRequestKind = (url: string): OrsRequestKind => {
+  if (url.includes('/geocode/autocomplete')) return 'autocomplete';
+  if (url.includes('/geocode/reverse')) return 'reverse';
+  if (url.includes('/geocode/')) return 'geocode';
+  return 'directions';
+};
+
+export const getOrsUsage = (): OrsUsage => ({
+  today: getDailyCount(loadDailyUsage(), new Date()),
+  dailyLimit: RATE_LIMIT.REQUESTS_PER_DAY,
+  minuteTokens: minuteBucket.available(),
+  minuteLimit: RATE_LIMIT.REQUESTS_PER_MINUTE,
+  requests: { ...session.requests },
+  throttled: session.throttled,
+  errors: session.errors,
+});
+
+/**
+ * Every ORS request goes through here. Once this browser has spent the per-minute or
+ * per-day budget from RATE_LIMIT it throws RATE_LIMIT_EXCEEDED without calling the API,
+ * so the geocoding chain moves on to the next provider.
+ */
+export const orsFetchJson = async (url: string, init: RequestInit = {}): Promise<unknown> => {
+  const now = new Date();
+  const usage = loadDailyUsage();
+  if (getDailyCount(usage, now) >= RATE_LIMIT.REQUESTS_PER_DAY || !minuteBucket.tryTake()) {
+    session.throttled++;
+    throw new Error(ORS_ERRORS.RATE_LIMIT_EXCEEDED);
+  }
+
+  storeDailyUsage(recordDailyUsage(usage, now));
+  session.requests[getOrsRequestKind(url)]++;
+
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, headers: { 'Accept': 'application/json', ...init.headers } });
+  } catch (error) {
+    session.errors++;
+    throw new Error(ORS_ERRORS.NETWORK_ERROR);
+  }
+
+  if (!response.ok) {
+    session.errors++;
+    throw new Error(response.status === 429 ? ORS_ERRORS.RATE_LIMIT_EXCEEDED : `ORS API error: ${response.status}`);
+  }
+  return response.json();
+};
+
+// Directions between [longitude, latitude] points, cached by the points rounded to ~11 m
+export const fetchOrsDirections = (
+  coordinates: [number, number][],
+  profile: string = ORS_CONFIG.PROFILE
+): Promise<OrsDirectionsResponse> => {
+  if (!ORS_CONFIG.API_KEY) {
+    return Promise.reject(new Error(ORS_ERRORS.NO_API_KEY));
+  }
+
+  const key = getCoordinateCacheKey(
+    'directions',
+    coordinates.map(([longitude, latitude]) => ({ latitude, longitude })),
+    profile
+  );
+
+  return cachedLookup(key, RESPONSE_CACHE_TTL.directions, () =>
+    orsFetchJson(`${ORS_CONFIG.BASE_URL}/directions/${profile}`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json, application/geo+json, application/gpx+xml, img/png; charset=utf-8',
+        'Authorization': ORS_CONFIG.API_KEY,
+        'Content-Type': 'application/json; charset=utf-8'
+      },
+      body: JSON.stringify({
+        coordinates,
+        format: 'geojson'
+      })
+    }) as Promise<OrsDirectionsResponse>
+  );
+};
@@ -0,0 +1,142 @@
+// Geocoding and routing responses, kept in memory (LRU) and in IndexedDB across sessions
+
+import { createLruCache } from '@/utils/requestCache';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Suggestions change as places open; a confirmed address or a walking route rarely does
+export const RESPONSE_CACHE_TTL = {
+  autocomplete: DAY_MS,
+  geocode: 30 * DAY_MS,
+  reverse: 30 * DAY_MS,
+  directions: 7 * DAY_MS,
+};
+
+const MEMORY_CACHE_SIZE = 200;
+const DB_NAME = 'machroub-cache';
+const STORE_NAME = 'responses';
+
+interface PersistedEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const memory = createLruCache<unknown>(MEMORY_CACHE_SIZE);
+const inFlight = new Map<string, Promise<unknown>>();
+const stats = { hits: 0, misses: 0 };
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves null where IndexedDB is missing or blocked (private mode); the memory cache still works
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => {
+        pruneExpired(request.result);
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        console.warn('⚠️ Response cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const pruneExpired = (db: IDBDatabase) => {
+  const now = Date.now();
+  const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if ((cursor.value as PersistedEntry).expiresAt <= now) cursor.delete();
+    cursor.continue();
+  };
+};
+
+const readPersisted = async (key: string): Promise<PersistedEntry | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => {
+      const entry = request.result as PersistedEntry | undefined;
+      resolve(entry && entry.expiresAt > Date.now() ? entry : null);
+    };
+    request.onerror = () => resolve(null);
+  });
+};
+
+const writePersisted = async (key: string, entry: PersistedEntry): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+  db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry, key);
+};
+
+const isEmpty = (value: unknown) => value == null || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Returns the cached value for `key`, or loads, caches and returns it. Concurrent calls
+ * for the same key share one request. Empty results (null or []) aren't cached, so a
+ * provider that was down or rate-limited is asked again next time.
+ */
+export const cachedLookup = async <T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> => {
+  const cached = memory.get(key);
+  if (cached !== undefined) {
+    stats.hits++;
+    return cached as T;
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const lookup = (async () => {
+    const persisted = await readPersisted(key);
+    if (persisted) {
+      stats.hits++;
+      memory.set(key, persisted.value, persisted.expiresAt - Date.now());
+      return persisted.value as T;
+    }
+
+    stats.misses++;
+    const value = await load();
+    if (!isEmpty(value)) {
+      memory.set(key, value, ttlMs);
+      writePersisted(key, { value, expiresAt: Date.now() + ttlMs }).catch(error =>
+        console.warn('⚠️ Error storing cached response:', error)
+      );
+    }
+    return value;
+  })();
+
+  inFlight.set(key, lookup);
+  try {
+    return await lookup;
+  } finally {
+    inFlight.delete(key);
+  }
+};
+
+export const getResponseCacheStats = () => ({
+  hits: stats.hits,
+  misses: stats.misses,
+  memoryEntries: memory.size,
+});
+
+export const clearResponseCache = async (): Promise<void> => {
+  memory.clear();
+  const db = await openDatabase();
+  if (!db) return;
+  await new Promise<void>(resolve => {
+    const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear();
+    request.onsuccess = () => resolve();
+    request.onerror = () => resolve();
+  });
+};
@@ -1,5 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
-import { Database } from './database.types';
+import { Database, Json } from './database.types';
+import type { CampaignParams } from '@/utils/menuQr';
+import { flushQueuedEvents, isNetworkError, queueAnalyticsEvent } from '@/utils/analyticsQueue';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -161,14 +163,14 @@ export const checkGoogleOAuthConfig = async () => {
 };
 
 // Real-time subscriptions
+// Every seller update: going offline, pausing or changing hours all affect who is available
 export const subscribeToSellerAvailability = (callback: (payload: any) => void) => {
   return supabase
     .channel('seller-availability')
     .on('postgres_changes', {
       event: 'UPDATE',
       schema: 'public',
-      table: 'sellers',
-      filter: 'is_available=eq.true'
+      table: 'sellers'
     }, callback)
     .subscribe();
 };
@@ -184,6 +186,87 @@ export const subscribeToNewSellers = (callback: (payload: any) => void) => {
     .subscribe();
 };
 
+export const subscribeToContactRequests = (
+  role: 'buyer' | 'seller',
+  userId: string,
+  callback: (payload: unknown) => void
+) => {
+  return supabase
+    .channel(`contact-requests-${role}-${userId}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'contact_requests',
+      filter: `${role}_id=eq.${userId}`
+    }, callback)
+    .subscribe();
+};
+
+// Conversation list: a new message bumps last_message_at on the conversation row
+export const subscribeToConversations = (
+  role: 'buyer' | 'seller',
+  userId: string,
+  callback: (payload: unknown) => void
+) => {
+  return supabase
+    .channel(`conversations-${role}-${userId}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'conversations',
+      filter: `${role}_id=eq.${userId}`
+    }, callback)
+    .subscribe();
+};
+
+// New messages and read receipts in one thread
+export const subscribeToConversationMessages = (
+  conversationId: string,
+  callback: (payload: unknown) => void
+) => {
+  return supabase
+    .channel(`messages-${conversationId}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'messages',
+      filter: `conversation_id=eq.${conversationId}`
+    }, callback)
+    .subscribe();
+};
+
+export const subscribeToOrderChanges = (
+  role: 'buyer' | 'seller',
+  userId: string,
+  callback: (payload: unknown) => void
+) => {
+  return supabase
+    .channel(`orders-${role}-${userId}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'orders',
+      filter: `${role}_id=eq.${userId}`
+    }, callback)
+    .subscribe();
+};
+
+// New and updated (read) notifications for one user
+export const subscribeToNotifications = (
+  userId: string,
+  callback: (payload: unknown) => void
+) => {
+  return supabase
+    .channel(`notifications-${userId}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'notifications',
+      filter: `user_id=eq.${userId}`
+    }, callback)
+    .subscribe();
+};
+
 // Location-based queries
 export const findNearbySellers = async (
   latitude: number, 
@@ -257,17 +340,76 @@ export const deleteImage = async (bucket: string, path: string) => {
 };
 
 // Analytics helpers
-export const trackSellerView = async (sellerId: string, viewerId?: string) => {
+export type SellerEventType = Database['public']['Enums']['seller_event_type'];
+
+// Records a seller_analytics event; drink-level events also carry the drink
+export const trackSellerEvent = async (
+  sellerId: string,
+  eventType: SellerEventType,
+  options: { drinkId?: string | null; viewerId?: string | null; metadata?: Json } = {}
+) => {
+  let viewerId = options.viewerId;
+  if (viewerId === undefined) {
+    const { data: { session } } = await supabase.auth.getSession();
+    viewerId = session?.user.id ?? null;
+  }
+
+  const event = {
+    seller_id: sellerId,
+    viewer_id: viewerId,
+    drink_id: options.drinkId ?? null,
+    event_type: eventType,
+    metadata: options.metadata ?? null,
+    created_at: new Date().toISOString()
+  };
+
+  // Offline views are kept and sent by flushQueuedAnalyticsEvents() once back online
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    queueAnalyticsEvent(event);
+    return;
+  }
+
   const { error } = await supabase
     .from('seller_analytics')
-    .insert({
-      seller_id: sellerId,
-      viewer_id: viewerId,
-      event_type: 'profile_view',
-      created_at: new Date().toISOString()
-    });
+    .insert(event);
+
+  if (error && isNetworkError(error)) {
+    queueAnalyticsEvent(event);
+  } else if (error) {
+    console.error(`Failed to track ${eventType}:`, error);
+  }
+};
+
+export const flushQueuedAnalyticsEvents = () => flushQueuedEvents(async (events) => {
+  const { error } = await supabase
+    .from('seller_analytics')
+    .insert(events);
+
+  if (error) console.error('Failed to send queued analytics events:', error);
+  // Rejected batches are dropped; only connection failures are worth retrying
+  return !error || !isNetworkError(error);
+});
+
+export const CLEAR_DATA_MESSAGE = 'machroub:clear-data';
+
+// The service worker keeps seller and drink reads for offline use; they shouldn't outlive the session
+export const clearCachedSupabaseData = () => {
+  const controller = typeof navigator !== 'undefined' ? navigator.serviceWorker?.controller : null;
+  controller?.postMessage({ type: CLEAR_DATA_MESSAGE });
+};
+
+// Views from a QR code or other tagged link keep their campaign in the metadata
+export const trackSellerView = async (sellerId: string, viewerId?: string, campaign?: CampaignParams | null) => {
+  await trackSellerEvent(sellerId, 'profile_view', {
+    viewerId: viewerId ?? null,
+    metadata: campaign
+      ? { utm_source: campaign.source, utm_medium: campaign.medium, utm_campaign: campaign.campaign }
+      : null
+  });
+};
 
-  if (error) console.error('Failed to track seller view:', error);
+export const trackItemView = async (sellerId: string, drinkId: string) => {
+  await trackSellerEvent(sellerId, 'item_view', { drinkId });
 };
 
 export const trackContactAttempt = async (
@@ -2,8 +2,14 @@ import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 import { initSecurity } from './utils/security'
+import { registerServiceWorker } from './utils/webPush'
 
 // Initialize security checks
 initSecurity();
 
+// Offline caching; in development the worker only registers once push is switched on
+if (import.meta.env.PROD) {
+  window.addEventListener('load', () => registerServiceWorker());
+}
+
 createRoot(document.getElementById("root")!).render(<App />);
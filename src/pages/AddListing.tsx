@@ -13,6 +13,9 @@ import { useUser } from "@/contexts/UserContext";
 import { DrinkService } from "@/services/drinkService";
 import { SellerService } from "@/services/sellerService";
 import { VALID_CATEGORIES, formatCategoryDisplay } from "@/utils/categories";
+import { DrinkOptionGroup, sanitizeOptionGroups } from "@/utils/drinkOptions";
+import { DrinkOptionsEditor } from "@/components/DrinkOptionsEditor";
+import { Json } from "@/lib/database.types";
 
 const AddListing = () => {
   const navigate = useNavigate();
@@ -28,6 +31,7 @@ const AddListing = () => {
     category: "",
     image: null as File | null
   });
+  const [optionGroups, setOptionGroups] = useState<DrinkOptionGroup[]>([]);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [dragOver, setDragOver] = useState(false);
@@ -120,6 +124,13 @@ const AddListing = () => {
       newErrors.category = "Please select a category.";
     }
 
+    // Option groups validation
+    try {
+      sanitizeOptionGroups(optionGroups, parseFloat(formData.price) || 0);
+    } catch (error) {
+      newErrors.options = (error as Error).message;
+    }
+
     // Image validation - now required
     if (!formData.image) {
       newErrors.image = "A photo is required to showcase your delicious item!";
@@ -276,6 +287,7 @@ const AddListing = () => {
         description: formData.description.trim(),
         price: parseFloat(formData.price),
         category: formData.category.trim(),
+        option_groups: optionGroups.length > 0 ? (optionGroups as unknown as Json) : null,
         is_available: true
       };
 
@@ -610,6 +622,26 @@ const AddListing = () => {
               </div>
             </div>
           </Card>
+
+          {/* Section 3: Options */}
+          <Card className="bg-white/90 backdrop-blur-sm shadow-lg border-0 overflow-hidden animate-slide-up" style={{ animationDelay: '0.5s' }}>
+            <div className="p-6 space-y-2">
+              <DrinkOptionsEditor
+                value={optionGroups}
+                onChange={(groups) => {
+                  setOptionGroups(groups);
+                  if (errors.options) setErrors(prev => ({ ...prev, options: "" }));
+                }}
+                disabled={isSubmitting}
+              />
+              {errors.options && (
+                <p className="text-xs text-red-600 flex items-center gap-1 animate-slide-in">
+                  <AlertCircle className="w-3 h-3" />
+                  {errors.options}
+                </p>
+              )}
+            </div>
+          </Card>
         </form>
       </div>
 
@@ -0,0 +1,186 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Loader2, MapPin, Star, Store } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { OpenStatusBadge } from "@/components/OpenStatusBadge";
+import { SEO } from "@/components/SEO";
+import { SellerService } from "@/services/sellerService";
+import { Database } from "@/lib/database.types";
+import { getSellerSchedule } from "@/utils/businessHours";
+import {
+  CITY_RADIUS_KM,
+  LocalBusinessData,
+  MOROCCAN_CITIES,
+  generateCityPageSchema,
+  generateHreflangTags,
+  generateLocalFAQSchema,
+  generateLocationMeta,
+  generateSellerItemListSchema,
+  getCityBySlug,
+  getCityPath
+} from "@/utils/localSEO";
+
+type NearbySeller = Database['public']['Functions']['find_nearby_sellers']['Returns'][number];
+
+// Landing page for one city at /city/:citySlug, listing sellers near its centre
+const CityLanding = () => {
+  const { citySlug } = useParams<{ citySlug: string }>();
+  const city = getCityBySlug(citySlug || '');
+  const [sellers, setSellers] = useState<NearbySeller[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!city) return;
+      try {
+        setLoading(true);
+        const results = await SellerService.getNearbySellers(city.latitude, city.longitude, { radiusKm: CITY_RADIUS_KM });
+        setSellers(results);
+      } catch (error) {
+        console.error('Error loading city sellers:', error);
+        setSellers([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [city]);
+
+  const structuredData = useMemo(() => {
+    if (!city) return undefined;
+    const businesses: LocalBusinessData[] = sellers.map(seller => ({
+      name: seller.business_name,
+      description: seller.description,
+      address: seller.address,
+      phone: seller.phone,
+      category: seller.specialty as LocalBusinessData['category'],
+      location: { city: city.name, region: city.region, country: city.country }
+    }));
+    return [
+      generateCityPageSchema(city.name, city.region, city.country, businesses),
+      generateSellerItemListSchema(city.name, sellers),
+      generateLocalFAQSchema(city.name)
+    ];
+  }, [city, sellers]);
+
+  const hreflang = useMemo(
+    () => (city ? generateHreflangTags(`https://machroub.ma${getCityPath(city)}`) : undefined),
+    [city]
+  );
+
+  if (!city) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="p-8 text-center max-w-sm">
+          <MapPin className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+          <h1 className="text-xl font-semibold mb-4">City not found</h1>
+          <div className="flex flex-wrap justify-center gap-2">
+            {MOROCCAN_CITIES.map(option => (
+              <Button key={option.name} variant="outline" size="sm" asChild>
+                <Link to={getCityPath(option)}>{option.name}</Link>
+              </Button>
+            ))}
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const meta = generateLocationMeta({ city: city.name, region: city.region, country: city.country });
+  const faq = generateLocalFAQSchema(city.name).mainEntity;
+
+  return (
+    <>
+      <SEO
+        title={`Coffee & Matcha in ${city.name}`}
+        description={meta.description}
+        keywords={meta.keywords}
+        url={`https://machroub.ma${getCityPath(city)}`}
+        structuredData={structuredData}
+        hreflang={hreflang}
+      />
+      <div className="min-h-screen bg-background">
+        <div className="max-w-3xl mx-auto px-4 py-6 space-y-8">
+          <div>
+            <Button variant="ghost" size="sm" asChild className="mb-4 -ml-2">
+              <Link to="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Machroub
+              </Link>
+            </Button>
+            <h1 className="text-3xl font-bold">Coffee & Matcha in {city.name}</h1>
+            <p className="text-muted-foreground mt-2">{meta.description}</p>
+          </div>
+
+          <section className="space-y-3">
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : sellers.length === 0 ? (
+              <Card className="p-8 text-center">
+                <Store className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+                <p className="text-muted-foreground mb-4">No sellers in {city.name} yet.</p>
+                <Button asChild>
+                  <Link to="/signup">Start selling in {city.name}</Link>
+                </Button>
+              </Card>
+            ) : (
+              sellers.map(seller => (
+                <Link key={seller.id} to={`/seller/${seller.id}`} className="block">
+                  <Card className="flex items-center gap-4 p-4 hover:bg-muted/40 transition-colors">
+                    {seller.photo_url ? (
+                      <img src={seller.photo_url} alt={seller.business_name} className="w-16 h-16 rounded-xl object-cover" />
+                    ) : (
+                      <div className="w-16 h-16 rounded-xl bg-muted flex items-center justify-center">
+                        <Store className="w-6 h-6 text-muted-foreground" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <h2 className="font-semibold truncate">{seller.business_name}</h2>
+                      <p className="text-sm text-muted-foreground truncate">{seller.address}</p>
+                      <div className="flex items-center gap-3 mt-1 text-sm">
+                        <OpenStatusBadge schedule={getSellerSchedule(seller)} />
+                        {seller.rating_count > 0 && (
+                          <span className="flex items-center gap-1 text-muted-foreground">
+                            <Star className="w-4 h-4 fill-amber-400 text-amber-400" />
+                            {Number(seller.rating_average).toFixed(1)} ({seller.rating_count})
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <span className="text-sm text-muted-foreground shrink-0">{Number(seller.distance_km).toFixed(1)} km from centre</span>
+                  </Card>
+                </Link>
+              ))
+            )}
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Frequently asked questions</h2>
+            {faq.map(item => (
+              <div key={item.name}>
+                <h3 className="font-semibold">{item.name}</h3>
+                <p className="text-muted-foreground">{item.acceptedAnswer.text}</p>
+              </div>
+            ))}
+          </section>
+
+          <nav className="space-y-3" aria-label="Other cities">
+            <h2 className="text-lg font-semibold">Other cities</h2>
+            <div className="flex flex-wrap gap-2">
+              {MOROCCAN_CITIES.filter(option => option.name !== city.name).map(option => (
+                <Button key={option.name} variant="outline" size="sm" asChild>
+                  <Link to={getCityPath(option)}>{option.name}</Link>
+                </Button>
+              ))}
+            </div>
+          </nav>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CityLanding;
@@ -242,7 +242,7 @@ const CompleteProfile: React.FC = () => {
             address: formData.businessAddress.trim(),
             phone: formData.phone.trim(),
             specialty: formData.specialty,
-            hours: 'Mon-Fri: 8:00 AM - 6:00 PM, Sat-Sun: 9:00 AM - 5:00 PM',
+            hours: null, // Set from the profile page's schedule editor
             description: formData.description?.trim() || null,
             is_available: true, // Start as available
             rating_average: 0,
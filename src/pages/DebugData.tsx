@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { useNavigate } from 'react-router-dom';
 import { UserDataDebug } from '@/components/UserDataDebug';
+import { OrsUsageMeter } from '@/components/OrsUsageMeter';
 import { useUser } from '@/contexts/UserContext';
 import { cleanupAllDuplicateUsers, checkDatabaseIntegrity, fixCommonDatabaseIssues } from "@/utils/databaseCleanup";
 import { useState } from 'react';
@@ -189,6 +190,9 @@ const DebugData: React.FC = () => {
           {/* Debug Component */}
           <UserDataDebug />
 
+          {/* API Usage */}
+          <OrsUsageMeter />
+
           {/* Database Cleanup Tools */}
           <Card className="p-6">
             <h2 className="text-lg font-semibold mb-4">Database Cleanup Tools</h2>
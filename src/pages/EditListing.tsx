@@ -11,8 +11,11 @@ import { useNavigate, useParams } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/contexts/UserContext";
 import { DrinkService } from "@/services/drinkService";
+import { Json } from "@/lib/database.types";
 import { SellerService } from "@/services/sellerService";
 import { VALID_CATEGORIES, formatCategoryDisplay } from "@/utils/categories";
+import { DrinkOptionGroup, parseOptionGroups, sanitizeOptionGroups } from "@/utils/drinkOptions";
+import { DrinkOptionsEditor } from "@/components/DrinkOptionsEditor";
 
 const EditListing = () => {
   const navigate = useNavigate();
@@ -30,6 +33,7 @@ const EditListing = () => {
     category: "",
     image: null as File | null
   });
+  const [optionGroups, setOptionGroups] = useState<DrinkOptionGroup[]>([]);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -77,6 +81,7 @@ const EditListing = () => {
           category: item.category || "",
           image: null
         });
+        setOptionGroups(parseOptionGroups(item.option_groups));
 
         if (item.photo_url) {
           setImagePreview(item.photo_url);
@@ -169,6 +174,12 @@ const EditListing = () => {
       newErrors.category = 'Category is required';
     }
 
+    try {
+      sanitizeOptionGroups(optionGroups, parseFloat(formData.price) || 0);
+    } catch (error) {
+      newErrors.options = (error as Error).message;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -215,6 +226,7 @@ const EditListing = () => {
         description: formData.description.trim(),
         price: parseFloat(formData.price),
         category: formData.category.trim(),
+        option_groups: optionGroups as unknown as Json,
       };
 
       await DrinkService.updateDrink(itemId, drinkData);
@@ -417,6 +429,26 @@ const EditListing = () => {
                       )}
                     </div>
                   </div>
+
+                  {/* Options (size, milk, extras) */}
+                  <div className="space-y-2">
+                    <DrinkOptionsEditor
+                      value={optionGroups}
+                      onChange={(groups) => {
+                        setOptionGroups(groups);
+                        if (errors.options) {
+                          setErrors(prev => ({ ...prev, options: "" }));
+                        }
+                      }}
+                      disabled={isSubmitting}
+                    />
+                    {errors.options && (
+                      <p className="text-sm text-red-600 flex items-center gap-1">
+                        <AlertCircle className="w-4 h-4" />
+                        {errors.options}
+                      </p>
+                    )}
+                  </div>
                 </div>
 
                 {/* Submit Button */}
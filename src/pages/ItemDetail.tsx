@@ -1,6 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { ArrowLeft, Phone, MapPin, Clock, Star, Share2, Coffee, Leaf, Store, ExternalLink, Heart, ShoppingCart } from "lucide-react";
+import { ArrowLeft, Phone, MapPin, Clock, Star, Share2, Coffee, Leaf, Store, ExternalLink, Heart, ShoppingCart, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
@@ -8,9 +8,32 @@ import { Separator } from "@/components/ui/separator";
 import { StarRating } from "@/components/StarRating";
 import { useToast } from "@/hooks/use-toast";
 import { sendWhatsAppMessage, createProductInterestMessage, trackContactAttempt } from "@/utils/whatsapp";
-import { supabase } from "@/lib/supabase";
+import { supabase, trackItemView, trackSellerEvent } from "@/lib/supabase";
 import { useUser } from "@/contexts/UserContext";
+import { SellerService } from "@/services/sellerService";
 import { useTranslation } from "react-i18next";
+import { usePlaceOrder } from "@/hooks/usePlaceOrder";
+import { useFavorites } from "@/hooks/useFavorites";
+import { usePriceFormatter } from "@/hooks/usePriceFormatter";
+import { useCart } from "@/contexts/CartContext";
+import { CartButton } from "@/components/CartDrawer";
+import { DrinkOptionsPicker } from "@/components/DrinkOptionsPicker";
+import { OpenStatusBadge } from "@/components/OpenStatusBadge";
+import { SEO } from "@/components/SEO";
+import { getProductSchema } from "@/utils/structuredData";
+import { Json } from "@/lib/database.types";
+import { getSellerSchedule } from "@/utils/businessHours";
+import { Promotion, getDrinkDeal } from "@/utils/promotions";
+import { PromotionService } from "@/services/promotionService";
+import {
+  DrinkOptionSelections,
+  parseOptionGroups,
+  getDefaultSelections,
+  validateOptionSelections,
+  resolveSelectedOptions,
+  getOptionsUnitPrice,
+  getDrinkPriceRange
+} from "@/utils/drinkOptions";
 
 interface ItemDetailData {
   id: string;
@@ -20,6 +43,7 @@ interface ItemDetailData {
   photo_url: string | null;
   category: string | null;
   is_available: boolean;
+  option_groups: Json | null;
   seller_id: string;
   seller: {
     id: string;
@@ -32,6 +56,7 @@ interface ItemDetailData {
     latitude: number;
     longitude: number;
     hours: string | null;
+    schedule: Json | null;
     photo_url: string | null;
   };
 }
@@ -41,14 +66,25 @@ const ItemDetail = () => {
   const navigate = useNavigate();
   const { user } = useUser();
   const { toast } = useToast();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+  const formatPrice = usePriceFormatter();
+  const { placeOrder, isPlacing } = usePlaceOrder();
+  const { addItem, openCart } = useCart();
+  const favorites = useFavorites();
   const [item, setItem] = useState<ItemDetailData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isImageLoaded, setIsImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
-  const [isFavorite, setIsFavorite] = useState(false);
   const [otherItems, setOtherItems] = useState<any[]>([]);
+  const [selections, setSelections] = useState<DrinkOptionSelections>({});
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+
+  const optionGroups = useMemo(() => parseOptionGroups(item?.option_groups), [item?.option_groups]);
+  const selectedOptions = resolveSelectedOptions(optionGroups, selections);
+  const listPrice = item ? getOptionsUnitPrice(item.price, selectedOptions) : 0;
+  const deal = item ? getDrinkDeal(item.id, listPrice, promotions, getSellerSchedule(item.seller)) : null;
+  const unitPrice = deal?.price ?? listPrice;
 
   useEffect(() => {
     const loadItem = async () => {
@@ -73,6 +109,7 @@ const ItemDetail = () => {
               latitude,
               longitude,
               hours,
+              schedule,
               photo_url
             )
           `)
@@ -83,6 +120,9 @@ const ItemDetail = () => {
         if (!data) throw new Error('Item not found');
 
         setItem(data as ItemDetailData);
+        trackItemView(data.seller_id, data.id);
+        setSelections(getDefaultSelections(parseOptionGroups(data.option_groups)));
+        PromotionService.getActivePromotions(data.seller_id).then(setPromotions);
 
         // Load other items from the same seller
         const { data: otherItemsData } = await supabase
@@ -104,17 +144,27 @@ const ItemDetail = () => {
     loadItem();
   }, [itemId]);
 
+  // Signed-in buyers get the contact in their request history and the seller's inbox
+  const recordContactRequest = (contactType: 'whatsapp' | 'phone') => {
+    if (!item?.seller || user?.userType !== 'buyer') return;
+    SellerService.createContactRequest(item.seller.id, user.id, contactType, `Interested in ${item.name}`)
+      .catch(error => console.error('Failed to record contact request:', error));
+  };
+
   const handleWhatsAppOrder = () => {
     if (!item?.seller?.phone || !user) return;
 
     const message = createProductInterestMessage(
       item.name,
-      item.price,
+      unitPrice,
       item.seller.specialty,
-      user?.name
+      user?.name,
+      selectedOptions,
+      i18n.language
     );
     sendWhatsAppMessage(item.seller.phone, message);
-    trackContactAttempt(item.seller.id, 'whatsapp');
+    trackContactAttempt(item.seller.id, 'whatsapp', item.id);
+    recordContactRequest('whatsapp');
 
     toast({
       title: t('message.openingWhatsApp'),
@@ -125,13 +175,54 @@ const ItemDetail = () => {
     });
   };
 
+  // Required option groups must be answered before ordering
+  const checkOptions = (): boolean => {
+    const optionErrors = validateOptionSelections(optionGroups, selections);
+    if (optionErrors.length > 0) {
+      toast({
+        title: "Choose your options",
+        description: optionErrors[0],
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const handlePlaceOrder = async () => {
+    if (!item?.seller || !checkOptions()) return;
+
+    await placeOrder({
+      sellerId: item.seller.id,
+      sellerPhone: item.seller.phone,
+      items: [{ drinkId: item.id, name: item.name, price: unitPrice, quantity: 1, options: selectedOptions }]
+    });
+  };
+
+  const handleAddToCart = () => {
+    if (!item?.seller || !checkOptions()) return;
+
+    addItem(
+      {
+        id: item.seller.id,
+        businessName: item.seller.business_name,
+        phone: item.seller.phone,
+        specialty: item.seller.specialty
+      },
+      { drinkId: item.id, name: item.name, price: unitPrice, quantity: 1, options: selectedOptions }
+    );
+    openCart(item.seller.id);
+  };
+
   const handleCall = () => {
     if (!item?.seller?.phone) return;
+    recordContactRequest('phone');
     window.location.href = `tel:${item.seller.phone}`;
   };
 
   const handleViewLocation = () => {
     if (!item?.seller) return;
+    trackSellerEvent(item.seller.id, 'directions_request', { drinkId: item.id });
 
     // Use exact coordinates if available, otherwise fall back to address
     if (item.seller.latitude && item.seller.longitude) {
@@ -150,6 +241,9 @@ const ItemDetail = () => {
   };
 
   const handleShare = async () => {
+    if (item?.seller) {
+      trackSellerEvent(item.seller.id, 'share', { drinkId: item.id });
+    }
     if (navigator.share) {
       try {
         await navigator.share({
@@ -170,12 +264,10 @@ const ItemDetail = () => {
     }
   };
 
+  const isFavorite = !!itemId && favorites.isFavorite({ type: 'drink', id: itemId });
+
   const toggleFavorite = () => {
-    setIsFavorite(!isFavorite);
-    toast({
-      title: isFavorite ? t('message.removedFromFavorites') : t('message.addedToFavorites'),
-      description: isFavorite ? t('message.itemRemovedFromFavorites') : t('message.itemAddedToFavorites'),
-    });
+    if (itemId) favorites.toggleFavorite({ type: 'drink', id: itemId });
   };
 
   const getSpecialtyIcon = (specialty: string) => {
@@ -219,8 +311,23 @@ const ItemDetail = () => {
     );
   }
 
+  const priceRange = getDrinkPriceRange(item.price, optionGroups);
+  const productSchema = getProductSchema(item, {
+    id: item.seller.id,
+    business_name: item.seller.business_name,
+    phone: item.seller.phone,
+    address: item.seller.address,
+    specialty: item.seller.specialty
+  }, promotions);
+
   return (
     <div className="min-h-screen bg-gradient-warm">
+      <SEO
+        title={`${item.name} - ${item.seller.business_name}`}
+        description={item.description || `${item.name} from ${item.seller.business_name}`}
+        image={item.photo_url || undefined}
+        structuredData={productSchema}
+      />
       {/* Header */}
       <header className="sticky top-0 z-50 bg-background/95 backdrop-blur-xl border-b border-border/30 shadow-elegant">
         <div className="container mx-auto px-4 h-16 flex items-center justify-between">
@@ -241,11 +348,14 @@ const ItemDetail = () => {
           </div>
 
           <div className="flex items-center gap-2">
+            <CartButton sellerId={item.seller.id} className="text-gray-500 hover:text-gray-700" />
             <Button
               variant="ghost"
               size="sm"
               onClick={toggleFavorite}
               className={`${isFavorite ? 'text-red-500' : 'text-gray-500'} hover:text-red-500`}
+              aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+              aria-pressed={isFavorite}
             >
               <Heart className={`w-4 h-4 ${isFavorite ? 'fill-current' : ''}`} />
             </Button>
@@ -313,11 +423,35 @@ const ItemDetail = () => {
             <div className="space-y-4">
               <div>
                 <h1 className="text-3xl font-bold text-foreground mb-2">{item.name}</h1>
-                <div className="text-4xl font-bold text-primary mb-4">
-                  {item.price.toFixed(2)} Dh
+                <div className="flex items-baseline gap-3 mb-1">
+                  <div className={`text-4xl font-bold ${unitPrice < listPrice ? 'text-red-600' : 'text-primary'}`}>
+                    {formatPrice(unitPrice)}
+                  </div>
+                  {unitPrice < listPrice && (
+                    <div className="text-xl text-muted-foreground line-through">
+                      {formatPrice(listPrice)}
+                    </div>
+                  )}
                 </div>
+                {deal && (
+                  <Badge className="bg-red-500 hover:bg-red-500 text-white mb-2">
+                    {deal.label} · {deal.promotion.title}
+                  </Badge>
+                )}
+                {priceRange.min !== priceRange.max && (
+                  <p className="text-sm text-muted-foreground mb-4">
+                    {formatPrice(priceRange.min)} – {formatPrice(priceRange.max)} depending on options
+                  </p>
+                )}
               </div>
 
+              <DrinkOptionsPicker
+                groups={optionGroups}
+                selections={selections}
+                onChange={setSelections}
+                disabled={!item.is_available}
+              />
+
               {item.description && (
                 <div>
                   <h3 className="text-lg font-semibold text-foreground mb-2">{t('common.description')}</h3>
@@ -357,6 +491,7 @@ const ItemDetail = () => {
                         <span>{item.seller.hours}</span>
                       </div>
                     )}
+                    <OpenStatusBadge schedule={getSellerSchedule(item.seller)} className="mt-2" />
                   </div>
                   <div className="flex items-center text-muted-foreground">
                     <ExternalLink className="w-4 h-4" />
@@ -370,18 +505,41 @@ const ItemDetail = () => {
             {/* Action Buttons */}
             <div className="space-y-4">
               <h3 className="text-lg font-semibold text-foreground">{t('item.orderNow')}</h3>
-              
-              {/* Primary WhatsApp Button */}
+
+              {/* Primary Order Button */}
+              <Button
+                onClick={handlePlaceOrder}
+                disabled={!item.is_available || isPlacing}
+                className="w-full font-semibold py-4 text-lg disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transition-all duration-300"
+                size="lg"
+              >
+                <ShoppingCart className="w-5 h-5 mr-3" />
+                {isPlacing ? t('item.placingOrder') : t('item.placeOrder')}
+              </Button>
+
+              <Button
+                onClick={handleAddToCart}
+                disabled={!item.is_available}
+                variant="outline"
+                className="w-full hover:bg-primary/10 hover:border-primary/50 transition-all duration-200"
+                size="lg"
+              >
+                <Plus className="w-5 h-5 mr-2" />
+                {t('item.addToCart')}
+              </Button>
+
+              {/* WhatsApp question about the item (not an order) */}
               <Button
                 onClick={handleWhatsAppOrder}
                 disabled={!item.is_available}
-                className="w-full bg-[#25D366] hover:bg-[#20BA5A] text-white font-semibold py-4 text-lg disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transition-all duration-300"
+                variant="outline"
+                className="w-full border-[#25D366] text-[#128C7E] hover:bg-[#25D366]/10 font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
                 size="lg"
               >
                 <svg className="w-5 h-5 mr-3" viewBox="0 0 24 24" fill="currentColor">
                   <path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.01-.57-.01-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L.057 24l6.305-1.654a11.882 11.882 0 005.683 1.448h.005c6.554 0 11.89-5.335 11.893-11.893A11.821 11.821 0 0020.885 3.787"/>
                 </svg>
-{t('item.orderViaWhatsApp')}
+{t('item.askViaWhatsApp')}
               </Button>
 
               {/* Secondary Actions */}
@@ -464,7 +622,7 @@ const ItemDetail = () => {
                         {otherItem.name}
                       </h3>
                       <div className="text-lg font-bold text-primary">
-                        {otherItem.price.toFixed(2)} Dh
+                        {formatPrice(otherItem.price)}
                       </div>
                     </div>
 
@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { ArrowLeft, CheckCircle, Gift, Loader2, Stamp, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useUser } from "@/contexts/UserContext";
+import { useToast } from "@/hooks/use-toast";
+import { StampGrid } from "@/components/LoyaltyStampCard";
+import { LoyaltyService, LoyaltyCodeLookup } from "@/services/loyaltyService";
+import {
+  LoyaltyMembership,
+  formatLoyaltyCode,
+  getStampCooldownMinutes,
+  isLoyaltyCodeExpired,
+  isValidLoyaltyCode,
+  normalizeLoyaltyCode
+} from "@/utils/loyalty";
+
+// Where a seller lands after scanning a buyer's stamp QR code (or typing the code)
+const LoyaltyStamp = () => {
+  const { code: rawCode } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const { toast } = useToast();
+
+  const code = normalizeLoyaltyCode(rawCode || '');
+  const [lookup, setLookup] = useState<LoyaltyCodeLookup | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ membership: LoyaltyMembership; redeemed: boolean } | null>(null);
+
+  const loadLookup = useCallback(async () => {
+    if (!isValidLoyaltyCode(code)) {
+      setLoading(false);
+      return;
+    }
+    try {
+      setLookup(await LoyaltyService.lookupCode(code));
+    } catch (error) {
+      toast({ title: "Couldn't check the code", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [code, toast]);
+
+  useEffect(() => {
+    loadLookup();
+  }, [loadLookup]);
+
+  const handleUse = async (redeemReward: boolean) => {
+    if (!user) return;
+    try {
+      setSubmitting(true);
+      const membership = await LoyaltyService.redeemCode(user.id, code, redeemReward);
+      setResult({ membership, redeemed: redeemReward });
+    } catch (error) {
+      toast({ title: redeemReward ? "Couldn't give the reward" : "Couldn't add the stamp", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderProblem = (message: string) => (
+    <div className="text-center space-y-2">
+      <XCircle className="w-12 h-12 text-red-400 mx-auto" />
+      <p className="font-medium">{message}</p>
+      <p className="text-sm text-muted-foreground">Ask the buyer to show a new code from the app.</p>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (loading) {
+      return <Loader2 className="w-8 h-8 animate-spin mx-auto text-primary" />;
+    }
+    if (!lookup) return renderProblem("This code doesn't match any of your stamp cards");
+
+    if (result) {
+      const rewardEarned = !result.redeemed && result.membership.stamps === 0;
+      return (
+        <div className="text-center space-y-4">
+          <CheckCircle className="w-12 h-12 text-green-500 mx-auto" />
+          <p className="font-medium">
+            {result.redeemed
+              ? `Reward given to ${lookup.buyer_name}`
+              : rewardEarned
+                ? `${lookup.buyer_name} filled their card and earned a reward!`
+                : `Stamp added for ${lookup.buyer_name}`}
+          </p>
+          <div className="flex justify-center">
+            <StampGrid stamps={result.membership.stamps} required={lookup.stamps_required} />
+          </div>
+          {result.membership.rewards_available > 0 && (
+            <p className="text-sm text-green-700">Rewards waiting: {result.membership.rewards_available}</p>
+          )}
+        </div>
+      );
+    }
+
+    if (lookup.used_at) return renderProblem('This code has already been used');
+    if (isLoyaltyCodeExpired(lookup)) return renderProblem('This code has expired');
+
+    const cooldown = getStampCooldownMinutes(lookup.last_stamp_at);
+    return (
+      <div className="space-y-5">
+        <div className="text-center">
+          <p className="text-sm text-muted-foreground">Code {formatLoyaltyCode(code)}</p>
+          <p className="text-xl font-semibold">{lookup.buyer_name}</p>
+        </div>
+        <div className="flex justify-center">
+          <StampGrid stamps={lookup.stamps} required={lookup.stamps_required} />
+        </div>
+        {cooldown > 0 && (
+          <p className="text-sm text-amber-700 text-center">
+            This buyer got a stamp recently. The next one is possible in {cooldown} minute{cooldown === 1 ? '' : 's'}.
+          </p>
+        )}
+        <div className="flex flex-col gap-2">
+          <Button onClick={() => handleUse(false)} disabled={submitting || cooldown > 0}>
+            <Stamp className="w-4 h-4 mr-2" />
+            Add a stamp
+          </Button>
+          {lookup.rewards_available > 0 && (
+            <Button variant="outline" onClick={() => handleUse(true)} disabled={submitting}>
+              <Gift className="w-4 h-4 mr-2" />
+              Give reward ({lookup.rewards_available} waiting)
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="bg-white border-b">
+        <div className="max-w-md mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/seller-dashboard')} className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Dashboard
+          </Button>
+          <h1 className="text-2xl font-bold">Stamp Card</h1>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto px-4 py-6">
+        <Card className="p-6">{renderContent()}</Card>
+      </div>
+    </div>
+  );
+};
+
+export default LoyaltyStamp;
@@ -0,0 +1,60 @@
+import { useParams, useNavigate } from "react-router-dom";
+import { ArrowLeft, MessagesSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useUser } from "@/contexts/UserContext";
+import { ConversationList } from "@/components/ConversationList";
+import { MessageThread } from "@/components/MessageThread";
+
+// In-app conversations: the list on the left, the open thread on the right (one at a time on mobile)
+const Messages = () => {
+  const { conversationId } = useParams<{ conversationId?: string }>();
+  const navigate = useNavigate();
+  const { user } = useUser();
+
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="bg-white border-b">
+        <div className="max-w-5xl mx-auto px-4 py-4 flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => (conversationId ? navigate('/messages') : navigate(-1))}
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <h1 className="text-2xl font-bold">Messages</h1>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 py-6">
+        <Card className="flex h-[calc(100vh-10rem)] overflow-hidden">
+          <div className={`w-full md:w-80 md:border-r overflow-y-auto ${conversationId ? 'hidden md:block' : ''}`}>
+            <ConversationList
+              role={user.userType}
+              userId={user.id}
+              activeConversationId={conversationId}
+              onSelect={(id) => navigate(`/messages/${id}`)}
+            />
+          </div>
+          <div className={`flex-1 min-w-0 ${conversationId ? '' : 'hidden md:flex items-center justify-center'}`}>
+            {conversationId ? (
+              <MessageThread conversationId={conversationId} userId={user.id} userName={user.name} />
+            ) : (
+              <div className="text-center text-muted-foreground">
+                <MessagesSquare className="w-12 h-12 mx-auto mb-3" />
+                Pick a conversation
+              </div>
+            )}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Messages;
@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Check, Flag, Loader2, ShieldAlert, Star, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/contexts/UserContext";
+import { RatingService, ModerationQueueItem } from "@/services/ratingService";
+import { ModerationAction, getReportReasonInfo } from "@/utils/ratingModeration";
+import { sanitizeComment } from "@/utils/sanitize";
+
+const STATUS_BADGE_CLASSES: Record<string, string> = {
+  published: 'bg-green-100 text-green-800',
+  hidden: 'bg-amber-100 text-amber-800',
+  removed: 'bg-red-100 text-red-700'
+};
+
+// Moderator queue: reported ratings with their reports, to approve or remove
+const ModerationQueue = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useUser();
+  const [isModerator, setIsModerator] = useState<boolean | null>(null);
+  const [queue, setQueue] = useState<ModerationQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actingOn, setActingOn] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setLoading(true);
+      setQueue(await RatingService.getModerationQueue());
+    } catch (error) {
+      toast({
+        title: "Couldn't load the queue",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (!user) return;
+    RatingService.isModerator(user.id).then(allowed => {
+      setIsModerator(allowed);
+      if (allowed) loadQueue();
+      else setLoading(false);
+    });
+  }, [user, loadQueue]);
+
+  const handleAction = async (ratingId: string, action: ModerationAction) => {
+    setActingOn(ratingId);
+    try {
+      await RatingService.moderateRating(ratingId, action);
+      setQueue(prev => prev.filter(item => item.rating.id !== ratingId));
+      toast({
+        title: action === 'approve' ? "Review approved" : "Review removed",
+        description: action === 'approve'
+          ? "It is visible again and its reports were dismissed."
+          : "It no longer counts towards the seller's rating."
+      });
+    } catch (error) {
+      toast({
+        title: "Action failed",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  if (isModerator === false) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-8 text-center max-w-md">
+          <ShieldAlert className="w-10 h-10 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-lg font-semibold mb-2">Moderators only</h2>
+          <p className="text-muted-foreground mb-4">You don't have access to the review moderation queue.</p>
+          <Button onClick={() => navigate('/')}>Go home</Button>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="bg-white border-b">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate(-1)} className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <h1 className="text-2xl font-bold">Review Moderation</h1>
+          {!loading && <Badge variant="secondary">{queue.length} open</Badge>}
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-6 space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : queue.length === 0 ? (
+          <Card className="p-8 text-center text-muted-foreground">
+            No reported reviews. Nice and quiet.
+          </Card>
+        ) : (
+          queue.map(({ rating, reports }) => (
+            <Card key={rating.id} className="p-6 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="font-semibold">
+                    {rating.buyer?.name || 'Anonymous'} → {rating.seller?.business_name || 'Unknown seller'}
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                      {rating.rating}
+                    </span>
+                    <span>{new Date(rating.created_at).toLocaleDateString()}</span>
+                  </div>
+                </div>
+                <Badge variant="secondary" className={STATUS_BADGE_CLASSES[rating.status]}>
+                  {rating.status}
+                </Badge>
+              </div>
+
+              {rating.comment && (
+                <p
+                  className="text-foreground bg-muted/40 rounded-lg p-3"
+                  dangerouslySetInnerHTML={{ __html: sanitizeComment(rating.comment) }}
+                />
+              )}
+
+              <div className="space-y-2">
+                <div className="text-sm font-medium flex items-center gap-2">
+                  <Flag className="w-4 h-4 text-destructive" />
+                  {reports.length} {reports.length === 1 ? 'report' : 'reports'}
+                </div>
+                {reports.map(report => (
+                  <div key={report.id} className="text-sm text-muted-foreground">
+                    <span className="font-medium text-foreground">{getReportReasonInfo(report.reason).label}</span>
+                    {report.details && <> · {report.details}</>}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleAction(rating.id, 'approve')}
+                  disabled={actingOn === rating.id}
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Approve
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => handleAction(rating.id, 'remove')}
+                  disabled={actingOn === rating.id}
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Remove
+                </Button>
+              </div>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModerationQueue;
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { ArrowLeft, User, Phone, Heart, ShoppingBag, Coffee, Star, Camera, Edit, Save, X } from "lucide-react";
+import { ArrowLeft, User, Phone, Heart, ShoppingBag, Coffee, Star, Camera, Edit, Save, X, MessageCircle, Stamp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -15,11 +15,20 @@ import { UserService } from "@/services/userService";
 import { SellerService } from "@/services/sellerService";
 import { BuyerService } from "@/services/buyerService";
 import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { OrderList } from "@/components/OrderList";
+import { FavoritesList } from "@/components/FavoritesList";
+import { ContactRequestList } from "@/components/ContactRequestList";
+import { LoyaltyCardList } from "@/components/LoyaltyCardList";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { useFavorites } from "@/hooks/useFavorites";
 import { supabase } from "@/lib/supabase";
 import { MoroccanPhoneInput } from "@/components/ui/moroccan-phone-input";
 import { validateAndNormalizeMoroccanPhone, normalizeMoroccanPhoneForWhatsApp } from "@/utils/moroccanPhoneValidation";
 
 import { type Coordinates } from "@/utils/geocoding";
+import { WeeklySchedule, createEmptySchedule, formatSchedule, getSellerSchedule } from "@/utils/businessHours";
+import { ScheduleEditor } from "@/components/ScheduleEditor";
+import { Json } from "@/lib/database.types";
 
 // Types
 interface ProfileData {
@@ -32,6 +41,7 @@ interface ProfileData {
   memberSince: string;
   businessName: string;
   businessHours: string;
+  schedule: WeeklySchedule | null;
   specialty: "coffee" | "matcha" | "both";
   description: string;
   isAvailable: boolean;
@@ -42,7 +52,6 @@ interface ProfileData {
 interface BuyerStats {
   totalOrders: number;
   totalSpent: number;
-  favoriteCount: number;
   reviewCount: number;
 }
 
@@ -58,6 +67,7 @@ interface SellerStats {
 const Profile = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { favorites } = useFavorites();
   const { user, updateUser } = useUser();
   
   // UI State
@@ -79,6 +89,7 @@ const Profile = () => {
     memberSince: "",
     businessName: "",
     businessHours: "",
+    schedule: null,
     specialty: "coffee",
     description: "",
     isAvailable: false,
@@ -93,6 +104,7 @@ const Profile = () => {
     businessName: "",
     address: "",
     businessHours: "",
+    schedule: createEmptySchedule(),
     specialty: "coffee" as "coffee" | "matcha" | "both",
     description: ""
   });
@@ -108,7 +120,6 @@ const Profile = () => {
   const [buyerStats, setBuyerStats] = useState<BuyerStats>({
     totalOrders: 0,
     totalSpent: 0,
-    favoriteCount: 0,
     reviewCount: 0
   });
 
@@ -133,6 +144,7 @@ const Profile = () => {
       memberSince: userData?.id ? new Date().toLocaleDateString('en-US', { month: 'long', year: 'numeric' }) : 'Recently',
       businessName: userData?.userType === 'seller' ? (userData.businessName || "") : "",
       businessHours: userData?.userType === 'seller' ? (userData.businessHours || "") : "",
+      schedule: userData?.userType === 'seller' ? getSellerSchedule({ hours: userData.businessHours }) : null,
       specialty: userData?.userType === 'seller' ? ((userData.specialty as any) || "coffee") : "coffee",
       description: "",
       isAvailable: userData?.userType === 'seller' ? (userData.isOnline || false) : false,
@@ -190,6 +202,7 @@ const Profile = () => {
             businessName: sellerDetails.business_name || prevProfile.businessName,
             address: sellerDetails.address || prevProfile.address,
             businessHours: sellerDetails.hours || prevProfile.businessHours,
+            schedule: getSellerSchedule(sellerDetails) || prevProfile.schedule,
             specialty: sellerDetails.specialty || prevProfile.specialty,
             description: sellerDetails.description || "",
             isAvailable: sellerDetails.is_available || false,
@@ -233,7 +246,6 @@ const Profile = () => {
         setBuyerStats({
           totalOrders: buyerProfile.stats.totalOrders || 0,
           totalSpent: buyerProfile.stats.totalSpent || 0,
-          favoriteCount: 0, // Will be implemented later
           reviewCount: buyerProfile.stats.reviewCount || 0
         });
         setProfile(prevProfile => ({
@@ -385,6 +397,7 @@ const Profile = () => {
       businessName: profile.businessName,
       address: profile.address,
       businessHours: profile.businessHours,
+      schedule: profile.schedule || createEmptySchedule(),
       specialty: profile.specialty,
       description: profile.description
     });
@@ -400,6 +413,7 @@ const Profile = () => {
       businessName: "",
       address: "",
       businessHours: "",
+      schedule: createEmptySchedule(),
       specialty: "coffee",
       description: ""
     });
@@ -427,13 +441,20 @@ const Profile = () => {
     setIsSaving(true);
     try {
       if (user.userType === 'seller') {
+        // Keep a legacy hours string we couldn't read until the seller sets a schedule
+        const scheduleHours = formatSchedule(formData.schedule);
+        const keepLegacyHours = !scheduleHours && !profile.schedule;
+        const businessHours = keepLegacyHours ? formData.businessHours : scheduleHours;
+        const schedule = keepLegacyHours ? null : formData.schedule;
+
         // Update seller profile
         await SellerService.updateSellerProfile(user.id, {
           name: formData.name,
           business_name: formData.businessName,
           address: formData.address,
           phone: formData.phone,
-          hours: formData.businessHours,
+          hours: businessHours || null,
+          schedule: schedule as unknown as Json,
           specialty: formData.specialty,
           description: formData.description
         });
@@ -445,7 +466,8 @@ const Profile = () => {
           phone: formData.phone,
           businessName: formData.businessName,
           address: formData.address,
-          businessHours: formData.businessHours,
+          businessHours,
+          schedule,
           specialty: formData.specialty,
           description: formData.description
         }));
@@ -456,7 +478,7 @@ const Profile = () => {
           phone: formData.phone,
           businessName: formData.businessName,
           businessAddress: formData.address,
-          businessHours: formData.businessHours,
+          businessHours,
           specialty: formData.specialty
         });
       } else {
@@ -506,7 +528,7 @@ const Profile = () => {
     { label: "Menu Items", value: sellerStats.menuItems.toString(), icon: Coffee },
   ] : [
     { label: "Orders Placed", value: buyerStats.totalOrders.toString(), icon: ShoppingBag },
-    { label: "Favorites", value: buyerStats.favoriteCount.toString(), icon: Heart },
+    { label: "Favorites", value: favorites.length.toString(), icon: Heart },
     { label: "Reviews", value: buyerStats.reviewCount.toString(), icon: User },
   ];
 
@@ -804,14 +826,19 @@ const Profile = () => {
                       />
                     </div>
                     <div className="md:col-span-2">
-                      <Label htmlFor="businessHours">Business Hours</Label>
-                      <Input
-                        id="businessHours"
-                        value={formData.businessHours}
-                        onChange={(e) => setFormData(prev => ({ ...prev, businessHours: e.target.value }))}
-                        placeholder="e.g., Mon-Fri: 8:00 AM - 6:00 PM, Sat-Sun: 9:00 AM - 5:00 PM"
-                        disabled={isSaving}
-                      />
+                      <Label>Business Hours</Label>
+                      {!profile.schedule && profile.businessHours && (
+                        <p className="text-xs text-amber-600 mt-1 mb-2">
+                          We couldn't read your current hours ("{profile.businessHours}"). Set them below so buyers can see when you're open.
+                        </p>
+                      )}
+                      <div className="mt-1">
+                        <ScheduleEditor
+                          value={formData.schedule}
+                          onChange={(schedule) => setFormData(prev => ({ ...prev, schedule }))}
+                          disabled={isSaving}
+                        />
+                      </div>
                     </div>
                     <div className="md:col-span-2">
                       <Label htmlFor="description">Description</Label>
@@ -843,6 +870,53 @@ const Profile = () => {
             </Card>
           ))}
         </div>
+
+        {/* Buyer Orders, Requests, Favorites & Stamp Cards */}
+        {user?.userType === 'buyer' && (
+          <Card className="p-6">
+            <Tabs defaultValue="orders">
+              <TabsList className="mb-4">
+                <TabsTrigger value="orders" className="flex items-center gap-2">
+                  <ShoppingBag className="w-4 h-4" />
+                  My Orders
+                </TabsTrigger>
+                <TabsTrigger value="requests" className="flex items-center gap-2">
+                  <MessageCircle className="w-4 h-4" />
+                  My Requests
+                </TabsTrigger>
+                <TabsTrigger value="favorites" className="flex items-center gap-2">
+                  <Heart className="w-4 h-4" />
+                  Favorites
+                </TabsTrigger>
+                <TabsTrigger value="loyalty" className="flex items-center gap-2">
+                  <Stamp className="w-4 h-4" />
+                  Stamp Cards
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="orders">
+                <OrderList
+                  role="buyer"
+                  userId={user.id}
+                  customerName={profile.name}
+                  emptyMessage="You have not placed any orders yet."
+                />
+              </TabsContent>
+              <TabsContent value="requests">
+                <ContactRequestList
+                  role="buyer"
+                  userId={user.id}
+                  emptyMessage="You have not contacted any sellers yet."
+                />
+              </TabsContent>
+              <TabsContent value="favorites">
+                <FavoritesList />
+              </TabsContent>
+              <TabsContent value="loyalty">
+                <LoyaltyCardList buyerId={user.id} />
+              </TabsContent>
+            </Tabs>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useParams, useLocation, useNavigate } from "react-router-dom";
+import { Coffee, Loader2, MapPin, Phone, Store } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { OpenStatusBadge } from "@/components/OpenStatusBadge";
+import { SEO } from "@/components/SEO";
+import { useUser } from "@/contexts/UserContext";
+import { usePriceFormatter } from "@/hooks/usePriceFormatter";
+import { SellerService } from "@/services/sellerService";
+import { PromotionService } from "@/services/promotionService";
+import { trackSellerView } from "@/lib/supabase";
+import { Database } from "@/lib/database.types";
+import { getSellerSchedule } from "@/utils/businessHours";
+import { Promotion, getDrinkDeal } from "@/utils/promotions";
+import { parseCampaignParams } from "@/utils/menuQr";
+import { generateMetaDescription } from "@/utils/sitemap";
+import { getLocalBusinessSchema } from "@/utils/structuredData";
+
+type Seller = Database['public']['Tables']['sellers']['Row'];
+type Drink = Database['public']['Tables']['drinks']['Row'];
+
+// Public menu at /menu/:slug, opened from printed QR codes; works without an account
+const PublicMenu = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const formatPrice = usePriceFormatter();
+  const [seller, setSeller] = useState<(Seller & { drinks: Drink[] }) | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const trackedSellerIdRef = useRef<string | null>(null);
+
+  const loadMenu = useCallback(async () => {
+    if (!slug) return;
+    setLoading(true);
+    const data = await SellerService.getSellerBySlug(slug);
+    setSeller(data);
+    setLoading(false);
+
+    if (data) {
+      setPromotions(await PromotionService.getActivePromotions(data.id));
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    loadMenu();
+  }, [loadMenu]);
+
+  // Track once per menu opened, not again when the session finishes loading
+  useEffect(() => {
+    if (!seller || trackedSellerIdRef.current === seller.id) return;
+    trackedSellerIdRef.current = seller.id;
+    trackSellerView(seller.id, user?.id, parseCampaignParams(location.search));
+  }, [seller, user?.id, location.search]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!seller) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="p-8 text-center max-w-sm">
+          <Store className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+          <h1 className="text-xl font-semibold mb-2">Menu not found</h1>
+          <p className="text-muted-foreground mb-4">This link may have changed. Find the seller on Machroub instead.</p>
+          <Button onClick={() => navigate('/')}>Browse sellers</Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const schedule = getSellerSchedule(seller);
+  const drinks = [...seller.drinks].sort((a, b) => (a.category || '').localeCompare(b.category || '') || a.name.localeCompare(b.name));
+
+  return (
+    <>
+      <SEO
+        title={`${seller.business_name} Menu`}
+        description={generateMetaDescription('seller', seller)}
+        structuredData={getLocalBusinessSchema(seller)}
+      />
+      <div className="min-h-screen bg-background">
+        <div className="max-w-2xl mx-auto px-4 py-6 space-y-6">
+          <div className="flex items-center gap-4">
+            {seller.photo_url ? (
+              <img src={seller.photo_url} alt={seller.business_name} className="w-20 h-20 rounded-2xl object-cover" />
+            ) : (
+              <div className="w-20 h-20 rounded-2xl bg-muted flex items-center justify-center">
+                <Store className="w-8 h-8 text-muted-foreground" />
+              </div>
+            )}
+            <div className="min-w-0">
+              <h1 className="text-2xl font-bold truncate">{seller.business_name}</h1>
+              <p className="text-sm text-muted-foreground flex items-center gap-1 truncate">
+                <MapPin className="w-4 h-4 shrink-0" />
+                {seller.address}
+              </p>
+              <OpenStatusBadge schedule={schedule} className="mt-1" />
+            </div>
+          </div>
+
+          {seller.description && <p className="text-muted-foreground">{seller.description}</p>}
+
+          <Card className="divide-y">
+            {drinks.length === 0 ? (
+              <p className="p-6 text-center text-muted-foreground">No drinks on the menu right now.</p>
+            ) : (
+              drinks.map(drink => {
+                const deal = getDrinkDeal(drink.id, drink.price, promotions, schedule);
+                const price = deal?.price ?? drink.price;
+                return (
+                  <button
+                    key={drink.id}
+                    className="w-full flex items-center gap-3 p-4 text-left hover:bg-muted/40 transition-colors"
+                    onClick={() => navigate(`/item/${drink.id}`)}
+                  >
+                    {drink.photo_url ? (
+                      <img src={drink.photo_url} alt={drink.name} className="w-14 h-14 rounded-lg object-cover" />
+                    ) : (
+                      <div className="w-14 h-14 rounded-lg bg-muted flex items-center justify-center">
+                        <Coffee className="w-5 h-5 text-muted-foreground" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium">{drink.name}</div>
+                      {drink.description && (
+                        <div className="text-sm text-muted-foreground line-clamp-2">{drink.description}</div>
+                      )}
+                      {deal && <Badge className="mt-1 bg-red-500 hover:bg-red-500 text-white">{deal.label}</Badge>}
+                    </div>
+                    <div className="text-right shrink-0">
+                      {price < drink.price && (
+                        <div className="text-xs text-muted-foreground line-through">{formatPrice(drink.price)}</div>
+                      )}
+                      <div className={`font-semibold ${price < drink.price ? 'text-red-600' : ''}`}>{formatPrice(price)}</div>
+                    </div>
+                  </button>
+                );
+              })
+            )}
+          </Card>
+
+          <div className="grid grid-cols-2 gap-3">
+            <Button variant="outline" onClick={() => { window.location.href = `tel:${seller.phone}`; }}>
+              <Phone className="w-4 h-4 mr-2" />
+              Call
+            </Button>
+            <Button onClick={() => navigate(`/seller/${seller.id}`)}>
+              Order on Machroub
+            </Button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default PublicMenu;
@@ -2,14 +2,24 @@ import React, { useState, useEffect } from 'react';
 import {
   User, Coffee, Plus, Edit, Trash2, Eye, EyeOff, Search, BarChart3,
   Star, DollarSign, Package, TrendingUp, Heart, Menu, Settings,
-  LayoutDashboard, LogOut, ArrowRightLeft, ShoppingBag
+  LayoutDashboard, LogOut, ArrowRightLeft, ShoppingBag, CalendarDays, Power, MessageSquareReply, Inbox, Tag, Stamp, QrCode
 } from 'lucide-react';
 import { useNavigate } from "react-router-dom";
 import { useUser } from "@/contexts/UserContext";
 import { useTranslation } from "react-i18next";
 import { useToast } from "@/hooks/use-toast";
 import { SellerService } from "@/services/sellerService";
-import { supabase } from "@/lib/supabase";
+import { supabase, subscribeToContactRequests } from "@/lib/supabase";
+import { OrderList } from "@/components/OrderList";
+import { ContactRequestList } from "@/components/ContactRequestList";
+import { SpecialHoursManager } from "@/components/SpecialHoursManager";
+import { PromotionManager } from "@/components/PromotionManager";
+import { LoyaltyCardEditor } from "@/components/LoyaltyCardEditor";
+import { MenuQrCode } from "@/components/MenuQrCode";
+import { AvailabilityControl } from "@/components/AvailabilityControl";
+import { UnrepliedReviews } from "@/components/UnrepliedReviews";
+import { SellerAnalytics } from "@/components/SellerAnalytics";
+import { AnalyticsService } from "@/services/analyticsService";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -30,6 +40,7 @@ const SellerDashboard = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
   const [hasSellerProfile, setHasSellerProfile] = useState(null);
+  const [unreadRequests, setUnreadRequests] = useState(0);
 
   const [analytics, setAnalytics] = useState({
     profileViews: 0,
@@ -73,52 +84,41 @@ const SellerDashboard = () => {
     loadDashboardData();
   }, [user]);
 
-  // Load analytics data from database
-  const loadAnalyticsData = async (sellerId: string) => {
-    try {
-      // Get profile views count
-      const { data: profileViewsData, error: viewsError } = await supabase
-        .from('seller_analytics')
-        .select('id')
-        .eq('seller_id', sellerId)
-        .eq('event_type', 'profile_view');
-
-      if (viewsError) {
-        console.error('Failed to load profile views:', viewsError);
-      }
-
-      // Get seller rating
-      const { data: sellerData, error: sellerError } = await supabase
-        .from('sellers')
-        .select('rating_average')
-        .eq('id', sellerId)
-        .single();
+  // Keep the inbox badge current while the seller is on another tab; the inbox reports its own count
+  useEffect(() => {
+    if (!user || activeTab === 'inbox') return;
 
-      if (sellerError) {
-        console.error('Failed to load seller rating:', sellerError);
-      }
+    const refreshUnread = () => {
+      SellerService.getUnreadContactRequestCount(user.id).then(setUnreadRequests);
+    };
+    refreshUnread();
 
-      // Get contact attempts for unique customers
-      const { data: contactData, error: contactError } = await supabase
-        .from('seller_analytics')
-        .select('viewer_id')
-        .eq('seller_id', sellerId)
-        .eq('event_type', 'contact_attempt')
-        .not('viewer_id', 'is', null);
+    const channel = subscribeToContactRequests('seller', user.id, refreshUnread);
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [user, activeTab]);
 
-      if (contactError) {
-        console.error('Failed to load contact data:', contactError);
+  // Load headline numbers; counting happens in the database
+  const loadAnalyticsData = async (sellerId: string) => {
+    try {
+      const [funnel, sellerResult] = await Promise.all([
+        AnalyticsService.getFunnel(sellerId),
+        supabase
+          .from('sellers')
+          .select('rating_average')
+          .eq('id', sellerId)
+          .single()
+      ]);
+
+      if (sellerResult.error) {
+        console.error('Failed to load seller rating:', sellerResult.error);
       }
 
-      // Calculate analytics
-      const profileViews = profileViewsData?.length || 0;
-      const averageRating = sellerData?.rating_average || 0;
-      const uniqueCustomers = new Set(contactData?.map(contact => contact.viewer_id)).size;
-
       setAnalytics({
-        profileViews,
-        averageRating,
-        uniqueCustomers
+        profileViews: funnel.profile_views,
+        averageRating: sellerResult.data?.rating_average || 0,
+        uniqueCustomers: funnel.unique_contacts
       });
     } catch (error) {
       console.error('Failed to load analytics data:', error);
@@ -457,7 +457,12 @@ const SellerDashboard = () => {
         <div className="flex space-x-1 bg-white/70 p-1 rounded-xl">
           {[
             { id: 'overview', label: 'Overview', icon: BarChart3 },
-            { id: 'menu', label: 'Menu', icon: Coffee }
+            { id: 'orders', label: 'Orders', icon: Package },
+            { id: 'inbox', label: 'Inbox', icon: Inbox, badge: unreadRequests },
+            { id: 'analytics', label: 'Analytics', icon: TrendingUp },
+            { id: 'menu', label: 'Menu', icon: Coffee },
+            { id: 'deals', label: 'Deals', icon: Tag },
+            { id: 'hours', label: 'Hours', icon: CalendarDays }
           ].map(tab => (
             <button
               key={tab.id}
@@ -470,6 +475,11 @@ const SellerDashboard = () => {
             >
               <tab.icon className="w-4 h-4" />
               <span className="hidden sm:inline">{tab.label}</span>
+              {tab.badge > 0 && (
+                <span className="min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+                  {tab.badge}
+                </span>
+              )}
             </button>
           ))}
         </div>
@@ -523,25 +533,13 @@ const SellerDashboard = () => {
               </div>
             </div>
 
-            {/* Sales Chart */}
+            {/* Reviews waiting for a reply */}
             <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-amber-100 shadow-lg">
               <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
-                <BarChart3 className="w-5 h-5 text-green-500" />
-                This Week's Sales
+                <MessageSquareReply className="w-5 h-5 text-amber-500" />
+                Reviews to Reply To
               </h3>
-              <div className="h-40 flex items-end justify-between space-x-2 px-2">
-                {[60, 40, 80, 75, 90, 65, 85].map((height, index) => (
-                  <div key={index} className="flex-1 flex flex-col items-center gap-2">
-                    <div 
-                      className="w-full bg-gradient-to-t from-amber-400 to-green-500 rounded-t-lg transition-all duration-1000 hover:from-green-400 hover:to-emerald-500"
-                      style={{ height: `${height}%` }}
-                    ></div>
-                    <div className="text-xs text-gray-500 font-medium">
-                      {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'][index]}
-                    </div>
-                  </div>
-                ))}
-              </div>
+              <UnrepliedReviews sellerId={user.id} sellerName={user.name || 'Seller'} />
             </div>
 
             {/* Best Sellers */}
@@ -588,6 +586,80 @@ const SellerDashboard = () => {
           </div>
         )}
 
+        {activeTab === 'orders' && (
+          <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-amber-100 shadow-lg">
+            <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+              <Package className="w-5 h-5 text-green-500" />
+              Incoming Orders
+            </h3>
+            <OrderList
+              role="seller"
+              userId={user.id}
+              emptyMessage="No orders yet. They will show up here as soon as buyers order."
+            />
+          </div>
+        )}
+
+        {activeTab === 'inbox' && (
+          <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-amber-100 shadow-lg">
+            <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+              <Inbox className="w-5 h-5 text-green-500" />
+              Contact Requests
+            </h3>
+            <ContactRequestList
+              role="seller"
+              userId={user.id}
+              onUnreadCountChange={setUnreadRequests}
+              emptyMessage="No contact requests yet. Buyers who reach out will show up here."
+            />
+          </div>
+        )}
+
+        {activeTab === 'analytics' && (
+          <SellerAnalytics sellerId={user.id} />
+        )}
+
+        {activeTab === 'deals' && (
+          <div className="space-y-6">
+            <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-amber-100 shadow-lg">
+              <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+                <Tag className="w-5 h-5 text-green-500" />
+                Promotions
+              </h3>
+              <PromotionManager
+                sellerId={user.id}
+                drinks={menuItems.map(item => ({ id: item.id, name: item.name }))}
+              />
+            </div>
+            <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-amber-100 shadow-lg">
+              <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+                <Stamp className="w-5 h-5 text-green-500" />
+                Loyalty Stamp Card
+              </h3>
+              <LoyaltyCardEditor sellerId={user.id} />
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'hours' && (
+          <div className="space-y-6">
+            <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-amber-100 shadow-lg">
+              <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+                <Power className="w-5 h-5 text-green-500" />
+                Availability
+              </h3>
+              <AvailabilityControl sellerId={user.id} />
+            </div>
+            <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-amber-100 shadow-lg">
+              <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+                <CalendarDays className="w-5 h-5 text-green-500" />
+                Special Hours
+              </h3>
+              <SpecialHoursManager sellerId={user.id} />
+            </div>
+          </div>
+        )}
+
         {activeTab === 'menu' && (
           <div className="space-y-6">
             {/* Add Item Button - Top of Menu */}
@@ -716,6 +788,14 @@ const SellerDashboard = () => {
                 )}
               </div>
             )}
+
+            <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-amber-100 shadow-lg">
+              <h3 className="font-bold text-gray-800 mb-4 flex items-center gap-2">
+                <QrCode className="w-5 h-5 text-green-500" />
+                Menu QR Code
+              </h3>
+              <MenuQrCode sellerId={user.id} />
+            </div>
           </div>
         )}
 
@@ -1,28 +1,46 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { ArrowLeft, Phone, MapPin, Clock, MessageCircle, ShoppingCart, Star, Share2, Coffee, Leaf, ShieldCheck, User, Plus } from "lucide-react";
 import { ReviewSystem } from "@/components/ReviewSystem";
 import { sendWhatsAppMessage, createQuickContactMessage, trackContactAttempt } from "@/utils/whatsapp";
+import { trackSellerEvent } from "@/lib/supabase";
 import { useUser } from "@/contexts/UserContext";
+import { useCart } from "@/contexts/CartContext";
+import { CartButton } from "@/components/CartDrawer";
+import { OpenStatusBadge } from "@/components/OpenStatusBadge";
+import { getCartItemCount } from "@/utils/cart";
+import { parseOptionGroups } from "@/utils/drinkOptions";
+import { getSellerSchedule, getUpcomingOverrides, formatOverride } from "@/utils/businessHours";
 import { useTranslation } from "react-i18next";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { StarRating } from "@/components/StarRating";
 import { useToast } from "@/hooks/use-toast";
+import { usePriceFormatter } from "@/hooks/usePriceFormatter";
 import { SellerService } from "@/services/sellerService";
+import { RatingService } from "@/services/ratingService";
+import { MessageService } from "@/services/messageService";
+import { LoyaltyService } from "@/services/loyaltyService";
+import { LoyaltyStampCard } from "@/components/LoyaltyStampCard";
+import { LoyaltyCard, LoyaltyMembership } from "@/utils/loyalty";
 import { SEO, SEO_CONFIGS } from "@/components/SEO";
-import { getLocalBusinessSchema, getBreadcrumbSchema } from "@/utils/structuredData";
+import { getLocalBusinessSchema, getBreadcrumbSchema, SellerReview } from "@/utils/structuredData";
 
 const SellerDetails = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useUser();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+  const formatPrice = usePriceFormatter();
+  const { addItem, getCart, getSubtotal, openCart } = useCart();
   const [seller, setSeller] = useState<any | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [reviews, setReviews] = useState<SellerReview[]>([]);
+  const [loyaltyCard, setLoyaltyCard] = useState<LoyaltyCard | null>(null);
+  const [loyaltyMembership, setLoyaltyMembership] = useState<LoyaltyMembership | null>(null);
 
   useEffect(() => {
     const load = async () => {
@@ -41,6 +59,34 @@ const SellerDetails = () => {
     load();
   }, [id]);
 
+  // Latest reviews and replies for the JSON-LD; the review list loads its own
+  useEffect(() => {
+    if (!id) return;
+    RatingService.getSellerRatings(id, 10)
+      .then(setReviews)
+      .catch(error => console.error('Failed to load reviews for structured data:', error));
+  }, [id]);
+
+  // Stamp card progress; only buyers collect stamps
+  const loadLoyalty = useCallback(async () => {
+    if (!id) return;
+    setLoyaltyCard(await LoyaltyService.getSellerCard(id));
+    if (user?.userType === 'buyer') {
+      setLoyaltyMembership(await LoyaltyService.getMembership(user.id, id));
+    }
+  }, [id, user?.id, user?.userType]);
+
+  useEffect(() => {
+    loadLoyalty();
+  }, [loadLoyalty]);
+
+  // Signed-in buyers get the contact in their request history and the seller's inbox
+  const recordContactRequest = (contactType: 'whatsapp' | 'phone') => {
+    if (!seller || user?.userType !== 'buyer') return;
+    SellerService.createContactRequest(seller.id, user.id, contactType)
+      .catch(error => console.error('Failed to record contact request:', error));
+  };
+
   const handleWhatsAppContact = () => {
     if (!seller) return;
     const message = createQuickContactMessage({
@@ -54,9 +100,10 @@ const SellerDetails = () => {
       rating: Number(seller.rating_average || 0),
       reviewCount: Number(seller.rating_count || 0),
       specialty: seller.specialty,
-    } as any, user?.name);
+    } as any, user?.name, i18n.language);
     sendWhatsAppMessage(seller.phone, message);
     trackContactAttempt(String(seller.id), 'whatsapp');
+    recordContactRequest('whatsapp');
     toast({
       title: "Opening WhatsApp",
       description: `Contacting ${seller.name} via WhatsApp`,
@@ -65,7 +112,32 @@ const SellerDetails = () => {
 
 
 
+  const handleAddToCart = (drink: { id: string; name: string; price: number | string; option_groups?: unknown }) => {
+    if (!seller) return;
+
+    // Drinks with options are configured on the item page
+    if (parseOptionGroups(drink.option_groups).length > 0) {
+      navigate(`/item/${drink.id}`);
+      return;
+    }
+
+    addItem(
+      {
+        id: seller.id,
+        businessName: seller.business_name,
+        phone: seller.phone,
+        specialty: seller.specialty
+      },
+      { drinkId: drink.id, name: drink.name, price: Number(drink.price), quantity: 1 }
+    );
+    toast({
+      title: "Added to cart",
+      description: `${drink.name} added to your order`,
+    });
+  };
+
   const handleShare = () => {
+    if (seller) trackSellerEvent(String(seller.id), 'share');
     if (navigator.share && seller) {
       navigator.share({
         title: seller.name,
@@ -75,6 +147,9 @@ const SellerDetails = () => {
     }
   };
 
+  const schedule = getSellerSchedule(seller);
+  const specialHours = getUpcomingOverrides(schedule);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -110,11 +185,31 @@ const SellerDetails = () => {
   }
 
   const handleCall = () => {
+    recordContactRequest('phone');
     window.location.href = `tel:${seller.phone}`;
   };
 
-  const handleMessage = () => {
-    window.location.href = `sms:${seller.phone}`;
+  // In-app conversation for buyers who would rather not use WhatsApp or share their number
+  const handleMessage = async () => {
+    if (!user) {
+      toast({
+        title: "Sign in to message",
+        description: "Create an account or sign in to message this seller.",
+      });
+      navigate('/signin');
+      return;
+    }
+
+    try {
+      const conversation = await MessageService.getOrCreateConversation(user.id, seller.id);
+      navigate(`/messages/${conversation.id}`);
+    } catch (error) {
+      toast({
+        title: "Couldn't open the conversation",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
   };
 
   const handleViewLocation = () => {
@@ -134,6 +229,7 @@ const SellerDetails = () => {
   // Removed handleStartOrder - now using WhatsApp contact instead
 
   // Generate SEO data for this seller
+  const sellerCart = getCart(seller.id);
   const sellerSEO = SEO_CONFIGS.seller(seller.business_name, seller.address);
   const breadcrumbData = getBreadcrumbSchema([
     { name: 'Home', url: 'https://machroub.ma/' },
@@ -145,7 +241,7 @@ const SellerDetails = () => {
     <>
       <SEO
         {...sellerSEO}
-        structuredData={[getLocalBusinessSchema(seller), breadcrumbData]}
+        structuredData={[getLocalBusinessSchema(seller, reviews), breadcrumbData]}
       />
       <div className="min-h-screen bg-background">
       {/* Header with back navigation */}
@@ -160,7 +256,8 @@ const SellerDetails = () => {
             <ArrowLeft className="w-4 h-4" />
             Back
           </Button>
-          <h1 className="text-lg font-semibold truncate">{seller.name}</h1>
+          <h1 className="text-lg font-semibold truncate flex-1">{seller.name}</h1>
+          <CartButton sellerId={seller.id} />
         </div>
       </header>
 
@@ -198,13 +295,39 @@ const SellerDetails = () => {
               <MapPin className="w-5 h-5 text-primary" />
               <span>{seller.address}</span>
             </div>
-            <div className="flex items-center gap-3">
+            <div className="flex flex-wrap items-center gap-3">
               <Clock className="w-5 h-5 text-primary" />
               <span>{seller.hours || 'Hours not provided'}</span>
+              <OpenStatusBadge schedule={schedule} />
             </div>
+            {specialHours.length > 0 && (
+              <div className="ml-8 space-y-1">
+                <p className="font-medium text-foreground">Special hours</p>
+                {specialHours.map(override => (
+                  <p key={override.id}>
+                    {override.label && <span className="font-medium">{override.label} · </span>}
+                    {formatOverride(override)}
+                  </p>
+                ))}
+              </div>
+            )}
           </div>
         </Card>
 
+        {loyaltyCard?.is_active && user?.id !== seller.id && (
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold mb-4">{t('seller.stampCard')}</h2>
+            <LoyaltyStampCard
+              card={loyaltyCard}
+              membership={loyaltyMembership}
+              sellerId={seller.id}
+              sellerName={seller.business_name}
+              buyerId={user?.userType === 'buyer' ? user.id : undefined}
+              onRefresh={loadLoyalty}
+            />
+          </Card>
+        )}
+
         {/* Enhanced Interactive Menu */}
         <Card className="p-6">
           <div className="flex items-center justify-between mb-6">
@@ -282,19 +405,32 @@ const SellerDetails = () => {
 
                     <div className="flex items-center justify-between">
                       <div className="text-2xl font-bold text-primary">
-                        {Number(drink.price).toFixed(2)} Dh
+                        {formatPrice(Number(drink.price))}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          size="sm"
+                          disabled={!drink.is_available}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleAddToCart(drink);
+                          }}
+                          aria-label={`Add ${drink.name} to cart`}
+                        >
+                          <Plus className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="hover:bg-primary/10 hover:border-primary/50 transition-all duration-200"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            navigate(`/item/${drink.id}`);
+                          }}
+                        >
+                          View Details
+                        </Button>
                       </div>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="hover:bg-primary/10 hover:border-primary/50 transition-all duration-200"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          navigate(`/item/${drink.id}`);
-                        }}
-                      >
-                        View Details
-                      </Button>
                     </div>
                   </div>
                 </Card>
@@ -303,8 +439,23 @@ const SellerDetails = () => {
           )}
         </Card>
 
+        {/* Cart summary for this seller */}
+        {sellerCart && (
+          <Button
+            onClick={() => openCart(seller.id)}
+            className="w-full sticky bottom-4 z-40 shadow-lg flex items-center justify-between"
+            size="lg"
+          >
+            <span className="flex items-center gap-2">
+              <ShoppingCart className="w-4 h-4" />
+              View cart ({getCartItemCount(sellerCart.items)})
+            </span>
+            <span className="font-bold">{formatPrice(getSubtotal(seller.id))}</span>
+          </Button>
+        )}
+
         {/* Enhanced Action buttons */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
           <Button
             onClick={handleWhatsAppContact}
             className="bg-[#25D366] hover:bg-[#20BA5A] text-white hover:shadow-glow transition-all duration-300"
@@ -324,6 +475,17 @@ const SellerDetails = () => {
             <Phone className="w-4 h-4 mr-2" />
 {t('item.call')}
           </Button>
+          {user?.id !== seller.id && (
+            <Button
+              onClick={handleMessage}
+              variant="outline"
+              size="lg"
+              className="hover:bg-primary/10 hover:border-primary/50 transition-all duration-300"
+            >
+              <MessageCircle className="w-4 h-4 mr-2" />
+              {t('seller.messageInApp')}
+            </Button>
+          )}
           <Button
             onClick={handleViewLocation}
             variant="outline"
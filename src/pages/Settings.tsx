@@ -1,4 +1,3 @@
-import { useState } from "react";
 import { ArrowLeft, Bell, MapPin, Moon, Sun, Globe, Shield, HelpCircle, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -8,49 +7,60 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Separator } from "@/components/ui/separator";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import { LANGUAGES } from "@/i18n";
+import { usePreferences } from "@/contexts/PreferencesContext";
+import { useNotifications } from "@/contexts/NotificationsContext";
+import { isArabicLanguage } from "@/utils/numberFormat";
+import {
+  NumeralsPreference,
+  PreferenceCategory,
+  SEARCH_RADIUS_OPTIONS_KM,
+  ThemePreference,
+  UserPreferences
+} from "@/utils/preferences";
 
 const Settings = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  
-  const [settings, setSettings] = useState({
-    notifications: {
-      orderUpdates: true,
-      promotions: false,
-      newSellers: true,
-      push: true,
-      email: false,
-      sms: true
-    },
-    location: {
-      shareLocation: true,
-      autoDetect: true,
-      radius: "5"
-    },
-    appearance: {
-      theme: "system",
-      language: "en"
-    },
-    privacy: {
-      profileVisible: true,
-      shareOrderHistory: false,
-      analytics: true
+  const { t, i18n } = useTranslation();
+  const { preferences, updatePreferences } = usePreferences();
+  const { pushSupported, enablePush, disablePush } = useNotifications();
+  const activeLanguage = i18n.resolvedLanguage || i18n.language;
+
+  const handleSettingChange = async <C extends PreferenceCategory>(category: C, values: Partial<UserPreferences[C]>) => {
+    try {
+      await updatePreferences(category, values);
+      toast({
+        title: "Setting updated",
+        description: "Your preference has been saved.",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't save setting",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
     }
-  });
+  };
 
-  const handleSettingChange = (category: string, setting: string, value: any) => {
-    setSettings(prev => ({
-      ...prev,
-      [category]: {
-        ...prev[category as keyof typeof prev],
-        [setting]: value
+  // Push needs the browser's permission and a subscription before the preference is saved
+  const handlePushChange = async (enabled: boolean) => {
+    try {
+      if (enabled) {
+        await enablePush();
+      } else {
+        await disablePush();
       }
-    }));
-    
-    toast({
-      title: "Setting updated",
-      description: "Your preference has been saved.",
-    });
+    } catch (error) {
+      toast({
+        title: "Couldn't change push notifications",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return;
+    }
+    await handleSettingChange("notifications", { push: enabled });
   };
 
   const handleLogout = () => {
@@ -96,9 +106,9 @@ const Settings = () => {
               </div>
               <Switch
                 id="order-updates"
-                checked={settings.notifications.orderUpdates}
+                checked={preferences.notifications.orderUpdates}
                 onCheckedChange={(checked) => 
-                  handleSettingChange("notifications", "orderUpdates", checked)
+                  handleSettingChange("notifications", { orderUpdates: checked })
                 }
               />
             </div>
@@ -110,9 +120,9 @@ const Settings = () => {
               </div>
               <Switch
                 id="promotions"
-                checked={settings.notifications.promotions}
+                checked={preferences.notifications.promotions}
                 onCheckedChange={(checked) => 
-                  handleSettingChange("notifications", "promotions", checked)
+                  handleSettingChange("notifications", { promotions: checked })
                 }
               />
             </div>
@@ -124,9 +134,9 @@ const Settings = () => {
               </div>
               <Switch
                 id="new-sellers"
-                checked={settings.notifications.newSellers}
+                checked={preferences.notifications.newSellers}
                 onCheckedChange={(checked) => 
-                  handleSettingChange("notifications", "newSellers", checked)
+                  handleSettingChange("notifications", { newSellers: checked })
                 }
               />
             </div>
@@ -140,10 +150,9 @@ const Settings = () => {
                 <Label htmlFor="push">Push Notifications</Label>
                 <Switch
                   id="push"
-                  checked={settings.notifications.push}
-                  onCheckedChange={(checked) => 
-                    handleSettingChange("notifications", "push", checked)
-                  }
+                  checked={preferences.notifications.push}
+                  disabled={!pushSupported}
+                  onCheckedChange={handlePushChange}
                 />
               </div>
               
@@ -151,9 +160,9 @@ const Settings = () => {
                 <Label htmlFor="email">Email</Label>
                 <Switch
                   id="email"
-                  checked={settings.notifications.email}
+                  checked={preferences.notifications.email}
                   onCheckedChange={(checked) => 
-                    handleSettingChange("notifications", "email", checked)
+                    handleSettingChange("notifications", { email: checked })
                   }
                 />
               </div>
@@ -162,9 +171,9 @@ const Settings = () => {
                 <Label htmlFor="sms">SMS</Label>
                 <Switch
                   id="sms"
-                  checked={settings.notifications.sms}
+                  checked={preferences.notifications.sms}
                   onCheckedChange={(checked) => 
-                    handleSettingChange("notifications", "sms", checked)
+                    handleSettingChange("notifications", { sms: checked })
                   }
                 />
               </div>
@@ -187,9 +196,9 @@ const Settings = () => {
               </div>
               <Switch
                 id="share-location"
-                checked={settings.location.shareLocation}
+                checked={preferences.location.shareLocation}
                 onCheckedChange={(checked) => 
-                  handleSettingChange("location", "shareLocation", checked)
+                  handleSettingChange("location", { shareLocation: checked })
                 }
               />
             </div>
@@ -201,9 +210,9 @@ const Settings = () => {
               </div>
               <Switch
                 id="auto-detect"
-                checked={settings.location.autoDetect}
+                checked={preferences.location.autoDetect}
                 onCheckedChange={(checked) => 
-                  handleSettingChange("location", "autoDetect", checked)
+                  handleSettingChange("location", { autoDetect: checked })
                 }
               />
             </div>
@@ -211,20 +220,18 @@ const Settings = () => {
             <div className="space-y-2">
               <Label>Search Radius</Label>
               <Select
-                value={settings.location.radius}
+                value={String(preferences.location.radius)}
                 onValueChange={(value) => 
-                  handleSettingChange("location", "radius", value)
+                  handleSettingChange("location", { radius: Number(value) })
                 }
               >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="1">1 mile</SelectItem>
-                  <SelectItem value="3">3 miles</SelectItem>
-                  <SelectItem value="5">5 miles</SelectItem>
-                  <SelectItem value="10">10 miles</SelectItem>
-                  <SelectItem value="25">25 miles</SelectItem>
+                  {SEARCH_RADIUS_OPTIONS_KM.map(radius => (
+                    <SelectItem key={radius} value={String(radius)}>{radius} km</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -242,9 +249,9 @@ const Settings = () => {
             <div className="space-y-2">
               <Label>Theme</Label>
               <Select
-                value={settings.appearance.theme}
+                value={preferences.appearance.theme}
                 onValueChange={(value) => 
-                  handleSettingChange("appearance", "theme", value)
+                  handleSettingChange("appearance", { theme: value as ThemePreference })
                 }
               >
                 <SelectTrigger>
@@ -259,24 +266,36 @@ const Settings = () => {
             </div>
             
             <div className="space-y-2">
-              <Label>Language</Label>
-              <Select
-                value={settings.appearance.language}
-                onValueChange={(value) => 
-                  handleSettingChange("appearance", "language", value)
-                }
-              >
+              <Label>{t('settings.language')}</Label>
+              <Select value={activeLanguage} onValueChange={(value) => handleSettingChange("appearance", { language: value })}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="en">English</SelectItem>
-                  <SelectItem value="es">Español</SelectItem>
-                  <SelectItem value="fr">Français</SelectItem>
-                  <SelectItem value="de">Deutsch</SelectItem>
+                  {LANGUAGES.map(language => (
+                    <SelectItem key={language.code} value={language.code}>{language.nativeName}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
+
+            {isArabicLanguage(activeLanguage) && (
+              <div className="space-y-2">
+                <Label>{t('settings.numerals')}</Label>
+                <Select
+                  value={preferences.appearance.numerals}
+                  onValueChange={(value) => handleSettingChange("appearance", { numerals: value as NumeralsPreference })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="latn">{t('settings.numeralsLatin')}</SelectItem>
+                    <SelectItem value="arab">{t('settings.numeralsArabic')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
         </Card>
 
@@ -295,9 +314,9 @@ const Settings = () => {
               </div>
               <Switch
                 id="profile-visible"
-                checked={settings.privacy.profileVisible}
+                checked={preferences.privacy.profileVisible}
                 onCheckedChange={(checked) => 
-                  handleSettingChange("privacy", "profileVisible", checked)
+                  handleSettingChange("privacy", { profileVisible: checked })
                 }
               />
             </div>
@@ -309,9 +328,9 @@ const Settings = () => {
               </div>
               <Switch
                 id="share-history"
-                checked={settings.privacy.shareOrderHistory}
+                checked={preferences.privacy.shareOrderHistory}
                 onCheckedChange={(checked) => 
-                  handleSettingChange("privacy", "shareOrderHistory", checked)
+                  handleSettingChange("privacy", { shareOrderHistory: checked })
                 }
               />
             </div>
@@ -323,9 +342,9 @@ const Settings = () => {
               </div>
               <Switch
                 id="analytics"
-                checked={settings.privacy.analytics}
+                checked={preferences.privacy.analytics}
                 onCheckedChange={(checked) => 
-                  handleSettingChange("privacy", "analytics", checked)
+                  handleSettingChange("privacy", { analytics: checked })
                 }
               />
             </div>
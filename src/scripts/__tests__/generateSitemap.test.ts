@@ -0,0 +1,62 @@
+import { fetchSitemapData, SitemapClient } from '../generateSitemap';
+
+// In-memory stand-in for the Supabase client: supports the select/eq/order/range chain the script uses
+const createStandInClient = (tables: Record<string, Record<string, unknown>[]>) => {
+  const ranges: string[] = [];
+  const client = {
+    from: (table: string) => {
+      let rows = tables[table] || [];
+      const query = {
+        select: () => query,
+        order: () => query,
+        eq: (column: string, value: unknown) => {
+          rows = rows.filter(row => row[column] === value);
+          return query;
+        },
+        range: (from: number, to: number) => {
+          ranges.push(`${table}:${from}-${to}`);
+          return Promise.resolve({ data: rows.slice(from, to + 1), error: null });
+        }
+      };
+      return query;
+    }
+  };
+  return { client: client as unknown as SitemapClient, ranges };
+};
+
+describe('Sitemap generation script', () => {
+  it('should page through every seller and only include available drinks', async () => {
+    const sellers = Array.from({ length: 1500 }, (_, i) => ({
+      id: `s${i}`, business_name: `Seller ${i}`, address: 'Rabat', photo_url: null, updated_at: null
+    }));
+    const { client, ranges } = createStandInClient({
+      sellers,
+      drinks: [
+        { id: 'd1', seller_id: 's1', name: 'Latte', photo_url: null, updated_at: null, is_available: true },
+        { id: 'd2', seller_id: 's1', name: 'Old drink', photo_url: null, updated_at: null, is_available: false }
+      ]
+    });
+
+    const data = await fetchSitemapData(client);
+
+    expect(data.sellers).toHaveLength(1500);
+    expect(data.drinks.map(drink => drink.id)).toEqual(['d1']);
+    expect(ranges).toEqual(['sellers:0-999', 'sellers:1000-1999', 'drinks:0-999']);
+  });
+
+  it('should surface database errors', async () => {
+    const client = {
+      from: () => {
+        const query = {
+          select: () => query,
+          order: () => query,
+          eq: () => query,
+          range: () => Promise.resolve({ data: null, error: new Error('permission denied') })
+        };
+        return query;
+      }
+    } as unknown as SitemapClient;
+
+    await expect(fetchSitemapData(client)).rejects.toThrow('permission denied');
+  });
+});
@@ -0,0 +1,94 @@
+// Build-time script that writes sitemap.xml (an index) and per-city sitemaps into dist/
+// Runs after `vite build`; without Supabase credentials the static public/sitemap.xml is kept
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../lib/database.types';
+import { buildSitemapFiles, SitemapDrink, SitemapFile, SitemapSeller } from '../utils/sitemap';
+
+const PAGE_SIZE = 1000;
+
+export type SitemapClient = Pick<SupabaseClient<Database>, 'from'>;
+
+// Supabase caps a select at 1000 rows, so read every table page by page
+const fetchAllRows = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+export async function fetchSitemapData(client: SitemapClient): Promise<{ sellers: SitemapSeller[]; drinks: SitemapDrink[] }> {
+  const sellers = await fetchAllRows<SitemapSeller>((from, to) =>
+    client
+      .from('sellers')
+      .select('id, business_name, address, photo_url, updated_at')
+      .order('id')
+      .range(from, to)
+  );
+
+  const drinks = await fetchAllRows<SitemapDrink>((from, to) =>
+    client
+      .from('drinks')
+      .select('id, seller_id, name, photo_url, updated_at')
+      .eq('is_available', true)
+      .order('id')
+      .range(from, to)
+  );
+
+  return { sellers, drinks };
+}
+
+export async function writeSitemapFiles(files: SitemapFile[], outDir: string): Promise<void> {
+  await mkdir(outDir, { recursive: true });
+  for (const file of files) {
+    await writeFile(join(outDir, file.fileName), file.content, 'utf8');
+  }
+}
+
+async function runSitemapGeneration(options: { client?: SitemapClient; baseUrl?: string; outDir?: string } = {}) {
+  const baseUrl = (options.baseUrl || process.env.SITE_URL || 'https://machroub.ma').replace(/\/+$/, '');
+  const outDir = options.outDir || 'dist';
+
+  console.log('🗺️ Generating sitemaps...');
+
+  let client = options.client;
+  if (!client) {
+    const supabaseUrl = process.env.VITE_SUPABASE_URL;
+    const supabaseKey = process.env.VITE_SUPABASE_ANON_KEY;
+    if (!supabaseUrl || !supabaseKey) {
+      console.warn('⚠️ VITE_SUPABASE_URL or VITE_SUPABASE_ANON_KEY is not set, keeping the static sitemap.xml');
+      return [];
+    }
+    client = createClient<Database>(supabaseUrl, supabaseKey, { auth: { persistSession: false } });
+  }
+
+  const data = await fetchSitemapData(client);
+  console.log(`📋 Found ${data.sellers.length} sellers and ${data.drinks.length} available drinks`);
+
+  const files = buildSitemapFiles(data, baseUrl);
+  await writeSitemapFiles(files, outDir);
+
+  files.forEach(file => console.log(`  - ${join(outDir, file.fileName)}`));
+  console.log(`✅ Wrote ${files.length} sitemap files`);
+  return files;
+}
+
+// Run the generation if this script is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runSitemapGeneration()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Sitemap generation failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runSitemapGeneration };
@@ -0,0 +1,67 @@
+// Script to fill the typed schedule column from existing free-text business hours
+// Sellers whose hours can't be read are listed and left untouched
+
+import { migrateSellerSchedules, checkSellersNeedingScheduleMigration } from '../utils/scheduleMigration';
+
+async function runScheduleMigration() {
+  console.log('🚀 Starting seller schedule migration...');
+  console.log('=====================================');
+
+  try {
+    // Step 1: Check what needs migration
+    console.log('\n🔍 Step 1: Checking sellers needing a schedule...');
+    const migrationCheck = await checkSellersNeedingScheduleMigration();
+    console.log(`Sellers needing migration: ${migrationCheck.needsMigration.length}`);
+
+    if (migrationCheck.needsMigration.length === 0) {
+      console.log('\n✅ No sellers need schedule migration!');
+      return;
+    }
+
+    console.log('\n📋 Migration plan:');
+    migrationCheck.needsMigration.forEach(seller => {
+      console.log(`  - "${seller.business_name}": "${seller.hours}" → ${seller.parsedSchedule ? `"${seller.parsedSchedule}"` : '(cannot be read, skipped)'}`);
+    });
+
+    // Step 2: Run migration
+    console.log('\n🔄 Step 2: Running migration...');
+    const result = await migrateSellerSchedules();
+
+    console.log('\n📈 Migration Results:');
+    console.log(`Total sellers checked: ${result.totalSellers}`);
+    console.log(`Sellers migrated: ${result.migratedSellers}`);
+    console.log(`Success: ${result.success}`);
+
+    if (result.unparseable.length > 0) {
+      console.log('\n⚠️ Hours that need to be set by the seller:');
+      result.unparseable.forEach(seller => {
+        console.log(`  - "${seller.business_name}" (${seller.id}): "${seller.hours}"`);
+      });
+    }
+
+    if (result.errors.length > 0) {
+      console.log('\n❌ Errors during migration:');
+      result.errors.forEach(error => {
+        console.log(`  - ${error}`);
+      });
+    }
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    process.exit(1);
+  }
+
+  console.log('\n=====================================');
+  console.log('✅ Schedule migration completed!');
+}
+
+// Run the migration if this script is executed directly
+if (require.main === module) {
+  runScheduleMigration()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Migration failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runScheduleMigration };
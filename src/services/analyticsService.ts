@@ -0,0 +1,72 @@
+import { supabase, handleSupabaseError } from '@/lib/supabase';
+import {
+  AnalyticsBucket,
+  AnalyticsDateRange,
+  AnalyticsTimeSeriesPoint,
+  AnalyticsFunnel,
+  HourlyActivityRow
+} from '@/utils/sellerAnalytics';
+
+const EMPTY_FUNNEL: AnalyticsFunnel = {
+  profile_views: 0,
+  unique_viewers: 0,
+  contact_attempts: 0,
+  unique_contacts: 0,
+  order_inquiries: 0
+};
+
+// Seller analytics, aggregated in the database so the browser never downloads raw events
+export class AnalyticsService {
+  // Views, contacts and order inquiries per day or week, with empty buckets filled in
+  static async getTimeSeries(
+    sellerId: string,
+    range: AnalyticsDateRange,
+    bucket: AnalyticsBucket
+  ): Promise<AnalyticsTimeSeriesPoint[]> {
+    try {
+      const { data, error } = await supabase.rpc('seller_analytics_timeseries', {
+        target_seller_id: sellerId,
+        start_date: range.startDate,
+        end_date: range.endDate,
+        bucket
+      });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // View -> contact -> order inquiry totals; without a range it covers all time
+  static async getFunnel(sellerId: string, range?: AnalyticsDateRange): Promise<AnalyticsFunnel> {
+    try {
+      const { data, error } = await supabase.rpc('seller_analytics_funnel', {
+        target_seller_id: sellerId,
+        start_date: range?.startDate ?? null,
+        end_date: range?.endDate ?? null
+      });
+
+      if (error) throw error;
+      return data?.[0] || EMPTY_FUNNEL;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Event counts per weekday and hour, in Morocco time
+  static async getHourlyActivity(sellerId: string, range: AnalyticsDateRange): Promise<HourlyActivityRow[]> {
+    try {
+      const { data, error } = await supabase.rpc('seller_analytics_hourly', {
+        target_seller_id: sellerId,
+        start_date: range.startDate,
+        end_date: range.endDate
+      });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+}
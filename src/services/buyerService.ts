@@ -10,6 +10,8 @@ export class BuyerService {
     user: User;
     stats: {
       reviewCount: number;
+      totalOrders: number;
+      totalSpent: number;
     };
   } | null> {
     try {
@@ -23,13 +25,24 @@ export class BuyerService {
       if (userError) throw userError;
 
       // Get buyer stats
-      const reviewsResult = await supabase
-        .from('ratings')
-        .select('id')
-        .eq('buyer_id', buyerId);
+      const [reviewsResult, ordersResult] = await Promise.all([
+        supabase
+          .from('ratings')
+          .select('id')
+          .eq('buyer_id', buyerId),
+        supabase
+          .from('orders')
+          .select('total_amount, status')
+          .eq('buyer_id', buyerId)
+          .neq('status', 'cancelled')
+      ]);
 
       const stats = {
-        reviewCount: reviewsResult.data?.length || 0
+        reviewCount: reviewsResult.data?.length || 0,
+        totalOrders: ordersResult.data?.length || 0,
+        totalSpent: ordersResult.data
+          ?.filter(order => order.status === 'picked_up')
+          .reduce((sum, order) => sum + Number(order.total_amount), 0) || 0
       };
 
       return { user, stats };
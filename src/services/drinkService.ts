@@ -1,6 +1,8 @@
 import { supabase, handleSupabaseError } from '@/lib/supabase';
-import { Database } from '@/lib/database.types';
+import { Database, Json } from '@/lib/database.types';
 import { getValidCategoryValues, isValidCategory } from '@/utils/categories';
+import { DrinkOptionGroup, parseOptionGroups, sanitizeOptionGroups } from '@/utils/drinkOptions';
+import { AnalyticsDateRange, DrinkPerformance, buildDrinkPerformance } from '@/utils/sellerAnalytics';
 
 type Drink = Database['public']['Tables']['drinks']['Row'];
 type DrinkInsert = Database['public']['Tables']['drinks']['Insert'];
@@ -99,6 +101,11 @@ export class DrinkService {
         throw new Error(`Invalid category. Valid categories are: ${getValidCategoryValues().join(', ')}`);
       }
 
+      // Validate option groups (size, milk, extras...)
+      const optionGroups = drinkData.option_groups
+        ? sanitizeOptionGroups(drinkData.option_groups as unknown as DrinkOptionGroup[], price)
+        : [];
+
       // SECURITY FIX: Verify user authentication and authorization
       const { data: { user }, error: authError } = await supabase.auth.getUser();
       if (authError || !user) {
@@ -115,7 +122,8 @@ export class DrinkService {
         name: name,
         description: description,
         price: Math.round(price * 100) / 100, // Ensure 2 decimal places max
-        category: drinkData.category.trim()
+        category: drinkData.category.trim(),
+        option_groups: optionGroups.length > 0 ? (optionGroups as unknown as Json) : null
       };
 
       const { data, error } = await supabase
@@ -134,9 +142,25 @@ export class DrinkService {
   // Update drink
   static async updateDrink(drinkId: string, updates: DrinkUpdate): Promise<Drink> {
     try {
+      const sanitizedUpdates = { ...updates };
+
+      // Options are checked against the price they'll be charged on, old or new
+      if (updates.option_groups !== undefined || updates.price !== undefined) {
+        const current = updates.option_groups !== undefined && updates.price !== undefined
+          ? null
+          : await this.getDrinkById(drinkId);
+        const groups = updates.option_groups !== undefined
+          ? (updates.option_groups as unknown as DrinkOptionGroup[] | null) || []
+          : parseOptionGroups(current?.option_groups);
+        const optionGroups = sanitizeOptionGroups(groups, Number(updates.price ?? current?.price ?? 0));
+        if (updates.option_groups) {
+          sanitizedUpdates.option_groups = optionGroups.length > 0 ? (optionGroups as unknown as Json) : null;
+        }
+      }
+
       const { data, error } = await supabase
         .from('drinks')
-        .update({ ...updates, updated_at: new Date().toISOString() })
+        .update({ ...sanitizedUpdates, updated_at: new Date().toISOString() })
         .eq('id', drinkId)
         .select()
         .single();
@@ -345,16 +369,26 @@ export class DrinkService {
     }
   }
 
-  // Get drink statistics for seller
-  static async getDrinkStats(sellerId: string): Promise<{
+  // Get drink statistics for seller, with per-drink views and contacts (all time unless a range is given)
+  static async getDrinkStats(sellerId: string, range?: AnalyticsDateRange): Promise<{
     totalDrinks: number;
     availableDrinks: number;
     averagePrice: number;
     priceRange: { min: number; max: number };
     categoryCounts: Record<string, number>;
+    drinkPerformance: DrinkPerformance[];
   }> {
     try {
-      const drinks = await this.getDrinksBySeller(sellerId, true);
+      const [drinks, performanceResult] = await Promise.all([
+        this.getDrinksBySeller(sellerId, true),
+        supabase.rpc('drink_performance', {
+          target_seller_id: sellerId,
+          start_date: range?.startDate ?? null,
+          end_date: range?.endDate ?? null
+        })
+      ]);
+
+      if (performanceResult.error) throw performanceResult.error;
 
       const totalDrinks = drinks.length;
       const availableDrinks = drinks.filter(d => d.is_available).length;
@@ -377,7 +411,8 @@ export class DrinkService {
         availableDrinks,
         averagePrice,
         priceRange,
-        categoryCounts
+        categoryCounts,
+        drinkPerformance: buildDrinkPerformance(drinks, performanceResult.data || [])
       };
     } catch (error) {
       throw new Error(handleSupabaseError(error));
@@ -0,0 +1,106 @@
+import { supabase, handleSupabaseError } from '@/lib/supabase';
+import { Database } from '@/lib/database.types';
+
+type Favorite = Database['public']['Tables']['favorites']['Row'];
+
+export type FavoriteType = 'seller' | 'drink';
+
+export interface FavoriteTarget {
+  type: FavoriteType;
+  id: string;
+}
+
+export type FavoriteWithDetails = Favorite & {
+  seller?: {
+    id: string;
+    business_name: string;
+    address: string;
+    photo_url: string | null;
+    specialty: string;
+    rating_average: number;
+    rating_count: number;
+  } | null;
+  drink?: {
+    id: string;
+    name: string;
+    price: number;
+    photo_url: string | null;
+    seller_id: string;
+    seller: { business_name: string } | null;
+  } | null;
+};
+
+const FAVORITE_DETAILS_SELECT = `
+  *,
+  seller:sellers!seller_id(id, business_name, address, photo_url, specialty, rating_average, rating_count),
+  drink:drinks!drink_id(id, name, price, photo_url, seller_id, seller:sellers(business_name))
+`;
+
+const targetColumn = (type: FavoriteType) => (type === 'seller' ? 'seller_id' : 'drink_id');
+
+// Whether a favorites row points at the given seller or drink
+export const matchesFavoriteTarget = (favorite: Pick<Favorite, 'seller_id' | 'drink_id'>, target: FavoriteTarget): boolean => {
+  return target.type === 'seller' ? favorite.seller_id === target.id : favorite.drink_id === target.id;
+};
+
+export class FavoritesService {
+  // All of a user's favorites, newest first
+  static async getFavorites(userId: string): Promise<FavoriteWithDetails[]> {
+    try {
+      const { data, error } = await supabase
+        .from('favorites')
+        .select(FAVORITE_DETAILS_SELECT)
+        .eq('buyer_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as FavoriteWithDetails[];
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Save a seller or drink; saving it twice is a no-op
+  static async addFavorite(userId: string, target: FavoriteTarget): Promise<Favorite> {
+    try {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user || user.id !== userId) {
+        throw new Error('You need to be signed in to save favorites');
+      }
+
+      const { data: existing } = await supabase
+        .from('favorites')
+        .select('*')
+        .eq('buyer_id', userId)
+        .eq(targetColumn(target.type), target.id)
+        .maybeSingle();
+
+      if (existing) return existing;
+
+      const { data, error } = await supabase
+        .from('favorites')
+        .insert({ buyer_id: userId, [targetColumn(target.type)]: target.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  static async removeFavorite(userId: string, target: FavoriteTarget): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('favorites')
+        .delete()
+        .eq('buyer_id', userId)
+        .eq(targetColumn(target.type), target.id);
+
+      if (error) throw error;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { supabase, handleSupabaseError } from '@/lib/supabase';
+import { Database } from '@/lib/database.types';
+import { isRateLimited, getRateLimitResetTime } from '@/utils/sanitize';
+import {
+  LoyaltyCard,
+  LoyaltyCardInput,
+  LoyaltyCode,
+  LoyaltyMembership,
+  generateLoyaltyCode,
+  validateLoyaltyCard
+} from '@/utils/loyalty';
+
+export type LoyaltyCodeLookup = Database['public']['Functions']['lookup_loyalty_code']['Returns'][number];
+
+export type LoyaltyMembershipWithCard = LoyaltyMembership & {
+  card?: Pick<LoyaltyCard, 'stamps_required' | 'reward' | 'is_active'> | null;
+  seller?: { business_name: string; photo_url: string | null } | null;
+};
+
+// Client-side limits on top of the one-time codes and the stamp cooldown in the database
+const CODE_LIMIT = { maxAttempts: 5, windowMs: 15 * 60 * 1000 }; // per buyer
+const STAMP_LIMIT = { maxAttempts: 60, windowMs: 60 * 60 * 1000 }; // per seller
+
+export class LoyaltyService {
+  // The seller's stamp card, or null if they haven't set one up
+  static async getSellerCard(sellerId: string): Promise<LoyaltyCard | null> {
+    try {
+      const { data, error } = await supabase
+        .from('loyalty_cards')
+        .select('*')
+        .eq('seller_id', sellerId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error fetching loyalty card:', error);
+      return null;
+    }
+  }
+
+  static async saveCard(sellerId: string, input: LoyaltyCardInput): Promise<LoyaltyCard> {
+    try {
+      const errors = validateLoyaltyCard(input);
+      if (errors.length > 0) throw new Error(errors[0]);
+
+      const { data, error } = await supabase
+        .from('loyalty_cards')
+        .upsert({
+          seller_id: sellerId,
+          stamps_required: Number(input.stamps_required),
+          reward: input.reward.trim(),
+          is_active: input.is_active,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'seller_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  static async getMembership(buyerId: string, sellerId: string): Promise<LoyaltyMembership | null> {
+    try {
+      const { data, error } = await supabase
+        .from('loyalty_memberships')
+        .select('*')
+        .eq('buyer_id', buyerId)
+        .eq('seller_id', sellerId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error fetching loyalty membership:', error);
+      return null;
+    }
+  }
+
+  // Every card the buyer has stamps or rewards on, for their profile
+  static async getBuyerMemberships(buyerId: string): Promise<LoyaltyMembershipWithCard[]> {
+    try {
+      const { data, error } = await supabase
+        .from('loyalty_memberships')
+        .select(`
+          *,
+          card:loyalty_cards!card_id(stamps_required, reward, is_active),
+          seller:sellers!seller_id(business_name, photo_url)
+        `)
+        .eq('buyer_id', buyerId)
+        .order('last_stamp_at', { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // A short-lived code the buyer shows at the counter, as text and as a QR code
+  static async createStampCode(buyerId: string, sellerId: string): Promise<LoyaltyCode> {
+    try {
+      if (buyerId === sellerId) {
+        throw new Error('You cannot collect stamps at your own shop');
+      }
+
+      const rateLimitKey = `loyalty_code_${buyerId}`;
+      if (isRateLimited(rateLimitKey, CODE_LIMIT.maxAttempts, CODE_LIMIT.windowMs)) {
+        const minutes = Math.ceil(getRateLimitResetTime(rateLimitKey) / 60);
+        throw new Error(`Too many codes requested. Please wait ${minutes} minutes.`);
+      }
+
+      const { data, error } = await supabase
+        .from('loyalty_codes')
+        .insert({
+          code: generateLoyaltyCode(),
+          buyer_id: buyerId,
+          seller_id: sellerId
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // What the seller sees after scanning: whose code it is and where their card stands
+  static async lookupCode(code: string): Promise<LoyaltyCodeLookup | null> {
+    try {
+      const { data, error } = await supabase.rpc('lookup_loyalty_code', { stamp_code: code });
+
+      if (error) throw error;
+      return data?.[0] || null;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Uses up the code to add a stamp, or to hand over an earned reward
+  static async redeemCode(sellerId: string, code: string, redeemReward: boolean): Promise<LoyaltyMembership> {
+    try {
+      const rateLimitKey = `loyalty_stamp_${sellerId}`;
+      if (isRateLimited(rateLimitKey, STAMP_LIMIT.maxAttempts, STAMP_LIMIT.windowMs)) {
+        const minutes = Math.ceil(getRateLimitResetTime(rateLimitKey) / 60);
+        throw new Error(`Too many stamps in a short time. Please wait ${minutes} minutes.`);
+      }
+
+      const { data, error } = await supabase.rpc('use_loyalty_code', {
+        stamp_code: code,
+        redeem_reward: redeemReward
+      });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+}
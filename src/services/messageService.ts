@@ -0,0 +1,161 @@
+import { supabase, handleSupabaseError } from '@/lib/supabase';
+import { messageRateLimiter } from '@/utils/security';
+import { Conversation, Message, countUnreadByConversation, validateMessageBody } from '@/utils/messaging';
+
+export type ConversationWithParties = Conversation & {
+  buyer?: { name: string; avatar_url: string | null } | null;
+  seller?: { business_name: string; photo_url: string | null; specialty: string } | null;
+  unreadCount: number;
+};
+
+const CONVERSATION_SELECT = `
+  *,
+  buyer:users!buyer_id(name, avatar_url),
+  seller:sellers!seller_id(business_name, photo_url, specialty)
+`;
+
+export class MessageService {
+  // One conversation per buyer/seller pair; reuse it if it already exists
+  static async getOrCreateConversation(buyerId: string, sellerId: string): Promise<Conversation> {
+    try {
+      if (buyerId === sellerId) {
+        throw new Error('You cannot message your own shop');
+      }
+
+      const { data: existing, error: findError } = await supabase
+        .from('conversations')
+        .select('*')
+        .eq('buyer_id', buyerId)
+        .eq('seller_id', sellerId)
+        .maybeSingle();
+
+      if (findError) throw findError;
+      if (existing) return existing;
+
+      const { data, error } = await supabase
+        .from('conversations')
+        .insert({ buyer_id: buyerId, seller_id: sellerId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  static async getConversation(conversationId: string): Promise<Omit<ConversationWithParties, 'unreadCount'>> {
+    try {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select(CONVERSATION_SELECT)
+        .eq('id', conversationId)
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Conversations the user is part of, most recent activity first, with unread counts
+  static async getConversations(userId: string, role: 'buyer' | 'seller'): Promise<ConversationWithParties[]> {
+    try {
+      const [conversationsResult, unreadResult] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select(CONVERSATION_SELECT)
+          .eq(`${role}_id`, userId)
+          .order('last_message_at', { ascending: false, nullsFirst: false }),
+        supabase
+          .from('messages')
+          .select('conversation_id, sender_id, read_at')
+          .is('read_at', null)
+          .neq('sender_id', userId)
+      ]);
+
+      if (conversationsResult.error) throw conversationsResult.error;
+      if (unreadResult.error) throw unreadResult.error;
+
+      const unreadCounts = countUnreadByConversation(unreadResult.data || [], userId);
+      return (conversationsResult.data || []).map(conversation => ({
+        ...conversation,
+        unreadCount: unreadCounts[conversation.id] || 0
+      }));
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  static async getMessages(conversationId: string): Promise<Message[]> {
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  static async sendMessage(conversationId: string, senderId: string, body: string): Promise<Message> {
+    try {
+      const validationError = validateMessageBody(body);
+      if (validationError) throw new Error(validationError);
+
+      if (!messageRateLimiter.isAllowed(senderId)) {
+        throw new Error('You are sending messages too quickly. Please wait a moment.');
+      }
+
+      const { data, error } = await supabase
+        .from('messages')
+        .insert({
+          conversation_id: conversationId,
+          sender_id: senderId,
+          body: body.trim()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Sets read_at on the other side's messages; this is what drives the "Seen" receipt
+  static async markConversationRead(conversationId: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('mark_conversation_read', {
+        target_conversation_id: conversationId
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error marking conversation read:', error);
+    }
+  }
+
+  static async getUnreadCount(userId: string): Promise<number> {
+    try {
+      const { count, error } = await supabase
+        .from('messages')
+        .select('id', { count: 'exact', head: true })
+        .is('read_at', null)
+        .neq('sender_id', userId);
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      console.error('Error counting unread messages:', error);
+      return 0;
+    }
+  }
+}
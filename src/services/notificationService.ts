@@ -0,0 +1,108 @@
+import { supabase, handleSupabaseError } from '@/lib/supabase';
+import { AppNotification, NOTIFICATION_LIST_LIMIT, NotificationInsert } from '@/utils/notifications';
+import { PushSubscriptionInsert } from '@/utils/webPush';
+
+export class NotificationService {
+  static async getNotifications(userId: string, limit: number = NOTIFICATION_LIST_LIMIT): Promise<AppNotification[]> {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      return [];
+    }
+  }
+
+  // Counted in the database so the badge is right even beyond the loaded page
+  static async getUnreadCount(userId: string): Promise<number> {
+    try {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      console.error('Error counting unread notifications:', error);
+      return 0;
+    }
+  }
+
+  // Only new-seller notifications are created from the client; the rest come from database triggers
+  static async createNotification(notification: NotificationInsert): Promise<AppNotification> {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .insert(notification)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  static async markRead(notificationId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', notificationId)
+        .is('read_at', null);
+
+      if (error) throw error;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  static async markAllRead(userId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (error) throw error;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  static async savePushSubscription(subscription: PushSubscriptionInsert): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .upsert(subscription, { onConflict: 'endpoint' });
+
+      if (error) throw error;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  static async removePushSubscription(endpoint: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('endpoint', endpoint);
+
+      if (error) throw error;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+}
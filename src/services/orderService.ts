@@ -0,0 +1,315 @@
+import { supabase, handleSupabaseError } from '@/lib/supabase';
+import { Database } from '@/lib/database.types';
+import { OrderItem } from '@/utils/whatsapp';
+import { getCartSubtotal } from '@/utils/cart';
+import { OrderActor, OrderStatus, canTransitionOrder } from '@/utils/orderStatus';
+import { getSellerSchedule } from '@/utils/businessHours';
+import { getDrinkDeal, getPromotionLineTotal } from '@/utils/promotions';
+import { PromotionService } from '@/services/promotionService';
+import {
+  DrinkOptionGroup,
+  SelectedDrinkOption,
+  parseOptionGroups,
+  resolveSelectedOptions,
+  toOptionSelections,
+  validateOptionSelections,
+  getOptionsUnitPrice
+} from '@/utils/drinkOptions';
+
+type Order = Database['public']['Tables']['orders']['Row'];
+type OrderItemRow = Database['public']['Tables']['order_items']['Row'];
+
+export type OrderWithItems = Order & {
+  items: OrderItemRow[];
+  seller?: { business_name: string; phone: string; address: string } | null;
+  buyer?: { name: string; avatar_url: string | null } | null;
+};
+
+const ORDER_SELECT = `
+  *,
+  items:order_items(*),
+  seller:sellers!seller_id(business_name, phone, address),
+  buyer:users!buyer_id(name, avatar_url)
+`;
+
+const MAX_ITEM_QUANTITY = 50;
+
+export class OrderService {
+  // Place a new order for a single seller
+  static async createOrder(orderData: {
+    buyerId: string;
+    sellerId: string;
+    items: OrderItem[];
+    notes?: string;
+  }): Promise<OrderWithItems> {
+    try {
+      // SECURITY FIX: Verify user authentication and authorization
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        throw new Error('Authentication required to place an order');
+      }
+
+      if (orderData.buyerId !== user.id) {
+        throw new Error('You can only place orders for yourself');
+      }
+
+      if (orderData.sellerId === user.id) {
+        throw new Error('You cannot order from your own shop');
+      }
+
+      if (!orderData.items || orderData.items.length === 0) {
+        throw new Error('An order needs at least one item');
+      }
+
+      for (const item of orderData.items) {
+        if (!item.name || typeof item.name !== 'string') {
+          throw new Error('Invalid item name');
+        }
+        // Prices come from the drinks table, so an item has to be one of the seller's drinks
+        if (!item.drinkId) {
+          throw new Error(`${item.name} is not on this seller's menu`);
+        }
+        if (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > MAX_ITEM_QUANTITY) {
+          throw new Error(`Quantity must be between 1 and ${MAX_ITEM_QUANTITY}`);
+        }
+      }
+
+      // Use the seller's current prices and options rather than trusting the client
+      const drinkIds = orderData.items.map(item => item.drinkId as string);
+      const priceById: Record<string, number> = {};
+      const optionGroupsById: Record<string, DrinkOptionGroup[]> = {};
+
+      const { data: drinks, error: drinksError } = await supabase
+        .from('drinks')
+        .select('id, price, seller_id, is_available, option_groups')
+        .in('id', drinkIds)
+        // The service worker serves menu reads from its offline cache unless asked not to
+        .setHeader('Cache-Control', 'no-cache');
+
+      if (drinksError) throw drinksError;
+
+      for (const drink of drinks || []) {
+        if (drink.seller_id !== orderData.sellerId) {
+          throw new Error('All items must come from the same seller');
+        }
+        if (!drink.is_available) {
+          throw new Error('One of the items is no longer available');
+        }
+        priceById[drink.id] = Number(drink.price);
+        optionGroupsById[drink.id] = parseOptionGroups(drink.option_groups);
+      }
+
+      // Running promotions are applied here too, so the order matches the prices buyers saw
+      const [promotions, sellerResult] = await Promise.all([
+        PromotionService.getActivePromotions(orderData.sellerId),
+        supabase.from('sellers').select('schedule, hours').eq('id', orderData.sellerId)
+          .setHeader('Cache-Control', 'no-cache').single()
+      ]);
+      const sellerSchedule = getSellerSchedule(sellerResult.data);
+      const now = new Date();
+
+      const items = orderData.items.map(item => {
+        // Deleted, or hidden from this buyer; either way there's no price to charge
+        if (priceById[item.drinkId!] === undefined) {
+          throw new Error(`${item.name} is no longer on the menu`);
+        }
+
+        // Re-resolve options against the drink so names and price changes come from the seller
+        const groups = optionGroupsById[item.drinkId];
+        const selections = toOptionSelections(item.options || []);
+        const optionErrors = validateOptionSelections(groups, selections);
+        if (optionErrors.length > 0) {
+          throw new Error(`${item.name}: ${optionErrors[0]}`);
+        }
+
+        const options = resolveSelectedOptions(groups, selections);
+        const unitPrice = Math.round(getOptionsUnitPrice(priceById[item.drinkId], options) * 100) / 100;
+        const deal = getDrinkDeal(item.drinkId, unitPrice, promotions, sellerSchedule, now);
+        // A bundle's free drinks don't divide into a whole-cent unit price, so the
+        // line keeps the list price and the total actually charged
+        return {
+          ...item,
+          options,
+          price: unitPrice,
+          lineTotal: getPromotionLineTotal(unitPrice, item.quantity, deal?.promotion || null)
+        };
+      });
+
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .insert({
+          buyer_id: orderData.buyerId,
+          seller_id: orderData.sellerId,
+          status: 'placed',
+          total_amount: getCartSubtotal(items),
+          notes: orderData.notes?.trim() || null,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (orderError) throw orderError;
+
+      const { data: orderItems, error: itemsError } = await supabase
+        .from('order_items')
+        .insert(items.map(item => ({
+          order_id: order.id,
+          drink_id: item.drinkId || null,
+          name: item.name.trim(),
+          unit_price: item.price,
+          line_total: item.lineTotal,
+          quantity: item.quantity,
+          notes: item.notes?.trim() || null,
+          options: item.options && item.options.length > 0 ? item.options : null
+        })))
+        .select();
+
+      if (itemsError) {
+        // Don't leave an empty order behind
+        await supabase.from('orders').delete().eq('id', order.id);
+        throw itemsError;
+      }
+
+      // The database reprices each line as it is saved, so the total comes from the saved rows
+      const placed = { ...order, items: orderItems || [] };
+      return { ...placed, total_amount: getCartSubtotal(this.toOrderItems(placed)) };
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Get a single order with its items
+  static async getOrderById(orderId: string): Promise<OrderWithItems | null> {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(ORDER_SELECT)
+        .eq('id', orderId)
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error fetching order:', error);
+      return null;
+    }
+  }
+
+  // Get orders placed by a buyer
+  static async getBuyerOrders(buyerId: string, limit: number = 50): Promise<OrderWithItems[]> {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(ORDER_SELECT)
+        .eq('buyer_id', buyerId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Get orders received by a seller
+  static async getSellerOrders(sellerId: string, statuses?: OrderStatus[]): Promise<OrderWithItems[]> {
+    try {
+      let query = supabase
+        .from('orders')
+        .select(ORDER_SELECT)
+        .eq('seller_id', sellerId);
+
+      if (statuses && statuses.length > 0) {
+        query = query.in('status', statuses);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Move an order to a new status, enforcing who may do what
+  static async updateOrderStatus(orderId: string, status: OrderStatus, actor: OrderActor): Promise<Order> {
+    try {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        throw new Error('Authentication required to update an order');
+      }
+
+      const { data: current, error: fetchError } = await supabase
+        .from('orders')
+        .select('id, status, buyer_id, seller_id')
+        .eq('id', orderId)
+        .single();
+
+      if (fetchError) throw fetchError;
+      if (!current) throw new Error('Order not found');
+
+      const ownerId = actor === 'buyer' ? current.buyer_id : current.seller_id;
+      if (ownerId !== user.id) {
+        throw new Error('Unauthorized: You are not part of this order');
+      }
+
+      if (!canTransitionOrder(current.status, status, actor)) {
+        throw new Error(`Cannot change order from ${current.status} to ${status}`);
+      }
+
+      const { data, error } = await supabase
+        .from('orders')
+        .update({
+          status,
+          cancelled_by: status === 'cancelled' ? actor : null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', orderId)
+        .eq('status', current.status) // Guard against concurrent updates
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Cancel an order
+  static async cancelOrder(orderId: string, actor: OrderActor): Promise<Order> {
+    return this.updateOrderStatus(orderId, 'cancelled', actor);
+  }
+
+  // Convert stored order lines back into the OrderItem shape used by carts and messages
+  static toOrderItems(order: OrderWithItems): OrderItem[] {
+    return order.items.map(item => ({
+      drinkId: item.drink_id || undefined,
+      name: item.name,
+      price: Number(item.unit_price),
+      lineTotal: item.line_total != null ? Number(item.line_total) : undefined,
+      quantity: item.quantity,
+      notes: item.notes || undefined,
+      options: (item.options as unknown as SelectedDrinkOption[] | null) || undefined
+    }));
+  }
+
+  // Record that the buyer also notified the seller over WhatsApp
+  static async markWhatsAppNotified(orderId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('orders')
+        .update({ whatsapp_notified_at: new Date().toISOString() })
+        .eq('id', orderId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to record WhatsApp notification:', error);
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { supabase, handleSupabaseError } from '@/lib/supabase';
+import { UserPreferences, fromPreferencesRow, toPreferencesRow } from '@/utils/preferences';
+
+export class PreferencesService {
+  // The user's saved settings, or null if they have never changed one
+  static async getPreferences(userId: string): Promise<UserPreferences | null> {
+    try {
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? fromPreferencesRow(data) : null;
+    } catch (error) {
+      console.error('Error fetching preferences:', error);
+      return null;
+    }
+  }
+
+  static async savePreferences(userId: string, preferences: UserPreferences): Promise<UserPreferences> {
+    try {
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .upsert({
+          ...toPreferencesRow(userId, preferences),
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return fromPreferencesRow(data);
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { supabase, handleSupabaseError } from '@/lib/supabase';
+import { Json } from '@/lib/database.types';
+import { Promotion, PromotionInput, validatePromotion } from '@/utils/promotions';
+
+export class PromotionService {
+  // Every promotion of a seller, for the dashboard
+  static async getSellerPromotions(sellerId: string): Promise<Promotion[]> {
+    try {
+      const { data, error } = await supabase
+        .from('promotions')
+        .select('*')
+        .eq('seller_id', sellerId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Switched-on promotions that haven't ended; time windows are checked with isPromotionActive()
+  static async getActivePromotions(sellerId: string): Promise<Promotion[]> {
+    try {
+      const { data, error } = await supabase
+        .from('promotions')
+        .select('*')
+        .eq('seller_id', sellerId)
+        .eq('is_active', true)
+        .or(`ends_at.is.null,ends_at.gt.${new Date().toISOString()}`);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching promotions:', error);
+      return [];
+    }
+  }
+
+  // Create, or update when an id is given
+  static async savePromotion(sellerId: string, input: PromotionInput, promotionId?: string): Promise<Promotion> {
+    try {
+      const errors = validatePromotion(input);
+      if (errors.length > 0) throw new Error(errors[0]);
+
+      const isBundle = input.type === 'bundle';
+      const row = {
+        title: input.title.trim(),
+        type: input.type,
+        discount_value: isBundle ? null : Number(input.discount_value),
+        buy_quantity: isBundle ? Number(input.buy_quantity) : null,
+        free_quantity: isBundle ? Number(input.free_quantity) : null,
+        drink_ids: input.drink_ids,
+        time_windows: input.time_windows as unknown as Json,
+        starts_at: new Date(input.starts_at).toISOString(),
+        ends_at: input.ends_at ? new Date(input.ends_at).toISOString() : null,
+        updated_at: new Date().toISOString()
+      };
+
+      const { data, error } = promotionId
+        ? await supabase.from('promotions').update(row).eq('id', promotionId).eq('seller_id', sellerId).select().single()
+        : await supabase.from('promotions').insert({ ...row, seller_id: sellerId }).select().single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  static async setPromotionActive(promotionId: string, isActive: boolean): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('promotions')
+        .update({ is_active: isActive, updated_at: new Date().toISOString() })
+        .eq('id', promotionId);
+
+      if (error) throw error;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  static async deletePromotion(promotionId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('promotions')
+        .delete()
+        .eq('id', promotionId);
+
+      if (error) throw error;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+}
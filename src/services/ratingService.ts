@@ -1,9 +1,34 @@
 import { supabase, handleSupabaseError } from '@/lib/supabase';
 import { Database } from '@/lib/database.types';
+import {
+  ModerationAction,
+  RatingReportReason,
+  isValidReportReason,
+  computeRatingSummary,
+  MAX_REPORT_DETAILS_LENGTH
+} from '@/utils/ratingModeration';
+import { RatingReply, validateReplyBody, getUnrepliedRatings } from '@/utils/ratingReplies';
+import { VerifyingPurchase, pickVerifyingPurchase } from '@/utils/verifiedReviews';
 
 type Rating = Database['public']['Tables']['ratings']['Row'];
 type RatingInsert = Database['public']['Tables']['ratings']['Insert'];
 type RatingUpdate = Database['public']['Tables']['ratings']['Update'];
+type RatingReport = Database['public']['Tables']['rating_reports']['Row'];
+
+// A reported rating with its open reports, as shown in the moderator queue
+export interface ModerationQueueItem {
+  rating: Rating & {
+    buyer?: { name: string } | null;
+    seller?: { business_name: string } | null;
+  };
+  reports: RatingReport[];
+}
+
+// A published rating as listed for its seller, with the seller's reply if there is one
+export type SellerRatingWithReply = Rating & {
+  buyer?: { name: string; avatar_url: string | null } | null;
+  reply?: RatingReply | RatingReply[] | null;
+};
 
 export class RatingService {
   // Get ratings for a seller
@@ -13,9 +38,11 @@ export class RatingService {
         .from('ratings')
         .select(`
           *,
-          buyer:users!buyer_id(name, avatar_url)
+          buyer:users!buyer_id(name, avatar_url),
+          reply:rating_replies(*)
         `)
         .eq('seller_id', sellerId)
+        .eq('status', 'published')
         .order('created_at', { ascending: false });
 
       if (limit) {
@@ -63,6 +90,15 @@ export class RatingService {
         throw new Error('You can only submit ratings for yourself');
       }
 
+      // Tie the review to a completed purchase when there is one; is_verified itself is set by a database trigger
+      const purchase = await this.getVerifyingPurchase(user.id, ratingData.seller_id);
+      const { is_verified: _clientVerified, ...ratingFields } = ratingData;
+      const verifiedRatingData = {
+        ...ratingFields,
+        order_id: purchase?.order_id ?? null,
+        contact_request_id: purchase?.contact_request_id ?? null
+      };
+
       // Check if rating already exists
       const existingRating = await this.getRatingByBuyerAndSeller(
         ratingData.buyer_id,
@@ -77,6 +113,8 @@ export class RatingService {
             rating: ratingData.rating,
             comment: ratingData.comment,
             order_items: ratingData.order_items,
+            order_id: verifiedRatingData.order_id,
+            contact_request_id: verifiedRatingData.contact_request_id,
             created_at: new Date().toISOString() // Update timestamp
           })
           .eq('id', existingRating.id)
@@ -89,7 +127,7 @@ export class RatingService {
       } else {
         // Create new rating with explicit timestamp
         const insertData = {
-          ...ratingData,
+          ...verifiedRatingData,
           created_at: new Date().toISOString()
         };
 
@@ -107,6 +145,34 @@ export class RatingService {
     }
   }
 
+  // Latest completed order or contact request between buyer and seller, used to verify a review
+  static async getVerifyingPurchase(buyerId: string, sellerId: string): Promise<VerifyingPurchase | null> {
+    try {
+      const [ordersResult, contactsResult] = await Promise.all([
+        supabase
+          .from('orders')
+          .select('id, status, created_at')
+          .eq('buyer_id', buyerId)
+          .eq('seller_id', sellerId)
+          .eq('status', 'picked_up'),
+        supabase
+          .from('contact_requests')
+          .select('id, status, created_at')
+          .eq('buyer_id', buyerId)
+          .eq('seller_id', sellerId)
+          .eq('status', 'completed')
+      ]);
+
+      if (ordersResult.error) throw ordersResult.error;
+      if (contactsResult.error) throw contactsResult.error;
+
+      return pickVerifyingPurchase(ordersResult.data || [], contactsResult.data || []);
+    } catch (error) {
+      console.error('Error finding a verifying purchase:', error);
+      return null;
+    }
+  }
+
   // Delete rating
   static async deleteRating(ratingId: string): Promise<void> {
     try {
@@ -154,10 +220,7 @@ export class RatingService {
     try {
       const ratings = await this.getSellerRatings(sellerId);
 
-      const totalRatings = ratings.length;
-      const averageRating = totalRatings > 0 
-        ? ratings.reduce((sum, r) => sum + r.rating, 0) / totalRatings 
-        : 0;
+      const { average: averageRating, count: totalRatings } = computeRatingSummary(ratings);
 
       // Calculate rating distribution
       const ratingDistribution: Record<number, number> = {
@@ -172,7 +235,7 @@ export class RatingService {
       const recentRatings = ratings.slice(0, 5);
 
       return {
-        averageRating: Math.round(averageRating * 100) / 100, // Round to 2 decimal places
+        averageRating,
         totalRatings,
         ratingDistribution,
         recentRatings
@@ -232,6 +295,7 @@ export class RatingService {
           buyer:users!buyer_id(name, avatar_url),
           seller:sellers!seller_id(business_name, photo_url)
         `)
+        .eq('status', 'published')
         .order('created_at', { ascending: false })
         .limit(limit);
 
@@ -253,7 +317,8 @@ export class RatingService {
           seller:sellers!seller_id(business_name, photo_url)
         `)
         .ilike('comment', `%${query}%`)
-        .not('comment', 'is', null);
+        .not('comment', 'is', null)
+        .eq('status', 'published');
 
       if (sellerId) {
         queryBuilder = queryBuilder.eq('seller_id', sellerId);
@@ -283,6 +348,7 @@ export class RatingService {
         .from('ratings')
         .select('rating, created_at')
         .eq('seller_id', sellerId)
+        .eq('status', 'published')
         .gte('created_at', startDate.toISOString())
         .order('created_at', { ascending: true });
 
@@ -334,14 +400,221 @@ export class RatingService {
     }
   }
 
-  // Report inappropriate rating
-  static async reportRating(ratingId: string, reason: string, reporterId: string): Promise<void> {
+  // Report an inappropriate rating; enough reports hide it until a moderator decides
+  static async reportRating(
+    ratingId: string,
+    reason: RatingReportReason,
+    reporterId: string,
+    details?: string
+  ): Promise<RatingReport> {
     try {
-      // In a real app, this would create a report record
-      // For now, we'll just log it
-      console.log('Rating reported:', { ratingId, reason, reporterId });
-      
-      // Could implement a reports table and moderation system
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        throw new Error('Authentication required to report a review');
+      }
+
+      if (reporterId !== user.id) {
+        throw new Error('You can only report reviews as yourself');
+      }
+
+      if (!isValidReportReason(reason)) {
+        throw new Error('Please choose a reason for your report');
+      }
+
+      const trimmedDetails = details?.trim() || null;
+      if (trimmedDetails && trimmedDetails.length > MAX_REPORT_DETAILS_LENGTH) {
+        throw new Error(`Details must be ${MAX_REPORT_DETAILS_LENGTH} characters or fewer`);
+      }
+
+      const { data: rating, error: ratingError } = await supabase
+        .from('ratings')
+        .select('buyer_id')
+        .eq('id', ratingId)
+        .single();
+
+      if (ratingError) throw ratingError;
+      if (rating.buyer_id === user.id) {
+        throw new Error('You cannot report your own review');
+      }
+
+      // The counter, auto-hide and seller average are updated by a database trigger
+      const { data, error } = await supabase
+        .from('rating_reports')
+        .insert({
+          rating_id: ratingId,
+          reporter_id: user.id,
+          reason,
+          details: trimmedDetails
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') throw new Error('You already reported this review');
+        throw error;
+      }
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Whether the user may use the moderator queue
+  static async isModerator(userId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('moderators')
+        .select('user_id')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return !!data;
+    } catch (error) {
+      console.error('Error checking moderator access:', error);
+      return false;
+    }
+  }
+
+  // Ratings with open reports, most reported first
+  static async getModerationQueue(): Promise<ModerationQueueItem[]> {
+    try {
+      const { data, error } = await supabase
+        .from('rating_reports')
+        .select(`
+          *,
+          rating:ratings!rating_id(
+            *,
+            buyer:users!buyer_id(name),
+            seller:sellers!seller_id(business_name)
+          )
+        `)
+        .eq('status', 'open')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const byRating = new Map<string, ModerationQueueItem>();
+      (data || []).forEach(({ rating, ...report }) => {
+        if (!rating) return;
+        const item = byRating.get(report.rating_id) || { rating, reports: [] };
+        item.reports.push(report as RatingReport);
+        byRating.set(report.rating_id, item);
+      });
+
+      return Array.from(byRating.values())
+        .sort((a, b) => b.reports.length - a.reports.length);
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Approve (publish again and dismiss the reports) or remove a reported rating
+  static async moderateRating(ratingId: string, action: ModerationAction): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('moderate_rating', {
+        target_rating_id: ratingId,
+        action
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Create or edit the seller's public reply to a rating (one reply per rating)
+  static async saveReply(ratingId: string, sellerId: string, body: string): Promise<RatingReply> {
+    try {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        throw new Error('Authentication required to reply to a review');
+      }
+
+      if (sellerId !== user.id) {
+        throw new Error('You can only reply to reviews of your own business');
+      }
+
+      const validationError = validateReplyBody(body);
+      if (validationError) throw new Error(validationError);
+
+      const { data: rating, error: ratingError } = await supabase
+        .from('ratings')
+        .select('seller_id')
+        .eq('id', ratingId)
+        .single();
+
+      if (ratingError) throw ratingError;
+      if (rating.seller_id !== user.id) {
+        throw new Error('You can only reply to reviews of your own business');
+      }
+
+      const { data: existingReply, error: existingError } = await supabase
+        .from('rating_replies')
+        .select('id')
+        .eq('rating_id', ratingId)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+
+      if (existingReply) {
+        const { data, error } = await supabase
+          .from('rating_replies')
+          .update({
+            body: body.trim(),
+            edited_at: new Date().toISOString()
+          })
+          .eq('id', existingReply.id)
+          .eq('seller_id', user.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      }
+
+      const { data, error } = await supabase
+        .from('rating_replies')
+        .insert({
+          rating_id: ratingId,
+          seller_id: user.id,
+          body: body.trim()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Delete the seller's reply so the review shows without one again
+  static async deleteReply(replyId: string): Promise<void> {
+    try {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        throw new Error('Authentication required to delete a reply');
+      }
+
+      const { error } = await supabase
+        .from('rating_replies')
+        .delete()
+        .eq('id', replyId)
+        .eq('seller_id', user.id);
+
+      if (error) throw error;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Published ratings the seller has not answered yet, oldest first
+  static async getUnrepliedRatings(sellerId: string): Promise<SellerRatingWithReply[]> {
+    try {
+      const ratings = await this.getSellerRatings(sellerId);
+      return getUnrepliedRatings(ratings as SellerRatingWithReply[]);
     } catch (error) {
       throw new Error(handleSupabaseError(error));
     }
@@ -1,10 +1,26 @@
 import { supabase, handleSupabaseError, findNearbySellers, trackSellerView } from '@/lib/supabase';
 import { getDefaultCoordinates } from '@/utils/geocoding';
 import { Database } from '@/lib/database.types';
+import { AvailabilityMode, isSellerAvailable } from '@/utils/sellerAvailability';
+import { generateSlug, getUniqueSlug } from '@/utils/sitemap';
+import {
+  ContactRequest,
+  ContactRequestStatus,
+  ContactType,
+  canTransitionContactRequest,
+  getContactRequestStatusInfo
+} from '@/utils/contactRequestStatus';
 
 type Seller = Database['public']['Tables']['sellers']['Row'];
 type SellerInsert = Database['public']['Tables']['sellers']['Insert'];
 type SellerUpdate = Database['public']['Tables']['sellers']['Update'];
+type Drink = Database['public']['Tables']['drinks']['Row'];
+
+// A contact request with the other party, as listed in the seller inbox and the buyer history
+export type ContactRequestWithParties = ContactRequest & {
+  buyer?: { name: string; avatar_url: string | null } | null;
+  seller?: { business_name: string; photo_url: string | null; phone: string } | null;
+};
 
 export class SellerService {
   // Get nearby sellers with location-based filtering
@@ -19,14 +35,20 @@ export class SellerService {
     }
   ): Promise<any[]> {
     try {
+      // is_available is filtered here on the effective status, so sellers whose hours
+      // just started or ended are right even before the database catches up
+      const { isAvailable, ...serverFilters } = filters || {};
       const sellers = await findNearbySellers(
         latitude,
         longitude,
         filters?.radiusKm || 10,
-        filters
+        serverFilters
       );
 
-      return sellers || [];
+      const now = new Date();
+      return (sellers || [])
+        .map(seller => ({ ...seller, is_available: isSellerAvailable(seller, now) }))
+        .filter(seller => isAvailable === undefined || seller.is_available === isAvailable);
     } catch (error) {
       throw new Error(handleSupabaseError(error));
     }
@@ -57,25 +79,6 @@ export class SellerService {
         throw sellerError;
       }
 
-      // Auto-populate business hours if missing or null
-      if (seller && (!seller.hours || seller.hours === 'null')) {
-        console.log('🔄 Auto-populating missing business hours for seller:', sellerId);
-        const defaultHours = 'Mon-Fri: 8:00 AM - 6:00 PM, Sat-Sun: 9:00 AM - 5:00 PM';
-
-        // Update the seller with default hours
-        const { error: updateError } = await supabase
-          .from('sellers')
-          .update({ hours: defaultHours, updated_at: new Date().toISOString() })
-          .eq('id', sellerId);
-
-        if (updateError) {
-          console.warn('⚠️ Failed to auto-populate business hours:', updateError);
-        } else {
-          console.log('✅ Auto-populated business hours successfully');
-          seller.hours = defaultHours;
-        }
-      }
-
       console.log('🔍 SellerService: Returning seller data:', seller);
       return seller;
     } catch (error) {
@@ -115,7 +118,8 @@ export class SellerService {
         address: sellerData.address,
         phone: sellerData.phone,
         specialty: sellerData.specialty || 'coffee',
-        hours: sellerData.hours || 'Mon-Fri: 8:00 AM - 6:00 PM, Sat-Sun: 9:00 AM - 5:00 PM',
+        hours: sellerData.hours || null,
+        schedule: sellerData.schedule ?? null,
         description: sellerData.description || null,
         is_available: sellerData.is_available ?? true,
         rating_average: sellerData.rating_average ?? 0,
@@ -243,6 +247,90 @@ export class SellerService {
     }
   }
 
+  // Choose between the manual switch and schedule-driven availability
+  static async setAvailabilityMode(sellerId: string, mode: AvailabilityMode): Promise<Seller> {
+    console.log('🔄 SellerService: Setting availability mode:', sellerId, mode);
+    return this.updateSellerProfile(sellerId, { availability_mode: mode, paused_until: null });
+  }
+
+  // Manual mode: go online or offline
+  static async setManualAvailability(sellerId: string, isAvailable: boolean): Promise<Seller> {
+    return this.updateSellerProfile(sellerId, { is_available: isAvailable });
+  }
+
+  // Schedule with pauses: go offline for a while, then follow the schedule again
+  static async pauseSeller(sellerId: string, minutes: number): Promise<Seller> {
+    const pausedUntil = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    console.log('⏸ SellerService: Pausing seller until:', pausedUntil);
+    return this.updateSellerProfile(sellerId, { paused_until: pausedUntil });
+  }
+
+  static async resumeSeller(sellerId: string): Promise<Seller> {
+    return this.updateSellerProfile(sellerId, { paused_until: null });
+  }
+
+  // Public menu page: the seller and their available drinks, by menu slug
+  static async getSellerBySlug(slug: string): Promise<Seller & { drinks: Drink[] } | null> {
+    try {
+      const { data, error } = await supabase
+        .from('sellers')
+        .select(`
+          *,
+          drinks:drinks(*)
+        `)
+        .eq('slug', slug)
+        .eq('drinks.is_available', true)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error fetching seller by slug:', error);
+      return null;
+    }
+  }
+
+  // Gives the seller a menu slug from their business name if they don't have one yet
+  static async ensureSlug(seller: Pick<Seller, 'id' | 'business_name' | 'slug'>): Promise<string> {
+    if (seller.slug) return seller.slug;
+    return this.claimSlug(seller.id, seller.business_name);
+  }
+
+  // Changes the menu link; the text is slugified and numbered if another seller has it
+  static async updateSlug(sellerId: string, text: string): Promise<string> {
+    return this.claimSlug(sellerId, text);
+  }
+
+  private static async claimSlug(sellerId: string, text: string): Promise<string> {
+    try {
+      const prefix = (generateSlug(text) || 'seller').slice(0, 20);
+
+      // A concurrent signup can take the same slug between the lookup and the update; look again
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const { data: taken, error: takenError } = await supabase
+          .from('sellers')
+          .select('slug')
+          .like('slug', `${prefix}%`)
+          .neq('id', sellerId);
+
+        if (takenError) throw takenError;
+
+        const slug = getUniqueSlug(text, (taken || []).map(row => row.slug).filter(Boolean));
+        const { error } = await supabase
+          .from('sellers')
+          .update({ slug, updated_at: new Date().toISOString() })
+          .eq('id', sellerId);
+
+        if (!error) return slug;
+        if (error.code !== '23505') throw error;
+      }
+
+      throw new Error('Could not find a free link for this name. Try a different one.');
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
   // Upload seller photo
   static async uploadSellerPhoto(sellerId: string, file: File): Promise<string> {
     try {
@@ -331,7 +419,7 @@ export class SellerService {
   }
 
   // Get seller contact requests
-  static async getContactRequests(sellerId: string): Promise<any[]> {
+  static async getContactRequests(sellerId: string): Promise<ContactRequestWithParties[]> {
     try {
       const { data, error } = await supabase
         .from('contact_requests')
@@ -349,21 +437,141 @@ export class SellerService {
     }
   }
 
+  // Contact requests a buyer sent, newest first
+  static async getBuyerContactRequests(buyerId: string): Promise<ContactRequestWithParties[]> {
+    try {
+      const { data, error } = await supabase
+        .from('contact_requests')
+        .select(`
+          *,
+          seller:sellers!seller_id(business_name, photo_url, phone)
+        `)
+        .eq('buyer_id', buyerId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // The buyer's request to this seller that isn't completed yet, if any
+  static async getOpenContactRequest(sellerId: string, buyerId: string): Promise<ContactRequest | null> {
+    const { data, error } = await supabase
+      .from('contact_requests')
+      .select('*')
+      .eq('seller_id', sellerId)
+      .eq('buyer_id', buyerId)
+      .neq('status', 'completed')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Record that a signed-in buyer reached out to a seller. Repeated taps reuse the open
+  // request instead of filling the seller's inbox with copies.
+  static async createContactRequest(
+    sellerId: string,
+    buyerId: string,
+    contactType: ContactType,
+    message?: string
+  ): Promise<ContactRequest> {
+    try {
+      const existing = await this.getOpenContactRequest(sellerId, buyerId);
+      if (existing) return existing;
+
+      const { data, error } = await supabase
+        .from('contact_requests')
+        .insert({
+          seller_id: sellerId,
+          buyer_id: buyerId,
+          contact_type: contactType,
+          message: message?.trim() || null,
+          status: 'pending'
+        })
+        .select()
+        .single();
+
+      // Another tab got there first; contact_requests_one_open_idx allows one open request per pair
+      if (error?.code === '23505') {
+        const open = await this.getOpenContactRequest(sellerId, buyerId);
+        if (open) return open;
+      }
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
+  // Requests the seller hasn't opened yet
+  static async getUnreadContactRequestCount(sellerId: string): Promise<number> {
+    try {
+      const { count, error } = await supabase
+        .from('contact_requests')
+        .select('id', { count: 'exact', head: true })
+        .eq('seller_id', sellerId)
+        .is('seller_read_at', null);
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      console.error('Error counting unread contact requests:', error);
+      return 0;
+    }
+  }
+
+  static async markContactRequestsRead(requestIds: string[]): Promise<void> {
+    if (requestIds.length === 0) return;
+    try {
+      const { error } = await supabase
+        .from('contact_requests')
+        .update({ seller_read_at: new Date().toISOString() })
+        .in('id', requestIds)
+        .is('seller_read_at', null);
+
+      if (error) throw error;
+    } catch (error) {
+      throw new Error(handleSupabaseError(error));
+    }
+  }
+
   // Update contact request status
   static async updateContactRequestStatus(
     requestId: string, 
-    status: 'pending' | 'responded' | 'completed'
-  ): Promise<void> {
+    status: ContactRequestStatus
+  ): Promise<ContactRequest> {
     try {
-      const { error } = await supabase
+      const { data: current, error: fetchError } = await supabase
+        .from('contact_requests')
+        .select('status')
+        .eq('id', requestId)
+        .single();
+
+      if (fetchError) throw fetchError;
+      if (!canTransitionContactRequest(current.status, status)) {
+        throw new Error(`A ${getContactRequestStatusInfo(current.status).label.toLowerCase()} request can't be marked ${getContactRequestStatusInfo(status).label.toLowerCase()}`);
+      }
+
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
         .from('contact_requests')
         .update({ 
           status,
-          updated_at: new Date().toISOString()
+          // Acting on a request means the seller has seen it
+          seller_read_at: now,
+          updated_at: now
         })
-        .eq('id', requestId);
+        .eq('id', requestId)
+        .select()
+        .single();
 
       if (error) throw error;
+      return data;
     } catch (error) {
       throw new Error(handleSupabaseError(error));
     }
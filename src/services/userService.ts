@@ -511,27 +511,6 @@ export class UserService {
     }
   }
 
-  // Update user preferences
-  static async updateUserPreferences(userId: string, preferences: {
-    notifications?: boolean;
-    locationSharing?: boolean;
-    marketingEmails?: boolean;
-  }): Promise<void> {
-    try {
-      const { error } = await supabase
-        .from('users')
-        .update({ 
-          // Store preferences in metadata or separate table
-          updated_at: new Date().toISOString() 
-        })
-        .eq('id', userId);
-
-      if (error) throw error;
-    } catch (error) {
-      throw new Error(handleSupabaseError(error));
-    }
-  }
-
   // Verify user email
   static async verifyEmail(_token: string): Promise<void> {
     try {
@@ -0,0 +1,49 @@
+import { QueuedAnalyticsEvent, appendQueuedEvent, isNetworkError, removeQueuedEvents } from '../analyticsQueue';
+
+const view = (sellerId: string): QueuedAnalyticsEvent => ({
+  seller_id: sellerId,
+  viewer_id: null,
+  event_type: 'profile_view',
+  created_at: '2026-01-01T10:00:00Z'
+});
+
+describe('appendQueuedEvent', () => {
+  it('adds events in order', () => {
+    const queue = appendQueuedEvent([view('a')], view('b'));
+    expect(queue.map(event => event.seller_id)).toEqual(['a', 'b']);
+  });
+
+  it('drops the oldest events past the limit', () => {
+    let queue: QueuedAnalyticsEvent[] = [];
+    ['a', 'b', 'c', 'd'].forEach(id => {
+      queue = appendQueuedEvent(queue, view(id), 3);
+    });
+    expect(queue.map(event => event.seller_id)).toEqual(['b', 'c', 'd']);
+  });
+});
+
+describe('removeQueuedEvents', () => {
+  it('keeps events queued during a flush even when the full queue shifted', () => {
+    let queue: QueuedAnalyticsEvent[] = [];
+    ['a', 'b', 'c'].forEach(id => {
+      queue = appendQueuedEvent(queue, view(id), 3);
+    });
+    const sent = queue;
+
+    queue = appendQueuedEvent(queue, view('d'), 3);
+    expect(removeQueuedEvents(queue, sent).map(event => event.seller_id)).toEqual(['d']);
+  });
+});
+
+describe('isNetworkError', () => {
+  it('recognises failed fetches across browsers', () => {
+    expect(isNetworkError({ message: 'TypeError: Failed to fetch' })).toBe(true);
+    expect(isNetworkError({ message: 'NetworkError when attempting to fetch resource.' })).toBe(true);
+    expect(isNetworkError(new TypeError('Load failed'))).toBe(true);
+  });
+
+  it('leaves database errors alone', () => {
+    expect(isNetworkError({ message: 'new row violates row-level security policy' })).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+  });
+});
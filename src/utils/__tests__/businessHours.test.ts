@@ -0,0 +1,109 @@
+import {
+  parseHoursString,
+  formatSchedule,
+  getOpenStatus,
+  isOpenAt,
+  formatOpenStatus,
+  createEmptySchedule,
+  parseSchedule,
+  getOverrideForDate,
+  getIntervalsForDate,
+  formatOverride
+} from '../businessHours';
+
+// Africa/Casablanca is UTC+1 outside Ramadan, so 09:00 UTC is 10:00 local
+const at = (isoUtc: string) => new Date(isoUtc);
+
+describe('Business hours parsing', () => {
+  it('should migrate the default hours string', () => {
+    const schedule = parseHoursString('Mon-Fri: 8:00 AM - 6:00 PM, Sat-Sun: 9:00 AM - 5:00 PM');
+    expect(schedule?.days.monday).toEqual([{ open: '08:00', close: '18:00' }]);
+    expect(schedule?.days.sunday).toEqual([{ open: '09:00', close: '17:00' }]);
+  });
+
+  it('should keep split days and multiple intervals', () => {
+    const schedule = parseHoursString('Mon, Wed: 9:00 AM - 12:00 PM, 3:00 PM - 7:00 PM, Fri: 18h - 2h');
+    expect(schedule?.days.monday).toHaveLength(2);
+    expect(schedule?.days.tuesday).toEqual([]);
+    expect(schedule?.days.friday).toEqual([{ open: '18:00', close: '02:00' }]);
+  });
+
+  it('should refuse strings it cannot fully understand', () => {
+    expect(parseHoursString('Call me for hours')).toBeNull();
+    expect(parseHoursString('Mon-Fri: 9:00 AM - 5:00 PM except holidays')).toBeNull();
+    expect(parseHoursString('')).toBeNull();
+  });
+
+  it('should round-trip through formatSchedule', () => {
+    const schedule = parseHoursString('Mon-Fri: 08:00 - 18:00, Sat: 09:00 - 13:00 & 15:00 - 19:00');
+    expect(schedule).not.toBeNull();
+    const formatted = formatSchedule(schedule!);
+    expect(formatted).toBe('Mon-Fri: 08:00 - 18:00, Sat: 09:00 - 13:00 & 15:00 - 19:00');
+    expect(parseHoursString(formatted)).toEqual(schedule);
+  });
+});
+
+describe('Open now computation', () => {
+  const schedule = parseHoursString('Mon-Fri: 08:00 - 18:00, Sat: 20:00 - 02:00')!;
+
+  it('should report open with the closing time', () => {
+    // Wednesday 10:00 local
+    const status = getOpenStatus(schedule, at('2025-01-15T09:00:00Z'));
+    expect(status).toEqual({ isOpen: true, closesAt: '18:00' });
+    expect(formatOpenStatus(status)).toBe('Open now · closes at 18:00');
+  });
+
+  it('should handle overnight spans', () => {
+    // Sunday 01:00 local, still inside Saturday's 20:00 - 02:00
+    expect(isOpenAt(schedule, at('2025-01-19T00:00:00Z'))).toBe(true);
+    // Sunday 03:00 local
+    const status = getOpenStatus(schedule, at('2025-01-19T02:00:00Z'));
+    expect(status.isOpen).toBe(false);
+    expect(status.opensOn).toBe('monday');
+    expect(status.opensAt).toBe('08:00');
+  });
+
+  it('should give the opening time later the same day', () => {
+    // Monday 06:00 local
+    expect(getOpenStatus(schedule, at('2025-01-13T05:00:00Z'))).toEqual({ isOpen: false, opensAt: '08:00' });
+  });
+
+  it('should treat an empty schedule as closed', () => {
+    expect(getOpenStatus(createEmptySchedule(), at('2025-01-15T09:00:00Z'))).toEqual({ isOpen: false });
+  });
+});
+
+describe('Special hours overrides', () => {
+  const schedule = {
+    ...parseHoursString('Daily 08:00 - 18:00')!,
+    overrides: [
+      { id: 'ramadan', label: 'Ramadan', startDate: '2025-03-01', endDate: '2025-03-30', intervals: [{ open: '10:00', close: '16:00' }, { open: '21:00', close: '02:00' }] },
+      { id: 'eid', label: 'Eid al-Fitr', startDate: '2025-03-30', endDate: '2025-03-31', intervals: [] },
+    ],
+  };
+
+  it('should use the override hours for dates it covers', () => {
+    // Wednesday 5 March 09:00 local (UTC+0 during Ramadan)
+    expect(getOpenStatus(schedule, at('2025-03-05T09:00:00Z'))).toEqual({ isOpen: false, opensAt: '10:00', override: 'Ramadan' });
+    // 23:00 local, inside the evening interval
+    expect(getOpenStatus(schedule, at('2025-03-05T23:00:00Z'))).toEqual({ isOpen: true, closesAt: '02:00', override: 'Ramadan' });
+  });
+
+  it('should let the shorter override win and skip closed days', () => {
+    expect(getOverrideForDate(schedule, '2025-03-30')?.id).toBe('eid');
+    // Sunday 30 March 12:00 local: closed for Eid, normal hours again on 1 April
+    const status = getOpenStatus(schedule, at('2025-03-30T12:00:00Z'));
+    expect(status).toEqual({ isOpen: false, opensAt: '08:00', opensOn: 'tuesday', override: 'Eid al-Fitr' });
+    expect(formatOpenStatus(status)).toBe('Closed · opens Tue 08:00 (Eid al-Fitr)');
+  });
+
+  it('should fall back to the weekly hours outside the range', () => {
+    expect(getIntervalsForDate(schedule, '2025-04-01')).toEqual([{ open: '08:00', close: '18:00' }]);
+  });
+
+  it('should keep valid overrides when reading stored JSON', () => {
+    const parsed = parseSchedule({ ...schedule, overrides: [...schedule.overrides, { id: 'bad', startDate: '2025-05-02', endDate: '2025-05-01', intervals: [] }] });
+    expect(parsed?.overrides).toEqual(schedule.overrides);
+    expect(formatOverride(schedule.overrides[0])).toBe('1 Mar 2025 - 30 Mar 2025: 10:00 - 16:00 & 21:00 - 02:00');
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  addCartItem,
+  updateCartItemQuantity,
+  updateCartItemNotes,
+  removeCartItem,
+  getCartItemCount,
+  getCartSubtotal,
+  MAX_CART_ITEM_QUANTITY
+} from '../cart';
+
+const latte = { drinkId: 'd1', name: 'Latte', price: 18, quantity: 1 };
+const matcha = { drinkId: 'd2', name: 'Matcha', price: 22.5, quantity: 2 };
+
+describe('Cart helpers', () => {
+  it('should merge identical lines and keep different notes apart', () => {
+    let items = addCartItem([], latte);
+    items = addCartItem(items, latte);
+    expect(items).toHaveLength(1);
+    expect(items[0].quantity).toBe(2);
+
+    items = addCartItem(items, { ...latte, notes: 'oat milk' });
+    expect(items).toHaveLength(2);
+  });
+
+  it('should remove a line when its quantity drops to zero', () => {
+    const items = addCartItem(addCartItem([], latte), matcha);
+    expect(updateCartItemQuantity(items, 0, 0)).toEqual([matcha]);
+    expect(removeCartItem(items, 1)).toEqual([latte]);
+  });
+
+  it('should cap quantities at the order limit', () => {
+    const items = updateCartItemQuantity([latte], 0, 80);
+    expect(items[0].quantity).toBe(MAX_CART_ITEM_QUANTITY);
+  });
+
+  it('should update notes on a single line', () => {
+    const items = updateCartItemNotes([latte, matcha], 1, 'less sugar');
+    expect(items[1].notes).toBe('less sugar');
+    expect(items[0].notes).toBeUndefined();
+  });
+
+  it('should count drinks and compute the subtotal in Dh', () => {
+    const items = [latte, matcha];
+    expect(getCartItemCount(items)).toBe(3);
+    expect(getCartSubtotal(items)).toBe(63);
+  });
+
+  it('should use the stored line total when a promotion set it', () => {
+    // Buy 2 get 1 free on three lattes
+    const bundle = { ...latte, quantity: 3, lineTotal: 36 };
+    expect(getCartSubtotal([bundle, matcha])).toBe(36 + matcha.price * matcha.quantity);
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  canTransitionContactRequest,
+  getNextContactRequestStatuses,
+  countUnreadContactRequests,
+  filterContactRequests,
+  getContactRequestStatusInfo
+} from '../contactRequestStatus';
+
+describe('Contact request status', () => {
+  it('should move pending requests forward', () => {
+    expect(getNextContactRequestStatuses('pending')).toEqual(['responded', 'completed']);
+    expect(canTransitionContactRequest('pending', 'responded')).toBe(true);
+  });
+
+  it('should allow reopening a responded request but not a completed one', () => {
+    expect(canTransitionContactRequest('responded', 'pending')).toBe(true);
+    expect(canTransitionContactRequest('completed', 'pending')).toBe(false);
+    expect(getNextContactRequestStatuses('completed')).toHaveLength(0);
+  });
+
+  it('should count requests the seller has not opened', () => {
+    expect(countUnreadContactRequests([
+      { seller_read_at: null },
+      { seller_read_at: '2025-03-01T10:00:00Z' },
+      { seller_read_at: null }
+    ])).toBe(2);
+  });
+
+  it('should filter by contact type', () => {
+    const requests = [
+      { id: '1', contact_type: 'whatsapp' as const },
+      { id: '2', contact_type: 'phone' as const },
+      { id: '3', contact_type: 'whatsapp' as const }
+    ];
+    expect(filterContactRequests(requests, 'whatsapp').map(r => r.id)).toEqual(['1', '3']);
+    expect(filterContactRequests(requests, 'all')).toHaveLength(3);
+    expect(getContactRequestStatusInfo('responded').label).toBe('Responded');
+  });
+});
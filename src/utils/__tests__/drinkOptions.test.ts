@@ -0,0 +1,87 @@
+import {
+  DrinkOptionGroup,
+  sanitizeOptionGroups,
+  getDefaultSelections,
+  toggleOptionSelection,
+  validateOptionSelections,
+  resolveSelectedOptions,
+  getOptionsUnitPrice,
+  getDrinkPriceRange,
+  formatSelectedOptions
+} from '../drinkOptions';
+
+const size: DrinkOptionGroup = {
+  id: 'size',
+  name: 'Size',
+  required: true,
+  selection: 'single',
+  options: [
+    { id: 's', name: 'Small', priceDelta: 0 },
+    { id: 'l', name: 'Large', priceDelta: 6 }
+  ]
+};
+
+const extras: DrinkOptionGroup = {
+  id: 'extras',
+  name: 'Extras',
+  required: false,
+  selection: 'multiple',
+  options: [
+    { id: 'shot', name: 'Extra shot', priceDelta: 4 },
+    { id: 'cream', name: 'Whipped cream', priceDelta: 3 }
+  ]
+};
+
+describe('Drink options', () => {
+  it('should preselect the first choice of required single-select groups', () => {
+    expect(getDefaultSelections([size, extras])).toEqual({ size: ['s'] });
+  });
+
+  it('should keep single-select groups to one choice', () => {
+    const selections = toggleOptionSelection({ size: ['s'] }, size, 'l');
+    expect(selections.size).toEqual(['l']);
+
+    const withExtras = toggleOptionSelection(toggleOptionSelection(selections, extras, 'shot'), extras, 'cream');
+    expect(withExtras.extras).toEqual(['shot', 'cream']);
+  });
+
+  it('should report missing required groups', () => {
+    expect(validateOptionSelections([size, extras], {})).toHaveLength(1);
+    expect(validateOptionSelections([size, extras], { size: ['l'] })).toEqual([]);
+  });
+
+  it('should add option price changes to the base price', () => {
+    const options = resolveSelectedOptions([size, extras], { size: ['l'], extras: ['shot'] });
+    expect(getOptionsUnitPrice(18, options)).toBe(28);
+    expect(formatSelectedOptions(options)).toBe('Large, Extra shot');
+  });
+
+  it('should compute the price range across all configurations', () => {
+    expect(getDrinkPriceRange(18, [size, extras])).toEqual({ min: 18, max: 31 });
+  });
+
+  it('should reject unnamed choices and duplicate IDs', () => {
+    expect(() => sanitizeOptionGroups([{ ...size, options: [{ id: 'x', name: ' ', priceDelta: 0 }] }])).toThrow();
+    expect(() => sanitizeOptionGroups([size, { ...extras, id: 'size' }])).toThrow();
+    expect(sanitizeOptionGroups([{ ...size, name: '  Size ' }])[0].name).toBe('Size');
+  });
+
+  it('should reject choices that can bring the price below 0', () => {
+    const discounts: DrinkOptionGroup = {
+      ...extras,
+      options: [
+        { id: 'own-cup', name: 'Own cup', priceDelta: -5 },
+        { id: 'no-ice', name: 'No ice', priceDelta: -2 }
+      ]
+    };
+
+    expect(() => sanitizeOptionGroups([discounts], 6)).toThrow('below 0');
+    expect(sanitizeOptionGroups([discounts], 7)).toHaveLength(1);
+    expect(sanitizeOptionGroups([discounts])).toHaveLength(1);
+  });
+
+  it('should never price a drink below 0', () => {
+    const options = resolveSelectedOptions([{ ...size, options: [{ id: 's', name: 'Small', priceDelta: -20 }] }], { size: ['s'] });
+    expect(getOptionsUnitPrice(18, options)).toBe(0);
+  });
+});
@@ -0,0 +1,193 @@
+import { geocodeAddress, reverseGeocode, searchAddresses, setGeocodingProviders, type GeocodeResult } from '../geocoding';
+import {
+  FetchJson,
+  GeocodingProvider,
+  createFixtureProvider,
+  createNominatimProvider,
+  createOrsProvider,
+  createPhotonProvider,
+  geocodeWithProviders,
+  getConfidence,
+  getProviderOrder,
+  isLowConfidence,
+  searchWithProviders
+} from '../geocodingProviders';
+
+// Trimmed responses recorded from each API
+const RESPONSES: Record<string, unknown> = {
+  ors: {
+    features: [{
+      geometry: { coordinates: [-7.6325, 33.5892] },
+      properties: { label: '12 Rue Ibnou Mounir, Casablanca, Morocco', layer: 'address', confidence: 1 }
+    }]
+  },
+  orsLocality: {
+    features: [{
+      geometry: { coordinates: [-7.5898, 33.5731] },
+      properties: { label: 'Casablanca, Morocco', layer: 'locality', confidence: 0.6 }
+    }]
+  },
+  nominatim: [{
+    lat: '33.5892',
+    lon: '-7.6325',
+    display_name: 'Café Atlas, Rue Ibnou Mounir, Maârif, Casablanca, Morocco',
+    place_rank: 30
+  }, {
+    lat: '33.5880',
+    lon: '-7.6300',
+    display_name: 'Rue Ibnou Mounir, Maârif, Casablanca, Morocco',
+    place_rank: 26
+  }],
+  photon: {
+    features: [{
+      geometry: { coordinates: [-7.6325, 33.5892] },
+      properties: { name: 'Café Atlas', housenumber: '12', street: 'Rue Ibnou Mounir', district: 'Maârif', city: 'Casablanca', country: 'Morocco', type: 'house' }
+    }, {
+      geometry: { coordinates: [-7.5898, 33.5731] },
+      properties: { name: 'Casablanca', city: 'Casablanca', country: 'Morocco', type: 'city' }
+    }]
+  }
+};
+
+const recordingFetch = (response: unknown) => {
+  const urls: string[] = [];
+  const fetchJson: FetchJson = async (url) => {
+    urls.push(url);
+    return response;
+  };
+  return { urls, fetchJson };
+};
+
+const result = (formattedAddress: string, confidence: number): GeocodeResult => ({
+  coordinates: { latitude: 33.59, longitude: -7.63 },
+  formattedAddress,
+  confidence,
+  provider: 'fixture'
+});
+
+const failingProvider: GeocodingProvider = {
+  id: 'ors',
+  geocode: async () => { throw new Error('429'); },
+  search: async () => { throw new Error('429'); },
+  reverse: async () => { throw new Error('429'); }
+};
+
+describe('getConfidence', () => {
+  it('caps the provider score by how precise the match is', () => {
+    expect(getConfidence('address', 1)).toBe(0.9);
+    expect(getConfidence('address', 0.4)).toBe(0.4);
+    expect(getConfidence('city', 1)).toBe(0.3);
+    expect(getConfidence('street')).toBe(0.7);
+  });
+
+  it('flags anything vaguer than an address as low confidence', () => {
+    expect(isLowConfidence({ confidence: 0.9 })).toBe(false);
+    expect(isLowConfidence({ confidence: 0.7 })).toBe(true);
+  });
+});
+
+describe('providers', () => {
+  it('parses OpenRouteService features', async () => {
+    const { urls, fetchJson } = recordingFetch(RESPONSES.ors);
+    const parsed = await createOrsProvider('key', fetchJson).geocode('12 Rue Ibnou Mounir');
+
+    expect(urls[0]).toContain('/geocode/search?api_key=key&text=12%20Rue%20Ibnou%20Mounir&size=1');
+    expect(parsed).toEqual({
+      coordinates: { latitude: 33.5892, longitude: -7.6325 },
+      formattedAddress: '12 Rue Ibnou Mounir, Casablanca, Morocco',
+      confidence: 0.9,
+      provider: 'ors'
+    });
+
+    const { fetchJson: localityFetch } = recordingFetch(RESPONSES.orsLocality);
+    expect((await createOrsProvider('key', localityFetch).geocode('Casablanca'))!.confidence).toBe(0.3);
+  });
+
+  it('parses Nominatim places by place rank', async () => {
+    const { urls, fetchJson } = recordingFetch(RESPONSES.nominatim);
+    const results = await createNominatimProvider('https://geo.example.ma/', fetchJson).search('Café Atlas', 2);
+
+    expect(urls[0]).toBe('https://geo.example.ma/search?q=Caf%C3%A9%20Atlas&format=jsonv2&limit=2');
+    expect(results.map(item => item.confidence)).toEqual([0.9, 0.7]);
+    expect(results[0].coordinates).toEqual({ latitude: 33.5892, longitude: -7.6325 });
+  });
+
+  it('keeps suggestions off the public Nominatim instance', async () => {
+    const { urls, fetchJson } = recordingFetch(RESPONSES.nominatim);
+    const provider = createNominatimProvider('https://nominatim.openstreetmap.org/', fetchJson);
+
+    expect(await provider.search('Café Atlas', 5)).toEqual([]);
+    expect(urls).toEqual([]);
+    expect((await provider.geocode('Café Atlas'))!.confidence).toBe(0.9);
+    expect(urls[0]).toBe('https://nominatim.openstreetmap.org/search?q=Caf%C3%A9%20Atlas&format=jsonv2&limit=1');
+  });
+
+  it('builds Photon labels from address parts', async () => {
+    const { fetchJson } = recordingFetch(RESPONSES.photon);
+    const results = await createPhotonProvider('https://photon.komoot.io', fetchJson).search('Café Atlas', 5);
+
+    expect(results[0].formattedAddress).toBe('Café Atlas, 12 Rue Ibnou Mounir, Maârif, Casablanca, Morocco');
+    expect(results[0].confidence).toBe(0.9);
+    expect(results[1].formattedAddress).toBe('Casablanca, Morocco');
+    expect(results[1].confidence).toBe(0.3);
+  });
+
+  it('answers from fixtures', async () => {
+    const fixtures = createFixtureProvider({
+      search: { 'café atlas': [result('Café Atlas', 0.9)] },
+      reverse: { '33.5892,-7.6325': 'Café Atlas, Casablanca' }
+    });
+
+    expect((await fixtures.geocode('  Café Atlas '))!.formattedAddress).toBe('Café Atlas');
+    expect(await fixtures.search('unknown', 5)).toEqual([]);
+    expect(await fixtures.reverse({ latitude: 33.58921, longitude: -7.63249 })).toBe('Café Atlas, Casablanca');
+  });
+});
+
+describe('getProviderOrder', () => {
+  it('follows the setting and drops unknown names and duplicates', () => {
+    expect(getProviderOrder('nominatim, Photon,foo,nominatim', true)).toEqual(['nominatim', 'photon']);
+  });
+
+  it('skips ORS without an API key', () => {
+    expect(getProviderOrder('ors,nominatim', false)).toEqual(['nominatim']);
+    expect(getProviderOrder(undefined, false)).toEqual(['photon', 'nominatim']);
+    expect(getProviderOrder('', true)).toEqual(['ors', 'photon', 'nominatim']);
+  });
+});
+
+describe('fallback chain', () => {
+  it('skips failing providers', async () => {
+    const fixtures = createFixtureProvider({ search: { 'rue ibnou mounir': [result('Rue Ibnou Mounir', 0.9)] } });
+
+    expect((await geocodeWithProviders([failingProvider, fixtures], 'Rue Ibnou Mounir'))!.formattedAddress)
+      .toBe('Rue Ibnou Mounir');
+    expect(await searchWithProviders([failingProvider, fixtures], 'Rue Ibnou Mounir', 5)).toHaveLength(1);
+  });
+
+  it('keeps looking past an approximate match and returns the best one', async () => {
+    const vague = createFixtureProvider({ search: { maarif: [result('Maârif, Casablanca', 0.5)] } });
+    const precise = createFixtureProvider({ search: { maarif: [result('12 Rue Ibnou Mounir, Maârif', 0.9)] } });
+    const none = createFixtureProvider({});
+
+    expect((await geocodeWithProviders([vague, precise], 'Maarif'))!.confidence).toBe(0.9);
+    expect((await geocodeWithProviders([vague, none], 'Maarif'))!.confidence).toBe(0.5);
+  });
+});
+
+describe('geocodeAddress', () => {
+  it('returns null instead of a city centre when nothing matches', async () => {
+    setGeocodingProviders([createFixtureProvider({
+      search: { 'casablanca': [result('Casablanca', 0.3)] },
+      reverse: { '33.5892,-7.6325': 'Café Atlas' }
+    })]);
+
+    expect(await geocodeAddress('Nowhere street, Casablanca')).toBeNull();
+    expect((await geocodeAddress('Casablanca'))!.confidence).toBe(0.3);
+    expect(await searchAddresses('Ca')).toEqual([]);
+    expect(await reverseGeocode(33.5892, -7.6325)).toBe('Café Atlas');
+    expect(await reverseGeocode(200, 0)).toBeNull();
+
+    setGeocodingProviders(null);
+  });
+});
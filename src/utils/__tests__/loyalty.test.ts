@@ -0,0 +1,50 @@
+import {
+  LOYALTY_CODE_LENGTH,
+  generateLoyaltyCode,
+  normalizeLoyaltyCode,
+  isValidLoyaltyCode,
+  getStampCooldownMinutes,
+  addStamp,
+  getLoyaltyProgress,
+  validateLoyaltyCard
+} from '../loyalty';
+
+describe('Loyalty', () => {
+  it('should generate readable one-time codes', () => {
+    const code = generateLoyaltyCode();
+    expect(code).toHaveLength(LOYALTY_CODE_LENGTH);
+    expect(isValidLoyaltyCode(code)).toBe(true);
+    expect(code).not.toMatch(/[01IO]/);
+  });
+
+  it('should accept typed codes and scanned stamp links', () => {
+    expect(normalizeLoyaltyCode(' ab3-k7p ')).toBe('AB3K7P');
+    expect(normalizeLoyaltyCode('https://machroub.ma/loyalty/stamp/AB3K7P')).toBe('AB3K7P');
+    expect(isValidLoyaltyCode('AB3K7')).toBe(false);
+    expect(isValidLoyaltyCode('AB3K70')).toBe(false);
+  });
+
+  it('should enforce the cooldown between stamps', () => {
+    const now = new Date('2025-05-07T10:00:00Z');
+    expect(getStampCooldownMinutes(null, now)).toBe(0);
+    expect(getStampCooldownMinutes('2025-05-07T09:50:00Z', now)).toBe(20);
+    expect(getStampCooldownMinutes('2025-05-07T09:00:00Z', now)).toBe(0);
+  });
+
+  it('should turn a full card into a reward', () => {
+    expect(addStamp({ stamps: 3, rewards_available: 0 }, 5)).toEqual({ stamps: 4, rewards_available: 0, rewardEarned: false });
+    expect(addStamp({ stamps: 4, rewards_available: 1 }, 5)).toEqual({ stamps: 0, rewards_available: 2, rewardEarned: true });
+  });
+
+  it('should report progress for buyers without stamps yet', () => {
+    expect(getLoyaltyProgress({ stamps_required: 8 }, null)).toEqual({
+      stamps: 0, required: 8, remaining: 8, rewardsAvailable: 0, percent: 0
+    });
+    expect(getLoyaltyProgress({ stamps_required: 8 }, { stamps: 2, rewards_available: 1 }).percent).toBe(25);
+  });
+
+  it('should validate the card settings', () => {
+    expect(validateLoyaltyCard({ stamps_required: 8, reward: 'A free coffee', is_active: true })).toEqual([]);
+    expect(validateLoyaltyCard({ stamps_required: 1, reward: ' ', is_active: true })).toHaveLength(2);
+  });
+});
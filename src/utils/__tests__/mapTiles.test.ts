@@ -0,0 +1,37 @@
+import { getTileUrl, getTileUrlsAround, latLngToTile } from '../mapTiles';
+
+describe('latLngToTile', () => {
+  it('finds the Web Mercator tile for a point', () => {
+    expect(latLngToTile({ lat: 0, lng: 0 }, 1)).toEqual({ x: 1, y: 1, z: 1 });
+    expect(latLngToTile({ lat: 51.5074, lng: -0.1278 }, 10)).toEqual({ x: 511, y: 340, z: 10 });
+  });
+
+  it('stays inside the tile grid near the poles and the antimeridian', () => {
+    expect(latLngToTile({ lat: 89.9, lng: 180 }, 2)).toEqual({ x: 3, y: 0, z: 2 });
+    expect(latLngToTile({ lat: -89.9, lng: -180 }, 2)).toEqual({ x: 0, y: 3, z: 2 });
+  });
+});
+
+describe('getTileUrl', () => {
+  it('uses the same subdomain as Leaflet', () => {
+    expect(getTileUrl({ x: 511, y: 340, z: 10 })).toBe('https://c.tile.openstreetmap.org/10/511/340.png');
+    expect(getTileUrl({ x: 1, y: 2, z: 3 })).toBe('https://a.tile.openstreetmap.org/3/1/2.png');
+  });
+});
+
+describe('getTileUrlsAround', () => {
+  const casablanca = { lat: 33.5731, lng: -7.5898 };
+
+  it('covers a square of tiles around the location at each zoom', () => {
+    const urls = getTileUrlsAround(casablanca, [13, 14], 1);
+    const center = latLngToTile(casablanca, 14);
+
+    expect(urls).toHaveLength(18);
+    expect(urls).toContain(getTileUrl(center));
+    expect(new Set(urls).size).toBe(18);
+  });
+
+  it('clips the square at the edge of the world', () => {
+    expect(getTileUrlsAround({ lat: 85, lng: -180 }, [2], 1)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  PRINT_LAYOUTS,
+  QR_CAMPAIGN_PRESETS,
+  buildMenuUrl,
+  parseCampaignParams,
+  buildQrPrintHtml
+} from '../menuQr';
+
+describe('Menu QR codes', () => {
+  it('should tag the menu link with the campaign', () => {
+    const url = buildMenuUrl('https://machroub.ma', '/menu/atlas-coffee', QR_CAMPAIGN_PRESETS[0].params);
+    expect(url).toBe('https://machroub.ma/menu/atlas-coffee?utm_source=qr&utm_medium=sticker&utm_campaign=stall');
+    expect(buildMenuUrl('https://machroub.ma', '/menu/atlas-coffee')).toBe('https://machroub.ma/menu/atlas-coffee');
+  });
+
+  it('should read and clean campaign parameters', () => {
+    expect(parseCampaignParams('?utm_source=QR&utm_medium=sticker&utm_campaign=<b>stall</b>')).toEqual({
+      source: 'qr', medium: 'sticker', campaign: 'bstallb'
+    });
+    expect(parseCampaignParams('?utm_medium=sticker')).toBeNull();
+    expect(parseCampaignParams('')).toBeNull();
+  });
+
+  it('should lay out a sheet of stickers and escape the business name', () => {
+    const html = buildQrPrintHtml({
+      svg: '<svg></svg>',
+      businessName: 'Tea & <Co>',
+      url: 'https://machroub.ma/menu/tea-co?utm_source=qr',
+      layout: PRINT_LAYOUTS[0]
+    });
+    expect(html.split('<svg></svg>')).toHaveLength(PRINT_LAYOUTS[0].copies + 1);
+    expect(html).toContain('Tea &amp; &lt;Co&gt;');
+    expect(html).toContain('size: A4');
+  });
+
+  it('should show the plain link on single cards', () => {
+    const html = buildQrPrintHtml({
+      svg: '<svg></svg>',
+      businessName: 'Atlas',
+      url: 'https://machroub.ma/menu/atlas?utm_source=qr',
+      layout: PRINT_LAYOUTS[1]
+    });
+    expect(html).toContain('machroub.ma/menu/atlas<');
+    expect(html).toContain('size: A6');
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  MAX_MESSAGE_LENGTH,
+  validateMessageBody,
+  toInAppMessage,
+  getMessagePreview,
+  countUnreadByConversation,
+  getLastReadMessageId
+} from '../messaging';
+
+describe('Messaging', () => {
+  it('should reject empty and overly long messages', () => {
+    expect(validateMessageBody('  \n ')).toBe('Message cannot be empty');
+    expect(validateMessageBody('a'.repeat(MAX_MESSAGE_LENGTH + 1))).not.toBeNull();
+    expect(validateMessageBody('Salam!')).toBeNull();
+  });
+
+  it('should strip WhatsApp formatting from templates', () => {
+    const whatsapp = ['🍵 Hi!', '', '📋 *Interested in:* Matcha latte', '', 'Thanks!', '_Sent via Machroub_'].join('\n');
+    expect(toInAppMessage(whatsapp)).toBe(['🍵 Hi!', '', '📋 Interested in: Matcha latte', '', 'Thanks!'].join('\n'));
+  });
+
+  it('should preview the first line only', () => {
+    expect(getMessagePreview('Hello there\nSecond line')).toBe('Hello there');
+    expect(getMessagePreview('a'.repeat(200))).toHaveLength(80);
+  });
+
+  it('should count unread messages from the other side per conversation', () => {
+    const messages = [
+      { conversation_id: 'c1', sender_id: 'seller', read_at: null },
+      { conversation_id: 'c1', sender_id: 'seller', read_at: '2025-05-01T10:00:00Z' },
+      { conversation_id: 'c1', sender_id: 'buyer', read_at: null },
+      { conversation_id: 'c2', sender_id: 'seller', read_at: null }
+    ];
+    expect(countUnreadByConversation(messages, 'buyer')).toEqual({ c1: 1, c2: 1 });
+  });
+
+  it('should find the latest own message that was read', () => {
+    const messages = [
+      { id: 'm1', sender_id: 'buyer', read_at: '2025-05-01T10:05:00Z', created_at: '2025-05-01T10:00:00Z' },
+      { id: 'm2', sender_id: 'buyer', read_at: '2025-05-01T10:05:00Z', created_at: '2025-05-01T10:01:00Z' },
+      { id: 'm3', sender_id: 'buyer', read_at: null, created_at: '2025-05-01T10:02:00Z' },
+      { id: 'm4', sender_id: 'seller', read_at: null, created_at: '2025-05-01T10:03:00Z' }
+    ];
+    expect(getLastReadMessageId(messages, 'buyer')).toBe('m2');
+    expect(getLastReadMessageId(messages, 'seller')).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  AppNotification,
+  NOTIFICATION_LIST_LIMIT,
+  buildNewSellerNotification,
+  getNewSellerDistance,
+  getUnreadNotificationCount,
+  mergeNotification
+} from '../notifications';
+import { DEFAULT_PREFERENCES, updatePreferenceCategory } from '../preferences';
+
+const casablanca = { latitude: 33.5731, longitude: -7.5898 };
+
+const seller = {
+  id: 'seller-1',
+  business_name: 'Café Atlas',
+  specialty: 'coffee' as const,
+  latitude: 33.59,
+  longitude: -7.6
+};
+
+const notification = (id: string, createdAt: string, readAt: string | null = null): AppNotification => ({
+  id,
+  user_id: 'user-1',
+  type: 'contact_request',
+  title: 'Title',
+  body: 'Body',
+  url: '/profile',
+  data: null,
+  read_at: readAt,
+  created_at: createdAt
+});
+
+describe('getNewSellerDistance', () => {
+  it('returns the distance for a seller inside the radius', () => {
+    const distance = getNewSellerDistance(seller, 'user-1', casablanca, DEFAULT_PREFERENCES);
+    expect(distance).toBeGreaterThan(0);
+    expect(distance! < 5).toBe(true);
+  });
+
+  it('ignores sellers outside the radius', () => {
+    const rabat = { ...seller, latitude: 34.0209, longitude: -6.8416 };
+    expect(getNewSellerDistance(rabat, 'user-1', casablanca, DEFAULT_PREFERENCES)).toBeNull();
+
+    const smallRadius = updatePreferenceCategory(DEFAULT_PREFERENCES, 'location', { radius: 1 });
+    expect(getNewSellerDistance(seller, 'user-1', casablanca, smallRadius)).toBeNull();
+  });
+
+  it('ignores the user themselves, a missing location and a disabled toggle', () => {
+    expect(getNewSellerDistance(seller, 'seller-1', casablanca, DEFAULT_PREFERENCES)).toBeNull();
+    expect(getNewSellerDistance(seller, 'user-1', null, DEFAULT_PREFERENCES)).toBeNull();
+
+    const off = updatePreferenceCategory(DEFAULT_PREFERENCES, 'notifications', { newSellers: false });
+    expect(getNewSellerDistance(seller, 'user-1', casablanca, off)).toBeNull();
+  });
+});
+
+describe('buildNewSellerNotification', () => {
+  it('links to the seller page', () => {
+    const built = buildNewSellerNotification('user-1', { ...seller, specialty: 'both' }, 2.345);
+
+    expect(built.user_id).toBe('user-1');
+    expect(built.type).toBe('new_seller');
+    expect(built.title).toBe('Café Atlas just joined Machroub');
+    expect(built.body).toBe('A new coffee & matcha seller 2.3 km from you.');
+    expect(built.url).toBe('/seller/seller-1');
+  });
+});
+
+describe('mergeNotification', () => {
+  it('keeps the newest first and replaces updated entries', () => {
+    const list = [notification('b', '2026-01-02T00:00:00Z'), notification('a', '2026-01-01T00:00:00Z')];
+
+    const withNew = mergeNotification(list, notification('c', '2026-01-03T00:00:00Z'));
+    expect(withNew.map(item => item.id)).toEqual(['c', 'b', 'a']);
+
+    const withRead = mergeNotification(withNew, notification('a', '2026-01-01T00:00:00Z', '2026-01-04T00:00:00Z'));
+    expect(withRead.map(item => item.id)).toEqual(['c', 'b', 'a']);
+    expect(getUnreadNotificationCount(withRead)).toBe(2);
+  });
+
+  it('caps the list', () => {
+    let list: AppNotification[] = [];
+    for (let day = 1; day <= NOTIFICATION_LIST_LIMIT + 5; day++) {
+      list = mergeNotification(list, notification(`n${day}`, new Date(Date.UTC(2026, 0, day)).toISOString()));
+    }
+    expect(list).toHaveLength(NOTIFICATION_LIST_LIMIT);
+    expect(list[0].id).toBe(`n${NOTIFICATION_LIST_LIMIT + 5}`);
+  });
+});
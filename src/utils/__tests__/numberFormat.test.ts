@@ -0,0 +1,37 @@
+import { formatNumber, formatPrice, getCurrencyLabel, isArabicLanguage } from '../numberFormat';
+
+describe('isArabicLanguage', () => {
+  it('matches Arabic and Darija with or without a region', () => {
+    expect(isArabicLanguage('ar')).toBe(true);
+    expect(isArabicLanguage('ar-MA')).toBe(true);
+    expect(isArabicLanguage('ary')).toBe(true);
+    expect(isArabicLanguage('fr')).toBe(false);
+    expect(isArabicLanguage(undefined)).toBe(false);
+  });
+});
+
+describe('formatNumber', () => {
+  it('uses Western digits by default', () => {
+    expect(formatNumber(1250)).toBe('1250');
+    expect(formatNumber(12.5, { decimals: 2 })).toBe('12.50');
+  });
+
+  it('uses Arabic-Indic digits only for Arabic languages', () => {
+    expect(formatNumber(125, { language: 'ar', numerals: 'arab' })).toBe('١٢٥');
+    expect(formatNumber(125, { language: 'ary', numerals: 'arab' })).toBe('١٢٥');
+    expect(formatNumber(125, { language: 'fr', numerals: 'arab' })).toBe('125');
+  });
+});
+
+describe('formatPrice', () => {
+  it('keeps the existing "Dh" format outside Arabic', () => {
+    expect(formatPrice(12.5)).toBe('12.50 Dh');
+    expect(formatPrice(30, { language: 'fr', decimals: 0 })).toBe('30 Dh');
+  });
+
+  it('uses the Arabic currency name in Arabic', () => {
+    expect(getCurrencyLabel('ar')).toBe('درهم');
+    expect(formatPrice(12.5, { language: 'ar' })).toBe('12.50 درهم');
+    expect(formatPrice(12.5, { language: 'ar', numerals: 'arab' })).toBe('١٢٫٥٠ درهم');
+  });
+});
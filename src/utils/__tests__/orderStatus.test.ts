@@ -0,0 +1,37 @@
+import {
+  canTransitionOrder,
+  getNextOrderStatuses,
+  isActiveOrderStatus,
+  getOrderStatusInfo
+} from '../orderStatus';
+
+describe('Order status transitions', () => {
+  it('should let the seller accept or cancel a placed order', () => {
+    expect(getNextOrderStatuses('placed', 'seller')).toEqual(['accepted', 'cancelled']);
+    expect(canTransitionOrder('placed', 'accepted', 'seller')).toBe(true);
+  });
+
+  it('should only let the buyer cancel before the seller accepts', () => {
+    expect(canTransitionOrder('placed', 'cancelled', 'buyer')).toBe(true);
+    expect(canTransitionOrder('accepted', 'cancelled', 'buyer')).toBe(false);
+    expect(canTransitionOrder('placed', 'accepted', 'buyer')).toBe(false);
+  });
+
+  it('should not skip the ready step', () => {
+    expect(canTransitionOrder('accepted', 'picked_up', 'seller')).toBe(false);
+    expect(canTransitionOrder('accepted', 'ready', 'seller')).toBe(true);
+    expect(canTransitionOrder('ready', 'picked_up', 'buyer')).toBe(true);
+  });
+
+  it('should treat picked up and cancelled orders as final', () => {
+    expect(getNextOrderStatuses('picked_up', 'seller')).toEqual([]);
+    expect(getNextOrderStatuses('cancelled', 'buyer')).toEqual([]);
+    expect(isActiveOrderStatus('picked_up')).toBe(false);
+    expect(isActiveOrderStatus('cancelled')).toBe(false);
+    expect(isActiveOrderStatus('ready')).toBe(true);
+  });
+
+  it('should expose a label for every status', () => {
+    expect(getOrderStatusInfo('picked_up').label).toBe('Picked up');
+  });
+});
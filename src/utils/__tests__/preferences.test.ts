@@ -0,0 +1,70 @@
+import {
+  DEFAULT_PREFERENCES,
+  UserPreferencesRow,
+  fromPreferencesRow,
+  sanitizePreferences,
+  toPreferencesRow,
+  updatePreferenceCategory
+} from '../preferences';
+
+describe('sanitizePreferences', () => {
+  it('returns the defaults for missing input', () => {
+    expect(sanitizePreferences(null)).toEqual(DEFAULT_PREFERENCES);
+    expect(sanitizePreferences({ location: {} })).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it('keeps valid values and fills in the rest', () => {
+    const preferences = sanitizePreferences({
+      notifications: { promotions: true },
+      location: { radius: 5 },
+      appearance: { theme: 'dark', language: 'ar', numerals: 'arab' }
+    });
+
+    expect(preferences.notifications.promotions).toBe(true);
+    expect(preferences.notifications.orderUpdates).toBe(true);
+    expect(preferences.location.radius).toBe(5);
+    expect(preferences.appearance).toEqual({ theme: 'dark', language: 'ar', numerals: 'arab' });
+    expect(preferences.privacy).toEqual(DEFAULT_PREFERENCES.privacy);
+  });
+
+  it('drops values of the wrong type or outside the options', () => {
+    const preferences = sanitizePreferences({
+      notifications: { push: 'yes' },
+      location: { radius: 7 },
+      appearance: { theme: 'sepia', language: {}, numerals: 'roman' },
+      privacy: { analytics: false }
+    });
+
+    expect(preferences.notifications.push).toBe(false);
+    expect(preferences.location.radius).toBe(25);
+    expect(preferences.appearance).toEqual({ theme: 'system', language: null, numerals: 'latn' });
+    expect(preferences.privacy.analytics).toBe(false);
+  });
+});
+
+describe('preferences rows', () => {
+  it('round-trips through the table columns', () => {
+    const preferences = updatePreferenceCategory(
+      updatePreferenceCategory(DEFAULT_PREFERENCES, 'location', { radius: 10 }),
+      'privacy',
+      { analytics: false }
+    );
+    const row = toPreferencesRow('user-1', preferences);
+
+    expect(row.user_id).toBe('user-1');
+    expect(row.search_radius_km).toBe(10);
+    expect(row.analytics).toBe(false);
+    expect(fromPreferencesRow({ ...row, created_at: '', updated_at: '' } as UserPreferencesRow)).toEqual(preferences);
+  });
+});
+
+describe('updatePreferenceCategory', () => {
+  it('changes one category without touching the others', () => {
+    const updated = updatePreferenceCategory(DEFAULT_PREFERENCES, 'appearance', { theme: 'dark' });
+
+    expect(updated.appearance.theme).toBe('dark');
+    expect(updated.appearance.numerals).toBe('latn');
+    expect(updated.notifications).toBe(DEFAULT_PREFERENCES.notifications);
+    expect(DEFAULT_PREFERENCES.appearance.theme).toBe('system');
+  });
+});
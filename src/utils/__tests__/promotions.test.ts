@@ -0,0 +1,101 @@
+import {
+  Promotion,
+  getDrinkDeal,
+  getPromotionLineTotal,
+  isPromotionActive,
+  formatPromotionLabel,
+  getPromotionStatus,
+  validatePromotion
+} from '../promotions';
+import { createEmptySchedule } from '../businessHours';
+
+// Africa/Casablanca is UTC+1 outside Ramadan, so 09:00 UTC is 10:00 local
+const at = (isoUtc: string) => new Date(isoUtc);
+
+const promotion = (overrides: Partial<Promotion>): Promotion => ({
+  id: 'promo-1',
+  seller_id: 'seller-1',
+  title: 'Deal',
+  type: 'percentage',
+  discount_value: 20,
+  buy_quantity: null,
+  free_quantity: null,
+  drink_ids: [],
+  time_windows: null,
+  starts_at: '2025-05-01T00:00:00Z',
+  ends_at: '2025-06-01T00:00:00Z',
+  is_active: true,
+  created_at: '2025-05-01T00:00:00Z',
+  updated_at: '2025-05-01T00:00:00Z',
+  ...overrides
+});
+
+// Monday 12 May 2025
+const morningWindow = () => {
+  const windows = createEmptySchedule();
+  windows.days.monday = [{ open: '08:00', close: '11:00' }];
+  return windows;
+};
+
+describe('Promotions', () => {
+  it('should only run inside its dates', () => {
+    const deal = promotion({});
+    expect(isPromotionActive(deal, null, at('2025-05-12T09:00:00Z'))).toBe(true);
+    expect(isPromotionActive(deal, null, at('2025-06-02T09:00:00Z'))).toBe(false);
+    expect(isPromotionActive({ ...deal, is_active: false }, null, at('2025-05-12T09:00:00Z'))).toBe(false);
+  });
+
+  it('should respect time windows in Morocco time', () => {
+    const deal = promotion({ time_windows: morningWindow() as unknown as Promotion['time_windows'] });
+    expect(isPromotionActive(deal, null, at('2025-05-12T09:30:00Z'))).toBe(true); // 10:30 local
+    expect(isPromotionActive(deal, null, at('2025-05-12T10:30:00Z'))).toBe(false); // 11:30 local
+    expect(getPromotionStatus(deal, null, at('2025-05-12T10:30:00Z'))).toBe('off_hours');
+    expect(getPromotionStatus(deal, null, at('2025-04-30T10:30:00Z'))).toBe('scheduled');
+    expect(getPromotionStatus(deal, null, at('2025-06-30T10:30:00Z'))).toBe('ended');
+  });
+
+  it('should only run a happy hour while the seller is open', () => {
+    const sellerHours = createEmptySchedule();
+    sellerHours.days.monday = [{ open: '10:00', close: '18:00' }];
+    const happyHour = promotion({ type: 'happy_hour', time_windows: morningWindow() as unknown as Promotion['time_windows'] });
+    expect(isPromotionActive(happyHour, sellerHours, at('2025-05-12T09:30:00Z'))).toBe(true); // 10:30 local
+    expect(isPromotionActive(happyHour, sellerHours, at('2025-05-12T07:30:00Z'))).toBe(false); // 08:30 local, closed
+  });
+
+  it('should pick the lowest price for a drink', () => {
+    const deals = [
+      promotion({ id: 'pct', discount_value: 10 }),
+      promotion({ id: 'fixed', type: 'fixed_amount', discount_value: 5 }),
+      promotion({ id: 'other-drink', discount_value: 50, drink_ids: ['drink-2'] })
+    ];
+    const deal = getDrinkDeal('drink-1', 30, deals, null, at('2025-05-12T09:00:00Z'));
+    expect(deal?.promotion.id).toBe('fixed');
+    expect(deal?.price).toBe(25);
+    expect(deal?.originalPrice).toBe(30);
+  });
+
+  it('should make every other drink free in a 2-for-1 bundle', () => {
+    const bundle = promotion({ type: 'bundle', discount_value: null, buy_quantity: 1, free_quantity: 1 });
+    expect(getPromotionLineTotal(15, 2, bundle)).toBe(15);
+    expect(getPromotionLineTotal(15, 3, bundle)).toBe(30);
+    expect(getPromotionLineTotal(15, 3, null)).toBe(45);
+    expect(formatPromotionLabel(bundle)).toBe('Buy 1 get 1 free');
+  });
+
+  it('should validate the promotion form', () => {
+    const base = {
+      title: 'Morning matcha',
+      type: 'happy_hour' as const,
+      discount_value: 30,
+      buy_quantity: null,
+      free_quantity: null,
+      drink_ids: [],
+      time_windows: null,
+      starts_at: '2025-05-01T00:00',
+      ends_at: null
+    };
+    expect(validatePromotion(base)).toContain('Pick at least one time window for the happy hour');
+    expect(validatePromotion({ ...base, time_windows: morningWindow() })).toEqual([]);
+    expect(validatePromotion({ ...base, type: 'percentage', discount_value: 95 })).toHaveLength(1);
+  });
+});
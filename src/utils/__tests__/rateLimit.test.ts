@@ -0,0 +1,45 @@
+import { createTokenBucket, getDailyCount, recordDailyUsage } from '../rateLimit';
+
+describe('createTokenBucket', () => {
+  it('refuses requests once the bucket is empty', () => {
+    const bucket = createTokenBucket(2, 60 * 1000, () => 0);
+
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+    expect(bucket.available()).toBe(0);
+  });
+
+  it('refills evenly over the interval without going over capacity', () => {
+    let time = 0;
+    const bucket = createTokenBucket(40, 60 * 1000, () => time);
+    for (let i = 0; i < 40; i++) bucket.tryTake();
+
+    time = 1499;
+    expect(bucket.tryTake()).toBe(false);
+    time = 1500;
+    expect(bucket.tryTake()).toBe(true);
+
+    time = 10 * 60 * 1000;
+    expect(bucket.available()).toBe(40);
+  });
+});
+
+describe('daily usage', () => {
+  it('counts requests per UTC day', () => {
+    const morning = new Date('2026-03-10T08:00:00Z');
+    let usage = recordDailyUsage(null, morning);
+    usage = recordDailyUsage(usage, new Date('2026-03-10T23:59:00Z'));
+
+    expect(usage).toEqual({ date: '2026-03-10', count: 2 });
+    expect(getDailyCount(usage, morning)).toBe(2);
+  });
+
+  it('starts over the next day', () => {
+    const usage = { date: '2026-03-10', count: 1999 };
+    const nextDay = new Date('2026-03-11T00:00:01Z');
+
+    expect(getDailyCount(usage, nextDay)).toBe(0);
+    expect(recordDailyUsage(usage, nextDay)).toEqual({ date: '2026-03-11', count: 1 });
+  });
+});
@@ -0,0 +1,36 @@
+import {
+  AUTO_HIDE_REPORT_THRESHOLD,
+  getStatusAfterReports,
+  isRatingPublic,
+  isValidReportReason,
+  computeRatingSummary,
+  getReportReasonInfo
+} from '../ratingModeration';
+
+describe('Rating moderation', () => {
+  it('should hide a published rating once it reaches the report threshold', () => {
+    expect(getStatusAfterReports('published', AUTO_HIDE_REPORT_THRESHOLD - 1)).toBe('published');
+    expect(getStatusAfterReports('published', AUTO_HIDE_REPORT_THRESHOLD)).toBe('hidden');
+  });
+
+  it('should not bring back a removed rating', () => {
+    expect(getStatusAfterReports('removed', AUTO_HIDE_REPORT_THRESHOLD + 5)).toBe('removed');
+  });
+
+  it('should only accept known reasons', () => {
+    expect(isValidReportReason('spam')).toBe(true);
+    expect(isValidReportReason('boring')).toBe(false);
+    expect(getReportReasonInfo('fake').label).toBe('Fake review');
+  });
+
+  it('should leave hidden and removed ratings out of the average', () => {
+    expect(isRatingPublic(undefined)).toBe(true);
+    expect(computeRatingSummary([
+      { rating: 5, status: 'published' },
+      { rating: 4 },
+      { rating: 1, status: 'hidden' },
+      { rating: 1, status: 'removed' }
+    ])).toEqual({ average: 4.5, count: 2 });
+    expect(computeRatingSummary([])).toEqual({ average: 0, count: 0 });
+  });
+});
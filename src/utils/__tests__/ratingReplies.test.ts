@@ -0,0 +1,46 @@
+import {
+  MAX_REPLY_LENGTH,
+  validateReplyBody,
+  getRatingReply,
+  formatReplyTimestamp,
+  getUnrepliedRatings,
+  RatingReply
+} from '../ratingReplies';
+
+const reply: RatingReply = {
+  id: 'reply-1',
+  rating_id: 'rating-1',
+  seller_id: 'seller-1',
+  body: 'Thanks for stopping by!',
+  created_at: '2025-03-12T10:00:00Z',
+  edited_at: null
+};
+
+describe('Rating replies', () => {
+  it('should reject empty and overly long replies', () => {
+    expect(validateReplyBody('   ')).toBe('Reply cannot be empty');
+    expect(validateReplyBody('a'.repeat(MAX_REPLY_LENGTH + 1))).not.toBeNull();
+    expect(validateReplyBody('Thank you!')).toBeNull();
+  });
+
+  it('should read the reply whether it is embedded as an object or an array', () => {
+    expect(getRatingReply({ reply })).toEqual(reply);
+    expect(getRatingReply({ reply: [reply] })).toEqual(reply);
+    expect(getRatingReply({ reply: [] })).toBeNull();
+    expect(getRatingReply({})).toBeNull();
+  });
+
+  it('should show the edit time once a reply was edited', () => {
+    expect(formatReplyTimestamp(reply)).toBe('Replied 12 Mar 2025');
+    expect(formatReplyTimestamp({ ...reply, edited_at: '2025-03-14T09:00:00Z' })).toBe('Edited 14 Mar 2025');
+  });
+
+  it('should list unreplied ratings oldest first', () => {
+    const ratings = [
+      { id: 'b', created_at: '2025-03-10T10:00:00Z', reply: null },
+      { id: 'a', created_at: '2025-03-01T10:00:00Z', reply: [] },
+      { id: 'c', created_at: '2025-02-01T10:00:00Z', reply }
+    ];
+    expect(getUnrepliedRatings(ratings).map(r => r.id)).toEqual(['a', 'b']);
+  });
+});
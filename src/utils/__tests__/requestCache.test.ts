@@ -0,0 +1,76 @@
+import {
+  createDebouncedCall,
+  createLruCache,
+  getCoordinateCacheKey,
+  getQueryCacheKey,
+  normalizeQuery,
+  roundCoordinate
+} from '../requestCache';
+
+describe('cache keys', () => {
+  it('treats differently typed versions of a query as one', () => {
+    expect(normalizeQuery('  Rue   IBNOU Mounir ')).toBe('rue ibnou mounir');
+    expect(getQueryCacheKey('autocomplete', 'Maârif', 5)).toBe(getQueryCacheKey('autocomplete', 'maârif ', 5));
+    expect(getQueryCacheKey('autocomplete', 'Maarif', 5)).not.toBe(getQueryCacheKey('autocomplete', 'Maarif', 10));
+  });
+
+  it('rounds coordinates to about 11 m', () => {
+    expect(roundCoordinate(33.58924)).toBe('33.5892');
+    expect(roundCoordinate(-0.00001)).toBe('0.0000');
+    expect(getCoordinateCacheKey('reverse', [{ latitude: 33.58921, longitude: -7.63249 }]))
+      .toBe(getCoordinateCacheKey('reverse', [{ latitude: 33.58919, longitude: -7.63251 }]));
+    expect(getCoordinateCacheKey('directions', [
+      { latitude: 33.5892, longitude: -7.6325 },
+      { latitude: 33.5731, longitude: -7.5898 }
+    ], 'foot-walking')).toBe('directions|33.5892,-7.6325;33.5731,-7.5898|foot-walking');
+  });
+});
+
+describe('createLruCache', () => {
+  it('evicts the least recently used entry', () => {
+    const cache = createLruCache<number>(2);
+    cache.set('a', 1, 1000);
+    cache.set('b', 2, 1000);
+    cache.get('a');
+    cache.set('c', 3, 1000);
+
+    expect(cache.get('b')).toBe(undefined);
+    expect(cache.get('a')).toBe(1);
+    expect(cache.size).toBe(2);
+  });
+
+  it('expires entries after their TTL', () => {
+    let time = 0;
+    const cache = createLruCache<string>(10, () => time);
+    cache.set('casablanca', 'Casablanca, Morocco', 1000);
+
+    time = 999;
+    expect(cache.get('casablanca')).toBe('Casablanca, Morocco');
+    time = 1000;
+    expect(cache.get('casablanca')).toBe(undefined);
+    expect(cache.size).toBe(0);
+  });
+});
+
+describe('createDebouncedCall', () => {
+  it('sends only the last call and gives every caller its result', async () => {
+    const sent: string[] = [];
+    const search = createDebouncedCall(async (query: string) => {
+      sent.push(query);
+      return query.toUpperCase();
+    }, 10);
+
+    const results = await Promise.all([search('ca'), search('cas'), search('casa')]);
+
+    expect(sent).toEqual(['casa']);
+    expect(results).toEqual(['CASA', 'CASA', 'CASA']);
+  });
+
+  it('passes errors to every waiting caller', async () => {
+    const search = createDebouncedCall(async () => {
+      throw new Error('Rate limit exceeded');
+    }, 10);
+
+    await expect(search()).rejects.toThrow('Rate limit exceeded');
+  });
+});
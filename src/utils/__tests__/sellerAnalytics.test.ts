@@ -0,0 +1,71 @@
+import {
+  getPresetRange,
+  getRangeLength,
+  validateDateRange,
+  getDefaultBucket,
+  getConversionRate,
+  buildHeatmap,
+  getHeatmapIntensity,
+  formatBucketLabel,
+  buildDrinkPerformance
+} from '../sellerAnalytics';
+
+describe('Seller analytics', () => {
+  it('should build preset ranges ending today in Morocco time', () => {
+    // 23:30 UTC on 9 May is already 10 May in Casablanca (UTC+1 outside Ramadan)
+    const range = getPresetRange(7, new Date('2025-05-09T23:30:00Z'));
+    expect(range).toEqual({ startDate: '2025-05-04', endDate: '2025-05-10' });
+    expect(getRangeLength(range)).toBe(7);
+  });
+
+  it('should reject reversed and overly long ranges', () => {
+    expect(validateDateRange({ startDate: '2025-03-10', endDate: '2025-03-01' })).not.toBeNull();
+    expect(validateDateRange({ startDate: '2023-01-01', endDate: '2025-01-01' })).not.toBeNull();
+    expect(validateDateRange({ startDate: '2025-03-01', endDate: '2025-03-01' })).toBeNull();
+  });
+
+  it('should switch to weekly buckets for long ranges', () => {
+    expect(getDefaultBucket({ startDate: '2025-03-01', endDate: '2025-03-30' })).toBe('day');
+    expect(getDefaultBucket({ startDate: '2025-01-01', endDate: '2025-03-30' })).toBe('week');
+  });
+
+  it('should compute conversion as a percentage', () => {
+    expect(getConversionRate(80, 12)).toBe(15);
+    expect(getConversionRate(3, 1)).toBe(33.3);
+    expect(getConversionRate(0, 5)).toBe(0);
+  });
+
+  it('should shape hourly rows into a heatmap grid', () => {
+    const { cells, max } = buildHeatmap([
+      { day_of_week: 0, hour: 9, events: 4 },
+      { day_of_week: 6, hour: 21, events: 10 },
+      { day_of_week: 7, hour: 1, events: 99 }
+    ]);
+    expect(cells).toHaveLength(7);
+    expect(cells[0][9]).toBe(4);
+    expect(cells[6][21]).toBe(10);
+    expect(max).toBe(10);
+    expect(getHeatmapIntensity(0, max)).toBe(0);
+    expect(getHeatmapIntensity(1, max)).toBe(1);
+    expect(getHeatmapIntensity(10, max)).toBe(4);
+  });
+
+  it('should label day and week buckets', () => {
+    expect(formatBucketLabel('2025-03-10', 'day')).toBe('10 Mar');
+    expect(formatBucketLabel('2025-03-10', 'week')).toBe('Wk of 10 Mar');
+  });
+
+  it('should list every drink with its performance, most viewed first', () => {
+    const performance = buildDrinkPerformance(
+      [{ id: 'latte', name: 'Latte' }, { id: 'matcha', name: 'Matcha' }, { id: 'mocha', name: 'Mocha' }],
+      [
+        { drink_id: 'matcha', item_views: 40, contact_attempts: 6, directions_requests: 2, shares: 1 },
+        { drink_id: 'latte', item_views: 10, contact_attempts: 1, directions_requests: 0, shares: 0 }
+      ]
+    );
+    expect(performance.map(p => p.drink_id)).toEqual(['matcha', 'latte', 'mocha']);
+    expect(performance[0].contactRate).toBe(15);
+    expect(performance[2].item_views).toBe(0);
+    expect(performance[2].name).toBe('Mocha');
+  });
+});
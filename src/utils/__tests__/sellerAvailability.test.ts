@@ -0,0 +1,43 @@
+import {
+  getAvailabilityMode,
+  getEffectiveAvailability,
+  isSellerAvailable,
+  formatAvailability
+} from '../sellerAvailability';
+
+// Wednesday 15 January 2025: 09:00 UTC is 10:00 in Casablanca, 19:00 UTC is 20:00
+const duringHours = new Date('2025-01-15T09:00:00Z');
+const afterHours = new Date('2025-01-15T19:00:00Z');
+const hours = 'Mon-Fri: 08:00 - 18:00';
+
+describe('Seller availability', () => {
+  it('should use the manual switch by default', () => {
+    expect(getAvailabilityMode({ is_available: true })).toBe('manual');
+    expect(isSellerAvailable({ is_available: true, hours }, afterHours)).toBe(true);
+    expect(isSellerAvailable({ is_available: false, hours }, duringHours)).toBe(false);
+  });
+
+  it('should follow the schedule in schedule mode', () => {
+    const seller = { is_available: false, availability_mode: 'schedule', hours };
+    expect(isSellerAvailable(seller, duringHours)).toBe(true);
+    expect(isSellerAvailable({ ...seller, is_available: true }, afterHours)).toBe(false);
+    expect(formatAvailability(getEffectiveAvailability(seller, duringHours))).toBe('Open now · closes at 18:00');
+  });
+
+  it('should fall back to the manual switch without readable hours', () => {
+    const availability = getEffectiveAvailability({ is_available: true, availability_mode: 'schedule', hours: 'Call me' }, afterHours);
+    expect(availability).toEqual({ isAvailable: true, reason: 'manual' });
+  });
+
+  it('should honour a pause until it runs out', () => {
+    const seller = { availability_mode: 'schedule_with_pause', hours, paused_until: '2025-01-15T09:30:00Z' };
+    const paused = getEffectiveAvailability(seller, duringHours);
+    expect(paused.isAvailable).toBe(false);
+    expect(formatAvailability(paused)).toBe('Paused until 10:30');
+    expect(isSellerAvailable(seller, new Date('2025-01-15T09:31:00Z'))).toBe(true);
+  });
+
+  it('should ignore a pause in plain schedule mode', () => {
+    expect(isSellerAvailable({ availability_mode: 'schedule', hours, paused_until: '2025-01-15T09:30:00Z' }, duringHours)).toBe(true);
+  });
+});
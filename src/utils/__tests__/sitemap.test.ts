@@ -0,0 +1,88 @@
+import {
+  buildSitemapFiles,
+  generateSitemap,
+  generateSlug,
+  generateSellerUrl,
+  getUniqueSlug,
+  isValidSlug
+} from '../sitemap';
+import { MOROCCAN_CITIES, getCityBySlug, getCityFromAddress, getCityPath } from '../localSEO';
+
+describe('Seller slugs', () => {
+  it('should keep accented letters readable', () => {
+    expect(generateSlug('Café Atlas – Marrakech')).toBe('cafe-atlas-marrakech');
+    expect(isValidSlug('cafe-atlas')).toBe(true);
+    expect(isValidSlug('Cafe Atlas')).toBe(false);
+  });
+
+  it('should number duplicate slugs', () => {
+    expect(getUniqueSlug('Atlas Coffee', [])).toBe('atlas-coffee');
+    expect(getUniqueSlug('Atlas Coffee', ['atlas-coffee', 'atlas-coffee-2'])).toBe('atlas-coffee-3');
+    expect(getUniqueSlug('قهوة', ['seller'])).toBe('seller-2');
+  });
+
+  it('should prefer the stored slug for menu links', () => {
+    expect(generateSellerUrl({ slug: 'atlas', business_name: 'Atlas Coffee Renamed' })).toBe('/menu/atlas');
+    expect(generateSellerUrl({ slug: null, business_name: 'Atlas Coffee' })).toBe('/menu/atlas-coffee');
+  });
+});
+
+describe('Dynamic sitemaps', () => {
+  const sellers = [
+    { id: 's1', business_name: 'Atlas Coffee', address: '12 Rue de Fès, Guéliz, Marrakesh', photo_url: 'https://cdn.example.com/atlas.jpg', updated_at: '2026-03-02T10:00:00Z' },
+    { id: 's2', business_name: 'Thé & Co', address: 'Bd Zerktouni, الدار البيضاء', photo_url: null, updated_at: '2026-01-15T10:00:00Z' },
+    { id: 's3', business_name: 'Road Stop', address: 'Km 12, route nationale', photo_url: null, updated_at: null }
+  ];
+  const drinks = [
+    { id: 'd1', seller_id: 's1', name: 'Nous-nous', photo_url: 'https://cdn.example.com/nousnous.jpg', updated_at: '2026-04-01T08:00:00Z' },
+    { id: 'd2', seller_id: 's2', name: 'Mint tea', photo_url: '/local.jpg', updated_at: '2026-01-20T08:00:00Z' }
+  ];
+
+  it('should find the city in an address by name or alias', () => {
+    expect(getCityFromAddress('12 Rue de Fès, Guéliz, Marrakesh')?.name).toBe('Marrakech');
+    expect(getCityFromAddress('Bd Zerktouni, الدار البيضاء')?.name).toBe('Casablanca');
+    expect(getCityFromAddress('Avenue Mohammed V, FES')?.name).toBe('Fez');
+    expect(getCityFromAddress('Rue des Rabatins')).toBeNull();
+    expect(getCityFromAddress(null)).toBeNull();
+  });
+
+  it('should link city pages by slug', () => {
+    const fez = getCityBySlug('fez');
+    expect(fez?.region).toBe('Fès-Meknès');
+    expect(getCityPath(fez)).toBe('/city/fez');
+    expect(getCityBySlug('Tangier')?.name).toBe('Tangier');
+    expect(getCityBySlug('paris')).toBeNull();
+  });
+
+  it('should write an index with one sitemap per city', () => {
+    const files = buildSitemapFiles({ sellers, drinks }, 'https://staging.machroub.ma');
+    const fileNames = files.map(file => file.fileName);
+    expect(fileNames.slice(0, 3)).toEqual(['sitemap.xml', 'sitemap-pages.xml', 'sitemap-agadir.xml']);
+    expect(fileNames).toHaveLength(MOROCCAN_CITIES.length + 3);
+    expect(fileNames[fileNames.length - 1]).toBe('sitemap-other.xml');
+
+    const index = files[0].content;
+    expect(index).toContain('<sitemapindex');
+    expect(index).toContain('<loc>https://staging.machroub.ma/sitemap-marrakech.xml</loc>');
+    expect(index).toContain('<lastmod>2026-04-01</lastmod>');
+
+    const marrakech = files.find(file => file.fileName === 'sitemap-marrakech.xml').content;
+    expect(marrakech).toContain('<loc>https://staging.machroub.ma/city/marrakech</loc>');
+    expect(marrakech).toContain('<loc>https://staging.machroub.ma/seller/s1</loc>');
+    expect(marrakech).toContain('<loc>https://staging.machroub.ma/item/d1</loc>');
+    expect(marrakech).toContain('<image:loc>https://cdn.example.com/nousnous.jpg</image:loc>');
+    expect(marrakech).not.toContain('/seller/s2');
+  });
+
+  it('should escape text and skip relative image URLs', () => {
+    const casablanca = buildSitemapFiles({ sellers, drinks })
+      .find(file => file.fileName === 'sitemap-casablanca.xml').content;
+    expect(casablanca).toContain('<loc>https://machroub.ma/item/d2</loc>');
+    expect(casablanca).not.toContain('<image:');
+    expect(casablanca).not.toContain('xmlns:image');
+
+    const xml = generateSitemap([{ loc: 'https://machroub.ma/a?b=1&c=2', images: [{ loc: 'https://cdn.example.com/x.jpg', title: 'Thé & Co' }] }]);
+    expect(xml).toContain('https://machroub.ma/a?b=1&amp;c=2');
+    expect(xml).toContain('<image:title>Thé &amp; Co</image:title>');
+  });
+});
@@ -0,0 +1,46 @@
+import { pickVerifyingPurchase, sortReviews, filterReviews } from '../verifiedReviews';
+
+describe('Verified reviews', () => {
+  it('should prefer the latest picked-up order', () => {
+    expect(pickVerifyingPurchase(
+      [
+        { id: 'old', status: 'picked_up', created_at: '2025-01-01T10:00:00Z' },
+        { id: 'new', status: 'picked_up', created_at: '2025-02-01T10:00:00Z' },
+        { id: 'cancelled', status: 'cancelled', created_at: '2025-03-01T10:00:00Z' }
+      ],
+      [{ id: 'contact', status: 'completed', created_at: '2025-03-01T10:00:00Z' }]
+    )).toEqual({ order_id: 'new', contact_request_id: null });
+  });
+
+  it('should fall back to a completed contact request', () => {
+    expect(pickVerifyingPurchase(
+      [{ id: 'order', status: 'ready', created_at: '2025-01-01T10:00:00Z' }],
+      [
+        { id: 'pending', status: 'pending', created_at: '2025-03-01T10:00:00Z' },
+        { id: 'done', status: 'completed', created_at: '2025-02-01T10:00:00Z' }
+      ]
+    )).toEqual({ order_id: null, contact_request_id: 'done' });
+  });
+
+  it('should not verify without a completed purchase', () => {
+    expect(pickVerifyingPurchase([], [{ id: 'c', status: 'responded', created_at: '2025-01-01T10:00:00Z' }])).toBeNull();
+  });
+
+  const reviews = [
+    { id: 'a', rating: 3, date: '2025-03-01', verified: false },
+    { id: 'b', rating: 5, date: '2025-01-01', verified: true },
+    { id: 'c', rating: 4, date: '2025-02-01', verified: true },
+    { id: 'd', rating: 1, date: '2025-02-15' }
+  ];
+
+  it('should sort verified reviews first, newest within each group', () => {
+    expect(sortReviews(reviews, 'verified_first').map(r => r.id)).toEqual(['c', 'b', 'a', 'd']);
+    expect(sortReviews(reviews, 'newest').map(r => r.id)).toEqual(['a', 'd', 'c', 'b']);
+    expect(sortReviews(reviews, 'lowest').map(r => r.id)).toEqual(['d', 'a', 'c', 'b']);
+  });
+
+  it('should filter to verified reviews only when asked', () => {
+    expect(filterReviews(reviews, true).map(r => r.id)).toEqual(['b', 'c']);
+    expect(filterReviews(reviews, false)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  LOCAL_PUSH_MESSAGE,
+  buildPushPayload,
+  createLocalPushSender,
+  toPushSubscriptionInsert,
+  urlBase64ToUint8Array
+} from '../webPush';
+
+describe('buildPushPayload', () => {
+  it('tags the payload with the notification id so repeats replace each other', () => {
+    expect(buildPushPayload({ id: 'n1', title: 'Hi', body: 'There', url: null })).toEqual({
+      title: 'Hi',
+      body: 'There',
+      url: '/',
+      tag: 'n1'
+    });
+  });
+});
+
+describe('urlBase64ToUint8Array', () => {
+  it('decodes base64url without padding', () => {
+    expect(Array.from(urlBase64ToUint8Array('_-8'))).toEqual([255, 239]);
+  });
+});
+
+describe('toPushSubscriptionInsert', () => {
+  it('keeps the endpoint and keys', () => {
+    const row = toPushSubscriptionInsert('user-1', {
+      endpoint: 'https://push.example/abc',
+      keys: { p256dh: 'key', auth: 'secret' }
+    }, 'Firefox');
+
+    expect(row).toEqual({
+      user_id: 'user-1',
+      endpoint: 'https://push.example/abc',
+      p256dh: 'key',
+      auth: 'secret',
+      user_agent: 'Firefox'
+    });
+  });
+
+  it('rejects incomplete subscriptions', () => {
+    expect(toPushSubscriptionInsert('user-1', { endpoint: 'https://push.example/abc' })).toBeNull();
+  });
+});
+
+describe('createLocalPushSender', () => {
+  it('posts the payload to the service worker the way a push would arrive', async () => {
+    const received: unknown[] = [];
+    const sender = createLocalPushSender({ postMessage: (message: unknown) => received.push(message) });
+    const payload = buildPushPayload({ id: 'n1', title: 'Order ready', body: 'Café Atlas replied', url: '/profile' });
+
+    await sender.send(payload);
+
+    expect(received).toEqual([{ type: LOCAL_PUSH_MESSAGE, payload }]);
+  });
+
+  it('does nothing without an active service worker', async () => {
+    await createLocalPushSender(null).send(buildPushPayload({ id: 'n1', title: 'A', body: 'B', url: '/' }));
+  });
+});
@@ -1,18 +1,25 @@
 // Analytics and SEO tracking utilities
 
+import { loadStoredPreferences } from './preferences';
+
 declare global {
   interface Window {
     gtag?: (...args: any[]) => void;
     dataLayer?: any[];
+    [gaDisableKey: `ga-disable-${string}`]: boolean | undefined;
   }
 }
 
 // Google Analytics configuration
 export const GA_TRACKING_ID = import.meta.env.VITE_GA_TRACKING_ID || 'G-XXXXXXXXXX';
 
-// Initialize Google Analytics
+let gaInitialized = false;
+
+// Initialize Google Analytics, unless the user turned analytics off in Settings
 export const initGA = () => {
-  if (typeof window === 'undefined' || !GA_TRACKING_ID) return;
+  if (typeof window === 'undefined' || !GA_TRACKING_ID || gaInitialized) return;
+  if (!loadStoredPreferences().privacy.analytics) return;
+  gaInitialized = true;
 
   // Load Google Analytics script
   const script = document.createElement('script');
@@ -33,6 +40,13 @@ export const initGA = () => {
   });
 };
 
+// Turning analytics off uses gtag's own opt-out flag, so nothing more is sent this session
+export const setAnalyticsEnabled = (enabled: boolean) => {
+  if (typeof window === 'undefined') return;
+  window[`ga-disable-${GA_TRACKING_ID}`] = !enabled;
+  if (enabled) initGA();
+};
+
 // Track page views
 export const trackPageView = (url: string, title?: string) => {
   if (typeof window === 'undefined' || !window.gtag) return;
@@ -0,0 +1,89 @@
+// Seller analytics events recorded while offline, sent when the connection comes back
+
+import { Database } from '@/lib/database.types';
+
+type AnalyticsEventInsert = Database['public']['Tables']['seller_analytics']['Insert'];
+
+// queue_id stays on this device; a flush removes exactly the events it sent by it
+export type QueuedAnalyticsEvent = AnalyticsEventInsert & { queue_id?: string };
+
+export const ANALYTICS_QUEUE_STORAGE_KEY = 'machroub_analytics_queue';
+
+// Oldest events are dropped past this, so a long offline session can't fill localStorage
+export const ANALYTICS_QUEUE_LIMIT = 100;
+
+// supabase-js reports a failed fetch as an error object instead of throwing
+export const isNetworkError = (error: unknown): boolean => {
+  const message = String((error as { message?: string } | null)?.message ?? error ?? '');
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+};
+
+const createQueueId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const appendQueuedEvent = (
+  queue: QueuedAnalyticsEvent[],
+  event: QueuedAnalyticsEvent,
+  limit: number = ANALYTICS_QUEUE_LIMIT
+): QueuedAnalyticsEvent[] => [...queue, { ...event, queue_id: event.queue_id ?? createQueueId() }].slice(-limit);
+
+// Drops the events a flush sent, wherever they are now; the queue may have shifted while it ran
+export const removeQueuedEvents = (
+  queue: QueuedAnalyticsEvent[],
+  sent: QueuedAnalyticsEvent[]
+): QueuedAnalyticsEvent[] => {
+  const sentIds = new Set(sent.map(event => event.queue_id));
+  return queue.filter(event => !sentIds.has(event.queue_id));
+};
+
+export const loadQueuedEvents = (): QueuedAnalyticsEvent[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ANALYTICS_QUEUE_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeQueuedEvents = (events: QueuedAnalyticsEvent[]): void => {
+  try {
+    if (events.length === 0) {
+      localStorage.removeItem(ANALYTICS_QUEUE_STORAGE_KEY);
+    } else {
+      localStorage.setItem(ANALYTICS_QUEUE_STORAGE_KEY, JSON.stringify(events));
+    }
+  } catch (error) {
+    console.warn('⚠️ Error storing queued analytics events:', error);
+  }
+};
+
+// Events keep the created_at of when they happened, not when they are sent
+export const queueAnalyticsEvent = (event: QueuedAnalyticsEvent): void => {
+  storeQueuedEvents(appendQueuedEvent(loadQueuedEvents(), {
+    ...event,
+    created_at: event.created_at ?? new Date().toISOString()
+  }));
+};
+
+let flushing = false;
+
+/**
+ * Hands the queued events to `send` in one batch. `send` resolves true when the
+ * events are done with (sent, or rejected for a reason retrying won't fix);
+ * on false they stay queued for the next flush. Returns how many were sent.
+ */
+export const flushQueuedEvents = async (
+  send: (events: AnalyticsEventInsert[]) => Promise<boolean>
+): Promise<number> => {
+  const events = loadQueuedEvents();
+  if (flushing || events.length === 0) return 0;
+
+  flushing = true;
+  try {
+    if (!(await send(events.map(({ queue_id, ...event }) => event)))) return 0;
+    // Keep anything queued while the batch was in flight
+    storeQueuedEvents(removeQueuedEvents(loadQueuedEvents(), events));
+    return events.length;
+  } finally {
+    flushing = false;
+  }
+};
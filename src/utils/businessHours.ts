@@ -0,0 +1,517 @@
+// Typed weekly business hours and "open now" computation
+
+export type DayKey = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+// Times are 24h "HH:MM" strings; a close time at or before the open time runs past midnight
+export interface TimeInterval {
+  open: string;
+  close: string;
+}
+
+// Dated exception to the weekly hours (Ramadan, public holidays); no intervals means closed all day
+export interface ScheduleOverride {
+  id: string;
+  label: string;
+  startDate: string; // "YYYY-MM-DD", inclusive, in the schedule's timezone
+  endDate: string;
+  intervals: TimeInterval[];
+}
+
+export interface WeeklySchedule {
+  timezone: string;
+  days: Record<DayKey, TimeInterval[]>;
+  overrides?: ScheduleOverride[];
+}
+
+export interface OpenStatus {
+  isOpen: boolean;
+  closesAt?: string;
+  opensAt?: string;
+  opensOn?: DayKey; // Set when the next opening is not today
+  override?: string; // Label of the special hours in effect today
+}
+
+// All sellers are in Morocco
+export const SCHEDULE_TIMEZONE = 'Africa/Casablanca';
+
+export const DAY_KEYS: DayKey[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const DAY_LABELS: Record<DayKey, { short: string; full: string }> = {
+  monday: { short: 'Mon', full: 'Monday' },
+  tuesday: { short: 'Tue', full: 'Tuesday' },
+  wednesday: { short: 'Wed', full: 'Wednesday' },
+  thursday: { short: 'Thu', full: 'Thursday' },
+  friday: { short: 'Fri', full: 'Friday' },
+  saturday: { short: 'Sat', full: 'Saturday' },
+  sunday: { short: 'Sun', full: 'Sunday' },
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const MS_PER_DAY = MINUTES_PER_DAY * 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Day names (English and French) accepted in legacy hours strings
+const DAY_ALIASES: Record<string, DayKey[]> = {
+  mon: ['monday'], monday: ['monday'], lun: ['monday'], lundi: ['monday'],
+  tue: ['tuesday'], tues: ['tuesday'], tuesday: ['tuesday'], mar: ['tuesday'], mardi: ['tuesday'],
+  wed: ['wednesday'], wednesday: ['wednesday'], mer: ['wednesday'], mercredi: ['wednesday'],
+  thu: ['thursday'], thur: ['thursday'], thurs: ['thursday'], thursday: ['thursday'], jeu: ['thursday'], jeudi: ['thursday'],
+  fri: ['friday'], friday: ['friday'], ven: ['friday'], vendredi: ['friday'],
+  sat: ['saturday'], saturday: ['saturday'], sam: ['saturday'], samedi: ['saturday'],
+  sun: ['sunday'], sunday: ['sunday'], dim: ['sunday'], dimanche: ['sunday'],
+  daily: DAY_KEYS, everyday: DAY_KEYS, 'every day': DAY_KEYS, tlj: DAY_KEYS,
+  weekdays: DAY_KEYS.slice(0, 5),
+  weekends: DAY_KEYS.slice(5), weekend: DAY_KEYS.slice(5),
+};
+
+export const createEmptySchedule = (): WeeklySchedule => ({
+  timezone: SCHEDULE_TIMEZONE,
+  days: {
+    monday: [], tuesday: [], wednesday: [], thursday: [], friday: [], saturday: [], sunday: [],
+  },
+});
+
+// "09:30" -> 570; accepts "24:00" as end of day
+export const timeToMinutes = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+};
+
+// 570 -> "09:30"
+export const minutesToTime = (minutes: number): string => {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  const mins = normalized % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+};
+
+// Parse "9", "9:30", "9h30", "18h", "9:00 AM", "12 pm" into minutes since midnight
+const parseClockTime = (raw: string): number | null => {
+  const match = /^(\d{1,2})(?:[:h.](\d{2})?)?\s*(a\.?m\.?|p\.?m\.?)?$/i.exec(raw.trim());
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+    if (meridiem === 'pm' && hours !== 12) hours += 12;
+  } else if (hours > 24 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+};
+
+const isValidInterval = (interval: unknown): interval is TimeInterval =>
+  !!interval &&
+  typeof interval === 'object' &&
+  timeToMinutes(String((interval as TimeInterval).open)) !== null &&
+  timeToMinutes(String((interval as TimeInterval).close)) !== null;
+
+// Dated overrides from the schedule JSON; entries with bad dates or a range that ends before it starts are dropped
+const parseOverrides = (value: unknown): ScheduleOverride[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(entry => !!entry && typeof entry === 'object')
+    .map(entry => entry as Record<string, unknown>)
+    .filter(entry =>
+      typeof entry.startDate === 'string' && DATE_PATTERN.test(entry.startDate) &&
+      typeof entry.endDate === 'string' && DATE_PATTERN.test(entry.endDate) &&
+      entry.startDate <= entry.endDate
+    )
+    .map((entry, index) => ({
+      id: typeof entry.id === 'string' ? entry.id : `override-${index}`,
+      label: typeof entry.label === 'string' ? entry.label : '',
+      startDate: entry.startDate as string,
+      endDate: entry.endDate as string,
+      intervals: (Array.isArray(entry.intervals) ? entry.intervals : [])
+        .filter(isValidInterval)
+        .map(interval => ({ open: interval.open, close: interval.close })),
+    }));
+};
+
+// Read a schedule stored as JSON on the sellers row; null when missing or malformed
+export const parseSchedule = (value: unknown): WeeklySchedule | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const raw = value as { timezone?: unknown; days?: Record<string, unknown> };
+  if (!raw.days || typeof raw.days !== 'object') return null;
+
+  const schedule = createEmptySchedule();
+  schedule.timezone = typeof raw.timezone === 'string' ? raw.timezone : SCHEDULE_TIMEZONE;
+
+  for (const day of DAY_KEYS) {
+    const intervals = raw.days[day];
+    if (!Array.isArray(intervals)) continue;
+
+    schedule.days[day] = intervals
+      .filter(isValidInterval)
+      .map(interval => ({ open: interval.open, close: interval.close }));
+  }
+
+  const overrides = parseOverrides((raw as { overrides?: unknown }).overrides);
+  if (overrides.length > 0) schedule.overrides = overrides;
+
+  return schedule;
+};
+
+type HoursToken =
+  | { type: 'days'; days: DayKey[] }
+  | { type: 'time'; minutes: number }
+  | { type: 'dash' }
+  | { type: 'closed' }
+  | { type: 'always' };
+
+const TOKEN_PATTERN = new RegExp(
+  [
+    '(24\\s*/\\s*7|24\\s*h(?:ours)?(?:\\s*/\\s*24)?|open\\s+24\\s+hours)',                      // 1: always open
+    '(closed|ferm[ée])',                                                                           // 2: closed
+    `(${Object.keys(DAY_ALIASES).sort((a, b) => b.length - a.length).join('|')})\\.?(?![a-z])`,   // 3: day
+    '(\\d{1,2}(?:[:h.]\\d{2}|h)?\\s*(?:a\\.?m\\.?|p\\.?m\\.?)?)',                                  // 4: time
+    '(\\s+to\\s+|\\s+au\\s+|\\s+à\\s+|[-–—])',                                                      // 5: range dash
+  ].join('|'),
+  'gi'
+);
+
+// Separators that carry no meaning of their own
+const FILLER_PATTERN = /^[\s,;:&/|+]*(?:(?:and|et)[\s,;:&/|+]*)*$/i;
+
+const tokenizeHours = (hours: string): HoursToken[] | null => {
+  const tokens: HoursToken[] = [];
+  let lastIndex = 0;
+
+  for (const match of hours.matchAll(TOKEN_PATTERN)) {
+    const skipped = hours.slice(lastIndex, match.index);
+    if (!FILLER_PATTERN.test(skipped)) return null;
+    lastIndex = (match.index || 0) + match[0].length;
+
+    if (match[1]) {
+      tokens.push({ type: 'always' });
+    } else if (match[2]) {
+      tokens.push({ type: 'closed' });
+    } else if (match[3]) {
+      tokens.push({ type: 'days', days: DAY_ALIASES[match[3].toLowerCase()] });
+    } else if (match[4]) {
+      const minutes = parseClockTime(match[4].replace(/h$/i, ''));
+      if (minutes === null) return null;
+      tokens.push({ type: 'time', minutes });
+    } else {
+      tokens.push({ type: 'dash' });
+    }
+  }
+
+  if (!FILLER_PATTERN.test(hours.slice(lastIndex))) return null;
+  return tokens;
+};
+
+/**
+ * Convert a legacy free-text hours string (e.g. "Mon-Fri: 8:00 AM - 6:00 PM, Sat-Sun: 9:00 AM - 5:00 PM")
+ * into a schedule. Returns null when any part of the string can't be understood, so callers can keep
+ * the original text instead of silently dropping information.
+ */
+export const parseHoursString = (hours: string | null | undefined): WeeklySchedule | null => {
+  if (!hours || hours.trim() === '' || hours === 'null') return null;
+
+  const tokens = tokenizeHours(hours.trim());
+  if (!tokens || tokens.length === 0) return null;
+
+  const schedule = createEmptySchedule();
+  let currentDays: DayKey[] = [];
+  let pendingDays: DayKey[] = [];
+  let lastWasTime = false;
+  let matchedAnything = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'days') {
+      // Day after a time range starts a new group
+      if (lastWasTime) {
+        pendingDays = [];
+        lastWasTime = false;
+      }
+
+      // Day range, e.g. Mon-Fri (wraps, so Sat-Mon works too)
+      const next = tokens[i + 1];
+      const end = tokens[i + 2];
+      if (next?.type === 'dash' && end?.type === 'days' && token.days.length === 1 && end.days.length === 1) {
+        const startIndex = DAY_KEYS.indexOf(token.days[0]);
+        const endIndex = DAY_KEYS.indexOf(end.days[0]);
+        const span = (endIndex - startIndex + 7) % 7;
+        for (let d = 0; d <= span; d++) {
+          pendingDays.push(DAY_KEYS[(startIndex + d) % 7]);
+        }
+        i += 2;
+      } else {
+        pendingDays.push(...token.days);
+      }
+      currentDays = pendingDays;
+      continue;
+    }
+
+    if (token.type === 'time') {
+      const next = tokens[i + 1];
+      const end = tokens[i + 2];
+      if (next?.type !== 'dash' || end?.type !== 'time') return null;
+
+      // Hours without day names apply to every day
+      const days = currentDays.length > 0 ? currentDays : DAY_KEYS;
+      const interval = { open: minutesToTime(token.minutes), close: end.minutes === MINUTES_PER_DAY ? '24:00' : minutesToTime(end.minutes) };
+      days.forEach(day => schedule.days[day].push({ ...interval }));
+
+      matchedAnything = true;
+      lastWasTime = true;
+      i += 2;
+      continue;
+    }
+
+    if (token.type === 'closed') {
+      // Closed days simply have no intervals
+      currentDays.forEach(day => { schedule.days[day] = []; });
+      matchedAnything = true;
+      lastWasTime = true;
+      continue;
+    }
+
+    if (token.type === 'always') {
+      const days = currentDays.length > 0 ? currentDays : DAY_KEYS;
+      days.forEach(day => { schedule.days[day] = [{ open: '00:00', close: '24:00' }]; });
+      matchedAnything = true;
+      lastWasTime = true;
+      continue;
+    }
+
+    // A dash on its own is meaningless
+    return null;
+  }
+
+  return matchedAnything ? schedule : null;
+};
+
+const intervalsKey = (intervals: TimeInterval[]): string =>
+  intervals.map(interval => `${interval.open}-${interval.close}`).join('|');
+
+/**
+ * Human-readable summary, e.g. "Mon-Fri: 08:00 - 18:00, Sat: 09:00 - 13:00 & 15:00 - 19:00".
+ * The output parses back to the same schedule with parseHoursString.
+ */
+export const formatSchedule = (schedule: WeeklySchedule): string => {
+  const groups: { days: DayKey[]; intervals: TimeInterval[] }[] = [];
+
+  DAY_KEYS.forEach(day => {
+    const intervals = schedule.days[day];
+    if (intervals.length === 0) return;
+
+    const previous = groups[groups.length - 1];
+    const previousDay = previous?.days[previous.days.length - 1];
+    const isNextDay = previousDay && DAY_KEYS.indexOf(previousDay) === DAY_KEYS.indexOf(day) - 1;
+
+    if (previous && isNextDay && intervalsKey(previous.intervals) === intervalsKey(intervals)) {
+      previous.days.push(day);
+    } else {
+      groups.push({ days: [day], intervals });
+    }
+  });
+
+  return groups.map(group => {
+    const first = DAY_LABELS[group.days[0]].short;
+    const last = DAY_LABELS[group.days[group.days.length - 1]].short;
+    const dayLabel = group.days.length === 1 ? first
+      : group.days.length === 2 ? `${first}, ${last}`
+      : `${first}-${last}`;
+    const times = group.intervals
+      .map(interval => `${interval.open} - ${interval.close}`)
+      .join(' & ');
+    return `${dayLabel}: ${times}`;
+  }).join(', ');
+};
+
+// Schedule for a sellers row: the typed column first, then the legacy hours string
+export const getSellerSchedule = (seller: { schedule?: unknown; hours?: string | null } | null | undefined): WeeklySchedule | null => {
+  if (!seller) return null;
+  return parseSchedule(seller.schedule) || parseHoursString(seller.hours);
+};
+
+// Calendar date, weekday and minutes since midnight of a moment in the schedule's timezone
+const getZonedDateParts = (date: Date, timeZone: string): { date: string; dayIndex: number; minutes: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value;
+  const weekday = (part('weekday') || 'Monday').toLowerCase() as DayKey;
+  const hour = Number(part('hour') || 0) % 24;
+  const minute = Number(part('minute') || 0);
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    dayIndex: DAY_KEYS.indexOf(weekday),
+    minutes: hour * 60 + minute,
+  };
+};
+
+// "2025-03-31" + 2 -> "2025-04-02"
+export const addDaysToDate = (isoDate: string, days: number): string => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY).toISOString().slice(0, 10);
+};
+
+// Today's date in the schedule's timezone, e.g. for filtering past overrides
+export const getScheduleDate = (schedule: WeeklySchedule | null, date: Date = new Date()): string => {
+  return getZonedDateParts(date, schedule?.timezone || SCHEDULE_TIMEZONE).date;
+};
+
+const getDayKey = (isoDate: string): DayKey => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  // getUTCDay() is 0 for Sunday
+  return DAY_KEYS[(new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7];
+};
+
+/**
+ * The override covering a date, if any. When ranges overlap the shortest one wins,
+ * so an Eid closure can sit inside a month of Ramadan hours.
+ */
+export const getOverrideForDate = (schedule: WeeklySchedule | null, isoDate: string): ScheduleOverride | null => {
+  const matches = (schedule?.overrides || [])
+    .filter(override => override.startDate <= isoDate && isoDate <= override.endDate);
+  if (matches.length === 0) return null;
+
+  const length = (override: ScheduleOverride) =>
+    Date.parse(override.endDate) - Date.parse(override.startDate);
+  return matches.reduce((best, override) => (length(override) <= length(best) ? override : best));
+};
+
+// Opening intervals for a calendar date: the override's if one applies, else the weekday's
+export const getIntervalsForDate = (schedule: WeeklySchedule, isoDate: string): TimeInterval[] => {
+  const override = getOverrideForDate(schedule, isoDate);
+  return override ? override.intervals : schedule.days[getDayKey(isoDate)];
+};
+
+// Overrides that haven't ended yet, soonest first
+export const getUpcomingOverrides = (schedule: WeeklySchedule | null, date: Date = new Date()): ScheduleOverride[] => {
+  if (!schedule?.overrides) return [];
+  const today = getScheduleDate(schedule, date);
+  return schedule.overrides
+    .filter(override => override.endDate >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
+
+// Every interval from yesterday to a week ahead as [start, end) minutes from today 00:00;
+// overnight intervals end on the next day
+const getSpansAround = (schedule: WeeklySchedule, today: string): { start: number; end: number }[] => {
+  const spans: { start: number; end: number }[] = [];
+
+  for (let offset = -1; offset <= 7; offset++) {
+    getIntervalsForDate(schedule, addDaysToDate(today, offset)).forEach(interval => {
+      const open = timeToMinutes(interval.open);
+      const close = timeToMinutes(interval.close);
+      if (open === null || close === null) return;
+
+      const start = offset * MINUTES_PER_DAY + open;
+      const end = offset * MINUTES_PER_DAY + (close <= open ? close + MINUTES_PER_DAY : close);
+      spans.push({ start, end });
+    });
+  }
+
+  return spans;
+};
+
+/**
+ * Whether the seller is open at the given moment, and when that changes next.
+ * Dated overrides replace the weekly hours for the days they cover.
+ */
+export const getOpenStatus = (schedule: WeeklySchedule | null, date: Date = new Date()): OpenStatus => {
+  if (!schedule) return { isOpen: false };
+
+  const { date: today, dayIndex, minutes: now } = getZonedDateParts(date, schedule.timezone || SCHEDULE_TIMEZONE);
+  const spans = getSpansAround(schedule, today);
+  const override = getOverrideForDate(schedule, today);
+  const overrideInfo = override ? { override: override.label || 'Special hours' } : {};
+
+  const current = spans.find(span => now >= span.start && now < span.end);
+
+  if (current) {
+    // Follow back-to-back intervals (e.g. 00:00 - 24:00 every day) to the real closing time
+    let end = current.end;
+    for (let guard = 0; guard < spans.length && end - now < MINUTES_PER_WEEK; guard++) {
+      const next = spans.find(span => span.start === end);
+      if (!next) break;
+      end = next.end;
+    }
+    return end - now >= MINUTES_PER_WEEK
+      ? { isOpen: true, ...overrideInfo }
+      : { isOpen: true, closesAt: minutesToTime(end), ...overrideInfo };
+  }
+
+  // Closed: find the next opening within the coming week
+  const nextStart = spans
+    .filter(span => span.start > now)
+    .reduce((min, span) => Math.min(min, span.start), Infinity);
+
+  if (nextStart === Infinity) return { isOpen: false, ...overrideInfo };
+
+  const dayOffset = Math.floor(nextStart / MINUTES_PER_DAY);
+
+  return {
+    isOpen: false,
+    opensAt: minutesToTime(nextStart),
+    ...(dayOffset !== 0 ? { opensOn: DAY_KEYS[(dayIndex + dayOffset) % 7] } : {}),
+    ...overrideInfo,
+  };
+};
+
+export const isOpenAt = (schedule: WeeklySchedule | null, date: Date = new Date()): boolean => {
+  return getOpenStatus(schedule, date).isOpen;
+};
+
+// "Open now · closes at 18:00", "Closed · opens Mon 09:00", "Closed (Eid al-Fitr)"
+export const formatOpenStatus = (status: OpenStatus): string => {
+  const suffix = status.override ? ` (${status.override})` : '';
+  if (status.isOpen) {
+    return (status.closesAt ? `Open now · closes at ${status.closesAt}` : 'Open 24/7') + suffix;
+  }
+  if (!status.opensAt) return `Closed${suffix}`;
+  return (status.opensOn
+    ? `Closed · opens ${DAY_LABELS[status.opensOn].short} ${status.opensAt}`
+    : `Closed · opens at ${status.opensAt}`) + suffix;
+};
+
+// "2025-03-01" -> "1 Mar 2025"
+const formatDate = (isoDate: string): string => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+// "1 Mar 2025 - 30 Mar 2025: 10:00 - 16:00 & 21:00 - 02:00", "25 Dec 2025: Closed"
+export const formatOverride = (override: ScheduleOverride): string => {
+  const dates = override.startDate === override.endDate
+    ? formatDate(override.startDate)
+    : `${formatDate(override.startDate)} - ${formatDate(override.endDate)}`;
+  const times = override.intervals.length === 0
+    ? 'Closed'
+    : override.intervals.map(interval => `${interval.open} - ${interval.close}`).join(' & ');
+  return `${dates}: ${times}`;
+};
@@ -0,0 +1,66 @@
+// Cart helpers built on the WhatsApp OrderItem shape
+
+import { OrderItem } from './whatsapp';
+
+// Matches the per-line limit enforced by OrderService.createOrder()
+export const MAX_CART_ITEM_QUANTITY = 50;
+
+// Options identify a line regardless of the order they were picked in
+const getOptionsKey = (item: OrderItem): string => {
+  return (item.options || []).map(o => `${o.groupId}:${o.optionId}`).sort().join('|');
+};
+
+// Two lines are the same cart entry when they point at the same drink with the same options and notes
+const isSameLine = (a: OrderItem, b: OrderItem): boolean => {
+  const aKey = a.drinkId || a.name;
+  const bKey = b.drinkId || b.name;
+  return aKey === bKey
+    && getOptionsKey(a) === getOptionsKey(b)
+    && (a.notes || '') === (b.notes || '');
+};
+
+// Add an item, merging quantities with an identical existing line
+export const addCartItem = (items: OrderItem[], item: OrderItem): OrderItem[] => {
+  const quantity = Math.max(1, Math.floor(item.quantity || 1));
+  const existing = items.find(i => isSameLine(i, item));
+
+  if (existing) {
+    return items.map(i => (
+      i === existing ? { ...i, quantity: Math.min(MAX_CART_ITEM_QUANTITY, i.quantity + quantity) } : i
+    ));
+  }
+
+  return [...items, { ...item, quantity: Math.min(MAX_CART_ITEM_QUANTITY, quantity) }];
+};
+
+// Set the quantity of the line at index; zero or less removes it
+export const updateCartItemQuantity = (items: OrderItem[], index: number, quantity: number): OrderItem[] => {
+  if (quantity <= 0) {
+    return removeCartItem(items, index);
+  }
+  const capped = Math.min(MAX_CART_ITEM_QUANTITY, Math.floor(quantity));
+  return items.map((item, i) => (i === index ? { ...item, quantity: capped } : item));
+};
+
+// Replace the notes of the line at index
+export const updateCartItemNotes = (items: OrderItem[], index: number, notes: string): OrderItem[] => {
+  return items.map((item, i) => (i === index ? { ...item, notes: notes || undefined } : item));
+};
+
+// Remove the line at index
+export const removeCartItem = (items: OrderItem[], index: number): OrderItem[] => {
+  return items.filter((_, i) => i !== index);
+};
+
+// Total number of drinks in the cart
+export const getCartItemCount = (items: OrderItem[]): number => {
+  return items.reduce((count, item) => count + item.quantity, 0);
+};
+
+export const getLineTotal = (item: OrderItem): number => item.lineTotal ?? item.price * item.quantity;
+
+// Subtotal in Dh, rounded to 2 decimal places
+export const getCartSubtotal = (items: OrderItem[]): number => {
+  const total = items.reduce((sum, item) => sum + getLineTotal(item), 0);
+  return Math.round(total * 100) / 100;
+};
@@ -0,0 +1,72 @@
+// Contact request lifecycle and inbox helpers shared by the seller inbox and the buyer history
+
+import { Database } from '@/lib/database.types';
+
+export type ContactRequest = Database['public']['Tables']['contact_requests']['Row'];
+export type ContactRequestStatus = ContactRequest['status'];
+export type ContactType = Database['public']['Enums']['contact_type'];
+
+export interface ContactRequestStatusInfo {
+  value: ContactRequestStatus;
+  label: string;
+  description: string;
+}
+
+export const CONTACT_REQUEST_STATUSES: ContactRequestStatusInfo[] = [
+  {
+    value: 'pending',
+    label: 'Pending',
+    description: 'Waiting for the seller to answer'
+  },
+  {
+    value: 'responded',
+    label: 'Responded',
+    description: 'The seller answered'
+  },
+  {
+    value: 'completed',
+    label: 'Completed',
+    description: 'Done, nothing left to do'
+  }
+];
+
+export const CONTACT_TYPE_LABELS: Record<ContactType, string> = {
+  whatsapp: 'WhatsApp',
+  phone: 'Phone',
+  inquiry: 'Inquiry'
+};
+
+// Only the seller moves requests along; a responded request can be reopened if the buyer follows up
+export const CONTACT_REQUEST_TRANSITIONS: Record<ContactRequestStatus, ContactRequestStatus[]> = {
+  pending: ['responded', 'completed'],
+  responded: ['completed', 'pending'],
+  completed: []
+};
+
+export const getContactRequestStatusInfo = (status: ContactRequestStatus): ContactRequestStatusInfo => {
+  return CONTACT_REQUEST_STATUSES.find(s => s.value === status) || CONTACT_REQUEST_STATUSES[0];
+};
+
+export const getNextContactRequestStatuses = (status: ContactRequestStatus): ContactRequestStatus[] => {
+  return CONTACT_REQUEST_TRANSITIONS[status] || [];
+};
+
+export const canTransitionContactRequest = (from: ContactRequestStatus, to: ContactRequestStatus): boolean => {
+  return getNextContactRequestStatuses(from).includes(to);
+};
+
+export const isContactRequestUnread = (request: Pick<ContactRequest, 'seller_read_at'>): boolean => {
+  return !request.seller_read_at;
+};
+
+export const countUnreadContactRequests = (requests: Pick<ContactRequest, 'seller_read_at'>[]): number => {
+  return requests.filter(isContactRequestUnread).length;
+};
+
+// 'all' or one contact type
+export const filterContactRequests = <T extends Pick<ContactRequest, 'contact_type'>>(
+  requests: T[],
+  contactType: ContactType | 'all'
+): T[] => {
+  return contactType === 'all' ? requests : requests.filter(r => r.contact_type === contactType);
+};
@@ -0,0 +1,305 @@
+// Drink option groups (size, milk, sugar, extras) with price deltas
+
+import { NumberFormatOptions, formatPrice } from './numberFormat';
+
+export type DrinkOptionSelectionType = 'single' | 'multiple';
+
+export interface DrinkOption {
+  id: string;
+  name: string;
+  priceDelta: number;
+}
+
+export interface DrinkOptionGroup {
+  id: string;
+  name: string;
+  required: boolean;
+  selection: DrinkOptionSelectionType;
+  options: DrinkOption[];
+}
+
+// An option the buyer picked, copied with its group so it stays readable on old orders
+export interface SelectedDrinkOption {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  optionName: string;
+  priceDelta: number;
+}
+
+// Option IDs picked per group ID
+export type DrinkOptionSelections = Record<string, string[]>;
+
+export const MAX_OPTION_GROUPS = 8;
+export const MAX_OPTIONS_PER_GROUP = 12;
+export const MAX_PRICE_DELTA = 1000;
+
+// Starting points for the listing editor
+export const OPTION_GROUP_PRESETS: Omit<DrinkOptionGroup, 'id'>[] = [
+  {
+    name: 'Size',
+    required: true,
+    selection: 'single',
+    options: [
+      { id: 'small', name: 'Small', priceDelta: 0 },
+      { id: 'medium', name: 'Medium', priceDelta: 3 },
+      { id: 'large', name: 'Large', priceDelta: 6 }
+    ]
+  },
+  {
+    name: 'Milk',
+    required: false,
+    selection: 'single',
+    options: [
+      { id: 'whole', name: 'Whole milk', priceDelta: 0 },
+      { id: 'oat', name: 'Oat milk', priceDelta: 5 },
+      { id: 'almond', name: 'Almond milk', priceDelta: 5 }
+    ]
+  },
+  {
+    name: 'Sugar',
+    required: false,
+    selection: 'single',
+    options: [
+      { id: 'none', name: 'No sugar', priceDelta: 0 },
+      { id: 'less', name: 'Less sugar', priceDelta: 0 },
+      { id: 'regular', name: 'Regular sugar', priceDelta: 0 }
+    ]
+  },
+  {
+    name: 'Extras',
+    required: false,
+    selection: 'multiple',
+    options: [
+      { id: 'extra-shot', name: 'Extra shot', priceDelta: 4 },
+      { id: 'whipped-cream', name: 'Whipped cream', priceDelta: 3 }
+    ]
+  }
+];
+
+// Short random ID, unique enough within one drink
+export const generateOptionId = (): string => Math.random().toString(36).slice(2, 10);
+
+// Create an editable group, optionally from a preset
+export const createOptionGroup = (preset?: Omit<DrinkOptionGroup, 'id'>): DrinkOptionGroup => ({
+  id: generateOptionId(),
+  name: preset?.name || '',
+  required: preset?.required ?? false,
+  selection: preset?.selection || 'single',
+  options: preset
+    ? preset.options.map(option => ({ ...option, id: generateOptionId() }))
+    : [{ id: generateOptionId(), name: '', priceDelta: 0 }]
+});
+
+// Read option groups from a drinks row; tolerates null and malformed JSON
+export const parseOptionGroups = (value: unknown): DrinkOptionGroup[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(group => group && typeof group === 'object' && Array.isArray(group.options))
+    .map(group => ({
+      id: String(group.id),
+      name: String(group.name || ''),
+      required: Boolean(group.required),
+      selection: group.selection === 'multiple' ? 'multiple' : 'single',
+      options: (group.options as DrinkOption[])
+        .filter(option => option && typeof option === 'object')
+        .map(option => ({
+          id: String(option.id),
+          name: String(option.name || ''),
+          priceDelta: Number(option.priceDelta) || 0
+        }))
+    }));
+};
+
+// Validate and trim groups before saving; throws with a message for the seller. With the
+// drink's base price, also rejects choices that could bring the price below 0.
+export const sanitizeOptionGroups = (groups: DrinkOptionGroup[], basePrice?: number): DrinkOptionGroup[] => {
+  if (!Array.isArray(groups)) {
+    throw new Error('Invalid drink options');
+  }
+  if (groups.length > MAX_OPTION_GROUPS) {
+    throw new Error(`A drink can have at most ${MAX_OPTION_GROUPS} option groups`);
+  }
+
+  const groupIds = new Set<string>();
+
+  const sanitized = groups.map(group => {
+    const name = (group.name || '').trim();
+    if (name.length < 1 || name.length > 40) {
+      throw new Error('Option group names must be between 1 and 40 characters');
+    }
+    if (!group.id || groupIds.has(group.id)) {
+      throw new Error(`Option group "${name}" has a missing or duplicate ID`);
+    }
+    groupIds.add(group.id);
+
+    if (!Array.isArray(group.options) || group.options.length === 0) {
+      throw new Error(`Option group "${name}" needs at least one choice`);
+    }
+    if (group.options.length > MAX_OPTIONS_PER_GROUP) {
+      throw new Error(`Option group "${name}" can have at most ${MAX_OPTIONS_PER_GROUP} choices`);
+    }
+
+    const optionIds = new Set<string>();
+    const options = group.options.map(option => {
+      const optionName = (option.name || '').trim();
+      if (optionName.length < 1 || optionName.length > 40) {
+        throw new Error(`Choices in "${name}" must be between 1 and 40 characters`);
+      }
+      if (!option.id || optionIds.has(option.id)) {
+        throw new Error(`Choice "${optionName}" has a missing or duplicate ID`);
+      }
+      optionIds.add(option.id);
+
+      const priceDelta = Number(option.priceDelta);
+      if (isNaN(priceDelta) || Math.abs(priceDelta) > MAX_PRICE_DELTA) {
+        throw new Error(`Price change for "${optionName}" must be between -${MAX_PRICE_DELTA} and ${MAX_PRICE_DELTA} MAD`);
+      }
+
+      return { id: option.id, name: optionName, priceDelta: Math.round(priceDelta * 100) / 100 };
+    });
+
+    return {
+      id: group.id,
+      name,
+      required: Boolean(group.required),
+      selection: group.selection === 'multiple' ? 'multiple' : 'single',
+      options
+    } as DrinkOptionGroup;
+  });
+
+  if (typeof basePrice === 'number' && getDrinkPriceRange(basePrice, sanitized).min < 0) {
+    throw new Error('Price reductions can bring this drink below 0 MAD');
+  }
+
+  return sanitized;
+};
+
+// Preselect the first choice of every required single-select group
+export const getDefaultSelections = (groups: DrinkOptionGroup[]): DrinkOptionSelections => {
+  const selections: DrinkOptionSelections = {};
+  groups.forEach(group => {
+    if (group.required && group.selection === 'single' && group.options.length > 0) {
+      selections[group.id] = [group.options[0].id];
+    }
+  });
+  return selections;
+};
+
+// Toggle a choice, keeping single-select groups to one choice
+export const toggleOptionSelection = (
+  selections: DrinkOptionSelections,
+  group: DrinkOptionGroup,
+  optionId: string
+): DrinkOptionSelections => {
+  const current = selections[group.id] || [];
+
+  if (group.selection === 'single') {
+    const next = current.includes(optionId) && !group.required ? [] : [optionId];
+    return { ...selections, [group.id]: next };
+  }
+
+  const next = current.includes(optionId)
+    ? current.filter(id => id !== optionId)
+    : [...current, optionId];
+  return { ...selections, [group.id]: next };
+};
+
+// List problems with a selection (missing required groups, too many choices)
+export const validateOptionSelections = (
+  groups: DrinkOptionGroup[],
+  selections: DrinkOptionSelections
+): string[] => {
+  const errors: string[] = [];
+
+  groups.forEach(group => {
+    const picked = (selections[group.id] || []).filter(id => group.options.some(o => o.id === id));
+    if (group.required && picked.length === 0) {
+      errors.push(`Please choose a ${group.name.toLowerCase()}`);
+    }
+    if (group.selection === 'single' && picked.length > 1) {
+      errors.push(`Only one ${group.name.toLowerCase()} can be chosen`);
+    }
+  });
+
+  return errors;
+};
+
+// Turn a selection into the option snapshot stored on cart lines and orders
+export const resolveSelectedOptions = (
+  groups: DrinkOptionGroup[],
+  selections: DrinkOptionSelections
+): SelectedDrinkOption[] => {
+  const resolved: SelectedDrinkOption[] = [];
+
+  groups.forEach(group => {
+    const picked = selections[group.id] || [];
+    group.options
+      .filter(option => picked.includes(option.id))
+      .forEach(option => {
+        resolved.push({
+          groupId: group.id,
+          groupName: group.name,
+          optionId: option.id,
+          optionName: option.name,
+          priceDelta: option.priceDelta
+        });
+      });
+  });
+
+  return resolved;
+};
+
+// Rebuild a selection map from stored options
+export const toOptionSelections = (options: SelectedDrinkOption[]): DrinkOptionSelections => {
+  const selections: DrinkOptionSelections = {};
+  options.forEach(option => {
+    selections[option.groupId] = [...(selections[option.groupId] || []), option.optionId];
+  });
+  return selections;
+};
+
+// Base price plus the deltas of the chosen options, rounded to 2 decimals. Never below 0,
+// for drinks saved before negative totals were rejected.
+export const getOptionsUnitPrice = (basePrice: number, options: SelectedDrinkOption[] = []): number => {
+  const total = options.reduce((sum, option) => sum + option.priceDelta, basePrice);
+  return Math.max(0, Math.round(total * 100) / 100);
+};
+
+// Cheapest and most expensive configuration of a drink
+export const getDrinkPriceRange = (
+  basePrice: number,
+  groups: DrinkOptionGroup[]
+): { min: number; max: number } => {
+  let min = basePrice;
+  let max = basePrice;
+
+  groups.forEach(group => {
+    const deltas = group.options.map(option => option.priceDelta);
+    if (deltas.length === 0) return;
+
+    const lowest = Math.min(...deltas);
+    if (group.selection === 'single') {
+      min += group.required ? lowest : Math.min(0, lowest);
+      max += group.required ? Math.max(...deltas) : Math.max(0, ...deltas);
+    } else {
+      const negatives = deltas.filter(d => d < 0).reduce((a, b) => a + b, 0);
+      min += group.required && negatives === 0 ? lowest : negatives;
+      max += deltas.filter(d => d > 0).reduce((a, b) => a + b, 0);
+    }
+  });
+
+  return { min: Math.round(min * 100) / 100, max: Math.round(max * 100) / 100 };
+};
+
+// Human-readable summary, e.g. "Large, Oat milk, Extra shot"
+export const formatSelectedOptions = (options: SelectedDrinkOption[] = []): string => {
+  return options.map(option => option.optionName).join(', ');
+};
+
+// Price delta label for a choice, e.g. "+5.00 Dh"
+export const formatPriceDelta = (priceDelta: number, options: NumberFormatOptions = {}): string => {
+  if (priceDelta === 0) return '';
+  return `${priceDelta > 0 ? '+' : '−'}${formatPrice(Math.abs(priceDelta), options)}`;
+};
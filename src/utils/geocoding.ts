@@ -2,6 +2,19 @@
  * Geocoding utilities for converting addresses to coordinates
  */
 
+import { getGeocodingConfig } from '@/config/geocoding';
+import { orsFetchJson } from '@/lib/openroute';
+import { cachedLookup, clearResponseCache, RESPONSE_CACHE_TTL } from '@/lib/responseCache';
+import { createDebouncedCall, getCoordinateCacheKey, getQueryCacheKey } from './requestCache';
+import {
+  createGeocodingProviders,
+  geocodeWithProviders,
+  reverseWithProviders,
+  searchWithProviders,
+  type GeocodingProvider,
+  type GeocodingProviderId
+} from './geocodingProviders';
+
 export interface Coordinates {
   latitude: number;
   longitude: number;
@@ -10,6 +23,9 @@ export interface Coordinates {
 export interface GeocodeResult {
   coordinates: Coordinates;
   formattedAddress: string;
+  // 0-1; below LOW_CONFIDENCE_THRESHOLD the match is street level or vaguer
+  confidence: number;
+  provider?: GeocodingProviderId;
 }
 
 /**
@@ -30,7 +46,8 @@ export const DEFAULT_COORDINATES: Record<string, Coordinates> = {
 };
 
 /**
- * Get default coordinates based on address or return NYC coordinates
+ * City centre for an address that mentions a known city, else Casablanca.
+ * Only a placeholder: geocoding no longer falls back to it.
  */
 export function getDefaultCoordinates(address?: string): Coordinates {
   if (!address) {
@@ -49,60 +66,39 @@ export function getDefaultCoordinates(address?: string): Coordinates {
   return DEFAULT_COORDINATES.default;
 }
 
-/**
- * Geocode an address using OpenRouteService
- */
-export async function geocodeAddress(address: string): Promise<GeocodeResult | null> {
-  try {
-    console.log('🔄 Geocoding address with ORS:', address);
-
-    const ORS_API_KEY = import.meta.env.VITE_ORS_API_KEY;
-    if (!ORS_API_KEY) {
-      console.warn('⚠️ ORS API key not found, using fallback coordinates');
-      return {
-        coordinates: getDefaultCoordinates(address),
-        formattedAddress: address
-      };
-    }
+let providers: GeocodingProvider[] | null = null;
 
-    const response = await fetch(
-      `https://api.openrouteservice.org/geocode/search?api_key=${ORS_API_KEY}&text=${encodeURIComponent(address)}&size=1`,
-      {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-        }
-      }
-    );
+// Built from src/config/geocoding.ts on first use
+const getProviders = (): GeocodingProvider[] => {
+  if (!providers) providers = createGeocodingProviders(getGeocodingConfig(), { orsFetchJson });
+  return providers;
+};
 
-    if (!response.ok) {
-      throw new Error(`ORS Geocoding API error: ${response.status}`);
-    }
+// Swaps the provider chain, e.g. for a fixture provider in tests; null restores the configured one.
+// Cached answers came from the old chain, so they are dropped.
+export function setGeocodingProviders(next: GeocodingProvider[] | null): void {
+  providers = next;
+  clearResponseCache();
+}
 
-    const data = await response.json();
+// Address inputs search on every keystroke; only the last one within this window is sent
+export const SEARCH_DEBOUNCE_MS = 300;
 
-    if (data.features && data.features.length > 0) {
-      const feature = data.features[0];
-      const [longitude, latitude] = feature.geometry.coordinates;
+/**
+ * Geocode an address with the configured providers.
+ * Returns null when no provider finds it, rather than guessing a city centre.
+ */
+export async function geocodeAddress(address: string): Promise<GeocodeResult | null> {
+  if (!address?.trim()) return null;
 
-      return {
-        coordinates: { latitude, longitude },
-        formattedAddress: feature.properties.label || address
-      };
-    } else {
-      console.warn('⚠️ No geocoding results found, using fallback coordinates');
-      return {
-        coordinates: getDefaultCoordinates(address),
-        formattedAddress: address
-      };
-    }
-  } catch (error) {
-    console.error('❌ Geocoding failed:', error);
-    return {
-      coordinates: getDefaultCoordinates(address),
-      formattedAddress: address
-    };
+  console.log('🔄 Geocoding address:', address);
+  const result = await cachedLookup(getQueryCacheKey('geocode', address), RESPONSE_CACHE_TTL.geocode, () =>
+    geocodeWithProviders(getProviders(), address)
+  );
+  if (!result) {
+    console.warn('⚠️ No geocoding results found for:', address);
   }
+  return result;
 }
 
 /**
@@ -157,86 +153,31 @@ export function formatCoordinates(lat: number, lng: number): string {
   return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
 }
 
+const debouncedSearch = createDebouncedCall((query: string, limit: number) =>
+  cachedLookup(getQueryCacheKey('autocomplete', query, limit), RESPONSE_CACHE_TTL.autocomplete, () =>
+    searchWithProviders(getProviders(), query, limit)
+  ), SEARCH_DEBOUNCE_MS);
+
 /**
- * Search for addresses using OpenRouteService autocomplete
+ * Search for addresses as the user types. Debounced and cached, so it is safe to call on every keystroke.
  */
 export async function searchAddresses(query: string, limit: number = 5): Promise<GeocodeResult[]> {
-  try {
-    if (!query || query.length < 3) {
-      return [];
-    }
-
-    const ORS_API_KEY = import.meta.env.VITE_ORS_API_KEY;
-    if (!ORS_API_KEY) {
-      console.warn('⚠️ ORS API key not found');
-      return [];
-    }
-
-    const response = await fetch(
-      `https://api.openrouteservice.org/geocode/autocomplete?api_key=${ORS_API_KEY}&text=${encodeURIComponent(query)}&size=${limit}`,
-      {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-        }
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`ORS Autocomplete API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    return (data.features || []).map((feature: any) => ({
-      coordinates: {
-        latitude: feature.geometry.coordinates[1],
-        longitude: feature.geometry.coordinates[0]
-      },
-      formattedAddress: feature.properties.label
-    }));
-  } catch (error) {
-    console.error('❌ Address search failed:', error);
+  if (!query || query.length < 3) {
     return [];
   }
+  return debouncedSearch(query, limit);
 }
 
 /**
- * Reverse geocode coordinates to get address using OpenRouteService
+ * Reverse geocode coordinates to get an address
  */
 export async function reverseGeocode(latitude: number, longitude: number): Promise<string | null> {
-  try {
-    const ORS_API_KEY = import.meta.env.VITE_ORS_API_KEY;
-    if (!ORS_API_KEY) {
-      console.warn('⚠️ ORS API key not found');
-      return null;
-    }
-
-    const response = await fetch(
-      `https://api.openrouteservice.org/geocode/reverse?api_key=${ORS_API_KEY}&point.lon=${longitude}&point.lat=${latitude}&size=1`,
-      {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-        }
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`ORS Reverse Geocoding API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    if (data.features && data.features.length > 0) {
-      return data.features[0].properties.label;
-    }
-
-    return null;
-  } catch (error) {
-    console.error('❌ Reverse geocoding failed:', error);
+  if (!isValidCoordinates(latitude, longitude)) {
     return null;
   }
+  return cachedLookup(getCoordinateCacheKey('reverse', [{ latitude, longitude }]), RESPONSE_CACHE_TTL.reverse, () =>
+    reverseWithProviders(getProviders(), { latitude, longitude })
+  );
 }
 
 /**
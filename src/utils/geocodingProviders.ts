@@ -0,0 +1,318 @@
+// Geocoding providers (OpenRouteService, Nominatim, Photon, fixtures) and the fallback chain over them
+
+import type { Coordinates, GeocodeResult } from './geocoding';
+
+export type GeocodingProviderId = 'ors' | 'nominatim' | 'photon' | 'fixture';
+
+export interface GeocodingProvider {
+  id: GeocodingProviderId;
+  // Best single match for a full address
+  geocode(address: string): Promise<GeocodeResult | null>;
+  // Suggestions while typing
+  search(query: string, limit: number): Promise<GeocodeResult[]>;
+  reverse(coordinates: Coordinates): Promise<string | null>;
+}
+
+export type FetchJson = (url: string) => Promise<unknown>;
+
+// How precisely a result pins a place; a city-level match puts a seller at the town hall
+export type GeocodeGranularity = 'address' | 'street' | 'neighbourhood' | 'city' | 'region';
+
+export const GRANULARITY_CONFIDENCE: Record<GeocodeGranularity, number> = {
+  address: 0.9,
+  street: 0.7,
+  neighbourhood: 0.5,
+  city: 0.3,
+  region: 0.1
+};
+
+// Anything less precise than a building or venue is shown to the user as approximate
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+export const GEOCODING_PROVIDER_IDS: GeocodingProviderId[] = ['ors', 'nominatim', 'photon'];
+
+export const isLowConfidence = (result: Pick<GeocodeResult, 'confidence'>): boolean =>
+  result.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+// Capped by granularity, so a provider that is "sure" about a city centre still counts as approximate
+export const getConfidence = (granularity: GeocodeGranularity, providerScore?: number | null): number => {
+  const score = typeof providerScore === 'number' && !isNaN(providerScore) ? providerScore : 1;
+  return Math.round(Math.min(GRANULARITY_CONFIDENCE[granularity], Math.max(0, score)) * 100) / 100;
+};
+
+const defaultFetchJson: FetchJson = async (url) => {
+  const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Geocoding API error: ${response.status}`);
+  }
+  return response.json();
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// OpenRouteService (Pelias)
+
+interface OrsFeature {
+  geometry: { coordinates: [number, number] };
+  properties: { label?: string; layer?: string; confidence?: number };
+}
+
+const ORS_LAYER_GRANULARITY: Record<string, GeocodeGranularity> = {
+  venue: 'address',
+  address: 'address',
+  street: 'street',
+  postalcode: 'neighbourhood',
+  microhood: 'neighbourhood',
+  neighbourhood: 'neighbourhood',
+  macrohood: 'neighbourhood',
+  borough: 'neighbourhood',
+  locality: 'city',
+  localadmin: 'city',
+  county: 'city'
+};
+
+export const parseOrsFeature = (feature: OrsFeature): GeocodeResult => ({
+  coordinates: {
+    latitude: feature.geometry.coordinates[1],
+    longitude: feature.geometry.coordinates[0]
+  },
+  formattedAddress: feature.properties.label || '',
+  confidence: getConfidence(ORS_LAYER_GRANULARITY[feature.properties.layer || ''] || 'region', feature.properties.confidence),
+  provider: 'ors'
+});
+
+export const createOrsProvider = (apiKey: string, fetchJson: FetchJson = defaultFetchJson): GeocodingProvider => {
+  const base = 'https://api.openrouteservice.org/geocode';
+  const features = async (url: string) =>
+    ((await fetchJson(url)) as { features?: OrsFeature[] } | null)?.features || [];
+
+  return {
+    id: 'ors',
+    geocode: async (address) => {
+      const [feature] = await features(`${base}/search?api_key=${apiKey}&text=${encodeURIComponent(address)}&size=1`);
+      return feature ? parseOrsFeature(feature) : null;
+    },
+    search: async (query, limit) =>
+      (await features(`${base}/autocomplete?api_key=${apiKey}&text=${encodeURIComponent(query)}&size=${limit}`)).map(parseOrsFeature),
+    reverse: async ({ latitude, longitude }) => {
+      const [feature] = await features(`${base}/reverse?api_key=${apiKey}&point.lon=${longitude}&point.lat=${latitude}&size=1`);
+      return feature?.properties.label || null;
+    }
+  };
+};
+
+// Nominatim
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+  place_rank?: number;
+}
+
+// https://nominatim.org/release-docs/latest/customize/Ranking/
+const getNominatimGranularity = (placeRank = 0): GeocodeGranularity => {
+  if (placeRank >= 28) return 'address';
+  if (placeRank >= 26) return 'street';
+  if (placeRank >= 20) return 'neighbourhood';
+  if (placeRank >= 13) return 'city';
+  return 'region';
+};
+
+export const parseNominatimPlace = (place: NominatimPlace): GeocodeResult => ({
+  coordinates: {
+    latitude: parseFloat(place.lat),
+    longitude: parseFloat(place.lon)
+  },
+  formattedAddress: place.display_name,
+  confidence: getConfidence(getNominatimGranularity(place.place_rank)),
+  provider: 'nominatim'
+});
+
+export const PUBLIC_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+// The public instance's usage policy forbids search-as-you-type, so it only answers full lookups
+export const createNominatimProvider = (baseUrl: string, fetchJson: FetchJson = defaultFetchJson): GeocodingProvider => {
+  const base = trimSlash(baseUrl);
+  const isPublic = base === PUBLIC_NOMINATIM_URL;
+  const search = async (query: string, limit: number) => {
+    const places = await fetchJson(`${base}/search?q=${encodeURIComponent(query)}&format=jsonv2&limit=${limit}`);
+    return (Array.isArray(places) ? places as NominatimPlace[] : []).map(parseNominatimPlace);
+  };
+
+  return {
+    id: 'nominatim',
+    geocode: async (address) => (await search(address, 1))[0] || null,
+    search: async (query, limit) => isPublic ? [] : search(query, limit),
+    reverse: async ({ latitude, longitude }) => {
+      const place = await fetchJson(`${base}/reverse?lat=${latitude}&lon=${longitude}&format=jsonv2`) as Partial<NominatimPlace> | null;
+      return place?.display_name || null;
+    }
+  };
+};
+
+// Photon
+
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    name?: string;
+    housenumber?: string;
+    street?: string;
+    district?: string;
+    city?: string;
+    country?: string;
+    type?: string;
+  };
+}
+
+const PHOTON_TYPE_GRANULARITY: Record<string, GeocodeGranularity> = {
+  house: 'address',
+  street: 'street',
+  locality: 'neighbourhood',
+  district: 'neighbourhood',
+  city: 'city'
+};
+
+// Photon returns address parts rather than a label
+export const formatPhotonLabel = ({ properties }: PhotonFeature): string => {
+  const street = [properties.housenumber, properties.street].filter(Boolean).join(' ');
+  const parts = [properties.name, street, properties.district, properties.city, properties.country]
+    .filter((part): part is string => Boolean(part));
+  return parts.filter((part, index) => parts.indexOf(part) === index).join(', ');
+};
+
+export const parsePhotonFeature = (feature: PhotonFeature): GeocodeResult => ({
+  coordinates: {
+    latitude: feature.geometry.coordinates[1],
+    longitude: feature.geometry.coordinates[0]
+  },
+  formattedAddress: formatPhotonLabel(feature),
+  confidence: getConfidence(
+    feature.properties.housenumber ? 'address' : PHOTON_TYPE_GRANULARITY[feature.properties.type || ''] || 'region'
+  ),
+  provider: 'photon'
+});
+
+export const createPhotonProvider = (baseUrl: string, fetchJson: FetchJson = defaultFetchJson): GeocodingProvider => {
+  const base = trimSlash(baseUrl);
+  const features = async (url: string) =>
+    ((await fetchJson(url)) as { features?: PhotonFeature[] } | null)?.features || [];
+  const search = async (query: string, limit: number) =>
+    (await features(`${base}/api?q=${encodeURIComponent(query)}&limit=${limit}`)).map(parsePhotonFeature);
+
+  return {
+    id: 'photon',
+    geocode: async (address) => (await search(address, 1))[0] || null,
+    search,
+    reverse: async ({ latitude, longitude }) => {
+      const [feature] = await features(`${base}/reverse?lat=${latitude}&lon=${longitude}&limit=1`);
+      return feature ? formatPhotonLabel(feature) || null : null;
+    }
+  };
+};
+
+// Fixtures
+
+export interface GeocodingFixtures {
+  // Keyed by the lower-cased, trimmed query
+  search?: Record<string, GeocodeResult[]>;
+  // Keyed by "lat,lng" with 4 decimals
+  reverse?: Record<string, string>;
+}
+
+const fixtureKey = (query: string) => query.trim().toLowerCase();
+
+// Answers from canned data, for tests and for working without network access
+export const createFixtureProvider = (fixtures: GeocodingFixtures): GeocodingProvider => ({
+  id: 'fixture',
+  geocode: async (address) => fixtures.search?.[fixtureKey(address)]?.[0] || null,
+  search: async (query, limit) => (fixtures.search?.[fixtureKey(query)] || []).slice(0, limit),
+  reverse: async ({ latitude, longitude }) =>
+    fixtures.reverse?.[`${latitude.toFixed(4)},${longitude.toFixed(4)}`] || null
+});
+
+// Ordering
+
+/**
+ * Provider order from a comma-separated setting. Unknown names are ignored and ORS is
+ * dropped without an API key; an empty result falls back to ORS (when keyed), then
+ * Photon, then Nominatim, which is the strictest about request rates.
+ */
+export const getProviderOrder = (setting: string | undefined, hasOrsKey: boolean): GeocodingProviderId[] => {
+  const requested = (setting || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is GeocodingProviderId => GEOCODING_PROVIDER_IDS.includes(name as GeocodingProviderId))
+    .filter(name => name !== 'ors' || hasOrsKey);
+  const order = requested.filter((name, index) => requested.indexOf(name) === index);
+
+  if (order.length > 0) return order;
+  return hasOrsKey ? ['ors', 'photon', 'nominatim'] : ['photon', 'nominatim'];
+};
+
+// ORS requests can go through their own fetch, which enforces ORS's rate limits
+export const createGeocodingProviders = (
+  config: { PROVIDERS?: string; ORS_API_KEY?: string; NOMINATIM_URL: string; PHOTON_URL: string },
+  { fetchJson = defaultFetchJson, orsFetchJson = fetchJson }: { fetchJson?: FetchJson; orsFetchJson?: FetchJson } = {}
+): GeocodingProvider[] =>
+  getProviderOrder(config.PROVIDERS, Boolean(config.ORS_API_KEY)).map(id => {
+    if (id === 'ors') return createOrsProvider(config.ORS_API_KEY!, orsFetchJson);
+    if (id === 'nominatim') return createNominatimProvider(config.NOMINATIM_URL, fetchJson);
+    return createPhotonProvider(config.PHOTON_URL, fetchJson);
+  });
+
+// Fallback chain
+
+/**
+ * Asks each provider in turn and keeps the most confident match, stopping at the first
+ * one that isn't approximate. A provider that errors (down, rate-limited) is skipped.
+ */
+export const geocodeWithProviders = async (
+  providers: GeocodingProvider[],
+  address: string
+): Promise<GeocodeResult | null> => {
+  let best: GeocodeResult | null = null;
+  for (const provider of providers) {
+    try {
+      const result = await provider.geocode(address);
+      if (result && (!best || result.confidence > best.confidence)) best = result;
+      if (best && !isLowConfidence(best)) break;
+    } catch (error) {
+      console.warn(`⚠️ ${provider.id} geocoding failed, trying the next provider:`, error);
+    }
+  }
+  return best;
+};
+
+// Suggestions come from the first provider that has any, to keep typing cheap
+export const searchWithProviders = async (
+  providers: GeocodingProvider[],
+  query: string,
+  limit: number
+): Promise<GeocodeResult[]> => {
+  for (const provider of providers) {
+    try {
+      const results = await provider.search(query, limit);
+      if (results.length > 0) return results;
+    } catch (error) {
+      console.warn(`⚠️ ${provider.id} address search failed, trying the next provider:`, error);
+    }
+  }
+  return [];
+};
+
+export const reverseWithProviders = async (
+  providers: GeocodingProvider[],
+  coordinates: Coordinates
+): Promise<string | null> => {
+  for (const provider of providers) {
+    try {
+      const address = await provider.reverse(coordinates);
+      if (address) return address;
+    } catch (error) {
+      console.warn(`⚠️ ${provider.id} reverse geocoding failed, trying the next provider:`, error);
+    }
+  }
+  return null;
+};
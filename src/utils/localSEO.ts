@@ -1,5 +1,7 @@
 // Local SEO utilities for location-based optimization
 
+import { DAY_KEYS, DAY_LABELS, parseHoursString } from './businessHours';
+
 export interface LocationData {
   city: string;
   region?: string;
@@ -66,28 +68,24 @@ export const generateLocalBusinessSchema = (business: LocalBusinessData) => {
 
   // Add opening hours if available
   if (business.hours) {
-    schema.openingHours = parseOpeningHours(business.hours);
+    const openingHours = parseOpeningHours(business.hours);
+    if (openingHours.length > 0) {
+      schema.openingHours = openingHours;
+    }
   }
 
   return schema;
 };
 
 // Parse opening hours into schema.org format
+// Unreadable hours are left out rather than guessed
 const parseOpeningHours = (hours: string): string[] => {
-  // Simple parser for common formats
-  // You can enhance this based on your actual hours format
-  const defaultHours = [
-    "Mo-Fr 08:00-18:00",
-    "Sa 09:00-17:00",
-    "Su 10:00-16:00"
-  ];
-  
-  try {
-    // Add your custom parsing logic here
-    return defaultHours;
-  } catch (error) {
-    return defaultHours;
-  }
+  const schedule = parseHoursString(hours);
+  if (!schedule) return [];
+
+  return DAY_KEYS.flatMap(day =>
+    schedule.days[day].map(interval => `${DAY_LABELS[day].short.slice(0, 2)} ${interval.open}-${interval.close}`)
+  );
 };
 
 // Generate location-specific meta tags
@@ -131,6 +129,22 @@ export const generateCityPageSchema = (city: string, region: string, country: st
   };
 };
 
+// ItemList of the sellers shown on a city page, in the order they are listed
+export const generateSellerItemListSchema = (city: string, sellers: Array<{ id: string; business_name: string }>) => {
+  return {
+    "@context": "https://schema.org",
+    "@type": "ItemList",
+    "name": `Coffee & Matcha sellers in ${city}`,
+    "numberOfItems": sellers.length,
+    "itemListElement": sellers.map((seller, index) => ({
+      "@type": "ListItem",
+      "position": index + 1,
+      "name": seller.business_name,
+      "url": `https://machroub.ma/seller/${seller.id}`
+    }))
+  };
+};
+
 // Generate local search keywords
 export const generateLocalKeywords = (baseKeywords: string[], location: LocationData): string[] => {
   const locationVariations = [
@@ -157,19 +171,53 @@ export const generateLocalKeywords = (baseKeywords: string[], location: Location
 };
 
 // Common Moroccan cities for local SEO
+// Aliases are the other spellings seen in seller addresses (French, Arabic, transliterations)
+// Coordinates are the city centres used to search for sellers on the city pages
 export const MOROCCAN_CITIES = [
-  { name: 'Casablanca', region: 'Casablanca-Settat', country: 'Morocco' },
-  { name: 'Rabat', region: 'Rabat-Salé-Kénitra', country: 'Morocco' },
-  { name: 'Marrakech', region: 'Marrakech-Safi', country: 'Morocco' },
-  { name: 'Fez', region: 'Fès-Meknès', country: 'Morocco' },
-  { name: 'Tangier', region: 'Tanger-Tétouan-Al Hoceïma', country: 'Morocco' },
-  { name: 'Agadir', region: 'Souss-Massa', country: 'Morocco' },
-  { name: 'Meknes', region: 'Fès-Meknès', country: 'Morocco' },
-  { name: 'Oujda', region: 'Oriental', country: 'Morocco' },
-  { name: 'Kenitra', region: 'Rabat-Salé-Kénitra', country: 'Morocco' },
-  { name: 'Tetouan', region: 'Tanger-Tétouan-Al Hoceïma', country: 'Morocco' }
+  { name: 'Casablanca', region: 'Casablanca-Settat', country: 'Morocco', latitude: 33.5731, longitude: -7.5898, aliases: ['Casa', 'Dar el Beida', 'الدار البيضاء'] },
+  { name: 'Rabat', region: 'Rabat-Salé-Kénitra', country: 'Morocco', latitude: 34.0209, longitude: -6.8416, aliases: ['الرباط'] },
+  { name: 'Marrakech', region: 'Marrakech-Safi', country: 'Morocco', latitude: 31.6295, longitude: -7.9811, aliases: ['Marrakesh', 'مراكش'] },
+  { name: 'Fez', region: 'Fès-Meknès', country: 'Morocco', latitude: 34.0181, longitude: -5.0078, aliases: ['Fès', 'Fes', 'فاس'] },
+  { name: 'Tangier', region: 'Tanger-Tétouan-Al Hoceïma', country: 'Morocco', latitude: 35.7595, longitude: -5.834, aliases: ['Tanger', 'Tangiers', 'طنجة'] },
+  { name: 'Agadir', region: 'Souss-Massa', country: 'Morocco', latitude: 30.4278, longitude: -9.5981, aliases: ['أكادير'] },
+  { name: 'Meknes', region: 'Fès-Meknès', country: 'Morocco', latitude: 33.8935, longitude: -5.5473, aliases: ['Meknès', 'مكناس'] },
+  { name: 'Oujda', region: 'Oriental', country: 'Morocco', latitude: 34.6814, longitude: -1.9086, aliases: ['وجدة'] },
+  { name: 'Kenitra', region: 'Rabat-Salé-Kénitra', country: 'Morocco', latitude: 34.261, longitude: -6.5802, aliases: ['Kénitra', 'القنيطرة'] },
+  { name: 'Tetouan', region: 'Tanger-Tétouan-Al Hoceïma', country: 'Morocco', latitude: 35.5889, longitude: -5.3626, aliases: ['Tétouan', 'Tetuan', 'تطوان'] }
 ];
 
+export type MoroccanCity = typeof MOROCCAN_CITIES[number];
+
+const normalizePlaceName = (text: string): string => {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+};
+
+// Sellers within this distance of the centre are listed on a city page
+export const CITY_RADIUS_KM = 15;
+
+export const getCitySlug = (city: MoroccanCity): string => {
+  return normalizePlaceName(city.name).replace(/[^a-z0-9]+/g, '-');
+};
+
+export const getCityPath = (city: MoroccanCity): string => `/city/${getCitySlug(city)}`;
+
+export const getCityBySlug = (slug: string): MoroccanCity | null => {
+  return MOROCCAN_CITIES.find(city => getCitySlug(city) === slug.toLowerCase()) || null;
+};
+
+// The first known city named in an address, matching whole words and ignoring accents
+export const getCityFromAddress = (address: string | null | undefined): MoroccanCity | null => {
+  if (!address) return null;
+  const normalized = normalizePlaceName(address);
+
+  return MOROCCAN_CITIES.find(city =>
+    [city.name, ...city.aliases].some(name => {
+      const escaped = normalizePlaceName(name).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`(^|[^\\p{L}])${escaped}($|[^\\p{L}])`, 'u').test(normalized);
+    })
+  ) || null;
+};
+
 // Generate FAQ schema for local SEO
 export const generateLocalFAQSchema = (city: string) => {
   return {
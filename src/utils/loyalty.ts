@@ -0,0 +1,120 @@
+// Loyalty stamp cards: one-time stamp codes, stamp/reward arithmetic and progress for display
+
+import { Database } from '@/lib/database.types';
+
+export type LoyaltyCard = Database['public']['Tables']['loyalty_cards']['Row'];
+export type LoyaltyMembership = Database['public']['Tables']['loyalty_memberships']['Row'];
+export type LoyaltyCode = Database['public']['Tables']['loyalty_codes']['Row'];
+
+// No 0/O or 1/I so codes read back reliably over the counter
+export const LOYALTY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const LOYALTY_CODE_LENGTH = 6;
+
+// One stamp per buyer per seller in this window, also enforced by use_loyalty_code()
+export const STAMP_COOLDOWN_MINUTES = 30;
+
+export const MIN_STAMPS_REQUIRED = 3;
+export const MAX_STAMPS_REQUIRED = 20;
+export const MAX_REWARD_LENGTH = 80;
+
+export const LOYALTY_STAMP_PATH = '/loyalty/stamp';
+
+export const generateLoyaltyCode = (): string => {
+  const values = crypto.getRandomValues(new Uint32Array(LOYALTY_CODE_LENGTH));
+  return Array.from(values, value => LOYALTY_CODE_ALPHABET[value % LOYALTY_CODE_ALPHABET.length]).join('');
+};
+
+/**
+ * Turns whatever the seller typed or scanned into a bare code: accepts "ab3-k7p",
+ * "AB3K7P" or a full stamp link from the QR code.
+ */
+export const normalizeLoyaltyCode = (input: string): string => {
+  const trimmed = input.trim();
+  const pathIndex = trimmed.indexOf(`${LOYALTY_STAMP_PATH}/`);
+  const raw = pathIndex >= 0 ? trimmed.slice(pathIndex + LOYALTY_STAMP_PATH.length + 1) : trimmed;
+  return raw.toUpperCase().replace(/[^A-Z0-9]/g, '');
+};
+
+export const isValidLoyaltyCode = (code: string): boolean => {
+  return code.length === LOYALTY_CODE_LENGTH &&
+    code.split('').every(char => LOYALTY_CODE_ALPHABET.includes(char));
+};
+
+// "AB3K7P" -> "AB3 K7P", easier to read aloud
+export const formatLoyaltyCode = (code: string): string => {
+  return `${code.slice(0, 3)} ${code.slice(3)}`;
+};
+
+export const getLoyaltyStampUrl = (code: string, origin: string = window.location.origin): string => {
+  return `${origin}${LOYALTY_STAMP_PATH}/${code}`;
+};
+
+export const isLoyaltyCodeExpired = (code: Pick<LoyaltyCode, 'expires_at'>, date: Date = new Date()): boolean => {
+  return date.getTime() >= Date.parse(code.expires_at);
+};
+
+// Minutes left before the buyer can get another stamp from this seller; 0 when they can
+export const getStampCooldownMinutes = (lastStampAt: string | null, date: Date = new Date()): number => {
+  if (!lastStampAt) return 0;
+  const elapsed = date.getTime() - Date.parse(lastStampAt);
+  const remaining = STAMP_COOLDOWN_MINUTES * 60000 - elapsed;
+  return remaining > 0 ? Math.ceil(remaining / 60000) : 0;
+};
+
+/**
+ * Adds one stamp; a full card turns into an available reward and starts over.
+ * Mirrors the use_loyalty_code() database function.
+ */
+export const addStamp = (
+  membership: Pick<LoyaltyMembership, 'stamps' | 'rewards_available'>,
+  stampsRequired: number
+): { stamps: number; rewards_available: number; rewardEarned: boolean } => {
+  const stamps = membership.stamps + 1;
+  if (stamps >= stampsRequired) {
+    return { stamps: 0, rewards_available: membership.rewards_available + 1, rewardEarned: true };
+  }
+  return { stamps, rewards_available: membership.rewards_available, rewardEarned: false };
+};
+
+export interface LoyaltyProgress {
+  stamps: number;
+  required: number;
+  remaining: number;
+  rewardsAvailable: number;
+  percent: number;
+}
+
+export const getLoyaltyProgress = (
+  card: Pick<LoyaltyCard, 'stamps_required'>,
+  membership: Pick<LoyaltyMembership, 'stamps' | 'rewards_available'> | null
+): LoyaltyProgress => {
+  const stamps = Math.min(membership?.stamps || 0, card.stamps_required);
+  return {
+    stamps,
+    required: card.stamps_required,
+    remaining: card.stamps_required - stamps,
+    rewardsAvailable: membership?.rewards_available || 0,
+    percent: Math.round((stamps / card.stamps_required) * 100)
+  };
+};
+
+export interface LoyaltyCardInput {
+  stamps_required: number;
+  reward: string;
+  is_active: boolean;
+}
+
+export const validateLoyaltyCard = (input: LoyaltyCardInput): string[] => {
+  const errors: string[] = [];
+  const required = Number(input.stamps_required);
+
+  if (!Number.isInteger(required) || required < MIN_STAMPS_REQUIRED || required > MAX_STAMPS_REQUIRED) {
+    errors.push(`Stamps needed must be a whole number from ${MIN_STAMPS_REQUIRED} to ${MAX_STAMPS_REQUIRED}`);
+  }
+
+  const reward = input.reward.trim();
+  if (!reward) errors.push('Describe the reward, e.g. "A free coffee"');
+  if (reward.length > MAX_REWARD_LENGTH) errors.push(`Keep the reward under ${MAX_REWARD_LENGTH} characters`);
+
+  return errors;
+};
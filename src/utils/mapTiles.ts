@@ -0,0 +1,98 @@
+// OpenStreetMap tile URLs and the tiles around the user's last location, cached for offline use
+
+export const OSM_TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const OSM_SUBDOMAINS = ['a', 'b', 'c'];
+
+export const LAST_LOCATION_STORAGE_KEY = 'machroub_last_location';
+export const CACHE_TILES_MESSAGE = 'machroub:cache-tiles';
+
+// The map opens at zoom 13 and "locate me" zooms to 15; 2 tiles each way covers
+// a few km around the user without bulk-downloading from the OSM tile servers
+export const OFFLINE_TILE_ZOOMS = [13, 14, 15];
+export const OFFLINE_TILE_RADIUS = 2;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface TileCoordinates {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Web Mercator tile containing a point, as Leaflet computes it
+export const latLngToTile = ({ lat, lng }: LatLng, zoom: number): TileCoordinates => {
+  const scale = 2 ** zoom;
+  const latRad = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+  const x = Math.floor(((lng + 180) / 360) * scale);
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale);
+  return {
+    x: Math.min(scale - 1, Math.max(0, x)),
+    y: Math.min(scale - 1, Math.max(0, y)),
+    z: zoom
+  };
+};
+
+// Picks the subdomain the same way Leaflet does, so prefetched URLs match the ones the map requests
+export const getTileUrl = ({ x, y, z }: TileCoordinates): string =>
+  OSM_TILE_URL
+    .replace('{s}', OSM_SUBDOMAINS[Math.abs(x + y) % OSM_SUBDOMAINS.length])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+
+export const getTileUrlsAround = (
+  location: LatLng,
+  zooms: number[] = OFFLINE_TILE_ZOOMS,
+  radius: number = OFFLINE_TILE_RADIUS
+): string[] => {
+  const urls: string[] = [];
+  zooms.forEach(zoom => {
+    const center = latLngToTile(location, zoom);
+    const max = 2 ** zoom - 1;
+    for (let x = Math.max(0, center.x - radius); x <= Math.min(max, center.x + radius); x++) {
+      for (let y = Math.max(0, center.y - radius); y <= Math.min(max, center.y + radius); y++) {
+        urls.push(getTileUrl({ x, y, z: zoom }));
+      }
+    }
+  });
+  return urls;
+};
+
+export const loadLastLocation = (): LatLng | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LAST_LOCATION_STORAGE_KEY) || 'null');
+    return stored && typeof stored.lat === 'number' && typeof stored.lng === 'number'
+      ? { lat: stored.lat, lng: stored.lng }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+let lastCachedTile: string | null = null;
+
+/**
+ * Remembers the location and asks the service worker to cache the tiles around it.
+ * Once per zoom-13 tile per session, so GPS jitter doesn't resend the same list;
+ * the worker skips tiles it already has.
+ */
+export const cacheTilesAround = (location: LatLng): void => {
+  try {
+    localStorage.setItem(LAST_LOCATION_STORAGE_KEY, JSON.stringify({ lat: location.lat, lng: location.lng }));
+  } catch (error) {
+    console.warn('⚠️ Error storing last location:', error);
+  }
+
+  const controller = typeof navigator !== 'undefined' ? navigator.serviceWorker?.controller : null;
+  if (!controller) return;
+
+  const { x, y, z } = latLngToTile(location, OFFLINE_TILE_ZOOMS[0]);
+  const tile = `${z}/${x}/${y}`;
+  if (tile === lastCachedTile) return;
+  lastCachedTile = tile;
+
+  controller.postMessage({ type: CACHE_TILES_MESSAGE, urls: getTileUrlsAround(location) });
+};
@@ -0,0 +1,122 @@
+// Menu QR codes: campaign-tagged menu links and print-ready sticker/card/poster sheets
+
+export interface CampaignParams {
+  source: string;
+  medium: string;
+  campaign: string;
+}
+
+export interface QrCampaignPreset {
+  value: string;
+  label: string;
+  params: CampaignParams;
+}
+
+export const QR_CAMPAIGN_PRESETS: QrCampaignPreset[] = [
+  { value: 'stall', label: 'Stall sticker', params: { source: 'qr', medium: 'sticker', campaign: 'stall' } },
+  { value: 'table', label: 'Table card', params: { source: 'qr', medium: 'table_card', campaign: 'table' } },
+  { value: 'flyer', label: 'Flyer', params: { source: 'qr', medium: 'flyer', campaign: 'flyer' } }
+];
+
+const MAX_CAMPAIGN_VALUE_LENGTH = 50;
+
+// Lowercase letters, digits, "_" and "-" only, so values are safe to store and group by
+const cleanCampaignValue = (value: string | null): string => {
+  return (value || '').toLowerCase().replace(/[^a-z0-9_-]/g, '').slice(0, MAX_CAMPAIGN_VALUE_LENGTH);
+};
+
+export const buildMenuUrl = (origin: string, menuPath: string, campaign?: CampaignParams): string => {
+  const url = new URL(menuPath, origin);
+  if (campaign) {
+    url.searchParams.set('utm_source', campaign.source);
+    url.searchParams.set('utm_medium', campaign.medium);
+    url.searchParams.set('utm_campaign', campaign.campaign);
+  }
+  return url.toString();
+};
+
+// Campaign from a query string such as "?utm_source=qr&utm_medium=sticker"; null without a source
+export const parseCampaignParams = (search: string): CampaignParams | null => {
+  const params = new URLSearchParams(search);
+  const source = cleanCampaignValue(params.get('utm_source'));
+  if (!source) return null;
+
+  return {
+    source,
+    medium: cleanCampaignValue(params.get('utm_medium')),
+    campaign: cleanCampaignValue(params.get('utm_campaign'))
+  };
+};
+
+export type PrintLayoutType = 'stickers' | 'table_card' | 'poster';
+
+export interface PrintLayout {
+  value: PrintLayoutType;
+  label: string;
+  pageSize: 'A4' | 'A6';
+  qrSizeMm: number;
+  copies: number; // Per page
+}
+
+export const PRINT_LAYOUTS: PrintLayout[] = [
+  { value: 'stickers', label: 'Sticker sheet (12 per A4)', pageSize: 'A4', qrSizeMm: 45, copies: 12 },
+  { value: 'table_card', label: 'Table card (A6)', pageSize: 'A6', qrSizeMm: 70, copies: 1 },
+  { value: 'poster', label: 'Poster (A4)', pageSize: 'A4', qrSizeMm: 130, copies: 1 }
+];
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * A standalone HTML page sized in millimetres for the chosen layout. Opening it and printing
+ * (or "Save as PDF") gives stickers that scan at the printed size.
+ */
+export const buildQrPrintHtml = (options: {
+  svg: string;
+  businessName: string;
+  url: string;
+  layout: PrintLayout;
+}): string => {
+  const { svg, businessName, url, layout } = options;
+  const name = escapeHtml(businessName);
+  const displayUrl = escapeHtml(url.replace(/^https?:\/\//, '').split('?')[0]);
+  const isSheet = layout.copies > 1;
+
+  const label = `
+    <div class="label">
+      <div class="name">${name}</div>
+      <div class="qr">${svg}</div>
+      <div class="cta">Scan for our menu</div>
+      ${isSheet ? '' : `<div class="url">${displayUrl}</div>`}
+    </div>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${name} - Menu QR code</title>
+<style>
+  @page { size: ${layout.pageSize}; margin: 10mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, -apple-system, sans-serif; color: #1f2937; }
+  .page { display: grid; gap: 6mm; justify-content: center; align-content: ${isSheet ? 'start' : 'center'};
+    grid-template-columns: repeat(${isSheet ? 3 : 1}, auto); min-height: ${isSheet ? 'auto' : '100vh'}; }
+  .label { display: flex; flex-direction: column; align-items: center; gap: 2mm; padding: 4mm;
+    ${isSheet ? 'border: 0.3mm dashed #d1d5db; border-radius: 3mm;' : ''} break-inside: avoid; }
+  .qr svg { width: ${layout.qrSizeMm}mm; height: ${layout.qrSizeMm}mm; display: block; }
+  .name { font-weight: 700; font-size: ${isSheet ? 11 : Math.round(layout.qrSizeMm / 5)}pt; text-align: center; }
+  .cta { font-size: ${isSheet ? 9 : Math.round(layout.qrSizeMm / 7)}pt; color: #b45309; }
+  .url { font-size: 9pt; color: #6b7280; }
+</style>
+</head>
+<body>
+  <div class="page">${Array.from({ length: layout.copies }, () => label).join('')}</div>
+</body>
+</html>`;
+};
@@ -0,0 +1,61 @@
+// In-app buyer–seller conversations: message validation, WhatsApp template clean-up, unread counts and read receipts
+
+import { Database } from '@/lib/database.types';
+
+export type Conversation = Database['public']['Tables']['conversations']['Row'];
+export type Message = Database['public']['Tables']['messages']['Row'];
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MESSAGE_PREVIEW_LENGTH = 80;
+
+export const validateMessageBody = (body: string): string | null => {
+  const trimmed = body.trim();
+  if (!trimmed) return 'Message cannot be empty';
+  if (trimmed.length > MAX_MESSAGE_LENGTH) return `Message must be ${MAX_MESSAGE_LENGTH} characters or fewer`;
+  return null;
+};
+
+// The WhatsApp builders add *bold* markers and a "Sent via Machroub" footer that make no sense in the app
+export const toInAppMessage = (whatsappMessage: string): string => {
+  return whatsappMessage
+    .split('\n')
+    .filter(line => line.trim() !== '_Sent via Machroub_')
+    .join('\n')
+    .replace(/\*([^*\n]+)\*/g, '$1')
+    .trim();
+};
+
+// First line only, shortened for the conversation list
+export const getMessagePreview = (body: string): string => {
+  const firstLine = body.trim().split('\n')[0].trim();
+  return firstLine.length > MESSAGE_PREVIEW_LENGTH
+    ? `${firstLine.slice(0, MESSAGE_PREVIEW_LENGTH - 1)}…`
+    : firstLine;
+};
+
+export const isMessageUnread = (message: Pick<Message, 'sender_id' | 'read_at'>, userId: string): boolean => {
+  return message.sender_id !== userId && !message.read_at;
+};
+
+export const countUnreadByConversation = (
+  messages: Pick<Message, 'conversation_id' | 'sender_id' | 'read_at'>[],
+  userId: string
+): Record<string, number> => {
+  return messages.reduce<Record<string, number>>((counts, message) => {
+    if (isMessageUnread(message, userId)) {
+      counts[message.conversation_id] = (counts[message.conversation_id] || 0) + 1;
+    }
+    return counts;
+  }, {});
+};
+
+// The user's latest message the other side has read, for the "Seen" receipt
+export const getLastReadMessageId = (
+  messages: Pick<Message, 'id' | 'sender_id' | 'read_at' | 'created_at'>[],
+  userId: string
+): string | null => {
+  const readOwnMessages = messages
+    .filter(message => message.sender_id === userId && message.read_at)
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  return readOwnMessages[0]?.id || null;
+};
@@ -0,0 +1,68 @@
+// Notification center: types, unread counts and the new-nearby-seller rule
+
+import { Database } from '@/lib/database.types';
+import { calculateDistance, type Coordinates } from './geocoding';
+import { UserPreferences } from './preferences';
+
+export type AppNotification = Database['public']['Tables']['notifications']['Row'];
+export type NotificationType = AppNotification['type'];
+export type NotificationInsert = Database['public']['Tables']['notifications']['Insert'];
+
+// How many notifications the bell keeps in memory
+export const NOTIFICATION_LIST_LIMIT = 20;
+
+// The Settings toggle that turns each kind of notification on or off
+export const NOTIFICATION_PREFERENCE_KEYS: Record<NotificationType, keyof UserPreferences['notifications']> = {
+  contact_request: 'orderUpdates',
+  new_seller: 'newSellers'
+};
+
+export type NewSellerCandidate = Pick<
+  Database['public']['Tables']['sellers']['Row'],
+  'id' | 'business_name' | 'specialty' | 'latitude' | 'longitude'
+>;
+
+export const getUnreadNotificationCount = (notifications: Pick<AppNotification, 'read_at'>[]): number => {
+  return notifications.filter(notification => !notification.read_at).length;
+};
+
+export const isNotificationEnabled = (type: NotificationType, preferences: UserPreferences): boolean => {
+  return preferences.notifications[NOTIFICATION_PREFERENCE_KEYS[type]];
+};
+
+/**
+ * Distance to a seller who just joined, or null when they shouldn't trigger a notification:
+ * the toggle is off, it's the user's own listing, or they are outside the search radius.
+ */
+export const getNewSellerDistance = (
+  seller: NewSellerCandidate,
+  userId: string,
+  location: Coordinates | null,
+  preferences: UserPreferences
+): number | null => {
+  if (!location || seller.id === userId || !isNotificationEnabled('new_seller', preferences)) return null;
+  if (seller.latitude == null || seller.longitude == null) return null;
+
+  const distance = calculateDistance(location.latitude, location.longitude, Number(seller.latitude), Number(seller.longitude));
+  return distance <= preferences.location.radius ? distance : null;
+};
+
+export const buildNewSellerNotification = (
+  userId: string,
+  seller: NewSellerCandidate,
+  distanceKm: number
+): NotificationInsert => ({
+  user_id: userId,
+  type: 'new_seller',
+  title: `${seller.business_name} just joined Machroub`,
+  body: `A new ${seller.specialty === 'both' ? 'coffee & matcha' : seller.specialty} seller ${distanceKm.toFixed(1)} km from you.`,
+  url: `/seller/${seller.id}`,
+  data: { seller_id: seller.id }
+});
+
+// Newest first, one entry per id, capped at NOTIFICATION_LIST_LIMIT
+export const mergeNotification = (notifications: AppNotification[], notification: AppNotification): AppNotification[] => {
+  return [notification, ...notifications.filter(existing => existing.id !== notification.id)]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(0, NOTIFICATION_LIST_LIMIT);
+};
@@ -0,0 +1,47 @@
+// Price formatting for the active language, with optional Arabic-Indic digits (١٢٣) for Arabic readers
+
+export type NumeralSystem = 'latn' | 'arab';
+
+export const NUMERALS_STORAGE_KEY = 'numerals';
+
+const ARABIC_LANGUAGES = ['ar', 'ary'];
+
+export const isArabicLanguage = (language: string | undefined): boolean => {
+  return ARABIC_LANGUAGES.includes((language || '').split('-')[0]);
+};
+
+export const getNumeralSystem = (): NumeralSystem => {
+  return localStorage.getItem(NUMERALS_STORAGE_KEY) === 'arab' ? 'arab' : 'latn';
+};
+
+export const setNumeralSystem = (numerals: NumeralSystem): void => {
+  localStorage.setItem(NUMERALS_STORAGE_KEY, numerals);
+};
+
+export interface NumberFormatOptions {
+  language?: string;
+  numerals?: NumeralSystem;
+  decimals?: number;
+}
+
+// Arabic-Indic digits are only used for Arabic; other languages always get 0-9
+export const formatNumber = (value: number, options: NumberFormatOptions = {}): string => {
+  const { language = 'en', numerals = 'latn', decimals = 0 } = options;
+  const useArabicDigits = numerals === 'arab' && isArabicLanguage(language);
+
+  return new Intl.NumberFormat(useArabicDigits ? 'ar-MA-u-nu-arab' : 'en-US', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+    useGrouping: false
+  }).format(value);
+};
+
+export const getCurrencyLabel = (language?: string): string => {
+  return isArabicLanguage(language) ? 'درهم' : 'Dh';
+};
+
+// "12.50 Dh", or "12.50 درهم" / "١٢٫٥٠ درهم" in Arabic
+export const formatPrice = (amount: number, options: NumberFormatOptions = {}): string => {
+  const { decimals = 2, ...rest } = options;
+  return `${formatNumber(Number(amount), { ...rest, decimals })} ${getCurrencyLabel(options.language)}`;
+};
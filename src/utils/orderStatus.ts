@@ -0,0 +1,90 @@
+// Order lifecycle utilities shared by buyers and sellers
+
+import { Database } from '@/lib/database.types';
+
+export type OrderStatus = Database['public']['Enums']['order_status'];
+export type OrderActor = 'buyer' | 'seller';
+
+export interface OrderStatusInfo {
+  value: OrderStatus;
+  label: string;
+  emoji: string;
+  description: string;
+}
+
+export const ORDER_STATUSES: OrderStatusInfo[] = [
+  {
+    value: 'placed',
+    label: 'Placed',
+    emoji: '📝',
+    description: 'Waiting for the seller to accept'
+  },
+  {
+    value: 'accepted',
+    label: 'Accepted',
+    emoji: '👍',
+    description: 'The seller is preparing your order'
+  },
+  {
+    value: 'ready',
+    label: 'Ready',
+    emoji: '✅',
+    description: 'Ready for pickup'
+  },
+  {
+    value: 'picked_up',
+    label: 'Picked up',
+    emoji: '🎉',
+    description: 'Order completed'
+  },
+  {
+    value: 'cancelled',
+    label: 'Cancelled',
+    emoji: '✖️',
+    description: 'This order was cancelled'
+  }
+];
+
+// Which status each party may move an order to from a given status
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, Record<OrderActor, OrderStatus[]>> = {
+  placed: {
+    buyer: ['cancelled'],
+    seller: ['accepted', 'cancelled']
+  },
+  accepted: {
+    buyer: [],
+    seller: ['ready', 'cancelled']
+  },
+  ready: {
+    buyer: ['picked_up'],
+    seller: ['picked_up']
+  },
+  picked_up: {
+    buyer: [],
+    seller: []
+  },
+  cancelled: {
+    buyer: [],
+    seller: []
+  }
+};
+
+// Get status info by value
+export const getOrderStatusInfo = (status: OrderStatus): OrderStatusInfo => {
+  return ORDER_STATUSES.find(s => s.value === status) || ORDER_STATUSES[0];
+};
+
+// Get the statuses an actor can move an order to
+export const getNextOrderStatuses = (status: OrderStatus, actor: OrderActor): OrderStatus[] => {
+  return ORDER_STATUS_TRANSITIONS[status]?.[actor] || [];
+};
+
+// Check whether an actor may move an order from one status to another
+export const canTransitionOrder = (from: OrderStatus, to: OrderStatus, actor: OrderActor): boolean => {
+  return getNextOrderStatuses(from, actor).includes(to);
+};
+
+// Orders that are still in progress
+export const isActiveOrderStatus = (status: OrderStatus): boolean => {
+  return status !== 'picked_up' && status !== 'cancelled';
+};
@@ -0,0 +1,185 @@
+// User settings: defaults, the local copy for guests and mapping to the user_preferences table
+
+import { Database } from '@/lib/database.types';
+
+export type UserPreferencesRow = Database['public']['Tables']['user_preferences']['Row'];
+export type ThemePreference = UserPreferencesRow['theme'];
+export type NumeralsPreference = UserPreferencesRow['numerals'];
+
+export interface UserPreferences {
+  notifications: {
+    orderUpdates: boolean;
+    promotions: boolean;
+    newSellers: boolean;
+    push: boolean;
+    email: boolean;
+    sms: boolean;
+  };
+  location: {
+    shareLocation: boolean;
+    autoDetect: boolean;
+    radius: number; // km, passed to find_nearby_sellers
+  };
+  appearance: {
+    theme: ThemePreference;
+    language: string | null; // null until the user picks one; the browser language is used meanwhile
+    numerals: NumeralsPreference;
+  };
+  privacy: {
+    profileVisible: boolean;
+    shareOrderHistory: boolean;
+    analytics: boolean;
+  };
+}
+
+export type PreferenceCategory = keyof UserPreferences;
+
+export const PREFERENCES_STORAGE_KEY = 'machroub_preferences';
+
+export const SEARCH_RADIUS_OPTIONS_KM = [1, 3, 5, 10, 25];
+export const THEME_OPTIONS: ThemePreference[] = ['light', 'dark', 'system'];
+
+// 25 km is what the map searched before the radius could be changed
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  notifications: {
+    orderUpdates: true,
+    promotions: false,
+    newSellers: true,
+    push: false, // needs the browser's permission, asked when it is switched on
+    email: false,
+    sms: true
+  },
+  location: {
+    shareLocation: true,
+    autoDetect: true,
+    radius: 25
+  },
+  appearance: {
+    theme: 'system',
+    language: null,
+    numerals: 'latn'
+  },
+  privacy: {
+    profileVisible: true,
+    shareOrderHistory: false,
+    analytics: true
+  }
+};
+
+/**
+ * Fills in missing or invalid values from the defaults, so stored copies from older
+ * versions (or hand-edited localStorage) can't break the settings page.
+ */
+export const sanitizePreferences = (value: unknown): UserPreferences => {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<PreferenceCategory, Record<string, unknown>>>;
+
+  const pick = <C extends PreferenceCategory>(category: C): UserPreferences[C] => {
+    const defaults = DEFAULT_PREFERENCES[category];
+    const stored = input[category] || {};
+    const result = { ...defaults };
+    (Object.keys(defaults) as Array<keyof UserPreferences[C]>).forEach(key => {
+      const storedValue = stored[key as string];
+      if (storedValue !== undefined && typeof storedValue === typeof defaults[key]) {
+        result[key] = storedValue as UserPreferences[C][typeof key];
+      }
+    });
+    return result;
+  };
+
+  const preferences: UserPreferences = {
+    notifications: pick('notifications'),
+    location: pick('location'),
+    appearance: pick('appearance'),
+    privacy: pick('privacy')
+  };
+
+  const storedLanguage = input.appearance?.language;
+  preferences.appearance.language = typeof storedLanguage === 'string' && storedLanguage ? storedLanguage : null;
+
+  if (!SEARCH_RADIUS_OPTIONS_KM.includes(preferences.location.radius)) {
+    preferences.location.radius = DEFAULT_PREFERENCES.location.radius;
+  }
+  if (!THEME_OPTIONS.includes(preferences.appearance.theme)) {
+    preferences.appearance.theme = DEFAULT_PREFERENCES.appearance.theme;
+  }
+  if (preferences.appearance.numerals !== 'arab') {
+    preferences.appearance.numerals = 'latn';
+  }
+
+  return preferences;
+};
+
+export const loadStoredPreferences = (): UserPreferences => {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    return sanitizePreferences(stored ? JSON.parse(stored) : null);
+  } catch (error) {
+    console.warn('⚠️ Error reading stored preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const storePreferences = (preferences: UserPreferences): void => {
+  try {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn('⚠️ Error storing preferences:', error);
+  }
+};
+
+export const fromPreferencesRow = (row: UserPreferencesRow): UserPreferences => sanitizePreferences({
+  notifications: {
+    orderUpdates: row.order_updates,
+    promotions: row.promotions,
+    newSellers: row.new_sellers,
+    push: row.push_notifications,
+    email: row.email_notifications,
+    sms: row.sms_notifications
+  },
+  location: {
+    shareLocation: row.share_location,
+    autoDetect: row.auto_detect_location,
+    radius: row.search_radius_km
+  },
+  appearance: {
+    theme: row.theme,
+    language: row.language,
+    numerals: row.numerals
+  },
+  privacy: {
+    profileVisible: row.profile_visible,
+    shareOrderHistory: row.share_order_history,
+    analytics: row.analytics
+  }
+});
+
+export const toPreferencesRow = (
+  userId: string,
+  preferences: UserPreferences
+): Database['public']['Tables']['user_preferences']['Insert'] => ({
+  user_id: userId,
+  order_updates: preferences.notifications.orderUpdates,
+  promotions: preferences.notifications.promotions,
+  new_sellers: preferences.notifications.newSellers,
+  push_notifications: preferences.notifications.push,
+  email_notifications: preferences.notifications.email,
+  sms_notifications: preferences.notifications.sms,
+  share_location: preferences.location.shareLocation,
+  auto_detect_location: preferences.location.autoDetect,
+  search_radius_km: preferences.location.radius,
+  theme: preferences.appearance.theme,
+  language: preferences.appearance.language,
+  numerals: preferences.appearance.numerals,
+  profile_visible: preferences.privacy.profileVisible,
+  share_order_history: preferences.privacy.shareOrderHistory,
+  analytics: preferences.privacy.analytics
+});
+
+export const updatePreferenceCategory = <C extends PreferenceCategory>(
+  preferences: UserPreferences,
+  category: C,
+  values: Partial<UserPreferences[C]>
+): UserPreferences => ({
+  ...preferences,
+  [category]: { ...preferences[category], ...values }
+});
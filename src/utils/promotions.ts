@@ -0,0 +1,234 @@
+// Seller promotions: which deal applies to a drink right now, discounted prices and bundle totals
+
+import { Database } from '@/lib/database.types';
+import { WeeklySchedule, isOpenAt, parseSchedule } from './businessHours';
+
+export type Promotion = Database['public']['Tables']['promotions']['Row'];
+export type PromotionType = Database['public']['Enums']['promotion_type'];
+
+export interface PromotionTypeInfo {
+  value: PromotionType;
+  label: string;
+  description: string;
+}
+
+export const PROMOTION_TYPES: PromotionTypeInfo[] = [
+  {
+    value: 'percentage',
+    label: 'Percentage off',
+    description: 'e.g. 20% off every matcha'
+  },
+  {
+    value: 'fixed_amount',
+    label: 'Amount off',
+    description: 'e.g. 5 Dh off a latte'
+  },
+  {
+    value: 'bundle',
+    label: 'Bundle',
+    description: 'e.g. buy 1, get 1 free'
+  },
+  {
+    value: 'happy_hour',
+    label: 'Happy hour',
+    description: 'Percentage off during set hours while you are open'
+  }
+];
+
+export const MAX_PERCENTAGE_OFF = 90;
+export const MAX_BUNDLE_QUANTITY = 10;
+
+// The promotion that gives a drink its best price right now
+export interface DrinkDeal {
+  promotion: Promotion;
+  originalPrice: number;
+  price: number; // Unit price with the discount; unchanged for bundles
+  label: string;
+}
+
+const roundPrice = (price: number): number => Math.round(price * 100) / 100;
+
+// Time windows are stored like a weekly schedule; null means all day
+export const getPromotionWindows = (promotion: Pick<Promotion, 'time_windows'>): WeeklySchedule | null => {
+  return parseSchedule(promotion.time_windows);
+};
+
+export const appliesToDrink = (promotion: Pick<Promotion, 'drink_ids'>, drinkId: string): boolean => {
+  return !promotion.drink_ids || promotion.drink_ids.length === 0 || promotion.drink_ids.includes(drinkId);
+};
+
+/**
+ * Whether a promotion runs at the given moment: switched on, inside its dates and inside its
+ * time windows. Happy hours also need the seller to be open by their own schedule.
+ */
+export const isPromotionActive = (
+  promotion: Promotion,
+  sellerSchedule: WeeklySchedule | null,
+  date: Date = new Date()
+): boolean => {
+  if (!promotion.is_active) return false;
+
+  const now = date.getTime();
+  if (now < Date.parse(promotion.starts_at)) return false;
+  if (promotion.ends_at && now >= Date.parse(promotion.ends_at)) return false;
+
+  const windows = getPromotionWindows(promotion);
+  if (windows && !isOpenAt(windows, date)) return false;
+
+  if (promotion.type === 'happy_hour' && sellerSchedule && !isOpenAt(sellerSchedule, date)) return false;
+
+  return true;
+};
+
+export type PromotionStatus = 'running' | 'off_hours' | 'scheduled' | 'ended' | 'paused';
+
+export const PROMOTION_STATUS_LABELS: Record<PromotionStatus, string> = {
+  running: 'Running now',
+  off_hours: 'Outside its hours',
+  scheduled: 'Scheduled',
+  ended: 'Ended',
+  paused: 'Paused'
+};
+
+// For the seller's list: why a promotion is or isn't showing right now
+export const getPromotionStatus = (
+  promotion: Promotion,
+  sellerSchedule: WeeklySchedule | null,
+  date: Date = new Date()
+): PromotionStatus => {
+  if (promotion.ends_at && date.getTime() >= Date.parse(promotion.ends_at)) return 'ended';
+  if (!promotion.is_active) return 'paused';
+  if (date.getTime() < Date.parse(promotion.starts_at)) return 'scheduled';
+  return isPromotionActive(promotion, sellerSchedule, date) ? 'running' : 'off_hours';
+};
+
+export const getDiscountedUnitPrice = (price: number, promotion: Pick<Promotion, 'type' | 'discount_value'>): number => {
+  const value = Number(promotion.discount_value || 0);
+  switch (promotion.type) {
+    case 'percentage':
+    case 'happy_hour':
+      return roundPrice(Math.max(0, price * (1 - value / 100)));
+    case 'fixed_amount':
+      return roundPrice(Math.max(0, price - value));
+    default:
+      return price;
+  }
+};
+
+// Total for a line; bundles make every (buy + free)th drink free
+export const getPromotionLineTotal = (
+  unitPrice: number,
+  quantity: number,
+  promotion: Pick<Promotion, 'type' | 'discount_value' | 'buy_quantity' | 'free_quantity'> | null
+): number => {
+  if (!promotion) return roundPrice(unitPrice * quantity);
+
+  if (promotion.type === 'bundle') {
+    const buy = promotion.buy_quantity || 0;
+    const free = promotion.free_quantity || 0;
+    if (buy < 1 || free < 1) return roundPrice(unitPrice * quantity);
+    const freeItems = Math.floor(quantity / (buy + free)) * free;
+    return roundPrice(unitPrice * (quantity - freeItems));
+  }
+
+  return roundPrice(getDiscountedUnitPrice(unitPrice, promotion) * quantity);
+};
+
+// "-20%", "-5 Dh", "Buy 1 get 1 free", "Happy hour -30%"
+export const formatPromotionLabel = (
+  promotion: Pick<Promotion, 'type' | 'discount_value' | 'buy_quantity' | 'free_quantity'>
+): string => {
+  const value = Number(promotion.discount_value || 0);
+  switch (promotion.type) {
+    case 'percentage':
+      return `-${value}%`;
+    case 'fixed_amount':
+      return `-${value} Dh`;
+    case 'bundle':
+      return `Buy ${promotion.buy_quantity} get ${promotion.free_quantity} free`;
+    case 'happy_hour':
+      return `Happy hour -${value}%`;
+    default:
+      return 'Deal';
+  }
+};
+
+/**
+ * Best active deal for a drink: the lowest unit price wins, and a bundle is shown
+ * only when no promotion lowers the unit price.
+ */
+export const getDrinkDeal = (
+  drinkId: string,
+  price: number,
+  promotions: Promotion[],
+  sellerSchedule: WeeklySchedule | null,
+  date: Date = new Date()
+): DrinkDeal | null => {
+  const applicable = promotions.filter(promotion =>
+    appliesToDrink(promotion, drinkId) && isPromotionActive(promotion, sellerSchedule, date)
+  );
+  if (applicable.length === 0) return null;
+
+  let best: DrinkDeal | null = null;
+  for (const promotion of applicable) {
+    if (promotion.type === 'bundle') continue;
+    const discounted = getDiscountedUnitPrice(price, promotion);
+    if (discounted < price && (!best || discounted < best.price)) {
+      best = { promotion, originalPrice: price, price: discounted, label: formatPromotionLabel(promotion) };
+    }
+  }
+  if (best) return best;
+
+  const bundle = applicable.find(promotion => promotion.type === 'bundle');
+  return bundle ? { promotion: bundle, originalPrice: price, price, label: formatPromotionLabel(bundle) } : null;
+};
+
+export interface PromotionInput {
+  title: string;
+  type: PromotionType;
+  discount_value: number | null;
+  buy_quantity: number | null;
+  free_quantity: number | null;
+  drink_ids: string[];
+  time_windows: WeeklySchedule | null;
+  starts_at: string;
+  ends_at: string | null;
+}
+
+export const validatePromotion = (input: PromotionInput): string[] => {
+  const errors: string[] = [];
+  const value = Number(input.discount_value);
+
+  if (!input.title.trim()) errors.push('Give the promotion a name');
+
+  if (input.type === 'percentage' || input.type === 'happy_hour') {
+    if (!Number.isFinite(value) || value <= 0 || value > MAX_PERCENTAGE_OFF) {
+      errors.push(`Percentage must be between 1 and ${MAX_PERCENTAGE_OFF}`);
+    }
+  }
+
+  if (input.type === 'fixed_amount' && (!Number.isFinite(value) || value <= 0)) {
+    errors.push('Amount off must be more than 0 Dh');
+  }
+
+  if (input.type === 'bundle') {
+    const buy = Number(input.buy_quantity);
+    const free = Number(input.free_quantity);
+    if (!Number.isInteger(buy) || !Number.isInteger(free) || buy < 1 || free < 1 ||
+        buy > MAX_BUNDLE_QUANTITY || free > MAX_BUNDLE_QUANTITY) {
+      errors.push(`Bundle quantities must be whole numbers from 1 to ${MAX_BUNDLE_QUANTITY}`);
+    }
+  }
+
+  if (input.type === 'happy_hour') {
+    const hasWindow = !!input.time_windows && Object.values(input.time_windows.days).some(intervals => intervals.length > 0);
+    if (!hasWindow) errors.push('Pick at least one time window for the happy hour');
+  }
+
+  if (Number.isNaN(Date.parse(input.starts_at))) errors.push('Pick a start date');
+  if (input.ends_at && Date.parse(input.ends_at) <= Date.parse(input.starts_at)) {
+    errors.push('The promotion must end after it starts');
+  }
+
+  return errors;
+};
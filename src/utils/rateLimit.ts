@@ -0,0 +1,52 @@
+// Token bucket and daily request count for APIs with published rate limits
+
+export interface TokenBucket {
+  // Takes a token if one is left; false means the caller should not send the request
+  tryTake(): boolean;
+  available(): number;
+}
+
+// Holds `capacity` tokens and refills them evenly over `intervalMs` (40 per minute = one every 1.5 s)
+export const createTokenBucket = (
+  capacity: number,
+  intervalMs: number,
+  now: () => number = Date.now
+): TokenBucket => {
+  let tokens = capacity;
+  let updatedAt = now();
+
+  const refill = () => {
+    const current = now();
+    tokens = Math.min(capacity, tokens + ((current - updatedAt) * capacity) / intervalMs);
+    updatedAt = current;
+  };
+
+  return {
+    tryTake() {
+      refill();
+      if (tokens < 1) return false;
+      tokens -= 1;
+      return true;
+    },
+    available() {
+      refill();
+      return Math.floor(tokens);
+    }
+  };
+};
+
+export interface DailyUsage {
+  date: string; // UTC day, YYYY-MM-DD
+  count: number;
+}
+
+export const getUsageDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const getDailyCount = (usage: DailyUsage | null, date: Date): number =>
+  usage && usage.date === getUsageDate(date) ? usage.count : 0;
+
+// A new day starts the count over
+export const recordDailyUsage = (usage: DailyUsage | null, date: Date): DailyUsage => ({
+  date: getUsageDate(date),
+  count: getDailyCount(usage, date) + 1
+});
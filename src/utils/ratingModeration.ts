@@ -0,0 +1,81 @@
+// Rating report reasons and moderation rules shared by the review list and the moderator queue
+
+import { Database } from '@/lib/database.types';
+
+export type RatingStatus = Database['public']['Enums']['rating_status'];
+export type RatingReportReason = Database['public']['Enums']['rating_report_reason'];
+export type ModerationAction = 'approve' | 'remove';
+
+export interface RatingReportReasonInfo {
+  value: RatingReportReason;
+  label: string;
+  description: string;
+}
+
+export const RATING_REPORT_REASONS: RatingReportReasonInfo[] = [
+  {
+    value: 'spam',
+    label: 'Spam',
+    description: 'Advertising, links or repeated text'
+  },
+  {
+    value: 'offensive',
+    label: 'Offensive',
+    description: 'Insults, hate speech or harassment'
+  },
+  {
+    value: 'fake',
+    label: 'Fake review',
+    description: 'The reviewer never bought from this seller'
+  },
+  {
+    value: 'conflict_of_interest',
+    label: 'Conflict of interest',
+    description: 'Written by the seller, a competitor or someone paid to review'
+  },
+  {
+    value: 'off_topic',
+    label: 'Off topic',
+    description: 'Not about this seller or their drinks'
+  },
+  {
+    value: 'other',
+    label: 'Something else',
+    description: 'Tell us what is wrong'
+  }
+];
+
+// Reports from this many different users hide a rating until a moderator looks at it
+export const AUTO_HIDE_REPORT_THRESHOLD = 3;
+
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+export const getReportReasonInfo = (reason: RatingReportReason): RatingReportReasonInfo => {
+  return RATING_REPORT_REASONS.find(r => r.value === reason) || RATING_REPORT_REASONS[RATING_REPORT_REASONS.length - 1];
+};
+
+export const isValidReportReason = (reason: string): reason is RatingReportReason => {
+  return RATING_REPORT_REASONS.some(r => r.value === reason);
+};
+
+// Status a published rating should have after receiving reports
+export const getStatusAfterReports = (status: RatingStatus, reportCount: number): RatingStatus => {
+  return status === 'published' && reportCount >= AUTO_HIDE_REPORT_THRESHOLD ? 'hidden' : status;
+};
+
+// Only published ratings are shown and count towards a seller's average
+export const isRatingPublic = (status: RatingStatus | null | undefined): boolean => {
+  // Ratings written before moderation existed have no status
+  return !status || status === 'published';
+};
+
+// Average and count over the ratings that still count, rounded like the sellers columns
+export const computeRatingSummary = (ratings: { rating: number; status?: RatingStatus | null }[]): {
+  average: number;
+  count: number;
+} => {
+  const counted = ratings.filter(r => isRatingPublic(r.status));
+  if (counted.length === 0) return { average: 0, count: 0 };
+  const average = counted.reduce((sum, r) => sum + r.rating, 0) / counted.length;
+  return { average: Math.round(average * 100) / 100, count: counted.length };
+};
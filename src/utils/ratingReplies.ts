@@ -0,0 +1,42 @@
+// Seller replies to ratings: one public reply per rating, editable, with the last edit time kept
+
+import { Database } from '@/lib/database.types';
+
+export type RatingReply = Database['public']['Tables']['rating_replies']['Row'];
+
+export const MAX_REPLY_LENGTH = 1000;
+
+export const validateReplyBody = (body: string): string | null => {
+  const trimmed = body.trim();
+  if (!trimmed) return 'Reply cannot be empty';
+  if (trimmed.length > MAX_REPLY_LENGTH) return `Reply must be ${MAX_REPLY_LENGTH} characters or fewer`;
+  return null;
+};
+
+// PostgREST returns the one-to-one reply embed as an object, or as an array without the unique index
+export const getRatingReply = (rating: { reply?: RatingReply | RatingReply[] | null }): RatingReply | null => {
+  const { reply } = rating;
+  if (Array.isArray(reply)) return reply[0] || null;
+  return reply || null;
+};
+
+export const isReplyEdited = (reply: Pick<RatingReply, 'edited_at'>): boolean => {
+  return !!reply.edited_at;
+};
+
+// "Replied 12 Mar 2025" or "Edited 14 Mar 2025" for the latest change
+export const formatReplyTimestamp = (reply: Pick<RatingReply, 'created_at' | 'edited_at'>): string => {
+  const edited = isReplyEdited(reply);
+  const date = new Date(edited ? reply.edited_at as string : reply.created_at);
+  const formatted = date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+  return `${edited ? 'Edited' : 'Replied'} ${formatted}`;
+};
+
+// Ratings still waiting for a reply, oldest first so nothing sits forgotten
+export const getUnrepliedRatings = <T extends { created_at: string; reply?: RatingReply | RatingReply[] | null }>(
+  ratings: T[]
+): T[] => {
+  return ratings
+    .filter(rating => !getRatingReply(rating))
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+};
@@ -0,0 +1,91 @@
+// Cache keys, an in-memory LRU and a trailing debounce for geocoding and routing requests
+
+export interface CachePoint {
+  latitude: number;
+  longitude: number;
+}
+
+// 4 decimals is about 11 m, so taps on the same shop front share an entry
+export const COORDINATE_PRECISION = 4;
+
+// "  Rue  IBNOU Mounir " and "rue ibnou mounir" are the same search
+export const normalizeQuery = (query: string): string =>
+  query.normalize('NFC').trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const roundCoordinate = (value: number, precision: number = COORDINATE_PRECISION): string => {
+  const rounded = value.toFixed(precision);
+  return Number(rounded) === 0 ? (0).toFixed(precision) : rounded; // no "-0.0000"
+};
+
+export const getQueryCacheKey = (kind: string, query: string, ...params: Array<string | number>): string =>
+  [kind, normalizeQuery(query), ...params].join('|');
+
+export const getCoordinateCacheKey = (kind: string, points: CachePoint[], ...params: Array<string | number>): string =>
+  [kind, points.map(point => `${roundCoordinate(point.latitude)},${roundCoordinate(point.longitude)}`).join(';'), ...params].join('|');
+
+export interface LruCache<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V, ttlMs: number): void;
+  delete(key: string): void;
+  clear(): void;
+  readonly size: number;
+}
+
+// Map keeps insertion order, so the first key is always the least recently used
+export const createLruCache = <V>(maxEntries: number, now: () => number = Date.now): LruCache<V> => {
+  const entries = new Map<string, { value: V; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    clear() {
+      entries.clear();
+    },
+    get size() {
+      return entries.size;
+    }
+  };
+};
+
+/**
+ * Trailing debounce for async calls: only the last call within `waitMs` runs, and every
+ * caller that was waiting gets its result. Lets inputs call on each keystroke.
+ */
+export const createDebouncedCall = <A extends unknown[], R>(
+  fn: (...args: A) => Promise<R>,
+  waitMs: number
+): ((...args: A) => Promise<R>) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let waiting: Array<{ resolve: (value: R) => void; reject: (error: unknown) => void }> = [];
+
+  return (...args: A) => new Promise<R>((resolve, reject) => {
+    waiting.push({ resolve, reject });
+    if (timer) clearTimeout(timer);
+
+    timer = setTimeout(() => {
+      const callers = waiting;
+      waiting = [];
+      timer = null;
+      fn(...args).then(
+        value => callers.forEach(caller => caller.resolve(value)),
+        error => callers.forEach(caller => caller.reject(error))
+      );
+    }, waitMs);
+  });
+};
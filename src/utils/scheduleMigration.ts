@@ -0,0 +1,146 @@
+// Schedule migration utility to turn legacy free-text hours into typed weekly schedules
+
+import { supabase } from '@/lib/supabase';
+import { Json } from '@/lib/database.types';
+import { parseHoursString, formatSchedule } from './businessHours';
+
+export interface ScheduleMigrationResult {
+  success: boolean;
+  totalSellers: number;
+  migratedSellers: number;
+  errors: string[];
+  // Sellers whose hours string could not be read; left untouched for them to fix in their profile
+  unparseable: Array<{
+    id: string;
+    business_name: string;
+    hours: string;
+  }>;
+  details: Array<{
+    id: string;
+    business_name: string;
+    hours: string;
+    schedule: string;
+  }>;
+}
+
+// Check which sellers have an hours string but no typed schedule yet
+export const checkSellersNeedingScheduleMigration = async (): Promise<{
+  needsMigration: Array<{
+    id: string;
+    business_name: string;
+    hours: string;
+    parsedSchedule: string | null;
+  }>;
+  totalChecked: number;
+}> => {
+  try {
+    const { data: sellers, error } = await supabase
+      .from('sellers')
+      .select('id, business_name, hours, schedule')
+      .is('schedule', null)
+      .not('hours', 'is', null);
+
+    if (error) throw error;
+
+    const needsMigration = sellers
+      ?.filter(seller => seller.hours && seller.hours !== 'null')
+      .map(seller => {
+        const schedule = parseHoursString(seller.hours);
+        return {
+          id: seller.id,
+          business_name: seller.business_name,
+          hours: seller.hours!,
+          parsedSchedule: schedule ? formatSchedule(schedule) : null
+        };
+      }) || [];
+
+    return {
+      needsMigration,
+      totalChecked: sellers?.length || 0
+    };
+  } catch (error) {
+    console.error('Error checking sellers for schedule migration:', error);
+    throw error;
+  }
+};
+
+// Fill the schedule column for every seller whose hours string parses without loss
+export const migrateSellerSchedules = async (): Promise<ScheduleMigrationResult> => {
+  const result: ScheduleMigrationResult = {
+    success: false,
+    totalSellers: 0,
+    migratedSellers: 0,
+    errors: [],
+    unparseable: [],
+    details: []
+  };
+
+  try {
+    console.log('🔍 Checking sellers for schedule migration...');
+
+    const { data: sellers, error: fetchError } = await supabase
+      .from('sellers')
+      .select('id, business_name, hours, schedule')
+      .is('schedule', null)
+      .not('hours', 'is', null);
+
+    if (fetchError) {
+      result.errors.push(`Failed to fetch sellers: ${fetchError.message}`);
+      return result;
+    }
+
+    result.totalSellers = sellers?.length || 0;
+    console.log(`📊 Found ${result.totalSellers} sellers without a schedule`);
+
+    for (const seller of sellers || []) {
+      if (!seller.hours || seller.hours === 'null') continue;
+
+      const schedule = parseHoursString(seller.hours);
+      if (!schedule) {
+        // Never guess: keep the original string and let the seller set their hours
+        result.unparseable.push({ id: seller.id, business_name: seller.business_name, hours: seller.hours });
+        continue;
+      }
+
+      try {
+        // Only the typed column is written; the original hours string stays as it was
+        const { error: updateError } = await supabase
+          .from('sellers')
+          .update({
+            schedule: schedule as unknown as Json,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', seller.id);
+
+        if (updateError) {
+          result.errors.push(`Failed to migrate seller "${seller.business_name}": ${updateError.message}`);
+          continue;
+        }
+
+        result.details.push({
+          id: seller.id,
+          business_name: seller.business_name,
+          hours: seller.hours,
+          schedule: formatSchedule(schedule)
+        });
+
+        result.migratedSellers++;
+      } catch (error) {
+        result.errors.push(`Error migrating seller "${seller.business_name}": ${error}`);
+      }
+    }
+
+    result.success = result.errors.length === 0;
+    console.log(`✅ Migration completed: ${result.migratedSellers}/${result.totalSellers} sellers migrated`);
+
+    if (result.unparseable.length > 0) {
+      console.warn(`⚠️ ${result.unparseable.length} sellers have hours that could not be read`);
+    }
+
+    return result;
+  } catch (error) {
+    result.errors.push(`Migration failed: ${error}`);
+    console.error('❌ Schedule migration failed:', error);
+    return result;
+  }
+};
@@ -167,3 +167,6 @@ export const initSecurity = () => {
 
 // Export rate limiter instance for API calls
 export const apiRateLimiter = new RateLimiter(30, 60000); // 30 requests per minute
+
+// In-app messages, keyed by sender
+export const messageRateLimiter = new RateLimiter(10, 60000); // 10 messages per minute
@@ -0,0 +1,142 @@
+// Seller analytics helpers: date ranges, conversion rates and heatmap shaping for the aggregated RPC results
+
+import { addDaysToDate, getScheduleDate } from './businessHours';
+
+export type AnalyticsBucket = 'day' | 'week';
+
+// Inclusive ISO dates (YYYY-MM-DD) in Morocco time, the same dates the RPCs group by
+export interface AnalyticsDateRange {
+  startDate: string;
+  endDate: string;
+}
+
+export interface AnalyticsTimeSeriesPoint {
+  bucket_start: string;
+  profile_views: number;
+  contact_attempts: number;
+  order_inquiries: number;
+}
+
+export interface AnalyticsFunnel {
+  profile_views: number;
+  unique_viewers: number;
+  contact_attempts: number;
+  unique_contacts: number;
+  order_inquiries: number;
+}
+
+export interface HourlyActivityRow {
+  // 0 = Monday ... 6 = Sunday
+  day_of_week: number;
+  hour: number;
+  events: number;
+}
+
+// Event counts for one drink, as returned by the drink_performance RPC
+export interface DrinkPerformanceRow {
+  drink_id: string;
+  item_views: number;
+  contact_attempts: number;
+  directions_requests: number;
+  shares: number;
+}
+
+export interface DrinkPerformance extends DrinkPerformanceRow {
+  name: string;
+  // Contacts per 100 item views
+  contactRate: number;
+}
+
+export const ANALYTICS_RANGE_PRESETS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' }
+];
+
+export const MAX_ANALYTICS_RANGE_DAYS = 366;
+
+// Ranges longer than this are charted per week so the chart stays readable
+const WEEKLY_BUCKET_AFTER_DAYS = 60;
+
+export const HEATMAP_DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// The last `days` days, today included
+export const getPresetRange = (days: number, now: Date = new Date()): AnalyticsDateRange => {
+  const endDate = getScheduleDate(null, now);
+  return { startDate: addDaysToDate(endDate, -(days - 1)), endDate };
+};
+
+export const getRangeLength = ({ startDate, endDate }: AnalyticsDateRange): number => {
+  return Math.round((Date.parse(endDate) - Date.parse(startDate)) / MS_PER_DAY) + 1;
+};
+
+export const validateDateRange = (range: AnalyticsDateRange): string | null => {
+  if (!range.startDate || !range.endDate) return 'Pick a start and end date';
+  if (range.startDate > range.endDate) return 'The start date must be before the end date';
+  if (getRangeLength(range) > MAX_ANALYTICS_RANGE_DAYS) return `Pick at most ${MAX_ANALYTICS_RANGE_DAYS} days`;
+  return null;
+};
+
+export const getDefaultBucket = (range: AnalyticsDateRange): AnalyticsBucket => {
+  return getRangeLength(range) > WEEKLY_BUCKET_AFTER_DAYS ? 'week' : 'day';
+};
+
+// Percentage with one decimal, e.g. 12 contacts from 80 views -> 15
+export const getConversionRate = (from: number, to: number): number => {
+  if (from <= 0) return 0;
+  return Math.round((to / from) * 1000) / 10;
+};
+
+// 7 x 24 grid (Monday first) with the busiest cell, for the hour-of-day heatmap
+export const buildHeatmap = (rows: HourlyActivityRow[]): { cells: number[][]; max: number } => {
+  const cells = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => 0));
+  let max = 0;
+
+  rows.forEach(({ day_of_week, hour, events }) => {
+    if (day_of_week < 0 || day_of_week > 6 || hour < 0 || hour > 23) return;
+    cells[day_of_week][hour] += events;
+    max = Math.max(max, cells[day_of_week][hour]);
+  });
+
+  return { cells, max };
+};
+
+// Shade from 0 (no activity) to 4 (busiest hour)
+export const getHeatmapIntensity = (value: number, max: number): number => {
+  if (value <= 0 || max <= 0) return 0;
+  return Math.max(1, Math.ceil((value / max) * 4));
+};
+
+export const formatBucketLabel = (bucketStart: string, bucket: AnalyticsBucket): string => {
+  const [year, month, day] = bucketStart.slice(0, 10).split('-').map(Number);
+  const label = new Date(Date.UTC(year, month - 1, day))
+    .toLocaleDateString('en-GB', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+  return bucket === 'week' ? `Wk of ${label}` : label;
+};
+
+// One entry per drink on the menu (drinks without events get zeros), most viewed first
+export const buildDrinkPerformance = (
+  drinks: { id: string; name: string }[],
+  rows: DrinkPerformanceRow[]
+): DrinkPerformance[] => {
+  const byDrink = new Map(rows.map(row => [row.drink_id, row]));
+
+  return drinks
+    .map(drink => {
+      const row = byDrink.get(drink.id) || {
+        drink_id: drink.id,
+        item_views: 0,
+        contact_attempts: 0,
+        directions_requests: 0,
+        shares: 0
+      };
+      return {
+        ...row,
+        name: drink.name,
+        contactRate: getConversionRate(row.item_views, row.contact_attempts)
+      };
+    })
+    .sort((a, b) => b.item_views - a.item_views || b.contact_attempts - a.contact_attempts);
+};
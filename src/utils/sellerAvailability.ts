@@ -0,0 +1,97 @@
+// Effective seller availability: the manual switch, the opening hours, or the hours with a temporary pause
+
+import { Database } from '@/lib/database.types';
+import { OpenStatus, getOpenStatus, getSellerSchedule, formatOpenStatus, SCHEDULE_TIMEZONE } from './businessHours';
+
+export type AvailabilityMode = Database['public']['Enums']['availability_mode'];
+
+export interface AvailabilityModeInfo {
+  value: AvailabilityMode;
+  label: string;
+  description: string;
+}
+
+export const AVAILABILITY_MODES: AvailabilityModeInfo[] = [
+  {
+    value: 'manual',
+    label: 'Manual',
+    description: 'You switch yourself online and offline'
+  },
+  {
+    value: 'schedule',
+    label: 'Follow my hours',
+    description: 'Online only during your opening hours'
+  },
+  {
+    value: 'schedule_with_pause',
+    label: 'Hours with pauses',
+    description: 'Follows your hours, and you can pause for a while when you step away'
+  }
+];
+
+export const PAUSE_DURATIONS_MINUTES = [15, 30, 60, 120];
+
+// The sellers columns availability depends on
+export interface SellerAvailabilityFields {
+  is_available?: boolean | null;
+  availability_mode?: AvailabilityMode | string | null;
+  paused_until?: string | null;
+  schedule?: unknown;
+  hours?: string | null;
+}
+
+export interface SellerAvailability {
+  isAvailable: boolean;
+  reason: 'manual' | 'schedule' | 'paused';
+  openStatus?: OpenStatus; // Set when the schedule decided
+  pausedUntil?: Date;
+}
+
+export const getAvailabilityMode = (seller: SellerAvailabilityFields | null | undefined): AvailabilityMode => {
+  const mode = seller?.availability_mode;
+  return mode === 'schedule' || mode === 'schedule_with_pause' ? mode : 'manual';
+};
+
+/**
+ * Whether buyers should see the seller as available right now. Schedule modes fall back to the
+ * manual switch when the seller has no readable hours, so nobody disappears from the map by accident.
+ */
+export const getEffectiveAvailability = (
+  seller: SellerAvailabilityFields | null | undefined,
+  date: Date = new Date()
+): SellerAvailability => {
+  const mode = getAvailabilityMode(seller);
+  const manual: SellerAvailability = { isAvailable: !!seller?.is_available, reason: 'manual' };
+  if (mode === 'manual') return manual;
+
+  const schedule = getSellerSchedule(seller);
+  if (!schedule) return manual;
+
+  if (mode === 'schedule_with_pause' && seller?.paused_until) {
+    const pausedUntil = new Date(seller.paused_until);
+    if (pausedUntil.getTime() > date.getTime()) {
+      return { isAvailable: false, reason: 'paused', pausedUntil };
+    }
+  }
+
+  const openStatus = getOpenStatus(schedule, date);
+  return { isAvailable: openStatus.isOpen, reason: 'schedule', openStatus };
+};
+
+export const isSellerAvailable = (seller: SellerAvailabilityFields | null | undefined, date: Date = new Date()): boolean => {
+  return getEffectiveAvailability(seller, date).isAvailable;
+};
+
+// "Online", "Paused until 14:30", "Open now · closes at 18:00"
+export const formatAvailability = (availability: SellerAvailability): string => {
+  if (availability.reason === 'paused' && availability.pausedUntil) {
+    const time = availability.pausedUntil.toLocaleTimeString('en-GB', {
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: SCHEDULE_TIMEZONE
+    });
+    return `Paused until ${time}`;
+  }
+  if (availability.openStatus) return formatOpenStatus(availability.openStatus);
+  return availability.isAvailable ? 'Online' : 'Offline';
+};
@@ -1,27 +1,73 @@
 // Sitemap generation utilities for SEO
 
+import { Database } from '@/lib/database.types';
+import { MOROCCAN_CITIES, MoroccanCity, getCityFromAddress, getCityPath, getCitySlug } from './localSEO';
+
+type Seller = Database['public']['Tables']['sellers']['Row'];
+type Drink = Database['public']['Tables']['drinks']['Row'];
+
+export interface SitemapImage {
+  loc: string;
+  title?: string;
+}
+
 export interface SitemapUrl {
   loc: string;
   lastmod?: string;
   changefreq?: 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
   priority?: number;
+  images?: SitemapImage[];
 }
 
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const toSitemapDate = (date: string | Date): string => new Date(date).toISOString().split('T')[0];
+
 export const generateSitemap = (urls: SitemapUrl[]): string => {
+  const hasImages = urls.some(url => url.images && url.images.length > 0);
   const urlElements = urls.map(url => `
   <url>
-    <loc>${url.loc}</loc>
+    <loc>${escapeXml(url.loc)}</loc>
     ${url.lastmod ? `<lastmod>${url.lastmod}</lastmod>` : ''}
     ${url.changefreq ? `<changefreq>${url.changefreq}</changefreq>` : ''}
     ${url.priority ? `<priority>${url.priority}</priority>` : ''}
+    ${(url.images || []).map(image => `<image:image>
+      <image:loc>${escapeXml(image.loc)}</image:loc>
+      ${image.title ? `<image:title>${escapeXml(image.title)}</image:title>` : ''}
+    </image:image>`).join('')}
   </url>`).join('');
 
   return `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"${hasImages ? ' xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"' : ''}>
 ${urlElements}
 </urlset>`;
 };
 
+export interface SitemapIndexEntry {
+  loc: string;
+  lastmod?: string;
+}
+
+export const generateSitemapIndex = (entries: SitemapIndexEntry[]): string => {
+  const sitemapElements = entries.map(entry => `
+  <sitemap>
+    <loc>${escapeXml(entry.loc)}</loc>
+    ${entry.lastmod ? `<lastmod>${entry.lastmod}</lastmod>` : ''}
+  </sitemap>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemapElements}
+</sitemapindex>`;
+};
+
 export const getStaticSitemapUrls = (): SitemapUrl[] => {
   const baseUrl = 'https://machroub.ma';
   const currentDate = new Date().toISOString().split('T')[0];
@@ -78,16 +124,37 @@ export const getStaticSitemapUrls = (): SitemapUrl[] => {
   ];
 };
 
+export type SitemapSeller = Pick<Seller, 'id' | 'business_name' | 'address' | 'photo_url' | 'updated_at'>;
+export type SitemapDrink = Pick<Drink, 'id' | 'seller_id' | 'name' | 'photo_url' | 'updated_at'>;
+
+// Only absolute image URLs are allowed in image sitemaps
+const getSitemapImages = (photoUrl: string | null, title: string): SitemapImage[] => {
+  return photoUrl && /^https?:\/\//.test(photoUrl) ? [{ loc: photoUrl, title }] : [];
+};
+
 // Generate dynamic URLs for sellers
-export const getSellerSitemapUrls = (sellers: any[]): SitemapUrl[] => {
-  const baseUrl = 'https://machroub.ma';
-  const currentDate = new Date().toISOString().split('T')[0];
+export const getSellerSitemapUrls = (sellers: SitemapSeller[], baseUrl: string = 'https://machroub.ma'): SitemapUrl[] => {
+  const currentDate = toSitemapDate(new Date());
 
   return sellers.map(seller => ({
     loc: `${baseUrl}/seller/${seller.id}`,
-    lastmod: seller.updated_at ? new Date(seller.updated_at).toISOString().split('T')[0] : currentDate,
+    lastmod: seller.updated_at ? toSitemapDate(seller.updated_at) : currentDate,
     changefreq: 'weekly' as const,
-    priority: 0.8
+    priority: 0.8,
+    images: getSitemapImages(seller.photo_url, seller.business_name)
+  }));
+};
+
+// Item pages for available drinks
+export const getDrinkSitemapUrls = (drinks: SitemapDrink[], baseUrl: string = 'https://machroub.ma'): SitemapUrl[] => {
+  const currentDate = toSitemapDate(new Date());
+
+  return drinks.map(drink => ({
+    loc: `${baseUrl}/item/${drink.id}`,
+    lastmod: drink.updated_at ? toSitemapDate(drink.updated_at) : currentDate,
+    changefreq: 'weekly' as const,
+    priority: 0.7,
+    images: getSitemapImages(drink.photo_url, drink.name)
   }));
 };
 
@@ -128,12 +195,84 @@ Sitemap: ${baseUrl}/sitemap.xml
 Host: ${baseUrl}`;
 };
 
+// City landing pages at /city/:citySlug
+export const getCitySitemapUrls = (cities: MoroccanCity[] = MOROCCAN_CITIES, baseUrl: string = 'https://machroub.ma'): SitemapUrl[] => {
+  const currentDate = toSitemapDate(new Date());
+
+  return cities.map(city => ({
+    loc: `${baseUrl}${getCityPath(city)}`,
+    lastmod: currentDate,
+    changefreq: 'daily' as const,
+    priority: 0.8
+  }));
+};
+
+export interface SitemapFile {
+  fileName: string;
+  content: string;
+}
+
+export const OTHER_CITY_SITEMAP = 'other';
+
+/**
+ * A sitemap index (sitemap.xml) pointing at one sitemap for the static pages and one per city
+ * from MOROCCAN_CITIES. Each city sitemap has the city page, its sellers and their drinks. Sellers
+ * whose address names no known city go to sitemap-other.xml.
+ */
+export const buildSitemapFiles = (
+  data: { sellers: SitemapSeller[]; drinks: SitemapDrink[] },
+  baseUrl: string = 'https://machroub.ma'
+): SitemapFile[] => {
+  const drinksBySeller = new Map<string, SitemapDrink[]>();
+  data.drinks.forEach(drink => {
+    drinksBySeller.set(drink.seller_id, [...(drinksBySeller.get(drink.seller_id) || []), drink]);
+  });
+
+  const sellersByCity = new Map<string, SitemapSeller[]>();
+  data.sellers.forEach(seller => {
+    const city = getCityFromAddress(seller.address);
+    const key = city ? getCitySlug(city) : OTHER_CITY_SITEMAP;
+    sellersByCity.set(key, [...(sellersByCity.get(key) || []), seller]);
+  });
+
+  const files: SitemapFile[] = [];
+  const indexEntries: SitemapIndexEntry[] = [];
+  const getLatestLastmod = (urls: SitemapUrl[]) => urls.map(url => url.lastmod).filter(Boolean).sort().pop();
+  const addFile = (name: string, urls: SitemapUrl[]) => {
+    const fileName = `sitemap-${name}.xml`;
+    const lastmod = getLatestLastmod(urls);
+    files.push({ fileName, content: generateSitemap(urls) });
+    indexEntries.push({ loc: `${baseUrl}/${fileName}`, lastmod });
+  };
+
+  addFile('pages', getStaticSitemapUrls().map(url => ({ ...url, loc: url.loc.replace('https://machroub.ma', baseUrl) })));
+
+  const getSellerAndDrinkUrls = (sellers: SitemapSeller[]): SitemapUrl[] => {
+    const drinks = sellers.flatMap(seller => drinksBySeller.get(seller.id) || []);
+    return [...getSellerSitemapUrls(sellers, baseUrl), ...getDrinkSitemapUrls(drinks, baseUrl)];
+  };
+
+  [...MOROCCAN_CITIES].sort((a, b) => getCitySlug(a).localeCompare(getCitySlug(b))).forEach(city => {
+    const sellerUrls = getSellerAndDrinkUrls(sellersByCity.get(getCitySlug(city)) || []);
+    // The city page changes when its sellers or their menus do
+    const cityUrls = getCitySitemapUrls([city], baseUrl).map(url => ({ ...url, lastmod: getLatestLastmod(sellerUrls) }));
+    addFile(getCitySlug(city), [...cityUrls, ...sellerUrls]);
+  });
+
+  if (sellersByCity.has(OTHER_CITY_SITEMAP)) {
+    addFile(OTHER_CITY_SITEMAP, getSellerAndDrinkUrls(sellersByCity.get(OTHER_CITY_SITEMAP)));
+  }
+
+  return [{ fileName: 'sitemap.xml', content: generateSitemapIndex(indexEntries) }, ...files];
+};
+
 // Generate a complete sitemap with all URLs
-export const generateCompleteSitemap = async (sellers?: any[]): Promise<string> => {
+export const generateCompleteSitemap = async (sellers?: SitemapSeller[]): Promise<string> => {
   const staticUrls = getStaticSitemapUrls();
+  const cityUrls = getCitySitemapUrls();
   const sellerUrls = sellers ? getSellerSitemapUrls(sellers) : [];
   
-  const allUrls = [...staticUrls, ...sellerUrls];
+  const allUrls = [...staticUrls, ...cityUrls, ...sellerUrls];
   
   return generateSitemap(allUrls);
 };
@@ -141,6 +280,8 @@ export const generateCompleteSitemap = async (sellers?: any[]): Promise<string>
 // SEO-friendly URL slug generator
 export const generateSlug = (text: string): string => {
   return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // "Café" -> "Cafe"
     .toLowerCase()
     .trim()
     .replace(/[^\w\s-]/g, '') // Remove special characters
@@ -148,10 +289,29 @@ export const generateSlug = (text: string): string => {
     .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
 };
 
-// Generate SEO-friendly URLs for sellers
-export const generateSellerUrl = (seller: any): string => {
-  const slug = generateSlug(seller.business_name);
-  return `/seller/${seller.id}/${slug}`;
+export const MAX_SLUG_LENGTH = 60;
+
+export const isValidSlug = (slug: string): boolean => {
+  return slug.length > 0 && slug.length <= MAX_SLUG_LENGTH && /^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug);
+};
+
+/**
+ * First free slug for a name: "atlas-coffee", then "atlas-coffee-2", "atlas-coffee-3"...
+ * Names with no usable characters (e.g. Arabic only) fall back to "seller".
+ */
+export const getUniqueSlug = (text: string, takenSlugs: string[]): string => {
+  const base = generateSlug(text).slice(0, MAX_SLUG_LENGTH - 4).replace(/-+$/, '') || 'seller';
+  const taken = new Set(takenSlugs);
+  if (!taken.has(base)) return base;
+
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) suffix++;
+  return `${base}-${suffix}`;
+};
+
+// Public menu URL for a seller; prefers the stored slug so printed QR codes keep working after renames
+export const generateSellerUrl = (seller: { slug?: string | null; business_name: string }): string => {
+  return `/menu/${seller.slug || generateSlug(seller.business_name)}`;
 };
 
 // Meta description generator for dynamic content
@@ -1,5 +1,10 @@
 // Structured Data (JSON-LD) schemas for SEO
 
+import { parseOptionGroups, getDrinkPriceRange } from './drinkOptions';
+import { WeeklySchedule, DAY_KEYS, DAY_LABELS, getSellerSchedule, getUpcomingOverrides } from './businessHours';
+import { RatingReply, getRatingReply } from './ratingReplies';
+import { Promotion, appliesToDrink, formatPromotionLabel, getDiscountedUnitPrice } from './promotions';
+
 export interface BusinessLocation {
   latitude: number;
   longitude: number;
@@ -27,9 +32,18 @@ export interface Seller {
   rating_count?: number;
   specialty: 'coffee' | 'matcha' | 'both';
   hours?: string;
+  schedule?: unknown;
   photo_url?: string;
 }
 
+export interface SellerReview {
+  rating: number;
+  comment?: string | null;
+  created_at: string;
+  buyer?: { name: string } | null;
+  reply?: RatingReply | RatingReply[] | null;
+}
+
 // Main application schema
 export const getWebApplicationSchema = () => ({
   "@context": "https://schema.org",
@@ -58,7 +72,8 @@ export const getWebApplicationSchema = () => ({
 });
 
 // Local business schema for individual sellers
-export const getLocalBusinessSchema = (seller: Seller) => {
+// Published reviews are listed with the seller's reply as a Comment
+export const getLocalBusinessSchema = (seller: Seller, reviews: SellerReview[] = []) => {
   const baseSchema = {
     "@context": "https://schema.org",
     "@type": seller.specialty === 'coffee' ? "CoffeeShop" : "Restaurant",
@@ -94,46 +109,147 @@ export const getLocalBusinessSchema = (seller: Seller) => {
     };
   }
 
+  if (reviews.length > 0) {
+    Object.assign(baseSchema, { review: reviews.map(review => getReviewSchema(review, seller)) });
+  }
+
   // Add image if available
   if (seller.photo_url) {
     (baseSchema as any).image = seller.photo_url;
   }
 
-  // Add opening hours if available
-  if (seller.hours) {
-    try {
-      // Parse hours string and convert to schema format
-      (baseSchema as any).openingHours = parseBusinessHours(seller.hours);
-    } catch (error) {
-      console.warn('Could not parse business hours:', seller.hours);
-    }
+  // Add opening hours if the seller's schedule can be read
+  const schedule = getSellerSchedule(seller);
+  if (schedule) {
+    (baseSchema as any).openingHoursSpecification = getOpeningHoursSpecification(schedule);
   }
 
   return baseSchema;
 };
 
+// Review schema for a rating, with the seller's reply attached
+export const getReviewSchema = (review: SellerReview, seller: Seller) => {
+  const schema: Record<string, unknown> = {
+    "@type": "Review",
+    "author": {
+      "@type": "Person",
+      "name": review.buyer?.name || "Anonymous"
+    },
+    "datePublished": review.created_at.split('T')[0],
+    "reviewRating": {
+      "@type": "Rating",
+      "ratingValue": review.rating.toString(),
+      "bestRating": "5",
+      "worstRating": "1"
+    }
+  };
+
+  if (review.comment) {
+    schema.reviewBody = review.comment;
+  }
+
+  const reply = getRatingReply(review);
+  if (reply) {
+    schema.comment = {
+      "@type": "Comment",
+      "text": reply.body,
+      "dateCreated": reply.created_at,
+      ...(reply.edited_at ? { "dateModified": reply.edited_at } : {}),
+      "author": {
+        "@type": "Organization",
+        "name": seller.business_name
+      }
+    };
+  }
+
+  return schema;
+};
+
 // Product schema for drinks/menu items
-export const getProductSchema = (drink: any, seller: Seller) => ({
-  "@context": "https://schema.org",
-  "@type": "Product",
-  "name": drink.name,
-  "description": drink.description,
-  "category": drink.category,
-  "offers": {
-    "@type": "Offer",
-    "price": parseFloat(drink.price.replace(' Dh', '')),
-    "priceCurrency": "MAD",
-    "availability": "https://schema.org/InStock",
-    "seller": {
-      "@type": "Organization",
+// Drinks with priced options (size, milk, extras) get an AggregateOffer with their price range,
+// and each running promotion for the drink adds an Offer with its validity dates
+export const getProductSchema = (drink: any, seller: Seller, promotions: Promotion[] = []) => {
+  const basePrice = typeof drink.price === 'number' ? drink.price : parseFloat(String(drink.price).replace(' Dh', ''));
+  const optionGroups = parseOptionGroups(drink.option_groups);
+  const priceRange = getDrinkPriceRange(basePrice, optionGroups);
+  const availability = drink.is_available === false ? "https://schema.org/OutOfStock" : "https://schema.org/InStock";
+  const sellerOrganization = {
+    "@type": "Organization",
+    "name": seller.business_name
+  };
+
+  const offers = priceRange.min !== priceRange.max
+    ? {
+        "@type": "AggregateOffer",
+        "lowPrice": priceRange.min,
+        "highPrice": priceRange.max,
+        "priceCurrency": "MAD",
+        "availability": availability,
+        "seller": sellerOrganization
+      }
+    : {
+        "@type": "Offer",
+        "price": basePrice,
+        "priceCurrency": "MAD",
+        "availability": availability,
+        "seller": sellerOrganization
+      };
+
+  const promotionOffers = promotions
+    .filter(promotion => promotion.is_active && appliesToDrink(promotion, drink.id))
+    .filter(promotion => !promotion.ends_at || Date.parse(promotion.ends_at) > Date.now())
+    .map(promotion => {
+      const isBundle = promotion.type === 'bundle';
+      const offer: Record<string, unknown> = {
+        "@type": "Offer",
+        "name": promotion.title,
+        "description": formatPromotionLabel(promotion),
+        "price": isBundle
+          ? basePrice * (promotion.buy_quantity || 1)
+          : getDiscountedUnitPrice(basePrice, promotion),
+        "priceCurrency": "MAD",
+        "availability": availability,
+        "validFrom": promotion.starts_at,
+        "seller": sellerOrganization
+      };
+      if (promotion.ends_at) offer.validThrough = promotion.ends_at;
+      if (isBundle) {
+        offer.eligibleQuantity = {
+          "@type": "QuantitativeValue",
+          "value": (promotion.buy_quantity || 1) + (promotion.free_quantity || 0)
+        };
+      }
+      return offer;
+    });
+
+  const schema: Record<string, unknown> = {
+    "@context": "https://schema.org",
+    "@type": "Product",
+    "name": drink.name,
+    "description": drink.description,
+    "category": drink.category,
+    "offers": promotionOffers.length > 0 ? [offers, ...promotionOffers] : offers,
+    "brand": {
+      "@type": "Brand",
       "name": seller.business_name
     }
-  },
-  "brand": {
-    "@type": "Brand",
-    "name": seller.business_name
+  };
+
+  // List the available choices, e.g. Size: Small, Medium, Large
+  if (optionGroups.length > 0) {
+    schema.additionalProperty = optionGroups.map(group => ({
+      "@type": "PropertyValue",
+      "name": group.name,
+      "value": group.options.map(option => option.name).join(', ')
+    }));
   }
-});
+
+  if (drink.photo_url) {
+    schema.image = drink.photo_url;
+  }
+
+  return schema;
+};
 
 // Breadcrumb schema for navigation
 export const getBreadcrumbSchema = (items: Array<{name: string, url: string}>) => ({
@@ -181,18 +297,29 @@ export const getOrganizationSchema = () => ({
   ]
 });
 
-// Helper function to parse business hours
-const parseBusinessHours = (hoursString: string): string[] => {
-  // This is a simple parser - you might want to make it more sophisticated
-  // Expected format: "Mon-Fri 9:00-17:00, Sat 10:00-15:00"
-  const hours: string[] = [];
-  
-  // For now, return a default format
-  // You can enhance this based on your actual hours format
-  return [
-    "Mo-Fr 09:00-17:00",
-    "Sa 10:00-15:00"
-  ];
+// One OpeningHoursSpecification per interval; overnight intervals keep a closing time before the opening time
+const getOpeningHoursSpecification = (schedule: WeeklySchedule) => {
+  const weekly = DAY_KEYS.flatMap(day =>
+    schedule.days[day].map(interval => ({
+      "@type": "OpeningHoursSpecification",
+      "dayOfWeek": `https://schema.org/${DAY_LABELS[day].full}`,
+      "opens": interval.open,
+      "closes": interval.close === '24:00' ? '23:59' : interval.close
+    }))
+  );
+
+  // Special hours carry validFrom/validThrough; schema.org marks a closed day as 00:00 - 00:00
+  const special = getUpcomingOverrides(schedule).flatMap(override =>
+    (override.intervals.length > 0 ? override.intervals : [{ open: '00:00', close: '00:00' }]).map(interval => ({
+      "@type": "OpeningHoursSpecification",
+      "validFrom": override.startDate,
+      "validThrough": override.endDate,
+      "opens": interval.open,
+      "closes": interval.close === '24:00' ? '23:59' : interval.close
+    }))
+  );
+
+  return [...weekly, ...special];
 };
 
 // Search action schema for the app
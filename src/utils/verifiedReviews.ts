@@ -0,0 +1,65 @@
+// Verified-purchase reviews: which purchase backs a review, and how verified reviews are listed
+
+import { Database } from '@/lib/database.types';
+
+type OrderStatus = Database['public']['Enums']['order_status'];
+type ContactRequestStatus = Database['public']['Tables']['contact_requests']['Row']['status'];
+
+export interface VerifyingPurchase {
+  order_id: string | null;
+  contact_request_id: string | null;
+}
+
+export type ReviewSortOption = 'verified_first' | 'newest' | 'highest' | 'lowest';
+
+export const REVIEW_SORT_OPTIONS: { value: ReviewSortOption; label: string }[] = [
+  { value: 'verified_first', label: 'Verified first' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'highest', label: 'Highest rated' },
+  { value: 'lowest', label: 'Lowest rated' }
+];
+
+// Only purchases that actually happened verify a review; the database trigger applies the same rule
+export const isVerifyingOrderStatus = (status: OrderStatus): boolean => status === 'picked_up';
+export const isVerifyingContactStatus = (status: ContactRequestStatus): boolean => status === 'completed';
+
+const newestFirst = (a: { created_at: string }, b: { created_at: string }) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+// The purchase to attach to a new review: the latest picked-up order, else the latest completed contact request
+export const pickVerifyingPurchase = (
+  orders: { id: string; status: OrderStatus; created_at: string }[],
+  contactRequests: { id: string; status: ContactRequestStatus; created_at: string }[]
+): VerifyingPurchase | null => {
+  const order = orders.filter(o => isVerifyingOrderStatus(o.status)).sort(newestFirst)[0];
+  if (order) return { order_id: order.id, contact_request_id: null };
+
+  const contactRequest = contactRequests.filter(c => isVerifyingContactStatus(c.status)).sort(newestFirst)[0];
+  if (contactRequest) return { order_id: null, contact_request_id: contactRequest.id };
+
+  return null;
+};
+
+export const sortReviews = <T extends { rating: number; date: string; verified?: boolean }>(
+  reviews: T[],
+  sort: ReviewSortOption
+): T[] => {
+  const byDate = (a: T, b: T) => new Date(b.date).getTime() - new Date(a.date).getTime();
+
+  return [...reviews].sort((a, b) => {
+    switch (sort) {
+      case 'verified_first':
+        return Number(!!b.verified) - Number(!!a.verified) || byDate(a, b);
+      case 'highest':
+        return b.rating - a.rating || byDate(a, b);
+      case 'lowest':
+        return a.rating - b.rating || byDate(a, b);
+      default:
+        return byDate(a, b);
+    }
+  });
+};
+
+export const filterReviews = <T extends { verified?: boolean }>(reviews: T[], verifiedOnly: boolean): T[] => {
+  return verifiedOnly ? reviews.filter(review => review.verified) : reviews;
+};
@@ -0,0 +1,106 @@
+// Web push: service worker registration, push subscriptions and a local stand-in for the push service
+
+import { Database } from '@/lib/database.types';
+import { AppNotification } from './notifications';
+
+export type PushSubscriptionInsert = Database['public']['Tables']['push_subscriptions']['Insert'];
+
+// What public/sw.js shows; the same shape arrives from the push service or the local stand-in
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+}
+
+export interface PushSender {
+  send: (payload: PushPayload) => Promise<void>;
+}
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+// Message type public/sw.js treats exactly like a push event
+export const LOCAL_PUSH_MESSAGE = 'machroub:local-push';
+
+export const isPushSupported = (): boolean => {
+  return typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window;
+};
+
+export const buildPushPayload = (notification: Pick<AppNotification, 'id' | 'title' | 'body' | 'url'>): PushPayload => ({
+  title: notification.title,
+  body: notification.body,
+  url: notification.url || '/',
+  tag: notification.id
+});
+
+// VAPID keys are base64url; PushManager.subscribe() wants the raw bytes
+export const urlBase64ToUint8Array = (base64String: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+export const toPushSubscriptionInsert = (
+  userId: string,
+  subscription: PushSubscriptionJSON,
+  userAgent: string | null = null
+): PushSubscriptionInsert | null => {
+  const { endpoint, keys } = subscription;
+  if (!endpoint || !keys?.p256dh || !keys?.auth) return null;
+  return { user_id: userId, endpoint, p256dh: keys.p256dh, auth: keys.auth, user_agent: userAgent };
+};
+
+/**
+ * Delivers payloads by posting them to the service worker instead of going through a push
+ * service. Used in development and whenever no VAPID key is configured; tests can pass any
+ * object with postMessage().
+ */
+export const createLocalPushSender = (target: Pick<ServiceWorker, 'postMessage'> | null | undefined): PushSender => ({
+  send: async (payload) => {
+    if (!target) return;
+    target.postMessage({ type: LOCAL_PUSH_MESSAGE, payload });
+  }
+});
+
+// The same worker does offline caching, so it registers in browsers without push too
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+  try {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    return await navigator.serviceWorker.ready;
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return null;
+  }
+};
+
+// Asks for permission and subscribes; null without a VAPID key, when only the local stand-in can deliver
+export const subscribeToPush = async (
+  registration: ServiceWorkerRegistration,
+  vapidPublicKey?: string
+): Promise<PushSubscriptionJSON | null> => {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site. Allow them in your browser settings.');
+  }
+  if (!vapidPublicKey) return null;
+
+  const existing = await registration.pushManager.getSubscription();
+  const subscription = existing || await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(vapidPublicKey)
+  });
+  return subscription.toJSON();
+};
+
+// Returns the endpoint that was removed so its row can be deleted too
+export const unsubscribeFromPush = async (registration: ServiceWorkerRegistration): Promise<string | null> => {
+  const subscription = await registration.pushManager.getSubscription();
+  if (!subscription) return null;
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+};
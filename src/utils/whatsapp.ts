@@ -1,11 +1,17 @@
 import { Seller } from "@/data/mockSellers";
 import { getMoroccanPhoneForWhatsAppAPI, validateAndNormalizeMoroccanPhone } from "./moroccanPhoneValidation";
+import { SelectedDrinkOption, formatSelectedOptions } from "./drinkOptions";
+import { formatPrice } from "./numberFormat";
+import { trackSellerEvent } from "@/lib/supabase";
 
 export interface OrderItem {
+  drinkId?: string;
   name: string;
-  price: number;
+  price: number; // Unit price, including any option price changes
   quantity: number;
+  lineTotal?: number; // Charged for the line after promotions; price × quantity when unset
   notes?: string;
+  options?: SelectedDrinkOption[];
 }
 
 
@@ -40,27 +46,206 @@ export const sendWhatsAppMessage = (phoneNumber: string, message: string): void
   window.open(whatsappUrl, '_blank');
 };
 
+export type MessageLanguage = 'en' | 'ar' | 'ary';
+
+// Phrases for the pre-filled WhatsApp messages. Prices keep Western digits in every language,
+// since the seller may read the message on a phone set to another language.
+interface MessagePhrases {
+  specialty: (specialty: string) => string;
+  myName: (name: string) => string;
+  customer: string;
+  notes: string;
+  thanks: string;
+  thankYou: string;
+  sentVia: string;
+  quickContact: { intro: (specialty: string) => string; question: string; bullets: string[] };
+  productInterest: { intro: (product: string, price: string, specialty: string) => string; options: string; question: string; bullets: string[] };
+  orderInquiry: { intro: (specialty: string) => string; interestedIn: string; question: string; bullets: string[] };
+  orderNotification: { intro: (reference: string) => string; total: string; footer: string };
+  cartInquiry: { intro: (specialty: string) => string; subtotal: string; question: string };
+  businessHours: { intro: (specialty: string) => string; question: string };
+  location: { intro: (specialty: string) => string; question: string; bullets: string[] };
+}
+
+const ARABIC_SPECIALTIES: Record<string, string> = {
+  coffee: 'القهوة',
+  matcha: 'الماتشا',
+  both: 'القهوة والماتشا',
+  drinks: 'المشروبات'
+};
+
+const MESSAGE_PHRASES: Record<MessageLanguage, MessagePhrases> = {
+  en: {
+    specialty: specialty => specialty,
+    myName: name => `My name is ${name}.`,
+    customer: 'Customer',
+    notes: 'Notes',
+    thanks: 'Thanks!',
+    thankYou: 'Thank you!',
+    sentVia: '_Sent via Machroub_',
+    quickContact: {
+      intro: specialty => `👋 Hi! I found your ${specialty} business on Machroub.`,
+      question: `I'm interested in your drinks menu. Could you please share more details about:`,
+      bullets: ['Available drinks and prices', 'Pickup/delivery options', 'Current availability']
+    },
+    productInterest: {
+      intro: (product, price, specialty) => `🍵 Hi! I'm interested in ordering "${product}" (${price}) from your ${specialty} business.`,
+      options: 'Options',
+      question: 'Could you please confirm:',
+      bullets: ['Current availability', 'Pickup/delivery options', 'Estimated preparation time']
+    },
+    orderInquiry: {
+      intro: specialty => `🍵 Hi! I'd like to order from your ${specialty} business.`,
+      interestedIn: 'Interested in',
+      question: 'Could you please confirm:',
+      bullets: ['Price and availability', 'Pickup time and location', 'Payment method']
+    },
+    orderNotification: {
+      intro: reference => `🧾 Hi! I just placed order ${reference} on Machroub.`,
+      total: 'Total',
+      footer: 'You can accept it from your Machroub dashboard.'
+    },
+    cartInquiry: {
+      intro: specialty => `🛒 Hi! I'd like to order the following from your ${specialty} business:`,
+      subtotal: 'Subtotal',
+      question: 'Could you please confirm availability and pickup time?'
+    },
+    businessHours: {
+      intro: specialty => `⏰ Hi! I found your ${specialty} business on Machroub.`,
+      question: 'Could you please share your current business hours and availability?'
+    },
+    location: {
+      intro: specialty => `📍 Hi! I'm interested in visiting your ${specialty} business.`,
+      question: 'Could you please share:',
+      bullets: ['Exact pickup location/address', 'Any specific directions or landmarks', 'Best time to visit']
+    }
+  },
+  ar: {
+    specialty: specialty => ARABIC_SPECIALTIES[specialty] || specialty,
+    myName: name => `اسمي ${name}.`,
+    customer: 'الزبون',
+    notes: 'ملاحظات',
+    thanks: 'شكراً!',
+    thankYou: 'شكراً جزيلاً!',
+    sentVia: '_أُرسلت عبر مشروب_',
+    quickContact: {
+      intro: specialty => `👋 مرحباً! وجدت محلك لـ${specialty} على مشروب.`,
+      question: 'أنا مهتم بقائمة مشروباتك. هل يمكنك مشاركة تفاصيل أكثر عن:',
+      bullets: ['المشروبات المتوفرة وأسعارها', 'خيارات الاستلام أو التوصيل', 'التوفر الحالي']
+    },
+    productInterest: {
+      intro: (product, price, specialty) => `🍵 مرحباً! أرغب في طلب "${product}" (${price}) من محلك لـ${specialty}.`,
+      options: 'الخيارات',
+      question: 'هل يمكنك تأكيد:',
+      bullets: ['التوفر الحالي', 'خيارات الاستلام أو التوصيل', 'الوقت المتوقع للتحضير']
+    },
+    orderInquiry: {
+      intro: specialty => `🍵 مرحباً! أرغب في الطلب من محلك لـ${specialty}.`,
+      interestedIn: 'مهتم بـ',
+      question: 'هل يمكنك تأكيد:',
+      bullets: ['السعر والتوفر', 'وقت ومكان الاستلام', 'طريقة الدفع']
+    },
+    orderNotification: {
+      intro: reference => `🧾 مرحباً! قمت للتو بالطلب ${reference} على مشروب.`,
+      total: 'المجموع',
+      footer: 'يمكنك قبوله من لوحة التحكم في مشروب.'
+    },
+    cartInquiry: {
+      intro: specialty => `🛒 مرحباً! أرغب في طلب ما يلي من محلك لـ${specialty}:`,
+      subtotal: 'المجموع الفرعي',
+      question: 'هل يمكنك تأكيد التوفر ووقت الاستلام؟'
+    },
+    businessHours: {
+      intro: specialty => `⏰ مرحباً! وجدت محلك لـ${specialty} على مشروب.`,
+      question: 'هل يمكنك مشاركة ساعات العمل الحالية والتوفر؟'
+    },
+    location: {
+      intro: specialty => `📍 مرحباً! أرغب في زيارة محلك لـ${specialty}.`,
+      question: 'هل يمكنك مشاركة:',
+      bullets: ['العنوان الدقيق للاستلام', 'أي إرشادات أو معالم قريبة', 'أفضل وقت للزيارة']
+    }
+  },
+  ary: {
+    specialty: specialty => ARABIC_SPECIALTIES[specialty] || specialty,
+    myName: name => `سميتي ${name}.`,
+    customer: 'الكليان',
+    notes: 'ملاحظات',
+    thanks: 'شكراً!',
+    thankYou: 'الله يخليك!',
+    sentVia: '_تصيفطات من مشروب_',
+    quickContact: {
+      intro: specialty => `👋 السلام! لقيت المحل ديالك ديال ${specialty} فمشروب.`,
+      question: 'بغيت نعرف المونيو ديالك. واش تقدر تعطيني تفاصيل على:',
+      bullets: ['المشروبات اللي كاينين والثمن ديالهم', 'واش كاين التوصيل ولا نجي ناخد', 'واش محلول دابا']
+    },
+    productInterest: {
+      intro: (product, price, specialty) => `🍵 السلام! بغيت نكوموندي "${product}" (${price}) من المحل ديالك ديال ${specialty}.`,
+      options: 'الاختيارات',
+      question: 'واش تقدر تأكد ليا:',
+      bullets: ['واش كاين دابا', 'واش كاين التوصيل ولا نجي ناخد', 'شحال ديال الوقت باش يوجد']
+    },
+    orderInquiry: {
+      intro: specialty => `🍵 السلام! بغيت نكوموندي من المحل ديالك ديال ${specialty}.`,
+      interestedIn: 'بغيت',
+      question: 'واش تقدر تأكد ليا:',
+      bullets: ['الثمن وواش كاين', 'فوقاش وفين نجي ناخد', 'كيفاش نخلص']
+    },
+    orderNotification: {
+      intro: reference => `🧾 السلام! دابا صيفطت الكوموند ${reference} فمشروب.`,
+      total: 'المجموع',
+      footer: 'تقدر تقبلها من الداشبورد ديالك فمشروب.'
+    },
+    cartInquiry: {
+      intro: specialty => `🛒 السلام! بغيت نكوموندي هادشي من المحل ديالك ديال ${specialty}:`,
+      subtotal: 'المجموع',
+      question: 'واش تقدر تأكد ليا واش كاين وفوقاش نجي ناخد؟'
+    },
+    businessHours: {
+      intro: specialty => `⏰ السلام! لقيت المحل ديالك ديال ${specialty} فمشروب.`,
+      question: 'واش تقدر تقول ليا فوقاش كتحل وكتسد؟'
+    },
+    location: {
+      intro: specialty => `📍 السلام! بغيت نجي للمحل ديالك ديال ${specialty}.`,
+      question: 'واش تقدر تعطيني:',
+      bullets: ['العنوان بالضبط', 'شي علامة ولا طريق باش نوصل', 'أحسن وقت نجي فيه']
+    }
+  }
+};
+
+// Maps the app language ("ar-MA", "fr", ...) to a message language; French readers get English
+export const getMessageLanguage = (language?: string): MessageLanguage => {
+  const code = (language || '').split('-')[0];
+  return code === 'ar' || code === 'ary' ? code : 'en';
+};
+
+const getPhrases = (language?: string): MessagePhrases => MESSAGE_PHRASES[getMessageLanguage(language)];
+
+const formatMessagePrice = (amount: number, language?: string): string => {
+  return formatPrice(amount, { language: getMessageLanguage(language) });
+};
+
+const formatBullets = (bullets: string[]): string[] => bullets.map(bullet => `• ${bullet}`);
+
 /**
  * Creates a quick contact message for browsing customers
  */
-export const createQuickContactMessage = (seller: Seller, customerName?: string): string => {
+export const createQuickContactMessage = (seller: Pick<Seller, 'specialty'>, customerName?: string, language?: string): string => {
+  const phrases = getPhrases(language);
   const lines = [
-    `👋 Hi! I found your ${seller.specialty} business on Machroub.`,
+    phrases.quickContact.intro(phrases.specialty(seller.specialty)),
     ``,
-    `I'm interested in your drinks menu. Could you please share more details about:`,
-    `• Available drinks and prices`,
-    `• Pickup/delivery options`,
-    `• Current availability`,
+    phrases.quickContact.question,
+    ...formatBullets(phrases.quickContact.bullets),
     ``,
   ];
 
   if (customerName) {
-    lines.push(`My name is ${customerName}.`);
+    lines.push(phrases.myName(customerName));
     lines.push(``);
   }
 
-  lines.push(`Thanks!`);
-  lines.push(`_Sent via Machroub_`);
+  lines.push(phrases.thanks);
+  lines.push(phrases.sentVia);
 
   return lines.join('\n');
 };
@@ -72,25 +257,34 @@ export const createProductInterestMessage = (
   productName: string,
   price: number,
   sellerSpecialty: string,
-  customerName?: string
+  customerName?: string,
+  options?: SelectedDrinkOption[],
+  language?: string
 ): string => {
+  const phrases = getPhrases(language);
   const lines = [
-    `🍵 Hi! I'm interested in ordering "${productName}" (${price.toFixed(2)} Dh) from your ${sellerSpecialty} business.`,
-    ``,
-    `Could you please confirm:`,
-    `• Current availability`,
-    `• Pickup/delivery options`,
-    `• Estimated preparation time`,
+    phrases.productInterest.intro(productName, formatMessagePrice(price, language), phrases.specialty(sellerSpecialty)),
     ``,
   ];
 
+  if (options && options.length > 0) {
+    lines.push(`⚙️ *${phrases.productInterest.options}:* ${formatSelectedOptions(options)}`);
+    lines.push(``);
+  }
+
+  lines.push(
+    phrases.productInterest.question,
+    ...formatBullets(phrases.productInterest.bullets),
+    ``,
+  );
+
   if (customerName) {
-    lines.push(`My name is ${customerName}.`);
+    lines.push(phrases.myName(customerName));
     lines.push(``);
   }
 
-  lines.push(`Thanks!`);
-  lines.push(`_Sent via Machroub_`);
+  lines.push(phrases.thanks);
+  lines.push(phrases.sentVia);
 
   return lines.join('\n');
 };
@@ -98,109 +292,201 @@ export const createProductInterestMessage = (
 /**
  * Creates an order inquiry message
  */
-export const createOrderInquiryMessage = (seller: Seller, drinkName: string, customerName?: string): string => {
+export const createOrderInquiryMessage = (seller: Seller, drinkName: string, customerName?: string, language?: string): string => {
+  const phrases = getPhrases(language);
   const lines = [
-    `🍵 Hi! I'd like to order from your ${seller.specialty} business.`,
+    phrases.orderInquiry.intro(phrases.specialty(seller.specialty)),
     ``,
-    `📋 *Interested in:* ${drinkName}`,
+    `📋 *${phrases.orderInquiry.interestedIn}:* ${drinkName}`,
     ``,
-    `Could you please confirm:`,
-    `• Price and availability`,
-    `• Pickup time and location`,
-    `• Payment method`,
+    phrases.orderInquiry.question,
+    ...formatBullets(phrases.orderInquiry.bullets),
     ``,
   ];
 
   if (customerName) {
-    lines.push(`👤 *Customer:* ${customerName}`);
+    lines.push(`👤 *${phrases.customer}:* ${customerName}`);
     lines.push(``);
   }
 
-  lines.push(`Thank you!`);
-  lines.push(`_Sent via Machroub_`);
+  lines.push(phrases.thankYou);
+  lines.push(phrases.sentVia);
 
   return lines.join('\n');
 };
 
 /**
- * Validates phone number format (now uses Moroccan validation)
+ * Short, human-friendly reference for an order ID
  */
-export const isValidPhoneNumber = (phone: string): boolean => {
-  const result = validateAndNormalizeMoroccanPhone(phone);
-  return result.isValid;
+export const formatOrderReference = (orderId: string): string => {
+  return `#${orderId.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+};
+
+// One bullet per item, with its options and notes underneath
+const formatOrderItemLines = (items: OrderItem[], language?: string): string[] => {
+  const lines: string[] = [];
+  items.forEach(item => {
+    lines.push(`• ${item.quantity} × ${item.name} (${formatMessagePrice(item.lineTotal ?? item.price * item.quantity, language)})`);
+    if (item.options && item.options.length > 0) {
+      lines.push(`   ${formatSelectedOptions(item.options)}`);
+    }
+    if (item.notes) {
+      lines.push(`   _${item.notes}_`);
+    }
+  });
+  return lines;
 };
 
 /**
- * Formats phone number for display (now uses Moroccan formatting)
+ * Creates a notification message for an order that was placed in the app
  */
-export const formatPhoneNumber = (phone: string): string => {
-  const result = validateAndNormalizeMoroccanPhone(phone);
+export const createOrderNotificationMessage = (
+  orderId: string,
+  items: OrderItem[],
+  total: number,
+  customerName?: string,
+  notes?: string,
+  language?: string
+): string => {
+  const phrases = getPhrases(language);
+  const lines = [
+    phrases.orderNotification.intro(formatOrderReference(orderId)),
+    ``,
+    ...formatOrderItemLines(items, language),
+    ``,
+  ];
 
-  if (result.isValid) {
-    return result.displayNumber;
+  lines.push(`💰 *${phrases.orderNotification.total}:* ${formatMessagePrice(total, language)}`);
+
+  if (notes) {
+    lines.push(`📝 *${phrases.notes}:* ${notes}`);
   }
 
-  // Fallback to original formatting for non-Moroccan numbers
-  const cleanPhone = phone.replace(/\D/g, '');
+  lines.push(``);
 
-  if (cleanPhone.length === 10) {
-    return `(${cleanPhone.slice(0, 3)}) ${cleanPhone.slice(3, 6)}-${cleanPhone.slice(6)}`;
-  } else if (cleanPhone.length === 11 && cleanPhone.startsWith('1')) {
-    return `+1 (${cleanPhone.slice(1, 4)}) ${cleanPhone.slice(4, 7)}-${cleanPhone.slice(7)}`;
+  if (customerName) {
+    lines.push(`👤 *${phrases.customer}:* ${customerName}`);
+    lines.push(``);
   }
 
-  return phone; // Return original if can't format
+  lines.push(phrases.orderNotification.footer);
+  lines.push(phrases.sentVia);
+
+  return lines.join('\n');
+};
+
+/**
+ * Creates a single itemised message for a cart that hasn't been placed as an order
+ */
+export const createCartInquiryMessage = (
+  items: OrderItem[],
+  total: number,
+  sellerSpecialty?: string,
+  customerName?: string,
+  notes?: string,
+  language?: string
+): string => {
+  const phrases = getPhrases(language);
+  const lines = [
+    phrases.cartInquiry.intro(phrases.specialty(sellerSpecialty || 'drinks')),
+    ``,
+    ...formatOrderItemLines(items, language),
+    ``,
+    `💰 *${phrases.cartInquiry.subtotal}:* ${formatMessagePrice(total, language)}`,
+  ];
+
+  if (notes) {
+    lines.push(`📝 *${phrases.notes}:* ${notes}`);
+  }
+
+  lines.push(``);
+  lines.push(phrases.cartInquiry.question);
+  lines.push(``);
+
+  if (customerName) {
+    lines.push(`👤 *${phrases.customer}:* ${customerName}`);
+    lines.push(``);
+  }
+
+  lines.push(phrases.thankYou);
+  lines.push(phrases.sentVia);
+
+  return lines.join('\n');
 };
 
 /**
  * Creates a business hours inquiry message
  */
-export const createBusinessHoursInquiry = (seller: Seller): string => {
+export const createBusinessHoursInquiry = (seller: Pick<Seller, 'specialty'>, language?: string): string => {
+  const phrases = getPhrases(language);
   return [
-    `⏰ Hi! I found your ${seller.specialty} business on Machroub.`,
+    phrases.businessHours.intro(phrases.specialty(seller.specialty)),
     ``,
-    `Could you please share your current business hours and availability?`,
+    phrases.businessHours.question,
     ``,
-    `Thanks!`,
-    `_Sent via Machroub_`
+    phrases.thanks,
+    phrases.sentVia
   ].join('\n');
 };
 
 /**
  * Creates a location/directions inquiry message
  */
-export const createLocationInquiry = (seller: Seller): string => {
+export const createLocationInquiry = (seller: Pick<Seller, 'specialty'>, language?: string): string => {
+  const phrases = getPhrases(language);
   return [
-    `📍 Hi! I'm interested in visiting your ${seller.specialty} business.`,
+    phrases.location.intro(phrases.specialty(seller.specialty)),
     ``,
-    `Could you please share:`,
-    `• Exact pickup location/address`,
-    `• Any specific directions or landmarks`,
-    `• Best time to visit`,
+    phrases.location.question,
+    ...formatBullets(phrases.location.bullets),
     ``,
-    `Thank you!`,
-    `_Sent via Machroub_`
+    phrases.thankYou,
+    phrases.sentVia
   ].join('\n');
 };
 
 /**
- * Tracks contact attempts for analytics
+ * Validates phone number format (now uses Moroccan validation)
+ */
+export const isValidPhoneNumber = (phone: string): boolean => {
+  const result = validateAndNormalizeMoroccanPhone(phone);
+  return result.isValid;
+};
+
+/**
+ * Formats phone number for display (now uses Moroccan formatting)
+ */
+export const formatPhoneNumber = (phone: string): string => {
+  const result = validateAndNormalizeMoroccanPhone(phone);
+
+  if (result.isValid) {
+    return result.displayNumber;
+  }
+
+  // Fallback to original formatting for non-Moroccan numbers
+  const cleanPhone = phone.replace(/\D/g, '');
+
+  if (cleanPhone.length === 10) {
+    return `(${cleanPhone.slice(0, 3)}) ${cleanPhone.slice(3, 6)}-${cleanPhone.slice(6)}`;
+  } else if (cleanPhone.length === 11 && cleanPhone.startsWith('1')) {
+    return `+1 (${cleanPhone.slice(1, 4)}) ${cleanPhone.slice(4, 7)}-${cleanPhone.slice(7)}`;
+  }
+
+  return phone; // Return original if can't format
+};
+
+/**
+ * Tracks contact attempts for analytics; pass the drink when the contact is about one
  */
-export const trackContactAttempt = (sellerId: string, contactType: 'whatsapp' | 'phone' | 'inquiry'): void => {
-  // In a real app, this would send analytics to backend
-  const contactData = {
-    sellerId,
-    contactType,
-    timestamp: new Date().toISOString(),
-    source: 'machroub_app'
-  };
-
-  // Store locally for now (in real app, send to analytics service)
-  const existingContacts = JSON.parse(localStorage.getItem('machroub_contacts') || '[]');
-  existingContacts.push(contactData);
-  localStorage.setItem('machroub_contacts', JSON.stringify(existingContacts));
-
-  console.log('Contact attempt tracked:', contactData);
+export const trackContactAttempt = (
+  sellerId: string,
+  contactType: 'whatsapp' | 'phone' | 'inquiry',
+  drinkId?: string | null
+): void => {
+  trackSellerEvent(sellerId, 'contact_attempt', {
+    drinkId,
+    metadata: { contact_type: contactType, source: 'machroub_app' }
+  });
 };
 
 